@@ -0,0 +1,207 @@
+/**
+ * GAVL Accounts
+ *
+ * Email + password accounts behind the Login screen. Passwords are hashed
+ * with scrypt (per-account random salt) and stored as a self-describing
+ * string, so cost parameters can be raised without invalidating old hashes:
+ *
+ *   scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>
+ *
+ * Signing in issues an ordinary `session` API token (_lib/auth.ts) - the SPA
+ * holds it as an HttpOnly cookie, so accounts add no second credential type.
+ *
+ * Password recovery mails a single-use code; only its SHA-256 is stored
+ * (recovery:{hash}) and it expires after RECOVERY_TTL.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'node:crypto';
+import { hashToken, issueToken, sessionCookie, TOKEN_KINDS, type TokenRecord } from './auth.js';
+import { atomicUpdate, keys, type SessionStore } from './store.js';
+
+export const MIN_PASSWORD_LENGTH = 10;
+export const MAX_PASSWORD_LENGTH = 256;
+export const RECOVERY_TTL = 60 * 60; // seconds
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface Account {
+  userId: string;
+  email: string;              // normalized (trimmed, lowercase)
+  name?: string;
+  passwordHash: string;
+  onboardingCompletedAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** What the SPA gets to see. */
+export interface PublicAccount {
+  userId: string;
+  email: string;
+  name: string | null;
+  onboardingCompleted: boolean;
+  createdAt: number;
+}
+
+interface RecoveryRecord {
+  userId: string;
+  createdAt: number;
+  consumedAt?: number;
+}
+
+// =============================================================================
+// PASSWORD HASHING
+// =============================================================================
+
+function scryptAsync(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const { N, r, p } = SCRYPT_PARAMS;
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, { N, r, p });
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), { N: Number(n), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Hashed once so a sign-in for an unknown email costs the same as a wrong password
+let dummyHash: Promise<string> | null = null;
+
+/** Burn one scrypt verification; keeps response time from revealing which emails exist. */
+export async function verifyAgainstDummy(password: string): Promise<void> {
+  dummyHash ??= hashPassword(randomBytes(16).toString('hex'));
+  await verifyPassword(password, await dummyHash);
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+export function normalizeEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const normalized = email.trim().toLowerCase();
+  return EMAIL_PATTERN.test(normalized) && normalized.length <= 254 ? normalized : null;
+}
+
+/** Returns an error message, or null when the password is acceptable. */
+export function passwordProblem(password: unknown): string | null {
+  if (typeof password !== 'string') return 'password is required';
+  if (password.length < MIN_PASSWORD_LENGTH) return `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  if (password.length > MAX_PASSWORD_LENGTH) return `password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+  return null;
+}
+
+export function publicAccount(account: Account): PublicAccount {
+  return {
+    userId: account.userId,
+    email: account.email,
+    name: account.name ?? null,
+    onboardingCompleted: account.onboardingCompletedAt !== undefined,
+    createdAt: account.createdAt,
+  };
+}
+
+// =============================================================================
+// ACCOUNT STORE
+// =============================================================================
+
+export function getAccount(store: SessionStore, userId: string): Promise<Account | null> {
+  return store.get<Account>(keys.account(userId));
+}
+
+export async function findAccountByEmail(store: SessionStore, email: string): Promise<Account | null> {
+  const userId = await store.get<string>(keys.accountEmail(email));
+  return userId ? getAccount(store, userId) : null;
+}
+
+export type CreateAccountResult =
+  | { ok: true; account: Account }
+  | { ok: false; reason: 'exists' };
+
+/** The email index is claimed atomically, so two racing sign-ups can't share an address. */
+export async function createAccount(
+  store: SessionStore,
+  input: { email: string; password: string; name?: string },
+): Promise<CreateAccountResult> {
+  const userId = `u_${randomBytes(8).toString('hex')}`;
+  const claimed = await atomicUpdate<string, boolean>(store, keys.accountEmail(input.email), existing =>
+    existing ? { result: false } : { write: { value: userId }, result: true },
+  );
+  if (!claimed) return { ok: false, reason: 'exists' };
+
+  const now = Date.now();
+  const account: Account = {
+    userId,
+    email: input.email,
+    ...(input.name && { name: input.name }),
+    passwordHash: await hashPassword(input.password),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store.set(keys.account(userId), account);
+  return { ok: true, account };
+}
+
+export async function updateAccount(
+  store: SessionStore,
+  userId: string,
+  change: (existing: Account) => Partial<Omit<Account, 'userId' | 'email' | 'createdAt'>>,
+): Promise<{ account: Account; previous: Account } | null> {
+  return atomicUpdate<Account, { account: Account; previous: Account } | null>(store, keys.account(userId), existing => {
+    if (!existing) return { result: null };
+    const updated: Account = { ...existing, ...change(existing), updatedAt: Date.now() };
+    return { write: { value: updated }, result: { account: updated, previous: existing } };
+  });
+}
+
+/** Issue a session token for a sign-in; returns the Set-Cookie value that carries it, and its record. */
+export async function startSession(
+  store: SessionStore,
+  account: Account,
+  label: string,
+): Promise<{ cookie: string; record: TokenRecord }> {
+  const { token, record } = await issueToken(store, account.userId, 'session', label);
+  return { cookie: sessionCookie(token, TOKEN_KINDS.session.ttlSeconds), record };
+}
+
+// =============================================================================
+// PASSWORD RECOVERY
+// =============================================================================
+
+/** Start a reset. The returned code goes to the account's email, never to the requester. */
+export async function createRecoveryCode(store: SessionStore, account: Account): Promise<string> {
+  const code = randomBytes(24).toString('base64url');
+  const record: RecoveryRecord = { userId: account.userId, createdAt: Date.now() };
+  await store.set(keys.recovery(hashToken(code)), record, RECOVERY_TTL);
+  return code;
+}
+
+/** Redeem a code (single use). Returns the account it was issued for. */
+export async function consumeRecoveryCode(store: SessionStore, code: string): Promise<Account | null> {
+  const key = keys.recovery(hashToken(code));
+  const claimed = await atomicUpdate<RecoveryRecord, RecoveryRecord | null>(store, key, existing =>
+    existing && !existing.consumedAt
+      ? { write: { value: { ...existing, consumedAt: Date.now() }, ttlSeconds: RECOVERY_TTL }, result: existing }
+      : { result: null },
+  );
+  if (!claimed) return null;
+  await store.del(key);
+  return getAccount(store, claimed.userId);
+}
@@ -0,0 +1,243 @@
+/**
+ * GAVL Appeal Repository
+ *
+ * Files and decides quarantine appeals (shared/appeal.ts) and moves the
+ * appealed session through the gate state machine to match:
+ *
+ *   fileAppeal     quarantined → under_appeal, queued for review
+ *   decideAppeal   under_appeal → released (approve) | forfeited (deny)
+ *
+ * Appeals are stored under appeal:{id} with each user's ids in
+ * appeals:{userId}; open ones are also listed in appeal-queue. Filing is
+ * capped at MAX_APPEALS_PER_PERIOD per APPEAL_PERIOD_DAYS per user.
+ *
+ * Both return the records they changed for the calling endpoint to audit.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import {
+  APPEAL_ATTACHMENT_TYPES,
+  APPEAL_PERIOD_DAYS,
+  isAppealable,
+  MAX_APPEAL_ATTACHMENTS,
+  MAX_APPEALS_PER_PERIOD,
+  MAX_ATTACHMENT_BYTES,
+  toAppealSummary,
+  withoutAttachmentData,
+  type Appeal,
+  type AppealAttachment,
+  type AppealDecision,
+  type AppealSummary,
+} from '../../shared/appeal.js';
+import { transitionGate, type GateState } from '../../shared/gate.js';
+import type { SessionCandidate } from '../../shared/schema.js';
+import type { AuditInput } from './audit.js';
+import { settleGates } from './gate.js';
+import { rateLimit, refundRateLimit } from './rate-limit.js';
+import { updateHistory } from './sessions.js';
+import { atomicUpdate, keys, TTL, type SessionStore } from './store.js';
+
+const DAY = 24 * 60 * 60;
+const MAX_ATTACHMENT_NAME_LENGTH = 120;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export type FileAppealOutcome =
+  | { status: 'missing' }
+  | { status: 'not_appealable'; state: GateState | null }
+  | { status: 'limited'; retryAfterSeconds: number }
+  | { status: 'filed'; appeal: Appeal; session: SessionCandidate; changes: AuditInput[] };
+
+export type DecideAppealOutcome =
+  | { status: 'missing' }
+  | { status: 'already_decided'; appeal: Appeal }
+  | { status: 'decided'; appeal: Appeal; session: SessionCandidate | null; changes: AuditInput[] };
+
+export function generateAppealId(): string {
+  return `AP-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`.toUpperCase();
+}
+
+// =============================================================================
+// ATTACHMENTS
+// =============================================================================
+
+/** Validate and digest `{ name, contentType, data }[]`; returns an error message on failure. */
+export function parseAttachments(raw: unknown): AppealAttachment[] | string {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) return 'attachments must be an array';
+  if (raw.length > MAX_APPEAL_ATTACHMENTS) return `At most ${MAX_APPEAL_ATTACHMENTS} attachments per appeal`;
+
+  const attachments: AppealAttachment[] = [];
+  for (const [i, item] of raw.entries()) {
+    const { name, contentType, data } = (item ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name || name.length > MAX_ATTACHMENT_NAME_LENGTH) {
+      return `attachments[${i}].name must be a string of at most ${MAX_ATTACHMENT_NAME_LENGTH} characters`;
+    }
+    if (typeof contentType !== 'string' || !APPEAL_ATTACHMENT_TYPES.includes(contentType)) {
+      return `attachments[${i}].contentType must be one of: ${APPEAL_ATTACHMENT_TYPES.join(', ')}`;
+    }
+    if (typeof data !== 'string' || !data || !BASE64.test(data)) {
+      return `attachments[${i}].data must be base64`;
+    }
+    const bytes = Buffer.from(data, 'base64');
+    if (bytes.length > MAX_ATTACHMENT_BYTES) {
+      return `attachments[${i}] is larger than ${MAX_ATTACHMENT_BYTES / 1024} KB`;
+    }
+    attachments.push({
+      name,
+      contentType,
+      size: bytes.length,
+      sha256: createHash('sha256').update(bytes).digest('hex'),
+      data,
+    });
+  }
+  return attachments;
+}
+
+// =============================================================================
+// READS
+// =============================================================================
+
+export function getAppeal(store: SessionStore, appealId: string): Promise<Appeal | null> {
+  return store.get<Appeal>(keys.appeal(appealId));
+}
+
+async function getAppeals(store: SessionStore, ids: string[]): Promise<Appeal[]> {
+  const records = await Promise.all(ids.map(id => getAppeal(store, id)));
+  return records.filter((a): a is Appeal => a !== null).map(withoutAttachmentData);
+}
+
+/** A user's appeals, newest first, without attachment bodies. */
+export async function listAppeals(store: SessionStore, userId: string): Promise<Appeal[]> {
+  const ids = (await store.get<string[]>(keys.userAppeals(userId))) ?? [];
+  return (await getAppeals(store, ids)).sort((a, b) => b.filedAt - a.filedAt);
+}
+
+/** Open appeals awaiting review, oldest first, without attachment bodies. */
+export async function readAppealQueue(store: SessionStore): Promise<Appeal[]> {
+  const ids = (await store.get<string[]>(keys.appealQueue)) ?? [];
+  return (await getAppeals(store, ids)).filter(a => a.status === 'open').sort((a, b) => a.filedAt - b.filedAt);
+}
+
+/** Latest appeal per session, for attaching to session responses. */
+export async function appealsBySession(store: SessionStore, userId: string): Promise<Map<string, AppealSummary>> {
+  const bySession = new Map<string, AppealSummary>();
+  for (const appeal of [...await listAppeals(store, userId)].reverse()) {
+    bySession.set(appeal.sessionId, toAppealSummary(appeal));
+  }
+  return bySession;
+}
+
+// =============================================================================
+// FILE
+// =============================================================================
+
+export async function fileAppeal(
+  store: SessionStore,
+  userId: string,
+  input: { sessionId: string; reason: string; attachments: AppealAttachment[] },
+  now: number,
+): Promise<FileAppealOutcome> {
+  const session = (await settleGates(store, userId, now)).find(s => s.id === input.sessionId);
+  if (!session) return { status: 'missing' };
+  if (!isAppealable(session.gate?.state)) return { status: 'not_appealable', state: session.gate?.state ?? null };
+
+  // Counted only once the session is known to be appealable
+  const bucket = `appeal:${userId}`;
+  const limit = await rateLimit(store, bucket, MAX_APPEALS_PER_PERIOD, APPEAL_PERIOD_DAYS * DAY);
+  if (!limit.allowed) return { status: 'limited', retryAfterSeconds: limit.retryAfterSeconds };
+
+  const appeal: Appeal = {
+    id: generateAppealId(),
+    userId,
+    sessionId: session.id,
+    gymName: session.gymName,
+    sessionStartedAt: session.createdAt,
+    reason: input.reason,
+    attachments: input.attachments,
+    status: 'open',
+    filedAt: now,
+  };
+
+  // Record first, then move the session: a session under appeal always has its appeal
+  await store.set(keys.appeal(appeal.id), appeal, TTL.APPEAL);
+  const attachmentNote = `${appeal.attachments.length} attachment${appeal.attachments.length === 1 ? '' : 's'}`;
+  const moved = await updateHistory<AuditInput & { after: SessionCandidate } | null>(store, userId, sessions => {
+    const current = sessions.find(s => s.id === session.id);
+    const next = current && transitionGate(current, 'appeal', now, `${appeal.id} · ${attachmentNote}`);
+    return next ? { updated: [next], result: { target: `session:${session.id}`, before: current, after: next } } : { result: null };
+  });
+  if (!moved) {
+    // Lost the session to a concurrent decision: nothing was filed, so the slot goes back
+    await store.del(keys.appeal(appeal.id));
+    await refundRateLimit(store, bucket);
+    return { status: 'not_appealable', state: session.gate?.state ?? null };
+  }
+
+  await atomicUpdate<string[], void>(store, keys.userAppeals(userId), current => ({
+    write: { value: [...(current ?? []), appeal.id], ttlSeconds: TTL.APPEAL },
+    result: undefined,
+  }));
+  await atomicUpdate<string[], void>(store, keys.appealQueue, current => ({
+    write: { value: [...(current ?? []), appeal.id] },
+    result: undefined,
+  }));
+
+  console.log(`[APPEAL] Filed ${appeal.id} | ${session.gymName} | ${attachmentNote} | Session: ${session.id}`);
+  return {
+    status: 'filed',
+    appeal: withoutAttachmentData(appeal),
+    session: moved.after,
+    changes: [{ target: `appeal:${appeal.id}`, before: null, after: appeal }, moved],
+  };
+}
+
+// =============================================================================
+// DECIDE
+// =============================================================================
+
+export async function decideAppeal(
+  store: SessionStore,
+  appealId: string,
+  decision: AppealDecision,
+  reviewer: string,
+  note: string | undefined,
+  now: number,
+): Promise<DecideAppealOutcome> {
+  type Decided = { status: 'decided'; appeal: Appeal; previous: Appeal };
+  const outcome = await atomicUpdate<Appeal, Exclude<DecideAppealOutcome, { status: 'decided' }> | Decided>(store, keys.appeal(appealId), current => {
+    if (!current) return { result: { status: 'missing' } };
+    if (current.status !== 'open') return { result: { status: 'already_decided', appeal: withoutAttachmentData(current) } };
+
+    const decided: Appeal = {
+      ...current,
+      status: decision === 'approve' ? 'approved' : 'denied',
+      decidedAt: now,
+      reviewer,
+      ...(note && { decisionNote: note }),
+    };
+    return { write: { value: decided, ttlSeconds: TTL.APPEAL }, result: { status: 'decided', appeal: decided, previous: current } };
+  });
+  if (outcome.status !== 'decided') return outcome;
+
+  const { appeal } = outcome;
+  // The session may have aged out of history; the appeal decision stands regardless
+  const moved = await updateHistory<AuditInput & { after: SessionCandidate } | null>(store, appeal.userId, sessions => {
+    const current = sessions.find(s => s.id === appeal.sessionId);
+    const next = current && transitionGate(current, decision, now, note ? `${appeal.id}: ${note}` : appeal.id);
+    return next ? { updated: [next], result: { target: `session:${current.id}`, before: current, after: next } } : { result: null };
+  });
+
+  await atomicUpdate<string[], void>(store, keys.appealQueue, current => ({
+    write: { value: (current ?? []).filter(id => id !== appeal.id) },
+    result: undefined,
+  }));
+
+  console.log(`[APPEAL] ${appeal.status.toUpperCase()} ${appeal.id} by ${reviewer} | Session: ${appeal.sessionId}${moved ? '' : ' (no longer in history)'}`);
+  const changes: AuditInput[] = [{ target: `appeal:${appeal.id}`, before: outcome.previous, after: appeal }];
+  return {
+    status: 'decided',
+    appeal: withoutAttachmentData(appeal),
+    session: moved?.after ?? null,
+    changes: moved ? [...changes, moved] : changes,
+  };
+}
@@ -0,0 +1,380 @@
+/**
+ * GAVL Apple Health Import
+ *
+ * Reads an iPhone Health export (Health → profile → Export All Health Data)
+ * straight from export.zip on disk:
+ *
+ *   apple_health_export/export.xml              <Workout> elements, HR <Record>s
+ *   apple_health_export/workout-routes/*.gpx    GPS route per outdoor workout
+ *
+ * export.xml runs to gigabytes, so it is never held in memory: it is
+ * inflated and tokenized chunk by chunk (_lib/zip.ts, _lib/xml.ts), twice -
+ * once to collect the workouts, once to keep the heart-rate samples that fall
+ * inside them. Everything else in the file is passed over.
+ *
+ * Each workout becomes a WorkoutRecord (source 'apple-health') with its HR
+ * summary, laps and streams: the route points with the nearest HR sample, or
+ * the HR samples alone for indoor workouts. One the user already has - from
+ * an earlier import, or from a FIT/GPX upload of the same session - is merged
+ * into that record by the dedupe engine (_lib/workout-dedupe.ts) and counted
+ * as a duplicate; one without usable dates, or that ended before `since`, is
+ * skipped.
+ */
+
+import type { WorkoutStreams } from '../../shared/streams.js';
+import { recordAudit, type AuditInput } from './audit.js';
+import { getList, keys, type SessionStore } from './store.js';
+import { linkWorkoutToSessions } from './wearable.js';
+import { findDuplicate, heartRateProfile, saveWorkout, type WorkoutMatch } from './workout-dedupe.js';
+import {
+  average,
+  elevationChange,
+  generateWorkoutId,
+  gpxTrackpoints,
+  largest,
+  smallest,
+  streamChannels,
+  trackpointStreams,
+  type LapSummary,
+  type Trackpoint,
+  type WorkoutRecord,
+} from './workout-files.js';
+import { createXmlTokenizer, parseXml, type XmlHandler } from './xml.js';
+import { openZipEntry, readZipEntries, readZipEntry, type ZipEntry } from './zip.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AppleHealthImportOptions {
+  since: number;                // ms; workouts that ended earlier are skipped
+  now?: number;
+  dryRun?: boolean;             // parse and report, store nothing
+}
+
+export interface AppleHealthImportResult {
+  workoutId?: string;           // a duplicate's: the stored record it was merged into
+  activityType: string;
+  startTime: number;
+  status: 'imported' | 'duplicate' | 'skipped';
+  reason?: string;              // why skipped; what a duplicate matched on
+}
+
+export interface AppleHealthImportSummary {
+  imported: number;
+  duplicates: number;
+  skipped: number;
+  heartRateSamples: number;     // samples that fell inside an imported workout
+  workouts: AppleHealthImportResult[];
+}
+
+// A <Workout> as read from export.xml, before it becomes a WorkoutRecord
+interface HealthWorkout {
+  activityType: string;
+  startTime: number;
+  endTime: number;
+  duration?: number;            // seconds
+  distance?: number;            // meters
+  calories?: number;
+  heartRate?: { avg?: number; min?: number; max?: number };
+  ascent?: number;              // meters
+  manufacturer?: string;
+  route?: string;               // FileReference path inside the zip
+  laps: { startTime: number; duration: number }[];
+  samples: [time: number, bpm: number][];
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const HEART_RATE = 'HKQuantityTypeIdentifierHeartRate';
+
+// A route point takes the nearest HR sample no further away than this
+const HR_MATCH_WINDOW_MS = 10_000;
+
+const DURATION_SECONDS: Record<string, number> = { s: 1, min: 60, hr: 3600 };
+const DISTANCE_METERS: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, yd: 0.9144, ft: 0.3048 };
+const ENERGY_KCAL: Record<string, number> = { kcal: 1, Cal: 1, kJ: 1 / 4.184 };
+const HEIGHT_METERS: Record<string, number> = { cm: 0.01, m: 1, ft: 0.3048 };
+const HEART_RATE_BPM: Record<string, number> = { 'count/min': 1 };
+
+// =============================================================================
+// ATTRIBUTES
+// =============================================================================
+
+// "2026-09-14 07:12:03 -0700"
+function healthDate(value: string | undefined): number {
+  const match = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/.exec(value ?? '');
+  return match ? Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`) : NaN;
+}
+
+function quantity(value: string | undefined, unit: string | undefined, factors: Record<string, number>): number | undefined {
+  const n = Number(value);
+  const factor = factors[unit ?? ''];
+  return value && Number.isFinite(n) && factor ? n * factor : undefined;
+}
+
+// HKWorkoutActivityTypeTraditionalStrengthTraining → traditional_strength_training
+function activityType(raw: string | undefined): string {
+  const name = (raw ?? '').replace(/^HKWorkoutActivityType/, '');
+  return name ? name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase() : 'unknown';
+}
+
+function round(value: number | undefined, digits = 0): number | undefined {
+  if (value === undefined || !Number.isFinite(value)) return undefined;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function readWorkout(attributes: Record<string, string>): HealthWorkout {
+  return {
+    activityType: activityType(attributes.workoutActivityType),
+    startTime: healthDate(attributes.startDate),
+    endTime: healthDate(attributes.endDate),
+    duration: quantity(attributes.duration, attributes.durationUnit, DURATION_SECONDS),
+    // Older exports total on the element; newer ones in WorkoutStatistics
+    distance: quantity(attributes.totalDistance, attributes.totalDistanceUnit, DISTANCE_METERS),
+    calories: quantity(attributes.totalEnergyBurned, attributes.totalEnergyBurnedUnit, ENERGY_KCAL),
+    manufacturer: /manufacturer:([^,>]+)/.exec(attributes.device ?? '')?.[1].trim(),
+    laps: [],
+    samples: [],
+  };
+}
+
+function readStatistics(workout: HealthWorkout, attributes: Record<string, string>): void {
+  const type = (attributes.type ?? '').replace(/^HKQuantityTypeIdentifier/, '');
+  if (type === 'HeartRate') {
+    workout.heartRate = {
+      avg: quantity(attributes.average, attributes.unit, HEART_RATE_BPM),
+      min: quantity(attributes.minimum, attributes.unit, HEART_RATE_BPM),
+      max: quantity(attributes.maximum, attributes.unit, HEART_RATE_BPM),
+    };
+  } else if (type === 'ActiveEnergyBurned') {
+    workout.calories = quantity(attributes.sum, attributes.unit, ENERGY_KCAL) ?? workout.calories;
+  } else if (type.startsWith('Distance')) {
+    workout.distance = quantity(attributes.sum, attributes.unit, DISTANCE_METERS) ?? workout.distance;
+  }
+}
+
+// =============================================================================
+// STREAMING PASSES
+// =============================================================================
+
+async function scan(zipPath: string, entry: ZipEntry, handler: XmlHandler): Promise<void> {
+  const tokenizer = createXmlTokenizer(handler);
+  const stream = await openZipEntry(zipPath, entry);
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) tokenizer.write(chunk as string);
+  tokenizer.end();
+}
+
+// Pass 1: every <Workout> with its statistics, laps and route reference
+async function readWorkouts(zipPath: string, entry: ZipEntry): Promise<HealthWorkout[]> {
+  const workouts: HealthWorkout[] = [];
+  let current: HealthWorkout | null = null;
+
+  await scan(zipPath, entry, {
+    open(name, attributes) {
+      if (name === 'Workout') {
+        current = readWorkout(attributes);
+        return;
+      }
+      if (!current) return;
+      if (name === 'WorkoutStatistics') {
+        readStatistics(current, attributes);
+      } else if (name === 'WorkoutEvent' && attributes.type === 'HKWorkoutEventTypeLap') {
+        const duration = quantity(attributes.duration, attributes.durationUnit, DURATION_SECONDS);
+        const startTime = healthDate(attributes.date);
+        if (duration !== undefined && Number.isFinite(startTime)) current.laps.push({ startTime, duration });
+      } else if (name === 'MetadataEntry' && attributes.key === 'HKElevationAscended') {
+        const [value, unit] = (attributes.value ?? '').split(' ');
+        current.ascent = quantity(value, unit, HEIGHT_METERS);
+      } else if (name === 'FileReference' && attributes.path) {
+        current.route = attributes.path;
+      }
+    },
+    close(name) {
+      if (name === 'Workout' && current) {
+        workouts.push(current);
+        current = null;
+      }
+    },
+  });
+  return workouts;
+}
+
+// Pass 2: HR samples inside a workout window; `workouts` sorted by start
+async function readHeartRate(zipPath: string, entry: ZipEntry, workouts: HealthWorkout[]): Promise<void> {
+  const first = workouts[0]?.startTime ?? Infinity;
+
+  await scan(zipPath, entry, {
+    open(name, attributes) {
+      if (name !== 'Record' || attributes.type !== HEART_RATE) return;
+      const time = healthDate(attributes.startDate);
+      const bpm = Number(attributes.value);
+      if (!(time >= first) || !Number.isFinite(bpm)) return;
+
+      // Last workout starting at or before the sample, and the one before in case they overlap
+      let lo = 0;
+      let hi = workouts.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi + 1) >> 1;
+        if (workouts[mid].startTime <= time) lo = mid;
+        else hi = mid - 1;
+      }
+      for (const workout of [workouts[lo], workouts[lo - 1]]) {
+        if (workout && time >= workout.startTime && time <= workout.endTime) workout.samples.push([time, bpm]);
+      }
+    },
+  });
+}
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+function nearestSample(samples: [number, number][], time: number): number | null {
+  let lo = 0;
+  let hi = samples.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid][0] < time) lo = mid + 1;
+    else hi = mid;
+  }
+  let best: [number, number] | undefined;
+  for (const candidate of [samples[lo - 1], samples[lo]]) {
+    if (candidate && (!best || Math.abs(candidate[0] - time) < Math.abs(best[0] - time))) best = candidate;
+  }
+  return best && Math.abs(best[0] - time) <= HR_MATCH_WINDOW_MS ? best[1] : null;
+}
+
+function workoutTrackpoints(workout: HealthWorkout, route: Trackpoint[]): Trackpoint[] {
+  if (route.length > 0) {
+    return route
+      .filter(p => p.time >= workout.startTime && p.time <= workout.endTime)
+      .map(p => ({ ...p, heartRate: nearestSample(workout.samples, p.time) }));
+  }
+  return workout.samples.map(([time, bpm]) => ({
+    time, lat: null, lon: null, altitude: null, heartRate: bpm, cadence: null, power: null, distance: null,
+  }));
+}
+
+async function readRoute(zipPath: string, entries: ZipEntry[], path: string | undefined): Promise<Trackpoint[]> {
+  if (!path) return [];
+  const entry = entries.find(e => e.name.endsWith(path));
+  if (!entry) return [];
+  try {
+    const gpx = parseXml((await readZipEntry(zipPath, entry)).toString('utf8').replace(/^\uFEFF/, ''));
+    return gpxTrackpoints(gpx).filter(p => Number.isFinite(p.time)).sort((a, b) => a.time - b.time);
+  } catch (error) {
+    console.warn(`[APPLE-HEALTH] Unreadable route ${path}:`, error);
+    return [];
+  }
+}
+
+function buildWorkout(workout: HealthWorkout, userId: string, points: Trackpoint[], streams: WorkoutStreams | undefined, now: number): WorkoutRecord {
+  const bpm = workout.samples.map(([, value]) => value);
+  const duration = Math.round(workout.duration ?? (workout.endTime - workout.startTime) / 1000);
+  const { ascent, descent } = elevationChange(points);
+  const laps: LapSummary[] = workout.laps
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((lap, i) => ({ lapNumber: i + 1, startTime: lap.startTime, duration: Math.round(lap.duration) }));
+
+  return {
+    id: generateWorkoutId(),
+    userId,
+    source: 'apple-health',
+    activityType: workout.activityType,
+    startTime: workout.startTime,
+    endTime: workout.endTime,
+    duration,
+    distance: round(workout.distance, 1),
+    calories: round(workout.calories),
+    avgHeartRate: round(workout.heartRate?.avg ?? average(bpm)),
+    maxHeartRate: round(workout.heartRate?.max ?? largest(bpm)),
+    minHeartRate: round(workout.heartRate?.min ?? smallest(bpm)),
+    avgSpeed: workout.distance && duration > 0 ? round(workout.distance / duration, 2) : undefined,
+    totalAscent: round(workout.ascent ?? ascent),
+    totalDescent: round(descent),
+    deviceManufacturer: workout.manufacturer,
+    recordCount: points.length || undefined,
+    streamChannels: streamChannels(streams),
+    hrProfile: streams ? heartRateProfile(streams) : undefined,
+    laps: laps.length > 0 ? laps : undefined,
+    createdAt: now,
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/** Import every workout in a Health export.zip for `userId`. */
+export async function importAppleHealth(
+  store: SessionStore,
+  userId: string,
+  zipPath: string,
+  options: AppleHealthImportOptions,
+): Promise<AppleHealthImportSummary> {
+  const now = options.now ?? Date.now();
+  const entries = await readZipEntries(zipPath);
+  const exportEntry = entries.find(e => /(^|\/)export\.xml$/.test(e.name));
+  if (!exportEntry) throw new Error('No export.xml in the zip - is this a Health export?');
+
+  const summary: AppleHealthImportSummary = { imported: 0, duplicates: 0, skipped: 0, heartRateSamples: 0, workouts: [] };
+  const report = (workout: HealthWorkout, status: AppleHealthImportResult['status'], extra: Partial<AppleHealthImportResult> = {}) => {
+    summary.workouts.push({ activityType: workout.activityType, startTime: workout.startTime, status, ...extra });
+    if (status === 'imported') summary.imported++;
+    else if (status === 'duplicate') summary.duplicates++;
+    else summary.skipped++;
+  };
+
+  const candidates: HealthWorkout[] = [];
+  const dated: HealthWorkout[] = [];
+  for (const workout of await readWorkouts(zipPath, exportEntry)) {
+    if (Number.isFinite(workout.startTime) && Number.isFinite(workout.endTime) && workout.endTime >= workout.startTime) {
+      dated.push(workout);
+    } else {
+      report(workout, 'skipped', { reason: 'missing or invalid dates' });
+    }
+  }
+  for (const workout of dated.sort((a, b) => a.startTime - b.startTime)) {
+    if (workout.endTime < options.since) {
+      report(workout, 'skipped', { reason: `ended before ${new Date(options.since).toISOString().slice(0, 10)}` });
+    } else {
+      candidates.push(workout);
+    }
+  }
+  if (candidates.length > 0) await readHeartRate(zipPath, exportEntry, candidates);
+
+  // A dry run matches against a copy of the history instead of saving into it
+  const history = options.dryRun ? await getList<WorkoutRecord>(store, keys.workouts(userId)) : [];
+  const changes: AuditInput[] = [];
+  for (const workout of candidates) {
+    workout.samples.sort((a, b) => a[0] - b[0]);
+    const points = workoutTrackpoints(workout, await readRoute(zipPath, entries, workout.route));
+    const streams = trackpointStreams(points, workout.startTime);
+    const record = buildWorkout(workout, userId, points, streams, now);
+
+    let duplicate: WorkoutMatch | null;
+    if (options.dryRun) {
+      duplicate = findDuplicate(history, record);
+      if (!duplicate) history.push(record);
+    } else {
+      const saved = await saveWorkout(store, record, streams);
+      duplicate = saved.duplicate;
+      changes.push(...saved.changes, ...await linkWorkoutToSessions(store, saved.workout, now));
+    }
+
+    if (duplicate) {
+      report(workout, 'duplicate', { workoutId: duplicate.workout.id, reason: `matched on ${duplicate.matchedOn.join(', ')}` });
+    } else {
+      summary.heartRateSamples += workout.samples.length;
+      report(workout, 'imported', { workoutId: record.id });
+    }
+  }
+
+  if (changes.length > 0) await recordAudit(store, 'system', 'workout.import', changes, now);
+  return summary;
+}
@@ -0,0 +1,367 @@
+/**
+ * GAVL Audit Log
+ *
+ * Appends, seals and checks the daily audit log (shared/audit.ts):
+ *
+ *   recordAudit       append one entry for a state-changing call
+ *   sealPendingDays   sign a root for every finished day not yet sealed
+ *   verifyAuditRoot   check a sealed root's signature (and, given one, its key)
+ *   verifyAuditChain  check a day's hash-linked entries
+ *   verifyAuditDay    check a day's entries against its sealed Merkle root
+ *
+ * Each entry is stored under its own key, audit:{day}:{seq}, and claimed with
+ * a compare-and-set on the absent key: concurrent writers never rewrite each
+ * other's entries, and one that loses a slot links onto the winner and takes
+ * the next. A day is sealed by claiming the slot after its last entry, so no
+ * entry can land under a root that doesn't cover it.
+ *
+ * Days are sealed lazily, like gate expiry: the first entry of a new day and
+ * every read of the roots seal whatever days have ended since the last seal.
+ *
+ * Roots are signed with GAVL_AUDIT_SIGNING_KEY (Ed25519, PKCS#8 as PEM or
+ * base64 DER). Without it, development signs with a throwaway key generated
+ * per process; production leaves days unsealed until a key is configured.
+ *
+ * An entry that can't be stored fails recordAudit (and with it the call it
+ * audits) rather than being dropped; a failed seal is only logged, as the
+ * next append or read of the roots retries it.
+ *
+ * Bookkeeping (rate limits, WebAuthn challenges, recovery-code use, tag
+ * counters, token lastUsedAt) and derived data (score snapshots, trust
+ * profiles) are not audited; they change as side effects of audited calls.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+  type KeyObject,
+} from 'node:crypto';
+import { auditDayOf, nextAuditDay, type AuditDay, type AuditEntry, type AuditRoot } from '../../shared/audit.js';
+import { canonicalJson, GENESIS_HASH, merkleRoot } from '../../shared/custody.js';
+import type { Principal } from './auth.js';
+import { atomicUpdate, ConcurrencyError, getList, keys, type SessionStore } from './store.js';
+
+const MAX_SEAL_ATTEMPTS = 3;
+const MAX_APPEND_ATTEMPTS = 6;
+
+// What one audit:{day}:{seq} key holds
+type AuditSlot = AuditEntry | { sealed: AuditRoot };
+
+// A record touched by a call, before hashing; null/undefined = absent
+export interface AuditInput {
+  target: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditSigner {
+  privateKey: KeyObject;
+  publicKey: string;
+  keyId: string;
+}
+
+// =============================================================================
+// HASHING
+// =============================================================================
+
+function sha256(text: string | Buffer): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/** SHA-256 of the canonical JSON of a record; null for an absent one. */
+export function recordHash(value: unknown): string | null {
+  return value === null || value === undefined ? null : sha256(canonicalJson(value));
+}
+
+export function entryHash(prevHash: string, entry: Omit<AuditEntry, 'prevHash' | 'hash'>): string {
+  const { seq, at, actor, tokenId, action, changes } = entry;
+  return sha256(prevHash + canonicalJson({ seq, at, actor, tokenId, action, changes }));
+}
+
+// What a day's signature covers
+function rootPayload(root: Omit<AuditRoot, 'publicKey' | 'signature'>): Buffer {
+  const { day, count, root: merkle, prevRoot, sealedAt, keyId } = root;
+  return Buffer.from(canonicalJson({ day, count, root: merkle, prevRoot, sealedAt, keyId }));
+}
+
+// =============================================================================
+// SIGNING KEY
+// =============================================================================
+
+let signer: AuditSigner | null | undefined;
+
+function loadPrivateKey(): KeyObject | null {
+  const configured = process.env.GAVL_AUDIT_SIGNING_KEY;
+  if (configured) {
+    const key = configured.includes('BEGIN')
+      ? createPrivateKey(configured)
+      : createPrivateKey({ key: Buffer.from(configured, 'base64'), format: 'der', type: 'pkcs8' });
+    if (key.asymmetricKeyType !== 'ed25519') throw new Error('GAVL_AUDIT_SIGNING_KEY must be an Ed25519 private key');
+    return key;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('[AUDIT] GAVL_AUDIT_SIGNING_KEY not configured - audit days left unsealed');
+    return null;
+  }
+  console.warn('[AUDIT] GAVL_AUDIT_SIGNING_KEY not configured - signing with a throwaway key for this process');
+  return generateKeyPairSync('ed25519').privateKey;
+}
+
+function auditSigner(): AuditSigner | null {
+  if (signer !== undefined) return signer;
+  const privateKey = loadPrivateKey();
+  if (!privateKey) return (signer = null);
+
+  const der = createPublicKey(privateKey).export({ type: 'spki', format: 'der' });
+  signer = { privateKey, publicKey: der.toString('base64'), keyId: sha256(der).slice(0, 16) };
+  return signer;
+}
+
+/** The key roots are being signed with, if any. */
+export function auditPublicKey(): { keyId: string; publicKey: string } | null {
+  const current = auditSigner();
+  return current && { keyId: current.keyId, publicKey: current.publicKey };
+}
+
+// =============================================================================
+// SLOTS
+// =============================================================================
+
+function isSeal(slot: AuditSlot): slot is { sealed: AuditRoot } {
+  return 'sealed' in slot;
+}
+
+/** A day's entries in order, and its root once sealed. */
+async function readSlots(store: SessionStore, day: string): Promise<{ entries: AuditEntry[]; sealed?: AuditRoot }> {
+  // The length hint may lag behind; fetch up to it at once, then walk on to the first empty slot
+  const hint = (await store.get<number>(keys.auditLength(day))) ?? 0;
+  const slots = await Promise.all(Array.from({ length: hint }, (_, seq) => store.get<AuditSlot>(keys.auditEntry(day, seq))));
+  for (;;) {
+    const slot = await store.get<AuditSlot>(keys.auditEntry(day, slots.length));
+    if (!slot) break;
+    slots.push(slot);
+  }
+
+  const entries: AuditEntry[] = [];
+  for (const slot of slots) {
+    if (!slot) break;
+    if (isSeal(slot)) return { entries, sealed: slot.sealed };
+    entries.push(slot);
+  }
+  return { entries };
+}
+
+/**
+ * Claim the next free slot of `day` for an entry linked onto the one before
+ * it. Returns null when the day is already sealed.
+ */
+async function appendEntry(
+  store: SessionStore,
+  day: string,
+  content: Omit<AuditEntry, 'seq' | 'prevHash' | 'hash'>,
+): Promise<AuditEntry | null> {
+  let seq = (await store.get<number>(keys.auditLength(day))) ?? 0;
+  let prevHash = GENESIS_HASH;
+  if (seq > 0) {
+    const previous = await store.get<AuditSlot>(keys.auditEntry(day, seq - 1));
+    if (!previous || isSeal(previous)) seq = 0;
+    else prevHash = previous.hash;
+  }
+
+  // Losing a slot means another entry took it, so the log moved on; only a
+  // failed claim on a slot that still reads empty counts against the limit
+  let misses = 0;
+  let lost = false;
+  while (misses < MAX_APPEND_ATTEMPTS) {
+    const key = keys.auditEntry(day, seq);
+    const slot = await store.get<AuditSlot>(key);
+    if (slot) {
+      if (isSeal(slot)) return null;
+      prevHash = slot.hash;
+      seq++;
+      lost = false;
+      continue;
+    }
+    if (lost) misses++;
+
+    const unhashed = { seq, ...content };
+    const entry: AuditEntry = { ...unhashed, prevHash, hash: entryHash(prevHash, unhashed) };
+    if (await store.compareAndSet(key, null, entry)) {
+      // Only a hint for readers and the next writer; a stale one just costs a few reads
+      await store.set(keys.auditLength(day), seq + 1);
+      return entry;
+    }
+    lost = true;   // the next pass links onto whichever entry took the slot
+  }
+  throw new ConcurrencyError(keys.auditEntry(day, seq), MAX_APPEND_ATTEMPTS);
+}
+
+// =============================================================================
+// RECORD
+// =============================================================================
+
+function actorOf(who: Principal | string): Pick<AuditEntry, 'actor' | 'tokenId'> {
+  if (typeof who === 'string') return { actor: who };
+  return who.tokenId ? { actor: who.userId, tokenId: who.tokenId } : { actor: who.userId };
+}
+
+/**
+ * Append one entry for a state-changing call. `who` is the authenticated
+ * principal, or a plain actor ("system", or the userId of a sign-in).
+ * Throws when the entry can't be stored.
+ */
+export async function recordAudit(
+  store: SessionStore,
+  who: Principal | string,
+  action: string,
+  changes: AuditInput[],
+  now: number = Date.now(),
+): Promise<void> {
+  const hashed = changes.map(c => ({ target: c.target, before: recordHash(c.before), after: recordHash(c.after) }));
+  const content = { at: now, ...actorOf(who), action, changes: hashed };
+
+  // A day sealed under us (clock skew between instances) pushes the entry to the next one
+  let day = auditDayOf(now);
+  let entry = await appendEntry(store, day, content);
+  while (!entry) {
+    day = nextAuditDay(day);
+    entry = await appendEntry(store, day, content);
+  }
+
+  if (entry.seq === 0) {
+    await atomicUpdate<string[], void>(store, keys.auditDays, current => (
+      (current ?? []).includes(day)
+        ? { result: undefined }
+        : { write: { value: [...(current ?? []), day] }, result: undefined }
+    ));
+    try {
+      await sealPendingDays(store, now);
+    } catch (err) {
+      console.error('[AUDIT] Failed to seal pending days:', err);
+    }
+  }
+}
+
+// =============================================================================
+// SEAL
+// =============================================================================
+
+async function sealDay(store: SessionStore, day: string, prevRoot: string, key: AuditSigner, now: number): Promise<AuditRoot | null> {
+  for (let attempt = 0; attempt < MAX_SEAL_ATTEMPTS; attempt++) {
+    const current = await readSlots(store, day);
+    if (current.sealed) return current.sealed;
+    if (current.entries.length === 0) return null;
+
+    const unsigned = {
+      day,
+      count: current.entries.length,
+      root: await merkleRoot(current.entries.map(e => e.hash)),
+      prevRoot,
+      sealedAt: now,
+      keyId: key.keyId,
+    };
+    const root: AuditRoot = {
+      ...unsigned,
+      publicKey: key.publicKey,
+      signature: sign(null, rootPayload(unsigned), key.privateKey).toString('base64'),
+    };
+
+    // The seal takes the slot after the entries it covers; a late entry there means try again
+    if (await store.compareAndSet<AuditSlot>(keys.auditEntry(day, root.count), null, { sealed: root })) return root;
+  }
+  return null;
+}
+
+/** Seal every finished day that has entries and no root yet, oldest first. */
+export async function sealPendingDays(store: SessionStore, now: number = Date.now()): Promise<AuditRoot[]> {
+  const today = auditDayOf(now);
+  const [days, roots] = await Promise.all([
+    getList<string>(store, keys.auditDays),
+    getList<AuditRoot>(store, keys.auditRoots),
+  ]);
+  const sealedDays = new Set(roots.map(r => r.day));
+  const pending = days.filter(d => d < today && !sealedDays.has(d)).sort();
+  if (pending.length === 0) return [];
+
+  const key = auditSigner();
+  if (!key) return [];
+
+  const sealed: AuditRoot[] = [];
+  let prevRoot = roots.length > 0 ? roots[roots.length - 1].root : GENESIS_HASH;
+  for (const day of pending) {
+    const root = await sealDay(store, day, prevRoot, key, now);
+    if (!root) break;   // keep the roots contiguous; the next seal picks up from here
+
+    await atomicUpdate<AuditRoot[], void>(store, keys.auditRoots, current => (
+      (current ?? []).some(r => r.day === day)
+        ? { result: undefined }
+        : { write: { value: [...(current ?? []), root] }, result: undefined }
+    ));
+    console.log(`[AUDIT] Sealed ${day} | ${root.count} entries | root ${root.root.slice(0, 12)}… | key ${root.keyId}`);
+    sealed.push(root);
+    prevRoot = root.root;
+  }
+  return sealed;
+}
+
+// =============================================================================
+// READS
+// =============================================================================
+
+export function listAuditRoots(store: SessionStore): Promise<AuditRoot[]> {
+  return getList<AuditRoot>(store, keys.auditRoots);
+}
+
+export async function readAuditDay(store: SessionStore, day: string): Promise<AuditDay | null> {
+  const { entries, sealed } = await readSlots(store, day);
+  if (entries.length === 0 && !sealed) return null;
+  return { day, entries, ...(sealed && { sealed }) };
+}
+
+// =============================================================================
+// VERIFY (offline; no store needed)
+// =============================================================================
+
+/**
+ * Check a root's signature. With `trustedKey` (base64 SPKI DER) the root must
+ * be signed by that key; without it the key embedded in the root is used,
+ * which proves integrity but not who signed.
+ */
+export function verifyAuditRoot(root: AuditRoot, trustedKey?: string): boolean {
+  const publicKey = trustedKey ?? root.publicKey;
+  if (publicKey !== root.publicKey) return false;
+
+  const der = Buffer.from(publicKey, 'base64');
+  if (sha256(der).slice(0, 16) !== root.keyId) return false;
+  try {
+    const key = createPublicKey({ key: der, format: 'der', type: 'spki' });
+    return verify(null, rootPayload(root), key, Buffer.from(root.signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+/** Problems with a day's hash-linked entries; empty when the chain checks out. */
+export function verifyAuditChain(entries: AuditEntry[]): string[] {
+  const problems: string[] = [];
+  let prevHash = GENESIS_HASH;
+  for (const [i, entry] of entries.entries()) {
+    if (entry.seq !== i) problems.push(`entry ${i} has seq ${entry.seq}`);
+    if (entry.prevHash !== prevHash) problems.push(`entry ${i} is not linked to entry ${i - 1}`);
+    if (entryHash(entry.prevHash, entry) !== entry.hash) problems.push(`entry ${i} hash mismatch`);
+    prevHash = entry.hash;
+  }
+  return problems;
+}
+
+/** Problems with a day's entries against its sealed root; empty when it checks out. */
+export async function verifyAuditDay(entries: AuditEntry[], root: AuditRoot): Promise<string[]> {
+  const problems = verifyAuditChain(entries);
+  if (entries.length !== root.count) problems.push(`${entries.length} entries, root sealed ${root.count}`);
+  if (await merkleRoot(entries.map(e => e.hash)) !== root.root) problems.push('Merkle root does not match the sealed root');
+  return problems;
+}
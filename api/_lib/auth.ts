@@ -0,0 +1,244 @@
+/**
+ * GAVL API Authentication
+ *
+ * Every user-data endpoint takes `Authorization: Bearer <token>` - or, from
+ * the SPA, the HttpOnly `gavl_session` cookie set at sign-in - and derives
+ * the acting userId from it. Tokens are random 256-bit strings; only their
+ * SHA-256 is stored (token:{hash}), so a store dump can't be replayed.
+ *
+ *   shortcut   anchors:write only - lives in an Apple Shortcut, never expires
+ *   session    everything a signed-in user can do in the SPA, 30 days;
+ *              issued by /api/auth/login (see _lib/accounts.ts)
+ *
+ * GAVL_ADMIN_KEY (env) is a bootstrap credential with the `admin` scope: it
+ * manages facilities and tags, and mints the first tokens for a user. Admin
+ * requests act on the `userId` they name; everyone else acts as themselves.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { atomicUpdate, getStore, keys, type SessionStore } from './store.js';
+
+const DAY = 24 * 60 * 60;
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000;
+
+export const SESSION_COOKIE = 'gavl_session';
+
+// =============================================================================
+// SCOPES & TOKEN KINDS
+// =============================================================================
+
+export const SCOPES = [
+  'anchors:write',            // gym-checkin, gym-tap, gym-checkout, trust signals
+  'workouts:write',           // workout-ingest
+  'sessions:read',            // sessions, workouts, score, trust, gate, appeals, facilities (read)
+  'sessions:write',           // sessions-cleanup, score snapshots, gate confirmations, appeals
+  'tokens:manage',            // own tokens via /api/tokens
+  'account:manage',           // own account via /api/auth/*
+  'admin',                    // everything, for any user; appeal review
+] as const;
+
+export type Scope = typeof SCOPES[number];
+
+export const TOKEN_KINDS = {
+  shortcut: { scopes: ['anchors:write'], ttlSeconds: undefined },
+  session: {
+    scopes: ['anchors:write', 'workouts:write', 'sessions:read', 'sessions:write', 'tokens:manage', 'account:manage'],
+    ttlSeconds: 30 * DAY,
+  },
+} as const satisfies Record<string, { scopes: readonly Scope[]; ttlSeconds: number | undefined }>;
+
+export type TokenKind = keyof typeof TOKEN_KINDS;
+
+export interface TokenRecord {
+  id: string;                 // public handle (prefix of the hash)
+  userId: string;
+  kind: TokenKind;
+  scopes: Scope[];
+  label?: string;
+  createdAt: number;
+  expiresAt?: number;
+  lastUsedAt?: number;
+}
+
+export interface Principal {
+  userId: string;
+  scopes: readonly Scope[];
+  kind: TokenKind | 'admin';
+  tokenId: string | null;     // null for the admin key
+}
+
+export type AuthResult =
+  | { ok: true; principal: Principal; userId: string }
+  | { ok: false; status: number; error: string };
+
+// =============================================================================
+// TOKENS
+// =============================================================================
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function tokenId(hash: string): string {
+  return `tok_${hash.slice(0, 16)}`;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function bearerToken(req: any): string | null {
+  const header = req.headers?.authorization;
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = typeof value === 'string' ? /^Bearer\s+(\S+)$/i.exec(value.trim()) : null;
+  return match ? match[1] : null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function cookieToken(req: any): string | null {
+  const header = req.headers?.cookie;
+  if (typeof header !== 'string') return null;
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE && value.length > 0) return decodeURIComponent(value.join('='));
+  }
+  return null;
+}
+
+/** The caller's credential: an explicit bearer token wins over the session cookie. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function requestToken(req: any): string | null {
+  return bearerToken(req) ?? cookieToken(req);
+}
+
+/** Set-Cookie value carrying a session token; maxAgeSeconds 0 clears it. */
+export function sessionCookie(token: string, maxAgeSeconds: number): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/api; HttpOnly; SameSite=Strict; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+/** Sign-out: revoke the presented token if it is a session token. Shortcut tokens are left alone. */
+export async function revokeRequestToken(store: SessionStore, token: string): Promise<TokenRecord | null> {
+  const record = await store.get<TokenRecord>(keys.token(hashToken(token)));
+  return record?.kind === 'session' ? revokeToken(store, record.userId, record.id) : null;
+}
+
+/** Create a token for `userId`. The plaintext is returned once and never stored. */
+export async function issueToken(
+  store: SessionStore,
+  userId: string,
+  kind: TokenKind,
+  label?: string,
+): Promise<{ token: string; record: TokenRecord }> {
+  const token = `gavl_${kind}_${randomBytes(32).toString('base64url')}`;
+  const hash = hashToken(token);
+  const { scopes, ttlSeconds } = TOKEN_KINDS[kind];
+  const now = Date.now();
+
+  const record: TokenRecord = {
+    id: tokenId(hash),
+    userId,
+    kind,
+    scopes: [...scopes],
+    ...(label && { label }),
+    createdAt: now,
+    ...(ttlSeconds && { expiresAt: now + ttlSeconds * 1000 }),
+  };
+
+  await store.set(keys.token(hash), record, ttlSeconds);
+  await atomicUpdate<string[], void>(store, keys.userTokens(userId), current => ({
+    write: { value: [...(current ?? []), hash] },
+    result: undefined,
+  }));
+  return { token, record };
+}
+
+/** A user's live tokens. Hashes whose record expired are pruned from the index. */
+export async function listTokens(store: SessionStore, userId: string): Promise<TokenRecord[]> {
+  const hashes = (await store.get<string[]>(keys.userTokens(userId))) ?? [];
+  const records = await Promise.all(hashes.map(h => store.get<TokenRecord>(keys.token(h))));
+
+  const dead = hashes.filter((_, i) => !records[i]);
+  if (dead.length > 0) {
+    await atomicUpdate<string[], void>(store, keys.userTokens(userId), current => ({
+      write: { value: (current ?? []).filter(h => !dead.includes(h)) },
+      result: undefined,
+    }));
+  }
+  return records.filter((r): r is TokenRecord => r !== null);
+}
+
+/** Revoke one of a user's tokens; returns the revoked record, or null if there was none. */
+export async function revokeToken(store: SessionStore, userId: string, id: string): Promise<TokenRecord | null> {
+  const hashes = (await store.get<string[]>(keys.userTokens(userId))) ?? [];
+  const hash = hashes.find(h => tokenId(h) === id);
+  if (!hash) return null;
+
+  const record = await store.get<TokenRecord>(keys.token(hash));
+  await store.del(keys.token(hash));
+  await atomicUpdate<string[], void>(store, keys.userTokens(userId), current => ({
+    write: { value: (current ?? []).filter(h => h !== hash) },
+    result: undefined,
+  }));
+  return record;
+}
+
+// =============================================================================
+// REQUEST AUTHENTICATION
+// =============================================================================
+
+export function hasScope(principal: Principal, scope: Scope): boolean {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+function isAdminKey(token: string): boolean {
+  const adminKey = process.env.GAVL_ADMIN_KEY;
+  if (!adminKey) return false;
+  return timingSafeEqual(Buffer.from(hashToken(token), 'hex'), Buffer.from(hashToken(adminKey), 'hex'));
+}
+
+async function resolvePrincipal(store: SessionStore, token: string): Promise<Principal | null> {
+  if (isAdminKey(token)) {
+    return { userId: 'admin', scopes: ['admin'], kind: 'admin', tokenId: null };
+  }
+
+  const hash = hashToken(token);
+  const record = await store.get<TokenRecord>(keys.token(hash));
+  const now = Date.now();
+  if (!record || (record.expiresAt && record.expiresAt < now)) return null;
+
+  // Coarse lastUsedAt so every request isn't a write
+  if (!record.lastUsedAt || now - record.lastUsedAt > LAST_USED_RESOLUTION_MS) {
+    const ttlSeconds = record.expiresAt ? Math.ceil((record.expiresAt - now) / 1000) : undefined;
+    await store.set(keys.token(hash), { ...record, lastUsedAt: now }, ttlSeconds);
+  }
+  return { userId: record.userId, scopes: record.scopes, kind: record.kind, tokenId: record.id };
+}
+
+/**
+ * Authenticate the request and resolve who it acts for.
+ *
+ * `requestedUserId` is whatever the caller put in body/query (older Shortcuts
+ * still send it). Admin must name a user; a user token may only name itself.
+ */
+export async function authenticate(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  req: any,
+  scope: Scope,
+  requestedUserId?: unknown,
+): Promise<AuthResult> {
+  const token = requestToken(req);
+  if (!token) return { ok: false, status: 401, error: 'Missing Authorization: Bearer <token>' };
+
+  const principal = await resolvePrincipal(getStore(), token);
+  if (!principal) return { ok: false, status: 401, error: 'Invalid, expired or revoked token' };
+  if (!hasScope(principal, scope)) return { ok: false, status: 403, error: `Token lacks the ${scope} scope` };
+
+  const requested = typeof requestedUserId === 'string' && requestedUserId ? requestedUserId : undefined;
+  if (principal.kind === 'admin') {
+    return requested
+      ? { ok: true, principal, userId: requested }
+      : { ok: true, principal, userId: principal.userId };
+  }
+  if (requested && requested !== principal.userId) {
+    return { ok: false, status: 403, error: 'userId does not match the token' };
+  }
+  return { ok: true, principal, userId: principal.userId };
+}
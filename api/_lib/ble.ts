@@ -0,0 +1,151 @@
+/**
+ * GAVL BLE Beacon Verification
+ *
+ * A ble anchor reports the facility beacons the phone ranged. Two frame types:
+ *
+ *   iBeacon        { uuid, major, minor, rssi? }
+ *   Eddystone-UID  { uuid: <20 hex namespace>, instance: <12 hex>, rssi? }
+ *
+ * A reading matches a registered beacon when the UUID/namespace is equal and
+ * every major/minor/instance the facility registered is equal too (omitted
+ * fields on the facility match any value). Confidence is RSSI-weighted the
+ * same way as Wi-Fi, on a BLE scale:
+ *
+ *   strength(rssi) = 0 at -100 dBm … 1 at -60 dBm (unknown RSSI = 0.5)
+ *   confidence     = 1 - Π(1 - strength)   over matched readings
+ *   boost          = ANCHOR_BOOSTS.ble × confidence
+ *
+ * No match → the anchor is rejected.
+ */
+
+import type { AnchorEvidence } from '../../shared/schema.js';
+import { normalizeBeaconUuid, type BleBeacon, type Facility } from './facilities.js';
+
+const UUID_PATTERN = /^[0-9a-f]{32}$|^[0-9a-f]{20}$/;
+const INSTANCE_PATTERN = /^[0-9a-f]{12}$/;
+
+const RSSI_FLOOR = -100;              // dBm, edge of range
+const RSSI_CEILING = -60;             // dBm, a few meters away
+const UNKNOWN_RSSI_STRENGTH = 0.5;
+const VERIFIED_CONFIDENCE = 0.5;
+const MAX_READINGS = 32;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BeaconReading {
+  uuid: string;               // normalized, no dashes
+  major?: number;
+  minor?: number;
+  instance?: string;
+  rssi?: number;              // dBm
+}
+
+export interface BleMatch {
+  matched: BeaconReading[];
+  confidence: number;         // 0-1
+  evidence: AnchorEvidence;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function isUint16(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 0xffff;
+}
+
+function parseReading(value: unknown): BeaconReading | null {
+  const entry = value as Record<string, unknown> | null;
+  if (!entry || typeof entry !== 'object' || typeof entry.uuid !== 'string') return null;
+
+  const uuid = normalizeBeaconUuid(entry.uuid);
+  if (!UUID_PATTERN.test(uuid)) return null;
+
+  const reading: BeaconReading = { uuid };
+  const major = entry.major === undefined ? undefined : Number(entry.major);
+  const minor = entry.minor === undefined ? undefined : Number(entry.minor);
+  if (major !== undefined) {
+    if (!isUint16(major)) return null;
+    reading.major = major;
+  }
+  if (minor !== undefined) {
+    if (!isUint16(minor)) return null;
+    reading.minor = minor;
+  }
+  if (entry.instance !== undefined) {
+    if (typeof entry.instance !== 'string' || !INSTANCE_PATTERN.test(entry.instance.toLowerCase())) return null;
+    reading.instance = entry.instance.toLowerCase();
+  }
+  if (entry.rssi !== undefined && entry.rssi !== '') {
+    const rssi = Number(entry.rssi);
+    if (!Number.isFinite(rssi) || rssi > 0 || rssi < -127) return null;
+    reading.rssi = rssi;
+  }
+  return reading;
+}
+
+/**
+ * Read `beacons: [{ uuid, major?, minor?, instance?, rssi? }]` from a request
+ * body. Returns null when none were sent and an error string when malformed.
+ */
+export function parseBeaconReadings(body: Record<string, unknown>): BeaconReading[] | null | string {
+  if (body.beacons === undefined) return null;
+  const raw = body.beacons;
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_READINGS) {
+    return `beacons must be a list of 1-${MAX_READINGS} readings`;
+  }
+
+  const parsed = raw.map(parseReading);
+  if (parsed.some(r => r === null)) {
+    return 'each beacon must be { uuid, major, minor } (iBeacon) or { uuid: namespace, instance } (Eddystone-UID) with optional rssi';
+  }
+  return parsed as BeaconReading[];
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+function signalStrength(rssi: number | undefined): number {
+  if (rssi === undefined) return UNKNOWN_RSSI_STRENGTH;
+  const ratio = (rssi - RSSI_FLOOR) / (RSSI_CEILING - RSSI_FLOOR);
+  return Math.min(1, Math.max(0, ratio));
+}
+
+function matches(registered: BleBeacon, reading: BeaconReading): boolean {
+  return registered.uuid === reading.uuid
+    && (registered.major === undefined || registered.major === reading.major)
+    && (registered.minor === undefined || registered.minor === reading.minor)
+    && (registered.instance === undefined || registered.instance === reading.instance);
+}
+
+export function beaconLabel(reading: BeaconReading): string {
+  if (reading.instance) return `${reading.uuid}:${reading.instance}`;
+  if (reading.major !== undefined) return `${reading.uuid}:${reading.major}:${reading.minor ?? '*'}`;
+  return reading.uuid;
+}
+
+/** Match readings against the facility. Returns null when nothing matches. */
+export function matchBeacons(facility: Facility, readings: BeaconReading[]): BleMatch | null {
+  const matched = readings.filter(r => facility.bleBeacons.some(b => matches(b, r)));
+  if (matched.length === 0) return null;
+
+  const miss = matched.reduce((product, r) => product * (1 - signalStrength(r.rssi)), 1);
+  const confidence = Math.round((1 - miss) * 100) / 100;
+  if (confidence === 0) return null;
+
+  const best = matched.reduce((a, b) => (signalStrength(b.rssi) > signalStrength(a.rssi) ? b : a));
+  return {
+    matched,
+    confidence,
+    evidence: {
+      verdict: confidence >= VERIFIED_CONFIDENCE ? 'verified' : 'degraded',
+      beacon: beaconLabel(best),
+      rssi: best.rssi,
+      confidence,
+      matchedCount: matched.length,
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * GAVL CORS
+ *
+ * Browsers may only call the API from origins listed in CORS_ALLOWED_ORIGINS
+ * (comma-separated, e.g. "https://app.example.com,http://localhost:5173").
+ * Apple Shortcuts and curl send no Origin and are unaffected; the SPA served
+ * from the same Vercel deployment is same-origin and needs no entry.
+ *
+ * Usage, first thing in a handler:
+ *   if (applyCors(req, res, 'POST, OPTIONS')) return;
+ */
+
+function allowedOrigins(): string[] {
+  return (process.env.CORS_ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(o => o.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+}
+
+/** Set CORS headers. Returns true when the request was a preflight and has been answered. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function applyCors(req: any, res: any, methods: string): boolean {
+  const origin = req.headers?.origin;
+  if (typeof origin === 'string' && allowedOrigins().includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Idempotency-Key');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return true;
+  }
+  return false;
+}
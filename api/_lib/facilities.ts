@@ -0,0 +1,281 @@
+/**
+ * GAVL Facility Registry
+ *
+ * Gyms and other facilities live in the session store under `facilities`, so
+ * onboarding a new location is an API call (POST /api/facilities) rather than
+ * a redeploy. The registry is seeded with the original three Venice / Santa
+ * Monica gyms the first time it is read.
+ *
+ * Each facility carries everything the anchor endpoints verify against:
+ * coordinates + geofence radius, Wi-Fi BSSIDs, NFC tag IDs and BLE beacons.
+ */
+
+import type { ValidationResult } from '../../shared/schema.js';
+import { atomicUpdate, keys, type SessionStore } from './store.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface OpeningHours {
+  open: string;               // 'HH:MM' local time
+  close: string;              // 'HH:MM' local time (may be < open for overnight)
+}
+
+export interface BleBeacon {
+  uuid: string;               // iBeacon proximity UUID / Eddystone-UID namespace
+  major?: number;             // iBeacon only; omitted = any
+  minor?: number;             // iBeacon only; omitted = any
+  instance?: string;          // Eddystone-UID instance (12 hex); omitted = any
+}
+
+export interface Facility {
+  id: string;                 // slug, e.g. 'golds-venice'
+  name: string;
+  address?: string;
+  coords: [number, number];   // [lat, lon]
+  geofenceRadius: number;     // meters
+  wifiBssids: string[];       // lowercase aa:bb:cc:dd:ee:ff
+  nfcTagIds: string[];
+  bleBeacons: BleBeacon[];
+  timezone: string;           // IANA, used to read openingHours
+  openingHours: Partial<Record<Weekday, OpeningHours>>;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// What non-admin callers see: the allow-lists anchors are verified against
+// (BSSIDs, tag IDs, beacons) are exactly what a forged anchor needs
+export type PublicFacility = Pick<Facility, 'id' | 'name' | 'address' | 'coords' | 'geofenceRadius' | 'timezone' | 'openingHours'>;
+
+type FacilityRegistry = Record<string, Facility>;
+
+export const DEFAULT_GEOFENCE_RADIUS = 100; // meters
+
+// =============================================================================
+// SEED DATA (original hardcoded GYMS)
+// =============================================================================
+
+function seed(id: string, name: string, address: string, coords: [number, number]): Facility {
+  return {
+    id,
+    name,
+    address,
+    coords,
+    geofenceRadius: DEFAULT_GEOFENCE_RADIUS,
+    wifiBssids: [],
+    nfcTagIds: [],
+    bleBeacons: [],
+    timezone: 'America/Los_Angeles',
+    openingHours: {},
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+const SEED_FACILITIES: Facility[] = [
+  seed('golds-venice', "Gold's Gym Venice", '360 Hampton Dr, Venice, CA 90291', [33.9925, -118.4695]),
+  seed('jfm-boxing', 'JFM Boxing Club', '3127 Washington Blvd Unit 1, Venice, CA 90292', [33.9983, -118.4518]),
+  seed('gracie-originals', 'Gracie Originals', '1934 14th St, Santa Monica, CA 90404', [34.0195, -118.4695]),
+];
+
+function seededRegistry(): FacilityRegistry {
+  return Object.fromEntries(SEED_FACILITIES.map(f => [f.id, f]));
+}
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,62}$/;
+const BSSID_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$|^[0-9a-f]{20}$/;
+const INSTANCE_PATTERN = /^[0-9a-f]{12}$/;
+
+export function normalizeBssid(value: string): string {
+  return value.trim().toLowerCase().replace(/-/g, ':');
+}
+
+// iBeacon UUIDs are compared without dashes, Eddystone namespaces as-is
+export function normalizeBeaconUuid(value: string): string {
+  return value.trim().toLowerCase().replace(/-/g, '');
+}
+
+// Tag UIDs are stored and looked up as uppercase hex (_lib/nfc.ts)
+export function normalizeNfcTagId(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+export type FacilityInput = Partial<Omit<Facility, 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Validate a POST (full) or PATCH (partial) body. Normalizes BSSIDs and beacon
+ * UUIDs to lowercase and NFC tag IDs to uppercase so lookups are exact matches.
+ */
+export function validateFacilityInput(body: unknown, partial: boolean): ValidationResult<FacilityInput> {
+  if (typeof body !== 'object' || body === null) return { ok: false, errors: ['body must be an object'] };
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: FacilityInput = {};
+
+  const required = (field: string) => !partial && input[field] === undefined;
+
+  if (input.id !== undefined || !partial) {
+    if (typeof input.id !== 'string' || !ID_PATTERN.test(input.id)) errors.push('id must be a lowercase slug (a-z, 0-9, -)');
+    else value.id = input.id;
+  }
+  if (input.name !== undefined || required('name')) {
+    if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+    else value.name = input.name.trim();
+  }
+  if (input.address !== undefined) {
+    if (typeof input.address !== 'string') errors.push('address must be a string');
+    else value.address = input.address;
+  }
+  if (input.coords !== undefined || required('coords')) {
+    const coords = input.coords;
+    if (!Array.isArray(coords) || coords.length !== 2
+      || typeof coords[0] !== 'number' || Math.abs(coords[0]) > 90
+      || typeof coords[1] !== 'number' || Math.abs(coords[1]) > 180) {
+      errors.push('coords must be [lat, lon]');
+    } else {
+      value.coords = [coords[0], coords[1]];
+    }
+  }
+  if (input.geofenceRadius !== undefined) {
+    if (typeof input.geofenceRadius !== 'number' || input.geofenceRadius <= 0 || input.geofenceRadius > 5000) {
+      errors.push('geofenceRadius must be between 0 and 5000 meters');
+    } else {
+      value.geofenceRadius = input.geofenceRadius;
+    }
+  }
+  if (input.wifiBssids !== undefined) {
+    const bssids = isStringArray(input.wifiBssids) ? input.wifiBssids.map(normalizeBssid) : null;
+    if (!bssids || !bssids.every(b => BSSID_PATTERN.test(b))) errors.push('wifiBssids must be MAC addresses (aa:bb:cc:dd:ee:ff)');
+    else value.wifiBssids = [...new Set(bssids)];
+  }
+  if (input.nfcTagIds !== undefined) {
+    if (!isStringArray(input.nfcTagIds)) errors.push('nfcTagIds must be an array of strings');
+    else value.nfcTagIds = [...new Set(input.nfcTagIds.map(normalizeNfcTagId))];
+  }
+  if (input.bleBeacons !== undefined) {
+    const beacons = Array.isArray(input.bleBeacons) ? input.bleBeacons : null;
+    const parsed = beacons?.map(b => ({
+      uuid: typeof b?.uuid === 'string' ? normalizeBeaconUuid(b.uuid) : '',
+      major: typeof b?.major === 'number' ? b.major : undefined,
+      minor: typeof b?.minor === 'number' ? b.minor : undefined,
+      instance: typeof b?.instance === 'string' ? b.instance.toLowerCase() : undefined,
+    }));
+    const valid = parsed?.every(b => UUID_PATTERN.test(b.uuid)
+      && (b.instance === undefined || INSTANCE_PATTERN.test(b.instance)));
+    if (!parsed || !valid) errors.push('bleBeacons must be [{ uuid, major?, minor? } | { uuid: namespace, instance? }]');
+    else value.bleBeacons = parsed;
+  }
+  if (input.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: String(input.timezone) });
+      value.timezone = String(input.timezone);
+    } catch {
+      errors.push('timezone must be an IANA zone, e.g. America/Los_Angeles');
+    }
+  }
+  if (input.openingHours !== undefined) {
+    const hours = input.openingHours as Record<string, OpeningHours>;
+    const valid = typeof hours === 'object' && hours !== null && Object.entries(hours).every(([day, h]) =>
+      (WEEKDAYS as readonly string[]).includes(day)
+      && TIME_PATTERN.test(String(h?.open)) && TIME_PATTERN.test(String(h?.close)));
+    if (!valid) errors.push('openingHours must map mon..sun to { open: "HH:MM", close: "HH:MM" }');
+    else value.openingHours = hours;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+export function publicFacility(facility: Facility): PublicFacility {
+  const { id, name, address, coords, geofenceRadius, timezone, openingHours } = facility;
+  return { id, name, ...(address !== undefined && { address }), coords, geofenceRadius, timezone, openingHours };
+}
+
+// =============================================================================
+// REGISTRY ACCESS
+// =============================================================================
+
+async function readRegistry(store: SessionStore): Promise<FacilityRegistry> {
+  return (await store.get<FacilityRegistry>(keys.facilities)) ?? seededRegistry();
+}
+
+export async function listFacilities(store: SessionStore): Promise<Facility[]> {
+  return Object.values(await readRegistry(store)).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getFacility(store: SessionStore, id: string): Promise<Facility | null> {
+  return (await readRegistry(store))[id] ?? null;
+}
+
+// `previous` is the record before the change (null for a create), for the audit log
+type RegistryResult =
+  | { ok: true; facility: Facility; previous: Facility | null }
+  | { ok: false; reason: 'exists' | 'not_found' };
+
+function updateRegistry(
+  store: SessionStore,
+  mutate: (registry: FacilityRegistry) => { registry?: FacilityRegistry; result: RegistryResult },
+): Promise<RegistryResult> {
+  return atomicUpdate<FacilityRegistry, RegistryResult>(store, keys.facilities, current => {
+    const { registry, result } = mutate({ ...(current ?? seededRegistry()) });
+    return registry ? { write: { value: registry }, result } : { result };
+  });
+}
+
+export function createFacility(store: SessionStore, input: FacilityInput): Promise<RegistryResult> {
+  const now = Date.now();
+  return updateRegistry(store, registry => {
+    const id = input.id as string;
+    if (registry[id]) return { result: { ok: false, reason: 'exists' } };
+    const facility: Facility = {
+      ...seed(id, input.name as string, input.address ?? '', input.coords as [number, number]),
+      ...input,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+    return { registry: { ...registry, [id]: facility }, result: { ok: true, facility, previous: null } };
+  });
+}
+
+/**
+ * Apply `input` to a facility. Pass a function to derive the change from the
+ * current record (e.g. appending to nfcTagIds) inside the compare-and-set.
+ */
+export function updateFacility(
+  store: SessionStore,
+  id: string,
+  input: FacilityInput | ((existing: Facility) => FacilityInput),
+): Promise<RegistryResult> {
+  return updateRegistry(store, registry => {
+    const existing = registry[id];
+    if (!existing) return { result: { ok: false, reason: 'not_found' } };
+    const changes = typeof input === 'function' ? input(existing) : input;
+    const facility: Facility = { ...existing, ...changes, id, updatedAt: Date.now() };
+    return { registry: { ...registry, [id]: facility }, result: { ok: true, facility, previous: existing } };
+  });
+}
+
+export function deleteFacility(store: SessionStore, id: string): Promise<RegistryResult> {
+  return updateRegistry(store, registry => {
+    const existing = registry[id];
+    if (!existing) return { result: { ok: false, reason: 'not_found' } };
+    const rest = { ...registry };
+    delete rest[id];
+    return { registry: rest, result: { ok: true, facility: existing, previous: existing } };
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * GAVL Gate Service
+ *
+ * Runs the gate state machine (shared/gate.ts) against stored history:
+ *
+ *   finalizeToHistory   link a just-finalized session's wearable workouts
+ *                       (_lib/wearable.ts), gate it on its SCS, seal its
+ *                       custody root and append it
+ *   settleGates         expire pending confirmations whose window has closed,
+ *                       and gate finalized sessions stored before gating existed
+ *   resolveConfirmation the user accepts or rejects a pending confirmation
+ *
+ * Expiry is applied lazily: every reader of gated history goes through
+ * settleGates first, so an unanswered confirmation lands in quarantine the
+ * first time anyone looks after its deadline. Expiries are audited as the
+ * "system" actor; the other transitions return their changes for the
+ * calling endpoint to audit.
+ */
+
+import { extendCustodyChain } from '../../shared/custody.js';
+import { decideGate, expireGate, transitionGate, type GateAction } from '../../shared/gate.js';
+import type { SessionCandidate } from '../../shared/schema.js';
+import { computeScs } from '../../shared/scs.js';
+import { recordAudit, type AuditInput } from './audit.js';
+import { loadScsContext } from './scs.js';
+import { appendToHistory, readHistory, updateHistory } from './sessions.js';
+import type { SessionStore } from './store.js';
+import { linkWearable } from './wearable.js';
+
+export type ConfirmationOutcome =
+  | { status: 'missing' }
+  | { status: 'not_pending'; session: SessionCandidate }
+  | { status: 'resolved'; session: SessionCandidate; changes: AuditInput[] };
+
+/**
+ * Link a finalized session's wearable workouts, gate it, seal its custody
+ * chain and append it to history. Returns the gated session, root included,
+ * so the caller's audit entry records the root the session was sealed with.
+ */
+export async function finalizeToHistory(
+  store: SessionStore,
+  session: SessionCandidate,
+  now: number,
+): Promise<SessionCandidate> {
+  const linked = await linkWearable(store, session, now);
+  const scs = computeScs(linked, await loadScsContext(store, session.userId));
+  const gated = await extendCustodyChain(decideGate(linked, scs, now));
+  await appendToHistory(store, gated);
+  console.log(`[GATE] ${gated.gate?.state} | SCS: ${scs.value} | Session: ${session.id}`);
+  return gated;
+}
+
+/**
+ * History with overdue confirmations expired to quarantine and ungated
+ * finalized sessions gated on their SCS (both persisted).
+ */
+export async function settleGates(store: SessionStore, userId: string, now: number): Promise<SessionCandidate[]> {
+  await gateUndecided(store, userId, now);
+  const { sessions, changes } = await updateHistory(store, userId, current => {
+    const changes = current.flatMap(before => {
+      const after = expireGate(before, now);
+      return after ? [{ target: `session:${before.id}`, before, after }] : [];
+    });
+    const expired = changes.map(c => c.after);
+    const byId = new Map(expired.map(s => [s.id, s]));
+    return { updated: expired, result: { sessions: current.map(s => byId.get(s.id) ?? s), changes } };
+  });
+
+  for (const { after } of changes) {
+    console.log(`[GATE] Confirmation expired → quarantine | Session: ${after.id}`);
+  }
+  if (changes.length > 0) await recordAudit(store, 'system', 'gate.expire', changes, now);
+  return sessions;
+}
+
+// Gate finalized sessions that have no decision yet (history written before
+// gating), loading the SCS context only when there are any
+async function gateUndecided(store: SessionStore, userId: string, now: number): Promise<void> {
+  if (!(await readHistory(store, userId)).some(isUndecided)) return;
+
+  const context = await loadScsContext(store, userId);
+  const changes = await updateHistory(store, userId, current => {
+    const changes = current.filter(isUndecided).map(before => ({
+      target: `session:${before.id}`,
+      before,
+      after: decideGate(before, computeScs(before, context), now),
+    }));
+    return { updated: changes.map(c => c.after), result: changes };
+  });
+
+  for (const { after } of changes) {
+    console.log(`[GATE] Legacy session gated → ${after.gate?.state} | Session: ${after.id}`);
+  }
+  if (changes.length > 0) await recordAudit(store, 'system', 'gate.decide', changes, now);
+}
+
+function isUndecided(session: SessionCandidate): boolean {
+  return session.status === 'finalized' && !session.gate;
+}
+
+export async function resolveConfirmation(
+  store: SessionStore,
+  userId: string,
+  sessionId: string,
+  action: Exclude<GateAction, 'expire'>,
+  now: number,
+): Promise<ConfirmationOutcome> {
+  await settleGates(store, userId, now);
+  const outcome = await updateHistory<ConfirmationOutcome>(store, userId, sessions => {
+    const session = sessions.find(s => s.id === sessionId);
+    if (!session) return { result: { status: 'missing' } };
+
+    const next = transitionGate(session, action, now);
+    if (!next) return { result: { status: 'not_pending', session } };
+    return {
+      updated: [next],
+      result: { status: 'resolved', session: next, changes: [{ target: `session:${session.id}`, before: session, after: next }] },
+    };
+  });
+
+  if (outcome.status === 'resolved') {
+    console.log(`[GATE] ${outcome.session.gate?.state} by user | Session: ${sessionId}`);
+  }
+  return outcome;
+}
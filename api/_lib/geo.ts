@@ -0,0 +1,81 @@
+/**
+ * GAVL Geofence Validation
+ *
+ * A geofence claim from Apple Shortcuts is only a claim. When the payload
+ * carries the device position we measure it against the facility's fence:
+ *
+ *   verified   - position inside the radius and the fix is tighter than it
+ *   degraded   - fix too coarse to tell, or its error circle straddles the fence
+ *   outside    - even the most generous reading of the fix is outside → reject
+ *
+ * Without a position the claim is accepted as 'unverified' (older Shortcuts),
+ * at the degraded share of the boost.
+ */
+
+import type { Facility } from './facilities.js';
+
+const EARTH_RADIUS_M = 6_371_008.8;
+
+// Share of the geofence boost awarded when the fix can't confirm presence (or is missing)
+export const DEGRADED_BOOST_FACTOR = 0.5;
+
+export interface DevicePosition {
+  lat: number;
+  lon: number;
+  accuracy?: number;          // meters, horizontal (iOS horizontalAccuracy)
+}
+
+export interface GeofenceCheck {
+  verdict: 'verified' | 'degraded' | 'outside';
+  distanceM: number;
+  accuracyM?: number;
+  radiusM: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Great-circle distance in meters between two [lat, lon] points. */
+export function haversineDistance(a: [number, number], b: [number, number]): number {
+  const dLat = toRadians(b[0] - a[0]);
+  const dLon = toRadians(b[1] - a[1]);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a[0])) * Math.cos(toRadians(b[0])) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Parse lat/lon/accuracy from a request body. Shortcuts sends numbers as
+ * strings, so both are accepted. Returns null when no position was sent and
+ * an error string when one was sent but is unusable.
+ */
+export function parseDevicePosition(body: Record<string, unknown>): DevicePosition | null | string {
+  if (body.lat === undefined && body.lon === undefined) return null;
+
+  const lat = Number(body.lat);
+  const lon = Number(body.lon);
+  if (body.lat === '' || body.lon === '' || !Number.isFinite(lat) || !Number.isFinite(lon)
+    || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return 'lat and lon must both be valid coordinates';
+  }
+
+  if (body.accuracy === undefined || body.accuracy === '') return { lat, lon };
+  const accuracy = Number(body.accuracy);
+  if (!Number.isFinite(accuracy) || accuracy < 0) return 'accuracy must be a non-negative number of meters';
+  return { lat, lon, accuracy };
+}
+
+export function checkGeofence(facility: Facility, position: DevicePosition): GeofenceCheck {
+  const radiusM = facility.geofenceRadius;
+  const distanceM = Math.round(haversineDistance(facility.coords, [position.lat, position.lon]));
+  const accuracyM = position.accuracy === undefined ? undefined : Math.round(position.accuracy);
+  const error = accuracyM ?? 0;
+
+  let verdict: GeofenceCheck['verdict'];
+  if (distanceM - error > radiusM) verdict = 'outside';
+  else if (distanceM <= radiusM && error <= radiusM) verdict = 'verified';
+  else verdict = 'degraded';
+
+  return { verdict, distanceM, accuracyM, radiusM };
+}
@@ -0,0 +1,138 @@
+/**
+ * Idempotency Keys for anchor-ingest endpoints
+ *
+ * Apple Shortcuts retries requests on flaky cellular. Callers send an
+ * `Idempotency-Key` header (or `idempotencyKey` body field); the first
+ * response for a key is stored and replayed verbatim for IDEMPOTENCY_TTL,
+ * so a retried NFC tap is answered from the record instead of being
+ * re-interpreted as a checkout.
+ *
+ *   - Same key, same payload, finished  → stored response replayed
+ *   - Same key, still running           → 409 (for at most IN_PROGRESS_TTL:
+ *     a reservation left behind by a crashed invocation is then reclaimed)
+ *   - Same key, different payload       → 422
+ *   - 409/429/5xx responses are not stored (they ask the caller to retry)
+ *
+ * Keys are namespaced by the caller's token (bearer or session cookie), so
+ * two users (or a user and an attacker) can never collide on, or read back,
+ * each other's replies.
+ * Requests without a token skip idempotency and fail authentication.
+ *
+ * Usage: export default withIdempotency('gym-tap', handler);
+ */
+
+import { createHash } from 'node:crypto';
+import { hashToken, requestToken } from './auth.js';
+import { atomicUpdate, getStore, keys, type SessionStore } from './store.js';
+
+export const IDEMPOTENCY_TTL = 24 * 60 * 60; // seconds
+
+// Longer than any handler runs (the function timeout), short enough that a
+// crash mid-request doesn't lock the key for the caller's retries
+const IN_PROGRESS_TTL = 60; // seconds
+
+const MAX_KEY_LENGTH = 255;
+
+// Responses that ask the caller to try again must not be replayed
+const RETRYABLE_STATUSES = new Set([409, 429]);
+
+interface IdempotencyRecord {
+  state: 'in_progress' | 'complete';
+  fingerprint: string;        // SHA-256 of the request payload
+  status?: number;
+  body?: unknown;
+  createdAt: number;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function getIdempotencyKey(req: any): string | null {
+  const header = req.headers?.['idempotency-key'];
+  const value = (Array.isArray(header) ? header[0] : header) ?? req.body?.idempotencyKey;
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function fingerprintOf(body: Record<string, unknown>): string {
+  const payload = { ...body };
+  delete payload.idempotencyKey;
+  return createHash('sha256').update(JSON.stringify(payload)).digest('hex');
+}
+
+type Reservation =
+  | { outcome: 'reserved' }
+  | { outcome: 'existing'; record: IdempotencyRecord };
+
+function isStale(record: IdempotencyRecord, now: number): boolean {
+  return record.state === 'in_progress' && now - record.createdAt > IN_PROGRESS_TTL * 1000;
+}
+
+function reserve(store: SessionStore, key: string, fingerprint: string): Promise<Reservation> {
+  return atomicUpdate<IdempotencyRecord, Reservation>(store, key, existing => {
+    const now = Date.now();
+    if (existing && !isStale(existing, now)) return { result: { outcome: 'existing', record: existing } };
+    if (existing) console.warn(`[IDEMPOTENCY] Reclaimed stale reservation | ${key}`);
+    return {
+      write: { value: { state: 'in_progress', fingerprint, createdAt: now }, ttlSeconds: IN_PROGRESS_TTL },
+      result: { outcome: 'reserved' },
+    };
+  });
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Handler = (req: any, res: any) => Promise<unknown>;
+
+export function withIdempotency(scope: string, handler: Handler): Handler {
+  return async (req, res) => {
+    const idempotencyKey = req.method === 'POST' ? getIdempotencyKey(req) : null;
+    const token = requestToken(req);
+    if (!idempotencyKey || !token) return handler(req, res);
+
+    if (idempotencyKey.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ success: false, error: `Idempotency-Key longer than ${MAX_KEY_LENGTH} characters` });
+    }
+
+    const store = getStore();
+    const body = req.body || {};
+    const key = keys.idempotency(scope, hashToken(token).slice(0, 32), idempotencyKey);
+    const fingerprint = fingerprintOf(body);
+    const reservation = await reserve(store, key, fingerprint);
+
+    if (reservation.outcome === 'existing') {
+      const { record } = reservation;
+      if (record.fingerprint !== fingerprint) {
+        return res.status(422).json({ success: false, error: 'Idempotency-Key was already used with a different payload.' });
+      }
+      if (record.state === 'in_progress') {
+        return res.status(409).json({ success: false, error: 'A request with this Idempotency-Key is still in progress. Retry shortly.' });
+      }
+      console.log(`[IDEMPOTENCY] Replayed ${scope} response | key: ${idempotencyKey}`);
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(record.status).json(record.body);
+    }
+
+    // Capture the handler's response, persist it, then send it
+    let status = 200;
+    let payload: unknown;
+    const recorder = {
+      setHeader: (name: string, value: string) => res.setHeader(name, value),
+      status(code: number) { status = code; return recorder; },
+      json(data: unknown) { payload = data; return recorder; },
+      end() { return recorder; },
+    };
+
+    try {
+      await handler(req, recorder);
+    } catch (err) {
+      await store.del(key);
+      throw err;
+    }
+
+    if (RETRYABLE_STATUSES.has(status) || status >= 500) {
+      await store.del(key);
+    } else {
+      const record: IdempotencyRecord = { state: 'complete', fingerprint, status, body: payload, createdAt: Date.now() };
+      await store.set(key, record, IDEMPOTENCY_TTL);
+    }
+
+    return payload === undefined ? res.status(status).end() : res.status(status).json(payload);
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * GAVL Outbound Mail
+ *
+ * Account mail (password reset, username reminder) is handed to a relay at
+ * MAIL_WEBHOOK_URL as JSON { to, subject, text } - any transactional email
+ * provider's HTTP API, or a workflow hook in front of one. Without a relay
+ * the message is logged instead, which is what local development wants;
+ * production without a relay logs only that mail was dropped.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Returns true when the message was handed to the relay. Never throws. */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const url = process.env.MAIL_WEBHOOK_URL;
+  if (!url) {
+    if (process.env.NODE_ENV === 'production') {
+      console.warn(`[MAIL] MAIL_WEBHOOK_URL not configured - dropped "${message.subject}"`);
+    } else {
+      console.log(`[MAIL] (not sent) to: ${message.to} | ${message.subject}\n${message.text}`);
+    }
+    return false;
+  }
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return true;
+  } catch (err) {
+    console.error(`[MAIL] Relay failed for "${message.subject}":`, err);
+    return false;
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * GAVL Signed NFC Tags
+ *
+ * An NFC anchor is only a closed anchor if the tap proves a physical tag was
+ * read. Each provisioned tag holds a 128-bit secret and produces a message
+ * with a counter that must strictly increase; the server keeps the last
+ * accepted counter per tag, so a captured message can't be replayed.
+ *
+ * Two schemes:
+ *
+ *   sun   NTAG 424 DNA Secure Unique NFC (NXP AN12196), plain UID/counter
+ *         mirroring. The tag appends ?uid=<14 hex>&ctr=<6 hex>&cmac=<16 hex>
+ *         to its URL on every read; `ctr` is the SDM read counter MSB first.
+ *           SV2     = 3CC3 0001 0080 || UID || ctr (LSB first)
+ *           Kses    = AES-CMAC(tagKey, SV2)
+ *           cmac    = odd bytes of AES-CMAC(Kses, <empty>)
+ *
+ *   hmac  Programmable readers / kiosks that sign for a static tag.
+ *         Body { tagId, counter, sig } with
+ *           sig     = hex HMAC-SHA256(tagKey, "<TAGID>:<counter>")
+ *         where TAGID is the tag ID as provisioned (uppercase).
+ *
+ * AES-CMAC (RFC 4493) is implemented here on top of a single AES-128 block
+ * encryption; NFC_TEST_VECTORS pins it to the RFC and AN12196 examples
+ * (run `npm run vectors:nfc`).
+ *
+ * Facilities without provisioned tags still accept unsigned taps, recorded
+ * with an 'unverified' evidence verdict, until their tags are installed. An
+ * unsigned tap proves no more than any HTTP call, so it earns the degraded
+ * share of the NFC boost (DEGRADED_BOOST_FACTOR, as for a coarse geofence).
+ */
+
+import { createCipheriv, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { ANCHOR_BOOSTS, type AnchorEvidence } from '../../shared/schema.js';
+import type { AttackStatus, AttackType } from '../../shared/trust.js';
+import { updateFacility, type Facility } from './facilities.js';
+import { DEGRADED_BOOST_FACTOR } from './geo.js';
+import { atomicUpdate, keys, type SessionStore } from './store.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export const NFC_SCHEMES = ['sun', 'hmac'] as const;
+
+export type NfcScheme = typeof NFC_SCHEMES[number];
+
+export interface NfcTag {
+  tagId: string;              // SUN: tag UID (14 hex), HMAC: any uppercase id
+  gymId: string;
+  scheme: NfcScheme;
+  key: string;                // 128-bit secret, hex
+  lastCounter: number;        // -1 until the first accepted tap
+  createdAt: number;
+  lastTapAt?: number;
+}
+
+export type TapMessage =
+  | { scheme: 'sun'; tagId: string; counter: number; mac: string }
+  | { scheme: 'hmac'; tagId: string; counter: number; mac: string };
+
+export type TapVerification =
+  | { ok: true; evidence: AnchorEvidence }
+  | { ok: false; status: number; error: string; attack?: { type: AttackType; status: AttackStatus } };
+
+// =============================================================================
+// AES-CMAC (RFC 4493)
+// =============================================================================
+
+const BLOCK = 16;
+const RB = 0x87;
+
+function aesEncryptBlock(key: Uint8Array, block: Uint8Array): Uint8Array {
+  const cipher = createCipheriv('aes-128-ecb', key, null);
+  cipher.setAutoPadding(false);
+  return new Uint8Array(Buffer.concat([cipher.update(block), cipher.final()]));
+}
+
+// Multiply by x in GF(2^128): shift left one bit, conditionally xor Rb
+function doubleBlock(block: Uint8Array): Uint8Array {
+  const out = new Uint8Array(BLOCK);
+  let carry = 0;
+  for (let i = BLOCK - 1; i >= 0; i--) {
+    out[i] = ((block[i] << 1) | carry) & 0xff;
+    carry = block[i] >> 7;
+  }
+  if (block[0] & 0x80) out[BLOCK - 1] ^= RB;
+  return out;
+}
+
+function xorBlock(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(BLOCK);
+  for (let i = 0; i < BLOCK; i++) out[i] = a[i] ^ b[i];
+  return out;
+}
+
+export function aesCmac(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const k1 = doubleBlock(aesEncryptBlock(key, new Uint8Array(BLOCK)));
+  const k2 = doubleBlock(k1);
+
+  const blocks = Math.max(1, Math.ceil(message.length / BLOCK));
+  const complete = message.length > 0 && message.length % BLOCK === 0;
+
+  const tail = message.subarray((blocks - 1) * BLOCK);
+  let last: Uint8Array;
+  if (complete) {
+    last = xorBlock(tail, k1);
+  } else {
+    const padded = new Uint8Array(BLOCK);
+    padded.set(tail);
+    padded[tail.length] = 0x80;
+    last = xorBlock(padded, k2);
+  }
+
+  let x: Uint8Array = new Uint8Array(BLOCK);
+  for (let i = 0; i < blocks - 1; i++) {
+    x = aesEncryptBlock(key, xorBlock(x, message.subarray(i * BLOCK, (i + 1) * BLOCK)));
+  }
+  return aesEncryptBlock(key, xorBlock(x, last));
+}
+
+// =============================================================================
+// MESSAGE MACS
+// =============================================================================
+
+function fromHex(hex: string): Uint8Array {
+  return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex').toUpperCase();
+}
+
+/** Session MAC key for one SUN read (AN12196 SV2 derivation). */
+export function sunSessionMacKey(tagKey: string, uid: string, counter: number): string {
+  const sv2 = new Uint8Array(BLOCK);
+  sv2.set([0x3c, 0xc3, 0x00, 0x01, 0x00, 0x80]);
+  sv2.set(fromHex(uid), 6);
+  sv2.set([counter & 0xff, (counter >> 8) & 0xff, (counter >> 16) & 0xff], 13);
+  return toHex(aesCmac(fromHex(tagKey), sv2));
+}
+
+/** Truncated SDMMAC the tag mirrors as `cmac` (odd-indexed bytes of the full CMAC). */
+export function sunMac(tagKey: string, uid: string, counter: number): string {
+  const full = aesCmac(fromHex(sunSessionMacKey(tagKey, uid, counter)), new Uint8Array(0));
+  return toHex(full.filter((_, i) => i % 2 === 1));
+}
+
+export function hmacSignature(tagKey: string, tagId: string, counter: number): string {
+  return createHmac('sha256', fromHex(tagKey)).update(`${tagId}:${counter}`).digest('hex').toUpperCase();
+}
+
+export function expectedMac(tag: Pick<NfcTag, 'scheme' | 'key'>, message: TapMessage): string {
+  return tag.scheme === 'sun'
+    ? sunMac(tag.key, message.tagId, message.counter)
+    : hmacSignature(tag.key, message.tagId, message.counter);
+}
+
+function macMatches(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(received, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// =============================================================================
+// TEST VECTORS
+// =============================================================================
+
+// RFC 4493 §4 and NXP AN12196 (SUN, plain mirroring, all-zero SDMFileReadKey)
+export const NFC_TEST_VECTORS = {
+  cmac: [
+    { key: '2B7E151628AED2A6ABF7158809CF4F3C', message: '', mac: 'BB1D6929E95937287FA37D129B756746' },
+    { key: '2B7E151628AED2A6ABF7158809CF4F3C', message: '6BC1BEE22E409F96E93D7E117393172A', mac: '070A16B46B4D4144F79BDD9DD04A287C' },
+    {
+      key: '2B7E151628AED2A6ABF7158809CF4F3C',
+      message: '6BC1BEE22E409F96E93D7E117393172AAE2D8A571E03AC9C9EB76FAC45AF8E5130C81C46A35CE411',
+      mac: 'DFA66747DE9AE63030CA32611497C827',
+    },
+    {
+      key: '2B7E151628AED2A6ABF7158809CF4F3C',
+      message: '6BC1BEE22E409F96E93D7E117393172AAE2D8A571E03AC9C9EB76FAC45AF8E51'
+        + '30C81C46A35CE411E5FBC1191A0A52EFF69F2445DF4F9B17AD2B417BE66C3710',
+      mac: '51F0BEBF7E3B9D92FC49741779363CFE',
+    },
+  ],
+  sun: [
+    {
+      key: '00000000000000000000000000000000',
+      uid: '04DE5F1EACC040',
+      counter: 61,
+      sessionMacKey: '3FB5F6E3A807A03D5E3570ACE393776F',
+      mac: '94EED9EE65337086',
+    },
+  ],
+  hmac: [
+    {
+      key: '000102030405060708090A0B0C0D0E0F',
+      tagId: 'T-GOLDS-0001',
+      counter: 42,
+      sig: '6A83C8B8FF079E3B5C6B8C31A8EED33397611667EE3F37A9EABA20E9D3546F85',
+    },
+  ],
+} as const;
+
+// =============================================================================
+// REQUEST PARSING
+// =============================================================================
+
+const HEX = (length: number) => new RegExp(`^[0-9a-f]{${length}}$`, 'i');
+const MAX_COUNTER = 0xffffff;
+
+/**
+ * Pull a signed tap message out of a request body. Returns null when the body
+ * carries no tag message at all, and an error string when it carries a
+ * malformed one.
+ */
+export function parseTapMessage(body: Record<string, unknown>): TapMessage | null | string {
+  if (body.uid !== undefined || body.cmac !== undefined) {
+    const { uid, ctr, cmac } = body;
+    if (typeof uid !== 'string' || !HEX(14).test(uid)) return 'uid must be the 7-byte tag UID (14 hex characters)';
+    if (typeof ctr !== 'string' || !HEX(6).test(ctr)) return 'ctr must be the 3-byte SUN counter (6 hex characters)';
+    if (typeof cmac !== 'string' || !HEX(16).test(cmac)) return 'cmac must be 8 bytes (16 hex characters)';
+    return { scheme: 'sun', tagId: uid.toUpperCase(), counter: parseInt(ctr, 16), mac: cmac.toUpperCase() };
+  }
+
+  if (body.sig !== undefined) {
+    const { tagId, counter, sig } = body;
+    const value = Number(counter);
+    if (typeof tagId !== 'string' || !tagId.trim()) return 'tagId is required with sig';
+    if (!Number.isInteger(value) || value < 0 || value > MAX_COUNTER) return `counter must be an integer 0-${MAX_COUNTER}`;
+    if (typeof sig !== 'string' || !HEX(64).test(sig)) return 'sig must be a hex HMAC-SHA256 (64 characters)';
+    return { scheme: 'hmac', tagId: tagId.trim().toUpperCase(), counter: value, mac: sig.toUpperCase() };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// TAG REGISTRY
+// =============================================================================
+
+export async function getTag(store: SessionStore, tagId: string): Promise<NfcTag | null> {
+  return store.get<NfcTag>(keys.nfcTag(tagId.toUpperCase()));
+}
+
+export function publicTag(tag: NfcTag): Omit<NfcTag, 'key'> {
+  const rest: Partial<NfcTag> = { ...tag };
+  delete rest.key;
+  return rest as Omit<NfcTag, 'key'>;
+}
+
+type ProvisionResult = { ok: true; tag: NfcTag } | { ok: false; reason: 'exists' };
+
+/**
+ * Create a tag record with a fresh random key (returned once, to be written
+ * to the tag) and list it on the facility so unsigned taps stop being
+ * accepted there.
+ */
+export async function provisionTag(
+  store: SessionStore,
+  facility: Facility,
+  scheme: NfcScheme,
+  tagId: string,
+): Promise<ProvisionResult> {
+  const id = tagId.toUpperCase();
+  const tag: NfcTag = {
+    tagId: id,
+    gymId: facility.id,
+    scheme,
+    key: randomBytes(BLOCK).toString('hex').toUpperCase(),
+    lastCounter: -1,
+    createdAt: Date.now(),
+  };
+
+  const result = await atomicUpdate<NfcTag, ProvisionResult>(store, keys.nfcTag(id), existing =>
+    existing ? { result: { ok: false, reason: 'exists' } } : { write: { value: tag }, result: { ok: true, tag } },
+  );
+  if (result.ok) {
+    await updateFacility(store, facility.id, current => ({ nfcTagIds: [...new Set([...current.nfcTagIds, id])] }));
+  }
+  return result;
+}
+
+export async function revokeTag(store: SessionStore, tag: NfcTag): Promise<void> {
+  await store.del(keys.nfcTag(tag.tagId));
+  await updateFacility(store, tag.gymId, current => ({ nfcTagIds: current.nfcTagIds.filter(t => t !== tag.tagId) }));
+}
+
+type CounterResult = 'accepted' | 'replayed' | 'missing';
+
+// Compare-and-set so two requests carrying the same counter can't both pass
+function consumeCounter(store: SessionStore, tagId: string, counter: number, now: number): Promise<CounterResult> {
+  return atomicUpdate<NfcTag, CounterResult>(store, keys.nfcTag(tagId), tag => {
+    if (!tag) return { result: 'missing' };
+    if (counter <= tag.lastCounter) return { result: 'replayed' };
+    return { write: { value: { ...tag, lastCounter: counter, lastTapAt: now } }, result: 'accepted' };
+  });
+}
+
+// =============================================================================
+// VERIFICATION
+// =============================================================================
+
+/** The boost a tap earns as `kind`: full when its tag was verified, else the degraded share. */
+export function nfcBoost(kind: 'nfc' | 'nfc_exit', evidence: AnchorEvidence): number {
+  const boost = ANCHOR_BOOSTS[kind];
+  return evidence.verdict === 'verified' ? boost : Math.round(boost * DEGRADED_BOOST_FACTOR * 100) / 100;
+}
+
+/**
+ * Verify the tag message in a tap / NFC check-in body for `facility` and
+ * consume its counter. On success the returned evidence goes on the anchor.
+ */
+export async function verifyNfcTap(
+  store: SessionStore,
+  facility: Facility,
+  body: Record<string, unknown>,
+): Promise<TapVerification> {
+  const message = parseTapMessage(body);
+  if (typeof message === 'string') return { ok: false, status: 400, error: message };
+
+  if (!message) {
+    if (facility.nfcTagIds.length > 0) {
+      return { ok: false, status: 401, error: `${facility.name} requires a signed tag message (uid/ctr/cmac or tagId/counter/sig).` };
+    }
+    return { ok: true, evidence: { verdict: 'unverified' } };
+  }
+
+  const tag = await getTag(store, message.tagId);
+  if (!tag || tag.gymId !== facility.id) {
+    return { ok: false, status: 403, error: `Tag ${message.tagId} is not provisioned for ${facility.name}.` };
+  }
+  if (tag.scheme !== message.scheme) {
+    return { ok: false, status: 400, error: `Tag ${tag.tagId} uses the ${tag.scheme} scheme.` };
+  }
+  if (!macMatches(expectedMac(tag, message), message.mac)) {
+    return { ok: false, status: 401, error: 'Tag signature is invalid.', attack: { type: 'emulation', status: 'detected' } };
+  }
+
+  const counter = await consumeCounter(store, tag.tagId, message.counter, Date.now());
+  if (counter === 'missing') {
+    return { ok: false, status: 403, error: `Tag ${message.tagId} was revoked.` };
+  }
+  if (counter === 'replayed') {
+    // A lost response retried without an Idempotency-Key looks the same, so only suspicious
+    return {
+      ok: false,
+      status: 422,
+      error: `Tag counter ${message.counter} was already used. Tap the tag again.`,
+      attack: { type: 'replay', status: 'suspicious' },
+    };
+  }
+
+  return { ok: true, evidence: { verdict: 'verified', tagId: tag.tagId, counter: message.counter } };
+}
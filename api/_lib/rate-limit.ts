@@ -0,0 +1,79 @@
+/**
+ * GAVL Rate Limiting
+ *
+ * Fixed-window counters in the session store, so limits hold across
+ * serverless instances. Used by the auth endpoints to slow password guessing
+ * and recovery spam; buckets are keyed by client IP and, where there is one,
+ * by the target email.
+ *
+ *   const limit = await rateLimit(store, `login:ip:${ip}`, 10, 15 * 60);
+ *   if (!limit.allowed) return sendRateLimited(res, limit.retryAfterSeconds);
+ */
+
+import { atomicUpdate, ConcurrencyError, keys, type SessionStore } from './store.js';
+
+interface Window {
+  count: number;
+  resetAt: number;            // epoch ms
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+/** Count one request against `bucket`; at most `limit` per `windowSeconds`. */
+export async function rateLimit(
+  store: SessionStore,
+  bucket: string,
+  limit: number,
+  windowSeconds: number,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  try {
+    return await atomicUpdate<Window, RateLimitResult>(store, keys.rateLimit(bucket), current => {
+      const window = current && current.resetAt > now
+        ? current
+        : { count: 0, resetAt: now + windowSeconds * 1000 };
+
+      if (window.count >= limit) {
+        return { result: { allowed: false, retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000) } };
+      }
+      const ttlSeconds = Math.ceil((window.resetAt - now) / 1000);
+      return {
+        write: { value: { ...window, count: window.count + 1 }, ttlSeconds },
+        result: { allowed: true, remaining: limit - window.count - 1 },
+      };
+    });
+  } catch (err) {
+    // A bucket this contended is being hammered - refuse rather than let it through
+    if (err instanceof ConcurrencyError) return { allowed: false, retryAfterSeconds: windowSeconds };
+    throw err;
+  }
+}
+
+/** Give back a request counted against `bucket` that never got to use it. */
+export async function refundRateLimit(store: SessionStore, bucket: string): Promise<void> {
+  const now = Date.now();
+  await atomicUpdate<Window, void>(store, keys.rateLimit(bucket), current => (
+    current && current.resetAt > now && current.count > 0
+      ? {
+          write: { value: { ...current, count: current.count - 1 }, ttlSeconds: Math.ceil((current.resetAt - now) / 1000) },
+          result: undefined,
+        }
+      : { result: undefined }
+  ));
+}
+
+/** Best-effort client address: Vercel's forwarded-for, else the socket. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function clientIp(req: any): string {
+  const forwarded = req.headers?.['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+  return first || req.socket?.remoteAddress || 'unknown';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function sendRateLimited(res: any, retryAfterSeconds: number) {
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({ success: false, error: 'Too many attempts. Try again later.', retryAfterSeconds });
+}
@@ -0,0 +1,148 @@
+/**
+ * GAVL Score History
+ *
+ * One ScoreHistoryEntry per UTC day under score-history:{userId}, oldest
+ * first. Each snapshot rewrites today's row, so the series always ends at
+ * the latest score while earlier days stay as they were recorded.
+ *
+ * The first snapshot for a user backfills a row per day since their first
+ * recorded activity: the score engine is deterministic, so replaying stored
+ * history gives the score each of those days would have shown.
+ *
+ * Rows carry events for tier changes and for beating an earlier peak.
+ */
+
+import {
+  computeScore,
+  firstActivity,
+  rangeStart,
+  scoreAt,
+  SCORE_TIERS,
+  tierForScore,
+  type ScoreHistoryEntry,
+  type ScoreInputs,
+  type ScoreReport,
+  type ScoredWorkout,
+  type ScoreTier,
+  type TimeRangePreset,
+} from '../../shared/score.js';
+import { settleGates } from './gate.js';
+import { atomicUpdate, getList, keys, type SessionStore } from './store.js';
+
+export const SCORE_HISTORY_LIMIT = 5 * 366;   // daily rows (~5 years)
+const BACKFILL_MAX_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// INPUTS
+// =============================================================================
+
+export async function loadScoreInputs(store: SessionStore, userId: string): Promise<ScoreInputs> {
+  const [sessions, workouts] = await Promise.all([
+    settleGates(store, userId, Date.now()),
+    getList<ScoredWorkout>(store, keys.workouts(userId)),
+  ]);
+  return { sessions, workouts };
+}
+
+// =============================================================================
+// ENTRIES
+// =============================================================================
+
+function dayOf(t: number): number {
+  return Math.floor(t / DAY_MS);
+}
+
+function tierName(tier: ScoreTier): string {
+  const label = SCORE_TIERS[tier].label;
+  return label.charAt(0) + label.slice(1).toLowerCase();
+}
+
+// The row for `pes` at `date`, following the rows already recorded
+function nextEntry(previous: ScoreHistoryEntry[], date: number, pes: number): ScoreHistoryEntry {
+  const last = previous[previous.length - 1];
+  const tier = tierForScore(pes);
+  const best = previous.reduce((max, e) => Math.max(max, e.pes), 0);
+
+  let event: string | undefined;
+  if (last && tier !== last.tier) {
+    event = pes > last.pes ? `Reached ${tierName(tier)} tier` : `Dropped to ${tierName(tier)} tier`;
+  } else if (last && last.pes < best && pes > best) {
+    // Back above an earlier peak; a steady climb isn't a new best every day
+    event = 'Personal Best';
+  }
+
+  return { date, pes, tier, delta: last ? pes - last.pes : 0, ...(event && { event }) };
+}
+
+// End-of-day rows from the first activity up to (not including) today
+function backfill(inputs: ScoreInputs, asOf: number): ScoreHistoryEntry[] {
+  const first = firstActivity(inputs);
+  if (first === null) return [];
+
+  const rows: ScoreHistoryEntry[] = [];
+  const today = dayOf(asOf);
+  for (let day = Math.max(dayOf(first), today - BACKFILL_MAX_DAYS); day < today; day++) {
+    const endOfDay = (day + 1) * DAY_MS - 1;
+    rows.push(nextEntry(rows, endOfDay, scoreAt(inputs, endOfDay)));
+  }
+  return rows;
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+/**
+ * Record today's row from a freshly computed report. Writes only when the
+ * score moved since the last snapshot today (or there is no row yet).
+ */
+export function recordScoreSnapshot(
+  store: SessionStore,
+  userId: string,
+  inputs: ScoreInputs,
+  report: ScoreReport,
+): Promise<ScoreHistoryEntry> {
+  const asOf = report.score.lastUpdated;
+
+  return atomicUpdate<ScoreHistoryEntry[], ScoreHistoryEntry>(store, keys.scoreHistory(userId), current => {
+    const stored = Array.isArray(current) ? current : [];
+    const last = stored[stored.length - 1];
+    const hasToday = last !== undefined && dayOf(last.date) === dayOf(asOf);
+    if (hasToday && last.pes === report.score.value) return { result: last };
+
+    const rows = stored.length > 0 ? stored : backfill(inputs, asOf);
+    const previous = hasToday ? rows.slice(0, -1) : rows;
+    const entry = nextEntry(previous, asOf, report.score.value);
+    return { write: { value: [...previous, entry].slice(-SCORE_HISTORY_LIMIT) }, result: entry };
+  });
+}
+
+/** Compute the current score and record it as today's snapshot. */
+export async function snapshotScore(
+  store: SessionStore,
+  userId: string,
+  asOf: number,
+): Promise<{ report: ScoreReport; entry: ScoreHistoryEntry }> {
+  const inputs = await loadScoreInputs(store, userId);
+  const report = computeScore(inputs, asOf);
+  const entry = await recordScoreSnapshot(store, userId, inputs, report);
+  return { report, entry };
+}
+
+/** Rows inside `range`; a user with no rows yet gets a first snapshot. */
+export async function readScoreHistory(
+  store: SessionStore,
+  userId: string,
+  range: TimeRangePreset,
+  now: number,
+): Promise<ScoreHistoryEntry[]> {
+  let rows = await getList<ScoreHistoryEntry>(store, keys.scoreHistory(userId));
+  if (rows.length === 0) {
+    await snapshotScore(store, userId, now);
+    rows = await getList<ScoreHistoryEntry>(store, keys.scoreHistory(userId));
+  }
+  const from = rangeStart(range, now);
+  return rows.filter(e => e.date >= from);
+}
@@ -0,0 +1,25 @@
+/**
+ * GAVL Session Confidence
+ *
+ * Loads what the SCS calculator (shared/scs.ts) fuses beyond a session's own
+ * anchors: the user's device-recorded workouts and their registered
+ * passkeys. Manual entries are the user's own say-so, not corroboration, so
+ * they never count towards the workout or congruency components.
+ */
+
+import { isDeviceRecorded } from '../../shared/score.js';
+import type { ScsContext } from '../../shared/scs.js';
+import { getList, keys, type SessionStore } from './store.js';
+import { isHardwareAttested, listPasskeys } from './webauthn.js';
+import type { WorkoutRecord } from './workout-files.js';
+
+export async function loadScsContext(store: SessionStore, userId: string): Promise<ScsContext> {
+  const [workouts, passkeys] = await Promise.all([
+    getList<WorkoutRecord>(store, keys.workouts(userId)),
+    listPasskeys(store, userId),
+  ]);
+  return {
+    workouts: workouts.filter(isDeviceRecorded),
+    devices: passkeys.map(p => ({ createdAt: p.createdAt, hardwareAttested: isHardwareAttested(p) })),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * GAVL Session Repository
+ *
+ * Typed access to session:{userId}:{gymId} and history:{userId}. Every read
+ * goes through the schema migrations in shared/schema.ts, and legacy history
+ * (string[] anchors) is written back in the current schema the first time it
+ * is read. Writers only ever persist current-schema sessions.
+ *
+ * All writes are compare-and-set (see atomicUpdate in store.ts), so anchors
+ * racing on the same visit window either stack onto one session or retry.
+ * Every write also hash-links the session's new custody events onto its
+ * chain (extendCustodyChain in shared/custody.ts).
+ */
+
+import { extendCustodyChain } from '../../shared/custody.js';
+import {
+  migrateHistory,
+  migrateSessionCandidate,
+  type SessionCandidate,
+} from '../../shared/schema.js';
+import { atomicUpdate, keys, HISTORY_LIMIT, TTL, type Mutation, type SessionStore } from './store.js';
+
+export function generateSessionId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `SC-${timestamp}-${random}`.toUpperCase();
+}
+
+// How far a client-supplied event time may drift from the server clock
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * The event time for a client `timestamp`: the server clock when omitted,
+ * else the parsed time if it is within CLOCK_SKEW_MS of the server clock.
+ * Returns an error message otherwise.
+ */
+export function resolveEventTime(timestamp: unknown, serverNow = Date.now()): number | string {
+  if (timestamp === undefined || timestamp === null || timestamp === '') return serverNow;
+  const at = typeof timestamp === 'string' || typeof timestamp === 'number' ? new Date(timestamp).getTime() : NaN;
+  if (!Number.isFinite(at)) return 'timestamp must be an ISO 8601 date-time';
+  if (Math.abs(at - serverNow) > CLOCK_SKEW_MS) {
+    return `timestamp must be within ${CLOCK_SKEW_MS / 60_000} minutes of the server clock`;
+  }
+  return at;
+}
+
+export async function getSession(
+  store: SessionStore,
+  userId: string,
+  gymId: string,
+): Promise<SessionCandidate | null> {
+  const raw = await store.get<unknown>(keys.session(userId, gymId));
+  return raw ? migrateSessionCandidate(raw) : null;
+}
+
+export interface SessionMutation<R> {
+  session?: SessionCandidate;  // omitted = no write
+  ttlSeconds?: number;
+  result: R;
+}
+
+/**
+ * Atomically read-modify-write session:{userId}:{gymId}. `mutate` receives a
+ * freshly read (and migrated) session on every attempt and must be pure.
+ */
+export function updateSession<R>(
+  store: SessionStore,
+  userId: string,
+  gymId: string,
+  mutate: (current: SessionCandidate | null) => SessionMutation<R>,
+): Promise<R> {
+  return atomicUpdate<unknown, R>(store, keys.session(userId, gymId), async raw => {
+    const { session, ttlSeconds, result } = mutate(raw ? migrateSessionCandidate(raw) : null);
+    const mutation: Mutation<unknown, R> = { result };
+    if (session) {
+      // Linked in place, so a result that holds the session (and is audited) matches what is stored
+      Object.assign(session, await extendCustodyChain(session));
+      mutation.write = { value: session, ttlSeconds };
+    }
+    return mutation;
+  });
+}
+
+export async function readHistory(store: SessionStore, userId: string): Promise<SessionCandidate[]> {
+  const key = keys.history(userId);
+  const { value, etag } = await store.getVersioned<unknown>(key);
+  const { sessions, records, upgraded, dropped } = migrateHistory(Array.isArray(value) ? value : []);
+
+  // Best effort: if another writer got there first, the next read retries
+  if (upgraded > 0 && await store.compareAndSet(key, etag, records, TTL.HISTORY)) {
+    console.log(`[Storage] Migrated history:${userId} | upgraded: ${upgraded}`);
+  }
+  if (dropped > 0) {
+    console.warn(`[Storage] history:${userId} has ${dropped} unreadable record(s), left in place`);
+  }
+
+  return sessions;
+}
+
+// Only finalized sessions go to history. Idempotent: re-appending a session
+// with the same id replaces the earlier copy instead of duplicating it.
+export async function appendToHistory(store: SessionStore, session: SessionCandidate): Promise<void> {
+  const linked = await extendCustodyChain(session);
+  await atomicUpdate<unknown[], void>(store, keys.history(session.userId), current => {
+    const { records } = migrateHistory(Array.isArray(current) ? current : []);
+    const others = records.filter(r => (r as Partial<SessionCandidate> | null)?.id !== session.id);
+    const history = [...others, linked].slice(-HISTORY_LIMIT);
+    return { write: { value: history, ttlSeconds: TTL.HISTORY }, result: undefined };
+  });
+}
+
+export interface HistoryMutation<R> {
+  updated?: SessionCandidate[];  // replacements, matched by id; omitted = no write
+  removed?: string[];            // ids to drop
+  result: R;
+}
+
+/**
+ * Atomically read-modify-write history:{userId}. `mutate` receives the
+ * freshly read (and migrated) sessions on every attempt and must be pure.
+ * Unreadable records are carried through untouched.
+ */
+export function updateHistory<R>(
+  store: SessionStore,
+  userId: string,
+  mutate: (sessions: SessionCandidate[]) => HistoryMutation<R>,
+): Promise<R> {
+  return atomicUpdate<unknown[], R>(store, keys.history(userId), async current => {
+    const { sessions, records } = migrateHistory(Array.isArray(current) ? current : []);
+    const { updated = [], removed = [], result } = mutate(sessions);
+    if (updated.length === 0 && removed.length === 0) return { result };
+
+    // Linked in place, as in updateSession
+    for (const session of updated) Object.assign(session, await extendCustodyChain(session));
+    const byId = new Map(updated.map(s => [s.id, s]));
+    const idOf = (r: unknown) => (r as Partial<SessionCandidate> | null)?.id ?? '';
+    const history = records
+      .filter(r => !removed.includes(idOf(r)))
+      .map(r => byId.get(idOf(r)) ?? r);
+    return { write: { value: history, ttlSeconds: TTL.HISTORY }, result };
+  });
+}
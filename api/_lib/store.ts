@@ -0,0 +1,446 @@
+/**
+ * GAVL Session Store
+ *
+ * One storage layer shared by every api/ handler. Endpoints read and write the
+ * same keys through the same backend, so a session checked in by gym-checkin
+ * is visible to gym-tap, gym-checkout and sessions.
+ *
+ * Backends (picked once per process by getStore()):
+ *   - redis:  Upstash Redis REST (UPSTASH_REDIS_REST_URL + UPSTASH_REDIS_REST_TOKEN)
+ *   - file:   JSON file on disk (SESSION_STORE=file, optional SESSION_STORE_PATH)
+ *   - memory: in-process Map (default for local dev and quick demos)
+ *
+ * Concurrent writers (a geofence Shortcut and an NFC tap landing in the same
+ * second) go through atomicUpdate(): read with an etag, compute the next value,
+ * compare-and-set, retry on conflict. Redis does the compare in a Lua script;
+ * the memory and file backends compare within a single process.
+ *
+ * Files under api/_lib are not deployed as endpoints (Vercel skips `_` paths).
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+// =============================================================================
+// KEY SCHEMA + TTL RULES
+// =============================================================================
+
+export const keys = {
+  // Only one open session per user + gym
+  session: (userId: string, gymId: string) => `session:${userId}:${gymId}`,
+  // Finalized sessions (most recent HISTORY_LIMIT)
+  history: (userId: string) => `history:${userId}`,
+  workout: (userId: string, workoutId: string) => `workout:${userId}:${workoutId}`,
+  workouts: (userId: string) => `workouts:${userId}`,
+  // Per-second samples of a workout file, see shared/streams.ts
+  workoutStreams: (userId: string, workoutId: string) => `workout-streams:${userId}:${workoutId}`,
+  // Stored response for a POST replayed by Idempotency-Key
+  idempotency: (scope: string, caller: string, key: string) => `idem:${scope}:${caller}:${key}`,
+  // Facility registry (no TTL), see _lib/facilities.ts
+  facilities: 'facilities',
+  // Provisioned NFC tag: secret + last accepted counter (no TTL)
+  nfcTag: (tagId: string) => `nfc-tag:${tagId}`,
+  // BSSIDs seen during NFC-verified sessions, not yet on the facility
+  bssidCandidates: (gymId: string) => `bssid-candidates:${gymId}`,
+  // API token record by SHA-256 of the token, and each user's token hashes
+  token: (hash: string) => `token:${hash}`,
+  userTokens: (userId: string) => `tokens:${userId}`,
+  // Account by userId, and the email → userId index used at sign-in
+  account: (userId: string) => `account:${userId}`,
+  accountEmail: (email: string) => `account-email:${email}`,
+  // Pending password reset by SHA-256 of the emailed code
+  recovery: (hash: string) => `recovery:${hash}`,
+  // Fixed-window request counter, see _lib/rate-limit.ts
+  rateLimit: (bucket: string) => `ratelimit:${bucket}`,
+  // WebAuthn credential by base64url credential ID, and each user's IDs
+  passkey: (credentialId: string) => `passkey:${credentialId}`,
+  userPasskeys: (userId: string) => `passkeys:${userId}`,
+  // Outstanding WebAuthn challenge (single use, short TTL)
+  webauthnChallenge: (challenge: string) => `webauthn-challenge:${challenge}`,
+  // Daily PES snapshots, oldest first (no TTL), see _lib/score-history.ts
+  scoreHistory: (userId: string) => `score-history:${userId}`,
+  // Attack detections and failed liveness checks, see _lib/trust.ts
+  trustEvents: (userId: string) => `trust-events:${userId}`,
+  // Quarantine appeal by id, each user's appeal ids, and the open-appeal
+  // review queue (oldest first), see _lib/appeals.ts
+  appeal: (appealId: string) => `appeal:${appealId}`,
+  userAppeals: (userId: string) => `appeals:${userId}`,
+  appealQueue: 'appeal-queue',
+  // Audit log: one entry per key (the slot after a sealed day's last entry
+  // holds its seal), a hint of how many slots a day has used, every day that
+  // has entries, and the signed day roots (oldest first); no TTL, see
+  // _lib/audit.ts
+  auditEntry: (day: string, seq: number) => `audit:${day}:${seq}`,
+  auditLength: (day: string) => `audit-length:${day}`,
+  auditDays: 'audit-days',
+  auditRoots: 'audit-roots',
+};
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// All TTLs in seconds
+export const TTL = {
+  SESSION_OPEN: 4 * HOUR,         // Visit window for a pending SessionCandidate
+  SESSION_FINALIZED: DAY,         // Finalized session stays readable under its key
+  SESSION_GHOST: HOUR,            // Ghost session kept for review, then expires
+  HISTORY: 30 * DAY,
+  WORKOUT: 7 * DAY,
+  WORKOUT_HISTORY: 30 * DAY,
+  WORKOUT_STREAMS: 30 * DAY,      // As long as the workout stays in history
+  TRUST_EVENTS: 365 * DAY,
+  APPEAL: 365 * DAY,
+} as const;
+
+export const HISTORY_LIMIT = 50;
+export const WORKOUT_HISTORY_LIMIT = 100;
+
+// =============================================================================
+// STORE INTERFACE
+// =============================================================================
+
+export type StorageBackend = 'redis' | 'file' | 'memory';
+
+export interface Versioned<T> {
+  value: T | null;
+  etag: string | null;        // null = key does not exist
+}
+
+export interface SessionStore {
+  readonly backend: StorageBackend;
+  get<T>(key: string): Promise<T | null>;
+  /** ttlSeconds omitted = no expiry */
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  del(key: string): Promise<void>;
+  /** Read a value together with an opaque etag for compareAndSet() */
+  getVersioned<T>(key: string): Promise<Versioned<T>>;
+  /** Write only if the stored value still matches `etag`. Returns false on conflict. */
+  compareAndSet<T>(key: string, etag: string | null, value: T, ttlSeconds?: number): Promise<boolean>;
+}
+
+export class ConcurrencyError extends Error {
+  constructor(key: string, attempts: number) {
+    super(`Concurrent update on ${key} did not settle after ${attempts} attempts`);
+    this.name = 'ConcurrencyError';
+  }
+}
+
+// Etag = SHA-1 of the stored JSON (Redis computes the same with redis.sha1hex)
+function etagOf(raw: string): string {
+  return createHash('sha1').update(raw).digest('hex');
+}
+
+function toVersioned<T>(raw: string | null): Versioned<T> {
+  return raw === null
+    ? { value: null, etag: null }
+    : { value: JSON.parse(raw) as T, etag: etagOf(raw) };
+}
+
+// =============================================================================
+// MEMORY BACKEND
+// =============================================================================
+
+interface StoredEntry {
+  value: string;              // JSON, so callers never share object references
+  expiresAt?: number;         // epoch ms
+}
+
+function isLive(entry: StoredEntry | undefined, now: number): entry is StoredEntry {
+  return !!entry && (entry.expiresAt === undefined || entry.expiresAt > now);
+}
+
+function toEntry(value: unknown, ttlSeconds?: number): StoredEntry {
+  return {
+    value: JSON.stringify(value),
+    expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+  };
+}
+
+export function createMemoryStore(): SessionStore {
+  const entries = new Map<string, StoredEntry>();
+
+  return {
+    backend: 'memory',
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = entries.get(key);
+      if (!isLive(entry, Date.now())) {
+        entries.delete(key);
+        return null;
+      }
+      return JSON.parse(entry.value) as T;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      entries.set(key, toEntry(value, ttlSeconds));
+    },
+
+    async del(key: string): Promise<void> {
+      entries.delete(key);
+    },
+
+    async getVersioned<T>(key: string): Promise<Versioned<T>> {
+      const entry = entries.get(key);
+      return toVersioned<T>(isLive(entry, Date.now()) ? entry.value : null);
+    },
+
+    // No await between compare and set: atomic within the process
+    async compareAndSet<T>(key: string, etag: string | null, value: T, ttlSeconds?: number): Promise<boolean> {
+      const entry = entries.get(key);
+      const current = isLive(entry, Date.now()) ? etagOf(entry.value) : null;
+      if (current !== etag) return false;
+      entries.set(key, toEntry(value, ttlSeconds));
+      return true;
+    },
+  };
+}
+
+// =============================================================================
+// FILE BACKEND
+// =============================================================================
+
+const DEFAULT_STORE_PATH = '.data/session-store.json';
+
+export function createFileStore(path: string = DEFAULT_STORE_PATH): SessionStore {
+  // Serialize all file access within this process
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function exclusive<R>(fn: () => Promise<R>): Promise<R> {
+    const run = queue.then(fn, fn);
+    queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async function load(): Promise<Record<string, StoredEntry>> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw err;
+    }
+  }
+
+  async function save(entries: Record<string, StoredEntry>): Promise<void> {
+    const now = Date.now();
+    for (const key of Object.keys(entries)) {
+      if (!isLive(entries[key], now)) delete entries[key];
+    }
+    await mkdir(dirname(path), { recursive: true });
+    const tmp = `${path}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(entries));
+    await rename(tmp, path);
+  }
+
+  return {
+    backend: 'file',
+
+    get<T>(key: string): Promise<T | null> {
+      return exclusive(async () => {
+        const entry = (await load())[key];
+        return isLive(entry, Date.now()) ? (JSON.parse(entry.value) as T) : null;
+      });
+    },
+
+    set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      return exclusive(async () => {
+        const entries = await load();
+        entries[key] = toEntry(value, ttlSeconds);
+        await save(entries);
+      });
+    },
+
+    del(key: string): Promise<void> {
+      return exclusive(async () => {
+        const entries = await load();
+        delete entries[key];
+        await save(entries);
+      });
+    },
+
+    getVersioned<T>(key: string): Promise<Versioned<T>> {
+      return exclusive(async () => {
+        const entry = (await load())[key];
+        return toVersioned<T>(isLive(entry, Date.now()) ? entry.value : null);
+      });
+    },
+
+    // Atomic within this process only (local dev); use Redis across instances
+    compareAndSet<T>(key: string, etag: string | null, value: T, ttlSeconds?: number): Promise<boolean> {
+      return exclusive(async () => {
+        const entries = await load();
+        const entry = entries[key];
+        const current = isLive(entry, Date.now()) ? etagOf(entry.value) : null;
+        if (current !== etag) return false;
+        entries[key] = toEntry(value, ttlSeconds);
+        await save(entries);
+        return true;
+      });
+    },
+  };
+}
+
+// =============================================================================
+// UPSTASH REDIS BACKEND
+// =============================================================================
+
+// KEYS[1] = key, ARGV = [expected etag ('' = absent), new value, ttl seconds ('0' = none)]
+const CAS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local etag = ''
+if current then etag = redis.sha1hex(current) end
+if etag ~= ARGV[1] then return 0 end
+if ARGV[3] == '0' then
+  redis.call('SET', KEYS[1], ARGV[2])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+end
+return 1
+`;
+
+export function createUpstashStore(url: string, token: string): SessionStore {
+  async function command(args: string[]): Promise<unknown> {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+    const data = await res.json();
+    if (data.error) throw new Error(`Upstash ${args[0]} failed: ${data.error}`);
+    return data.result;
+  }
+
+  return {
+    backend: 'redis',
+
+    async get<T>(key: string): Promise<T | null> {
+      try {
+        const result = await command(['GET', key]);
+        return typeof result === 'string' ? (JSON.parse(result) as T) : null;
+      } catch (err) {
+        console.error('[Storage] Redis GET error:', err);
+        return null;
+      }
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      const args = ['SET', key, JSON.stringify(value)];
+      if (ttlSeconds) args.push('EX', Math.max(1, Math.ceil(ttlSeconds)).toString());
+      try {
+        await command(args);
+      } catch (err) {
+        console.error('[Storage] Redis SET error:', err);
+      }
+    },
+
+    async del(key: string): Promise<void> {
+      try {
+        await command(['DEL', key]);
+      } catch (err) {
+        console.error('[Storage] Redis DEL error:', err);
+      }
+    },
+
+    // Errors propagate here: a swallowed failure would look like "key absent"
+    async getVersioned<T>(key: string): Promise<Versioned<T>> {
+      const result = await command(['GET', key]);
+      return toVersioned<T>(typeof result === 'string' ? result : null);
+    },
+
+    async compareAndSet<T>(key: string, etag: string | null, value: T, ttlSeconds?: number): Promise<boolean> {
+      const ttl = ttlSeconds ? Math.max(1, Math.ceil(ttlSeconds)).toString() : '0';
+      const result = await command(['EVAL', CAS_SCRIPT, '1', key, etag ?? '', JSON.stringify(value), ttl]);
+      return Number(result) === 1;
+    },
+  };
+}
+
+// =============================================================================
+// BACKEND SELECTION
+// =============================================================================
+
+let instance: SessionStore | null = null;
+
+export function getStore(): SessionStore {
+  if (instance) return instance;
+
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (url && token) {
+    instance = createUpstashStore(url, token);
+  } else if (process.env.SESSION_STORE === 'file') {
+    instance = createFileStore(process.env.SESSION_STORE_PATH || DEFAULT_STORE_PATH);
+  } else {
+    instance = createMemoryStore();
+    console.log('[Storage] Using in-memory store (Upstash not configured)');
+  }
+
+  return instance;
+}
+
+// For local harnesses: swap in a specific backend (null = pick from env again)
+export function setStore(store: SessionStore | null): void {
+  instance = store;
+}
+
+// =============================================================================
+// ATOMIC UPDATES
+// =============================================================================
+
+export interface Mutation<T, R> {
+  write?: { value: T; ttlSeconds?: number };  // omitted = leave the key unchanged
+  result: R;
+}
+
+const MAX_ATTEMPTS = 6;
+
+function backoff(attempt: number): Promise<void> {
+  const ms = Math.random() * 10 * 2 ** attempt;
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Read-modify-write with optimistic concurrency. `mutate` must be pure (it may
+ * be async, e.g. to hash): it is re-run against the fresh value after every
+ * conflict, so side effects belong after the returned promise resolves.
+ */
+export async function atomicUpdate<T, R>(
+  store: SessionStore,
+  key: string,
+  mutate: (current: T | null) => Mutation<T, R> | Promise<Mutation<T, R>>,
+): Promise<R> {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { value, etag } = await store.getVersioned<T>(key);
+    const { write, result } = await mutate(value);
+
+    if (!write) return result;
+    if (await store.compareAndSet(key, etag, write.value, write.ttlSeconds)) return result;
+
+    await backoff(attempt);
+  }
+  throw new ConcurrencyError(key, MAX_ATTEMPTS);
+}
+
+// =============================================================================
+// LIST HELPERS (history:{userId}, workouts:{userId})
+// =============================================================================
+
+export async function getList<T>(store: SessionStore, key: string): Promise<T[]> {
+  const list = await store.get<T[]>(key);
+  return Array.isArray(list) ? list : [];
+}
+
+// Append and keep only the most recent `limit` entries
+export function appendToList<T>(
+  store: SessionStore,
+  key: string,
+  item: T,
+  limit: number,
+  ttlSeconds: number,
+): Promise<T[]> {
+  return atomicUpdate<T[], T[]>(store, key, current => {
+    const list = [...(Array.isArray(current) ? current : []), item].slice(-limit);
+    return { write: { value: list, ttlSeconds }, result: list };
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * GAVL Trust Signals
+ *
+ * Gathers the signals the TRUDEX engine (shared/trust.ts) replays for a
+ * user: finalized sessions from history, registered passkeys, and the attack
+ * detections / failed liveness checks recorded under trust-events:{userId}.
+ *
+ * Only sessions still in history (HISTORY_LIMIT, TTL.HISTORY) are replayed;
+ * recorded events are kept for a year.
+ */
+
+import { computeTrust, sessionSignal, type TrustProfile, type TrustSignal } from '../../shared/trust.js';
+import { recordAudit } from './audit.js';
+import type { Principal } from './auth.js';
+import { settleGates } from './gate.js';
+import { appendToList, getList, keys, TTL, type SessionStore } from './store.js';
+import { isHardwareAttested, listPasskeys } from './webauthn.js';
+
+export type RecordedTrustSignal = Extract<TrustSignal, { kind: 'attack' | 'liveness' }>;
+
+const TRUST_EVENT_LIMIT = 500;
+
+export async function recordTrustSignal(
+  store: SessionStore,
+  userId: string,
+  signal: RecordedTrustSignal,
+  who: Principal,
+): Promise<void> {
+  await appendToList(store, keys.trustEvents(userId), signal, TRUST_EVENT_LIMIT, TTL.TRUST_EVENTS);
+  await recordAudit(store, who, `trust.${signal.kind}`, [{ target: `trust-events:${userId}`, before: null, after: signal }]);
+  console.warn(`[TRUST] ${signal.kind === 'attack' ? `${signal.attack} ${signal.status}` : 'liveness failed'} | ${userId}`);
+}
+
+export async function loadTrustSignals(store: SessionStore, userId: string): Promise<TrustSignal[]> {
+  const [sessions, passkeys, recorded] = await Promise.all([
+    settleGates(store, userId, Date.now()),
+    listPasskeys(store, userId),
+    getList<RecordedTrustSignal>(store, keys.trustEvents(userId)),
+  ]);
+
+  return [
+    ...sessions.map(sessionSignal).filter((s): s is TrustSignal => s !== null),
+    ...passkeys.map((p): TrustSignal => ({ kind: 'device', at: p.createdAt, name: p.name, hardwareAttested: isHardwareAttested(p) })),
+    ...recorded,
+  ];
+}
+
+export async function computeUserTrust(
+  store: SessionStore,
+  userId: string,
+  asOf: number,
+  version?: number,
+): Promise<TrustProfile> {
+  return computeTrust(await loadTrustSignals(store, userId), asOf, version);
+}
@@ -0,0 +1,153 @@
+/**
+ * GAVL Wearable Linking
+ *
+ * Links finalized sessions to the wearable workouts that overlap them;
+ * shared/wearable.ts does the fusing (zone, activity, calories):
+ *
+ *   linkWearable           at finalize, before the gate decision
+ *   linkWorkoutToSessions  when a workout lands after its visit was finalized
+ *                          (watches sync late) - re-links those sessions
+ *
+ * Only device-recorded workouts are linked - a manual entry is no wearable
+ * proof. HR samples inside the visit come from the workout's streams when it
+ * kept a heart-rate channel. Every link appends a wearable_corroboration custody
+ * record. A late link re-decides the gate of a session still pending
+ * confirmation or quarantined when its SCS now lands on a different gate;
+ * any other gate decision is left as it was.
+ */
+
+import { decideGate, type GateState } from '../../shared/gate.js';
+import type { SessionCandidate } from '../../shared/schema.js';
+import { isDeviceRecorded, sessionGate } from '../../shared/score.js';
+import { computeScs, type ScsContext } from '../../shared/scs.js';
+import { decodeStreams, type WorkoutStreams } from '../../shared/streams.js';
+import {
+  estimateMaxHr,
+  fuseWearable,
+  overlapMs,
+  visitWindow,
+  wearableNote,
+  type WearableLink,
+  type WearableMatch,
+} from '../../shared/wearable.js';
+import type { AuditInput } from './audit.js';
+import { loadScsContext } from './scs.js';
+import { readHistory, updateHistory } from './sessions.js';
+import { getList, keys, type SessionStore } from './store.js';
+import type { WorkoutRecord } from './workout-files.js';
+
+// Gate states a late link can still move: unanswered, or not yet appealed
+const REGATED_STATES: GateState[] = ['pending_confirmation', 'quarantined'];
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+// The workout's HR samples between start and end, when it has an HR stream
+async function visitHeartRate(store: SessionStore, workout: WorkoutRecord, start: number, end: number): Promise<number[] | undefined> {
+  if (!workout.streamChannels?.includes('heartRate')) return undefined;
+  const streams = await store.get<WorkoutStreams>(keys.workoutStreams(workout.userId, workout.id));
+  if (!streams) return undefined;
+
+  const { time, heartRate } = decodeStreams(streams, ['time', 'heartRate']);
+  const samples: number[] = [];
+  time?.forEach((seconds, i) => {
+    const bpm = heartRate?.[i];
+    if (seconds === null || bpm === null || bpm === undefined) return;
+    const at = streams.startTime + seconds * 1000;
+    if (at >= start && at <= end) samples.push(bpm);
+  });
+  return samples;
+}
+
+async function buildLink(
+  store: SessionStore,
+  session: SessionCandidate,
+  workouts: WorkoutRecord[],
+  now: number,
+): Promise<WearableLink | null> {
+  const window = visitWindow(session);
+  const overlapping = workouts.filter(w => isDeviceRecorded(w) && overlapMs(window, w) > 0);
+  if (overlapping.length === 0) return null;
+
+  const matches = await Promise.all(overlapping.map(async (workout): Promise<WearableMatch> => ({
+    workout,
+    overlapMs: overlapMs(window, workout),
+    heartRate: await visitHeartRate(store, workout, window.start, window.end),
+  })));
+  return fuseWearable(window, matches, estimateMaxHr(workouts), now);
+}
+
+function withLink(session: SessionCandidate, link: WearableLink): SessionCandidate {
+  return {
+    ...session,
+    wearable: link,
+    custody: [
+      ...(session.custody ?? []),
+      { at: link.linkedAt, event: `Wearable corroboration · ${wearableNote(link)}`, type: 'wearable_corroboration' },
+    ],
+  };
+}
+
+// Re-decide the gate when the linked session's SCS now lands on another gate
+function regate(session: SessionCandidate, context: ScsContext, now: number): SessionCandidate {
+  if (!session.gate || !REGATED_STATES.includes(session.gate.state)) return session;
+  const scs = computeScs(session, context);
+  return sessionGate(scs.value) === session.gate.gate ? session : decideGate(session, scs, now);
+}
+
+// =============================================================================
+// LINKING
+// =============================================================================
+
+/** The session with its overlapping workouts linked; unchanged when there are none. */
+export async function linkWearable(store: SessionStore, session: SessionCandidate, now: number): Promise<SessionCandidate> {
+  const workouts = await getList<WorkoutRecord>(store, keys.workouts(session.userId));
+  const link = await buildLink(store, session, workouts, now);
+  if (link) console.log(`[WEARABLE] Linked ${link.workoutIds.join(', ')} | ${link.zone ?? 'no zone'} | Session: ${session.id}`);
+  return link ? withLink(session, link) : session;
+}
+
+/**
+ * Re-link every finalized session `workout` overlaps that doesn't list it
+ * yet, re-deciding the gates it moves. Returns the session changes for the
+ * caller to audit.
+ */
+export async function linkWorkoutToSessions(
+  store: SessionStore,
+  workout: WorkoutRecord,
+  now: number,
+): Promise<AuditInput[]> {
+  if (!isDeviceRecorded(workout)) return [];
+  const unlinked = (history: SessionCandidate[]) => history.filter(s =>
+    s.status === 'finalized'
+    && overlapMs(visitWindow(s), workout) > 0
+    && !s.wearable?.workoutIds.includes(workout.id));
+
+  const stale = unlinked(await readHistory(store, workout.userId));
+  if (stale.length === 0) return [];
+
+  const [workouts, context] = await Promise.all([
+    getList<WorkoutRecord>(store, keys.workouts(workout.userId)),
+    loadScsContext(store, workout.userId),
+  ]);
+  const links = new Map<string, WearableLink>();
+  for (const session of stale) {
+    const link = await buildLink(store, session, workouts, now);
+    if (link) links.set(session.id, link);
+  }
+
+  const relinked = await updateHistory(store, workout.userId, history => {
+    const relinked = unlinked(history).flatMap(before => {
+      const link = links.get(before.id);
+      return link ? [{ before, after: regate(withLink(before, link), context, now) }] : [];
+    });
+    return { updated: relinked.map(r => r.after), result: relinked };
+  });
+
+  for (const { before, after } of relinked) {
+    const regated = before.gate?.state !== after.gate?.state ? ` | gate ${before.gate?.state} → ${after.gate?.state}` : '';
+    console.log(`[WEARABLE] Late link ${workout.id} → session:${after.id}${regated}`);
+  }
+  return relinked.map(({ before, after }) => ({ target: `session:${before.id}`, before, after }));
+}
@@ -0,0 +1,644 @@
+/**
+ * GAVL WebAuthn (Passkeys)
+ *
+ * Server-side verifier for passkey registration and sign-in, with no
+ * dependencies beyond node:crypto: a minimal CBOR decoder for the
+ * attestation object, COSE → JWK key conversion, and signature checks for
+ * ES256, EdDSA and RS256.
+ *
+ * Registration (navigator.credentials.create):
+ *   - clientData: type webauthn.create, our challenge, an allowed origin
+ *   - authData: rpIdHash = SHA-256(rpId), user present + user verified
+ *   - attestation: `none`, or `packed` (self or x5c). An x5c signature must
+ *     verify; the key counts as hardware-attested (teeVerified) only when
+ *     the chain also leads to a root in WEBAUTHN_ATTESTATION_ROOTS (PEM
+ *     bundle, e.g. from the FIDO Metadata Service) and the leaf's AAGUID
+ *     extension matches the authenticator. Anyone can mint a self-signed
+ *     x5c, so without configured roots nothing is hardware-attested. Other
+ *     formats are stored but not counted as hardware attestation.
+ *   - at most MAX_PASSKEYS per user
+ *
+ * Sign-in (navigator.credentials.get):
+ *   - same clientData/authData checks with type webauthn.get
+ *   - signature over authData || SHA-256(clientDataJSON) with the stored key
+ *   - signCount must grow when the authenticator keeps one (clone detection)
+ *
+ * Challenges are random, single-use and expire after CHALLENGE_TTL; the
+ * challenge inside clientDataJSON is the lookup key.
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, X509Certificate, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { atomicUpdate, keys, type SessionStore } from './store.js';
+
+export const CHALLENGE_TTL = 5 * 60; // seconds
+export const RP_NAME = 'Performance Equity';
+export const MAX_PASSKEYS = 10;
+
+// COSE algorithm identifiers we accept, in preference order
+export const SUPPORTED_ALGORITHMS = [-7, -8, -257] as const;
+type CoseAlgorithm = typeof SUPPORTED_ALGORITHMS[number];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_ATTESTED_DATA = 0x40;
+
+// id-fido-gen-ce-aaguid (1.3.6.1.4.1.45724.1.1.4), DER-encoded OID
+const AAGUID_EXTENSION_OID = Buffer.from('060b2b0601040182e51c010104', 'hex');
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PasskeyRecord {
+  credentialId: string;       // base64url
+  userId: string;
+  name: string;
+  publicKey: JsonWebKey;
+  alg: CoseAlgorithm;
+  signCount: number;
+  aaguid: string;             // authenticator model (hex), zeros when withheld
+  transports: string[];
+  attestationFormat: string;
+  hardwareAttested: boolean;  // packed x5c chained to a trusted attestation root
+  attestationRoot?: string;   // SHA-256 fingerprint of that root
+  backupEligible: boolean;    // synced passkey (iCloud Keychain, Google PM)
+  createdAt: number;
+  lastUsedAt: number;         // last successful challenge
+}
+
+type ChallengePurpose = 'register' | 'login';
+
+interface ChallengeRecord {
+  purpose: ChallengePurpose;
+  userId?: string;            // set for registration
+  createdAt: number;
+  consumedAt?: number;
+}
+
+export interface RelyingParty {
+  id: string;                 // effective domain, e.g. app.example.com
+  origins: string[];          // accepted clientData origins
+}
+
+export type VerifyResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  credential?: { aaguid: string; credentialId: Buffer; publicKey: Map<number, unknown> };
+}
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+export function toBase64Url(buf: Buffer): string {
+  return buf.toString('base64url');
+}
+
+function fromBase64Url(value: unknown): Buffer | null {
+  return typeof value === 'string' && /^[A-Za-z0-9_-]*$/.test(value) ? Buffer.from(value, 'base64url') : null;
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return createHash('sha256').update(data).digest();
+}
+
+// =============================================================================
+// CBOR (RFC 8949) - definite-length subset used by WebAuthn
+// =============================================================================
+
+type CborValue = number | bigint | string | boolean | null | undefined | Buffer | CborValue[] | Map<unknown, CborValue>;
+
+function readLength(buf: Buffer, info: number, offset: number): [number, number] {
+  if (info < 24) return [info, offset];
+  if (info === 24) return [buf.readUInt8(offset), offset + 1];
+  if (info === 25) return [buf.readUInt16BE(offset), offset + 2];
+  if (info === 26) return [buf.readUInt32BE(offset), offset + 4];
+  if (info === 27) return [Number(buf.readBigUInt64BE(offset)), offset + 8];
+  throw new Error(`CBOR: unsupported length encoding ${info}`);
+}
+
+/** Decode one CBOR item at `offset`; returns the value and the offset after it. */
+export function decodeCbor(buf: Buffer, offset = 0): [CborValue, number] {
+  if (offset >= buf.length) throw new Error('CBOR: unexpected end of input');
+  const initial = buf[offset];
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === 7) {
+    if (info === 20) return [false, offset + 1];
+    if (info === 21) return [true, offset + 1];
+    if (info === 22) return [null, offset + 1];
+    if (info === 23) return [undefined, offset + 1];
+    if (info === 25) return [halfToFloat(buf.readUInt16BE(offset + 1)), offset + 3];
+    if (info === 26) return [buf.readFloatBE(offset + 1), offset + 5];
+    if (info === 27) return [buf.readDoubleBE(offset + 1), offset + 9];
+    throw new Error(`CBOR: unsupported simple value ${info}`);
+  }
+
+  const [length, next] = readLength(buf, info, offset + 1);
+  switch (major) {
+    case 0: return [length, next];
+    case 1: return [-1 - length, next];
+    case 2:
+    case 3: {
+      if (next + length > buf.length) throw new Error('CBOR: string runs past end of input');
+      const bytes = buf.subarray(next, next + length);
+      return [major === 2 ? Buffer.from(bytes) : bytes.toString('utf8'), next + length];
+    }
+    case 4: {
+      const items: CborValue[] = [];
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const [item, after] = decodeCbor(buf, cursor);
+        items.push(item);
+        cursor = after;
+      }
+      return [items, cursor];
+    }
+    case 5: {
+      const map = new Map<unknown, CborValue>();
+      let cursor = next;
+      for (let i = 0; i < length; i++) {
+        const [key, afterKey] = decodeCbor(buf, cursor);
+        const [value, afterValue] = decodeCbor(buf, afterKey);
+        map.set(key, value);
+        cursor = afterValue;
+      }
+      return [map, cursor];
+    }
+    default:
+      throw new Error(`CBOR: unsupported major type ${major}`);
+  }
+}
+
+function halfToFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+// =============================================================================
+// COSE KEYS & SIGNATURES
+// =============================================================================
+
+/** COSE_Key (RFC 9053) → JWK, for the three algorithms we advertise. */
+export function coseToJwk(cose: Map<number, unknown>): VerifyResult<{ jwk: JsonWebKey; alg: CoseAlgorithm }> {
+  const kty = cose.get(1);
+  const alg = cose.get(3);
+  const b64 = (label: number) => {
+    const value = cose.get(label);
+    return Buffer.isBuffer(value) ? toBase64Url(value) : null;
+  };
+
+  if (alg === -7 && kty === 2 && cose.get(-1) === 1) {
+    const x = b64(-2), y = b64(-3);
+    if (x && y) return { ok: true, value: { jwk: { kty: 'EC', crv: 'P-256', x, y }, alg } };
+  }
+  if (alg === -8 && kty === 1 && cose.get(-1) === 6) {
+    const x = b64(-2);
+    if (x) return { ok: true, value: { jwk: { kty: 'OKP', crv: 'Ed25519', x }, alg } };
+  }
+  if (alg === -257 && kty === 3) {
+    const n = b64(-1), e = b64(-2);
+    if (n && e) return { ok: true, value: { jwk: { kty: 'RSA', n, e }, alg } };
+  }
+  return { ok: false, error: `Unsupported credential key (kty ${String(kty)}, alg ${String(alg)})` };
+}
+
+function verifySignature(alg: number, key: KeyObject, data: Buffer, signature: Buffer): boolean {
+  try {
+    if (alg === -7) return verify('sha256', data, { key, dsaEncoding: 'der' }, signature);
+    if (alg === -8) return verify(null, data, key, signature);
+    if (alg === -257) return verify('sha256', data, key, signature);
+  } catch {
+    // Malformed signature or key
+  }
+  return false;
+}
+
+// =============================================================================
+// AUTHENTICATOR DATA & CLIENT DATA
+// =============================================================================
+
+function parseAuthenticatorData(buf: Buffer): AuthenticatorData {
+  if (buf.length < 37) throw new Error('authenticatorData too short');
+  const flags = buf[32];
+  const data: AuthenticatorData = {
+    rpIdHash: buf.subarray(0, 32),
+    flags,
+    signCount: buf.readUInt32BE(33),
+  };
+
+  if (flags & FLAG_ATTESTED_DATA) {
+    const aaguid = buf.subarray(37, 53).toString('hex');
+    const idLength = buf.readUInt16BE(53);
+    const credentialId = buf.subarray(55, 55 + idLength);
+    const [publicKey] = decodeCbor(buf, 55 + idLength);
+    if (!(publicKey instanceof Map)) throw new Error('credential public key is not a COSE map');
+    data.credential = { aaguid, credentialId: Buffer.from(credentialId), publicKey: publicKey as Map<number, unknown> };
+  }
+  return data;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+function parseClientData(raw: Buffer): ClientData | null {
+  try {
+    const parsed = JSON.parse(raw.toString('utf8'));
+    if (typeof parsed.type !== 'string' || typeof parsed.challenge !== 'string' || typeof parsed.origin !== 'string') {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/** Shared clientData + authData checks for both ceremonies. */
+async function checkCeremony(
+  store: SessionStore,
+  rp: RelyingParty,
+  purpose: ChallengePurpose,
+  clientDataJSON: Buffer,
+  authData: AuthenticatorData,
+): Promise<VerifyResult<ChallengeRecord>> {
+  const clientData = parseClientData(clientDataJSON);
+  if (!clientData) return { ok: false, error: 'Malformed clientDataJSON' };
+  if (clientData.type !== (purpose === 'register' ? 'webauthn.create' : 'webauthn.get')) {
+    return { ok: false, error: `Unexpected ceremony type ${clientData.type}` };
+  }
+  if (!rp.origins.includes(clientData.origin)) return { ok: false, error: `Origin not allowed: ${clientData.origin}` };
+  if (!authData.rpIdHash.equals(sha256(rp.id))) return { ok: false, error: 'Credential is scoped to a different site' };
+  if (!(authData.flags & FLAG_USER_PRESENT)) return { ok: false, error: 'User presence was not confirmed' };
+  if (!(authData.flags & FLAG_USER_VERIFIED)) return { ok: false, error: 'User verification (biometric or PIN) is required' };
+
+  const challenge = await consumeChallenge(store, clientData.challenge, purpose);
+  if (!challenge) return { ok: false, error: 'Challenge is unknown, expired or already used' };
+  return { ok: true, value: challenge };
+}
+
+// =============================================================================
+// CHALLENGES
+// =============================================================================
+
+export async function createChallenge(store: SessionStore, purpose: ChallengePurpose, userId?: string): Promise<string> {
+  const challenge = toBase64Url(randomBytes(32));
+  const record: ChallengeRecord = { purpose, ...(userId && { userId }), createdAt: Date.now() };
+  await store.set(keys.webauthnChallenge(challenge), record, CHALLENGE_TTL);
+  return challenge;
+}
+
+async function consumeChallenge(store: SessionStore, challenge: string, purpose: ChallengePurpose): Promise<ChallengeRecord | null> {
+  return atomicUpdate<ChallengeRecord, ChallengeRecord | null>(store, keys.webauthnChallenge(challenge), existing =>
+    existing && !existing.consumedAt && existing.purpose === purpose
+      ? { write: { value: { ...existing, consumedAt: Date.now() }, ttlSeconds: CHALLENGE_TTL }, result: existing }
+      : { result: null },
+  );
+}
+
+// =============================================================================
+// CREDENTIAL STORE
+// =============================================================================
+
+export function getPasskey(store: SessionStore, credentialId: string): Promise<PasskeyRecord | null> {
+  return store.get<PasskeyRecord>(keys.passkey(credentialId));
+}
+
+export async function listPasskeys(store: SessionStore, userId: string): Promise<PasskeyRecord[]> {
+  const ids = (await store.get<string[]>(keys.userPasskeys(userId))) ?? [];
+  const records = await Promise.all(ids.map(id => getPasskey(store, id)));
+  return records.filter((r): r is PasskeyRecord => r !== null);
+}
+
+type SaveOutcome = 'saved' | 'duplicate' | 'limit';
+
+// The user's index claims a slot first, so concurrent registrations can't pass the cap
+async function savePasskey(store: SessionStore, record: PasskeyRecord): Promise<SaveOutcome> {
+  const indexKey = keys.userPasskeys(record.userId);
+  const slot = await atomicUpdate<string[], boolean>(store, indexKey, current => {
+    const ids = current ?? [];
+    if (ids.includes(record.credentialId)) return { result: true };
+    if (ids.length >= MAX_PASSKEYS) return { result: false };
+    return { write: { value: [...ids, record.credentialId] }, result: true };
+  });
+  if (!slot) return 'limit';
+
+  const created = await atomicUpdate<PasskeyRecord, boolean>(store, keys.passkey(record.credentialId), existing =>
+    existing ? { result: false } : { write: { value: record }, result: true },
+  );
+  if (created) return 'saved';
+
+  // Already registered: give the slot back unless it was this user's own key
+  const owner = await getPasskey(store, record.credentialId);
+  if (owner?.userId !== record.userId) {
+    await atomicUpdate<string[], void>(store, indexKey, current => ({
+      write: { value: (current ?? []).filter(id => id !== record.credentialId) },
+      result: undefined,
+    }));
+  }
+  return 'duplicate';
+}
+
+export async function deletePasskey(store: SessionStore, record: PasskeyRecord): Promise<void> {
+  await store.del(keys.passkey(record.credentialId));
+  await atomicUpdate<string[], void>(store, keys.userPasskeys(record.userId), current => ({
+    write: { value: (current ?? []).filter(id => id !== record.credentialId) },
+    result: undefined,
+  }));
+}
+
+/**
+ * Whether the passkey's hardware attestation was checked against a trusted
+ * root. Keys registered before roots were checked have no attestationRoot.
+ */
+export function isHardwareAttested(record: PasskeyRecord): boolean {
+  return record.hardwareAttested && record.attestationRoot !== undefined;
+}
+
+/** Metadata safe to show the owner. */
+export function publicPasskey(record: PasskeyRecord) {
+  return {
+    id: record.credentialId,
+    name: record.name,
+    aaguid: record.aaguid,
+    transports: record.transports,
+    attestationFormat: record.attestationFormat,
+    hardwareAttested: isHardwareAttested(record),
+    backupEligible: record.backupEligible,
+    createdAt: record.createdAt,
+    lastUsedAt: record.lastUsedAt,
+  };
+}
+
+// =============================================================================
+// CEREMONY OPTIONS
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function relyingParty(req: any): RelyingParty {
+  const host = String(req.headers?.host || 'localhost').split(':')[0];
+  const id = process.env.WEBAUTHN_RP_ID || host;
+  const configured = (process.env.WEBAUTHN_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+  if (configured.length > 0) return { id, origins: configured };
+
+  const proto = req.headers?.['x-forwarded-proto'] || (host === 'localhost' ? 'http' : 'https');
+  return { id, origins: [`${proto}://${req.headers?.host}`] };
+}
+
+export function registrationOptions(
+  rp: RelyingParty,
+  challenge: string,
+  user: { userId: string; email: string; name: string | null },
+  existing: PasskeyRecord[],
+) {
+  return {
+    challenge,
+    rp: { id: rp.id, name: RP_NAME },
+    user: { id: toBase64Url(Buffer.from(user.userId)), name: user.email, displayName: user.name ?? user.email },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map(alg => ({ type: 'public-key', alg })),
+    timeout: CHALLENGE_TTL * 1000,
+    attestation: 'direct',
+    authenticatorSelection: { residentKey: 'required', userVerification: 'required' },
+    excludeCredentials: existing.map(p => ({ type: 'public-key', id: p.credentialId, transports: p.transports })),
+  };
+}
+
+export function authenticationOptions(rp: RelyingParty, challenge: string) {
+  // No allowCredentials: the browser offers whichever passkey the user picks
+  return { challenge, rpId: rp.id, timeout: CHALLENGE_TTL * 1000, userVerification: 'required' };
+}
+
+// =============================================================================
+// REGISTRATION
+// =============================================================================
+
+export interface RegistrationInput {
+  clientDataJSON?: unknown;
+  attestationObject?: unknown;
+  transports?: unknown;
+}
+
+function trustedAttestationRoots(): X509Certificate[] {
+  const bundle = process.env.WEBAUTHN_ATTESTATION_ROOTS || '';
+  const pems = bundle.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) ?? [];
+  return pems.map(pem => new X509Certificate(pem));
+}
+
+// The AAGUID (hex) in the leaf's id-fido-gen-ce-aaguid extension, if it has one
+function certificateAaguid(cert: X509Certificate): string | null {
+  const der = cert.raw;
+  const at = der.indexOf(AAGUID_EXTENSION_OID);
+  if (at === -1) return null;
+  let offset = at + AAGUID_EXTENSION_OID.length;
+  if (der[offset] === 0x01) offset += 3;  // critical flag
+  // extnValue OCTET STRING wrapping an OCTET STRING of 16 bytes
+  if (der[offset] !== 0x04 || der[offset + 1] !== 0x12 || der[offset + 2] !== 0x04 || der[offset + 3] !== 0x10) return null;
+  return der.subarray(offset + 4, offset + 20).toString('hex');
+}
+
+function isCurrent(cert: X509Certificate, now: number): boolean {
+  return Date.parse(cert.validFrom) <= now && now <= Date.parse(cert.validTo);
+}
+
+// The trusted root (fingerprint) the chain leads to: every certificate in
+// date and signed by the next, the last issued by the root. Null if none.
+function trustedRootOf(chain: X509Certificate[], roots: X509Certificate[], now: number): string | null {
+  if (!chain.every(cert => isCurrent(cert, now))) return null;
+  for (let i = 0; i < chain.length - 1; i++) {
+    const issuer = chain[i + 1];
+    if (!issuer.ca || !chain[i].checkIssued(issuer) || !chain[i].verify(issuer.publicKey)) return null;
+  }
+  const last = chain[chain.length - 1];
+  const root = roots.find(root => root.ca && isCurrent(root, now) && (
+    root.fingerprint256 === last.fingerprint256 || (last.checkIssued(root) && last.verify(root.publicKey))
+  ));
+  return root?.fingerprint256 ?? null;
+}
+
+function verifyAttestation(
+  fmt: string,
+  attStmt: Map<unknown, CborValue>,
+  signed: Buffer,
+  credentialKey: KeyObject,
+  credentialAlg: CoseAlgorithm,
+  aaguid: string,
+): VerifyResult<{ hardwareAttested: boolean; attestationRoot?: string }> {
+  if (fmt === 'none') return { ok: true, value: { hardwareAttested: false } };
+  if (fmt !== 'packed') {
+    // Known formats we don't verify (apple, tpm, android-key, fido-u2f ...)
+    return { ok: true, value: { hardwareAttested: false } };
+  }
+
+  const alg = attStmt.get('alg');
+  const sig = attStmt.get('sig');
+  const x5c = attStmt.get('x5c');
+  if (typeof alg !== 'number' || !Buffer.isBuffer(sig)) return { ok: false, error: 'Malformed packed attestation' };
+
+  if (Array.isArray(x5c) && x5c.length > 0) {
+    let chain: X509Certificate[];
+    try {
+      if (!x5c.every(Buffer.isBuffer)) throw new Error('x5c entry is not a certificate');
+      chain = x5c.map(der => new X509Certificate(der as Buffer));
+    } catch {
+      return { ok: false, error: 'Unreadable attestation certificate' };
+    }
+    if (!verifySignature(alg, chain[0].publicKey, signed, sig)) return { ok: false, error: 'Attestation signature does not verify' };
+
+    const certAaguid = certificateAaguid(chain[0]);
+    if (certAaguid !== null && certAaguid !== aaguid) {
+      return { ok: false, error: 'Attestation certificate is for a different authenticator model' };
+    }
+    const root = trustedRootOf(chain, trustedAttestationRoots(), Date.now());
+    if (!root) {
+      console.warn(`[WEBAUTHN] Attestation chain not trusted | AAGUID ${aaguid} | stored as not hardware-attested`);
+      return { ok: true, value: { hardwareAttested: false } };
+    }
+    return { ok: true, value: { hardwareAttested: true, attestationRoot: root } };
+  }
+
+  // Self attestation: signed by the credential key itself
+  if (alg !== credentialAlg || !verifySignature(alg, credentialKey, signed, sig)) {
+    return { ok: false, error: 'Self-attestation signature does not verify' };
+  }
+  return { ok: true, value: { hardwareAttested: false } };
+}
+
+export async function verifyRegistration(
+  store: SessionStore,
+  rp: RelyingParty,
+  userId: string,
+  name: string,
+  response: RegistrationInput,
+): Promise<VerifyResult<PasskeyRecord>> {
+  const clientDataJSON = fromBase64Url(response.clientDataJSON);
+  const attestationObject = fromBase64Url(response.attestationObject);
+  if (!clientDataJSON || !attestationObject) return { ok: false, error: 'Required: clientDataJSON, attestationObject (base64url)' };
+
+  let fmt: unknown, attStmt: unknown, authDataRaw: unknown, authData: AuthenticatorData;
+  try {
+    const [decoded] = decodeCbor(attestationObject);
+    if (!(decoded instanceof Map)) throw new Error('attestationObject is not a map');
+    fmt = decoded.get('fmt');
+    attStmt = decoded.get('attStmt');
+    authDataRaw = decoded.get('authData');
+    if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !Buffer.isBuffer(authDataRaw)) {
+      throw new Error('attestationObject is missing fmt/attStmt/authData');
+    }
+    authData = parseAuthenticatorData(authDataRaw);
+  } catch (err) {
+    return { ok: false, error: `Malformed attestation: ${(err as Error).message}` };
+  }
+  if (!authData.credential) return { ok: false, error: 'Attestation carries no credential' };
+
+  const ceremony = await checkCeremony(store, rp, 'register', clientDataJSON, authData);
+  if (!ceremony.ok) return ceremony;
+  if (ceremony.value.userId !== userId) return { ok: false, error: 'Challenge was issued to a different user' };
+
+  const key = coseToJwk(authData.credential.publicKey);
+  if (!key.ok) return key;
+  const credentialKey = createPublicKey({ key: key.value.jwk, format: 'jwk' });
+
+  const signed = Buffer.concat([authDataRaw, sha256(clientDataJSON)]);
+  const attestation = verifyAttestation(
+    fmt, attStmt as Map<unknown, CborValue>, signed, credentialKey, key.value.alg, authData.credential.aaguid,
+  );
+  if (!attestation.ok) return attestation;
+
+  const now = Date.now();
+  const record: PasskeyRecord = {
+    credentialId: toBase64Url(authData.credential.credentialId),
+    userId,
+    name,
+    publicKey: key.value.jwk,
+    alg: key.value.alg,
+    signCount: authData.signCount,
+    aaguid: authData.credential.aaguid,
+    transports: Array.isArray(response.transports)
+      ? response.transports.filter((t): t is string => typeof t === 'string')
+      : [],
+    attestationFormat: fmt,
+    hardwareAttested: attestation.value.hardwareAttested,
+    ...(attestation.value.attestationRoot && { attestationRoot: attestation.value.attestationRoot }),
+    backupEligible: (authData.flags & FLAG_BACKUP_ELIGIBLE) !== 0,
+    createdAt: now,
+    lastUsedAt: now,
+  };
+
+  const saved = await savePasskey(store, record);
+  if (saved === 'duplicate') return { ok: false, error: 'This passkey is already registered' };
+  if (saved === 'limit') return { ok: false, error: `At most ${MAX_PASSKEYS} passkeys per account - remove one first` };
+  return { ok: true, value: record };
+}
+
+// =============================================================================
+// AUTHENTICATION
+// =============================================================================
+
+export interface AssertionInput {
+  id?: unknown;
+  clientDataJSON?: unknown;
+  authenticatorData?: unknown;
+  signature?: unknown;
+  userHandle?: unknown;
+}
+
+export async function verifyAuthentication(
+  store: SessionStore,
+  rp: RelyingParty,
+  response: AssertionInput,
+): Promise<VerifyResult<PasskeyRecord>> {
+  const clientDataJSON = fromBase64Url(response.clientDataJSON);
+  const authDataRaw = fromBase64Url(response.authenticatorData);
+  const signature = fromBase64Url(response.signature);
+  if (typeof response.id !== 'string' || !clientDataJSON || !authDataRaw || !signature) {
+    return { ok: false, error: 'Required: id, clientDataJSON, authenticatorData, signature (base64url)' };
+  }
+
+  const passkey = await getPasskey(store, response.id);
+  if (!passkey) return { ok: false, error: 'Unknown passkey' };
+
+  const userHandle = fromBase64Url(response.userHandle);
+  if (userHandle && userHandle.length > 0 && userHandle.toString('utf8') !== passkey.userId) {
+    return { ok: false, error: 'Passkey does not belong to this user' };
+  }
+
+  let authData: AuthenticatorData;
+  try {
+    authData = parseAuthenticatorData(authDataRaw);
+  } catch (err) {
+    return { ok: false, error: `Malformed authenticatorData: ${(err as Error).message}` };
+  }
+
+  const ceremony = await checkCeremony(store, rp, 'login', clientDataJSON, authData);
+  if (!ceremony.ok) return ceremony;
+
+  const key = createPublicKey({ key: passkey.publicKey, format: 'jwk' });
+  const signed = Buffer.concat([authDataRaw, sha256(clientDataJSON)]);
+  if (!verifySignature(passkey.alg, key, signed, signature)) return { ok: false, error: 'Signature does not verify' };
+
+  // Authenticators that count must count up; synced passkeys always send 0
+  const counting = authData.signCount > 0 || passkey.signCount > 0;
+  if (counting && authData.signCount <= passkey.signCount) {
+    console.warn(`[WEBAUTHN] signCount regressed for ${passkey.credentialId} (${authData.signCount} <= ${passkey.signCount})`);
+    return { ok: false, error: 'Passkey counter regressed - possible cloned authenticator' };
+  }
+
+  const updated = await atomicUpdate<PasskeyRecord, PasskeyRecord | null>(store, keys.passkey(passkey.credentialId), current => {
+    if (!current) return { result: null };
+    const next = { ...current, signCount: authData.signCount, lastUsedAt: Date.now() };
+    return { write: { value: next }, result: next };
+  });
+  if (!updated) return { ok: false, error: 'Unknown passkey' };
+  return { ok: true, value: updated };
+}
@@ -0,0 +1,207 @@
+/**
+ * GAVL Wi-Fi BSSID Verification
+ *
+ * A wifi_bssid anchor names the access points the phone can see. They are
+ * matched against the facility's registered BSSIDs and weighted by signal:
+ *
+ *   strength(rssi) = 0 at -90 dBm … 1 at -50 dBm (unknown RSSI = 0.6)
+ *   confidence     = 1 - Π(1 - strength)   over matched BSSIDs
+ *   boost          = ANCHOR_BOOSTS.wifi_bssid × confidence
+ *
+ * No match → the anchor is rejected.
+ *
+ * LEARNING: BSSIDs observed during a session that has a verified NFC tap are
+ * trusted as corroborated. Each one is counted once per user; after
+ * LEARN_MIN_USERS distinct users have seen it, it is added to the facility
+ * (audited as a facility.learn by the user whose sighting completed it).
+ * One user can't teach the gym their own router, however often they tap.
+ */
+
+import type { AnchorEvidence, SessionCandidate } from '../../shared/schema.js';
+import { recordAudit, type AuditInput } from './audit.js';
+import type { Principal } from './auth.js';
+import { normalizeBssid, updateFacility, type Facility } from './facilities.js';
+import { atomicUpdate, keys, type SessionStore } from './store.js';
+
+const BSSID_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/;
+
+const RSSI_FLOOR = -90;               // dBm, barely visible
+const RSSI_CEILING = -50;             // dBm, in the room
+const UNKNOWN_RSSI_STRENGTH = 0.6;    // Shortcuts' connected network has no RSSI
+const VERIFIED_CONFIDENCE = 0.5;
+const MAX_OBSERVATIONS = 32;
+
+export const LEARN_MIN_USERS = 3;
+const LEARN_MIN_RSSI = -75;           // ignore weak (neighbouring) networks
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface BssidObservation {
+  bssid: string;              // normalized aa:bb:cc:dd:ee:ff
+  rssi?: number;              // dBm
+}
+
+export interface WifiMatch {
+  matched: BssidObservation[];
+  confidence: number;         // 0-1
+  evidence: AnchorEvidence;
+}
+
+interface BssidCandidate {
+  userIds: string[];          // distinct users who saw it during an NFC-verified session
+  firstSeenAt: number;
+  lastSeenAt: number;
+}
+
+type CandidateRegistry = Record<string, BssidCandidate>;
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+function parseObservation(value: unknown): BssidObservation | null {
+  const entry = typeof value === 'string' ? { bssid: value } : value as Record<string, unknown> | null;
+  if (!entry || typeof entry.bssid !== 'string') return null;
+
+  const bssid = normalizeBssid(entry.bssid);
+  if (!BSSID_PATTERN.test(bssid)) return null;
+
+  const rssi = entry.rssi === undefined || entry.rssi === '' ? undefined : Number(entry.rssi);
+  if (rssi !== undefined && (!Number.isFinite(rssi) || rssi > 0 || rssi < -120)) return null;
+  return rssi === undefined ? { bssid } : { bssid, rssi };
+}
+
+/**
+ * Read `bssids: [{ bssid, rssi? } | "aa:bb:.."]` or a single `bssid` (+ `rssi`)
+ * from a request body. Returns null when none were sent and an error string
+ * when the list is malformed.
+ */
+export function parseBssidObservations(body: Record<string, unknown>): BssidObservation[] | null | string {
+  const raw = body.bssids ?? (body.bssid !== undefined ? [{ bssid: body.bssid, rssi: body.rssi }] : undefined);
+  if (raw === undefined) return null;
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_OBSERVATIONS) {
+    return `bssids must be a list of 1-${MAX_OBSERVATIONS} observations`;
+  }
+
+  const parsed = raw.map(parseObservation);
+  if (parsed.some(o => o === null)) return 'each bssid must be a MAC address (aa:bb:cc:dd:ee:ff) with optional rssi in dBm';
+
+  // Keep the strongest reading per BSSID
+  const strongest = new Map<string, BssidObservation>();
+  for (const o of parsed as BssidObservation[]) {
+    const seen = strongest.get(o.bssid);
+    if (!seen || (o.rssi ?? -Infinity) > (seen.rssi ?? -Infinity)) strongest.set(o.bssid, o);
+  }
+  return [...strongest.values()];
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+export function signalStrength(rssi: number | undefined): number {
+  if (rssi === undefined) return UNKNOWN_RSSI_STRENGTH;
+  const ratio = (rssi - RSSI_FLOOR) / (RSSI_CEILING - RSSI_FLOOR);
+  return Math.min(1, Math.max(0, ratio));
+}
+
+/** Match observations against the facility. Returns null when nothing matches. */
+export function matchBssids(facility: Facility, observations: BssidObservation[]): WifiMatch | null {
+  const known = new Set(facility.wifiBssids);
+  const matched = observations.filter(o => known.has(o.bssid));
+  if (matched.length === 0) return null;
+
+  const miss = matched.reduce((product, o) => product * (1 - signalStrength(o.rssi)), 1);
+  const confidence = Math.round((1 - miss) * 100) / 100;
+  if (confidence === 0) return null;
+
+  const best = matched.reduce((a, b) => (signalStrength(b.rssi) > signalStrength(a.rssi) ? b : a));
+  return {
+    matched,
+    confidence,
+    evidence: {
+      verdict: confidence >= VERIFIED_CONFIDENCE ? 'verified' : 'degraded',
+      bssid: best.bssid,
+      rssi: best.rssi,
+      confidence,
+      matchedCount: matched.length,
+    },
+  };
+}
+
+// =============================================================================
+// LEARNING
+// =============================================================================
+
+// Count BSSIDs observed during an NFC-verified session towards the facility.
+// Returns the facility change when this call promoted any of them.
+async function learnBssids(
+  store: SessionStore,
+  facility: Facility,
+  userId: string,
+  observations: BssidObservation[],
+): Promise<AuditInput | null> {
+  const known = new Set(facility.wifiBssids);
+  const fresh = observations
+    .filter(o => !known.has(o.bssid) && (o.rssi === undefined || o.rssi >= LEARN_MIN_RSSI))
+    .map(o => o.bssid);
+  if (fresh.length === 0) return null;
+
+  const now = Date.now();
+  const promoted = await atomicUpdate<CandidateRegistry, string[]>(store, keys.bssidCandidates(facility.id), current => {
+    const registry: CandidateRegistry = { ...current };
+    const ready: string[] = [];
+
+    for (const bssid of fresh) {
+      const candidate = registry[bssid];
+      // Candidates recorded per session before per-user counting start over
+      const seenBy = candidate?.userIds ?? [];
+      const userIds = seenBy.includes(userId) ? seenBy : [...seenBy, userId];
+
+      if (userIds.length >= LEARN_MIN_USERS) {
+        ready.push(bssid);
+        delete registry[bssid];
+      } else {
+        registry[bssid] = { firstSeenAt: candidate?.firstSeenAt ?? now, userIds, lastSeenAt: now };
+      }
+    }
+    return { write: { value: registry }, result: ready };
+  });
+  if (promoted.length === 0) return null;
+
+  const result = await updateFacility(store, facility.id, current => ({
+    wifiBssids: [...new Set([...current.wifiBssids, ...promoted])],
+  }));
+  if (!result.ok) return null;
+  console.log(`[WIFI] Learned BSSID(s) for ${facility.id}: ${promoted.join(', ')}`);
+  return { target: `facility:${facility.id}`, before: result.previous, after: result.facility };
+}
+
+function hasVerifiedNfc(session: SessionCandidate): boolean {
+  return session.anchors.some(a => a.type === 'nfc' && a.evidence?.verdict === 'verified');
+}
+
+/**
+ * Learn from the networks seen alongside a session, if (and only if) the
+ * session is corroborated by a verified NFC tap. A failed learning step never
+ * fails the request; a facility change it made is always audited.
+ */
+export async function learnFromSession(
+  store: SessionStore,
+  facility: Facility,
+  session: SessionCandidate | null,
+  observations: BssidObservation[] | null,
+  who: Principal,
+): Promise<void> {
+  if (!session || !observations?.length || !hasVerifiedNfc(session)) return;
+  let change: AuditInput | null;
+  try {
+    change = await learnBssids(store, facility, session.userId, observations);
+  } catch (error) {
+    console.warn(`[WIFI] BSSID learning skipped for ${facility.id}:`, error);
+    return;
+  }
+  if (change) await recordAudit(store, who, 'facility.learn', [change]);
+}
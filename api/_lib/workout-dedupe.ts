@@ -0,0 +1,230 @@
+/**
+ * GAVL Workout Dedupe
+ *
+ * One workout, one record: a FIT file uploaded twice, or the same run synced
+ * from a Garmin and from Apple Health, must not land in workouts:{userId} as
+ * two WR- records (each would count towards the score).
+ *
+ * An incoming workout is a duplicate of a stored one when every signal both
+ * of them carry agrees:
+ *
+ *   time        overlap covers 80% of the longer of the two
+ *   duration    moving times within 15%
+ *   distance    within 8% (GPS vs. footpod vs. wrist)
+ *   heart-rate  per-minute HR profiles within 8 bpm on average, or the
+ *               average HRs when there is no profile to compare
+ *
+ * Activity types are not compared - every source names them differently.
+ *
+ * A duplicate is merged into the stored record, which keeps its id: the
+ * richer of the two (more per-second samples) supplies the summary, the
+ * other fills its gaps, and `provenance` lists every source that reported
+ * it. saveWorkout does the match and the write in one atomic update of the
+ * history list, so two uploads racing each other still end up as one record.
+ */
+
+import { decodeStreams, type WorkoutStreams } from '../../shared/streams.js';
+import type { AuditInput } from './audit.js';
+import { atomicUpdate, keys, TTL, WORKOUT_HISTORY_LIMIT, type SessionStore } from './store.js';
+import type { WorkoutProvenance, WorkoutRecord } from './workout-files.js';
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const MIN_OVERLAP = 0.8;              // of the longer workout's elapsed time
+const DURATION_TOLERANCE = 0.15;      // relative
+const DISTANCE_TOLERANCE = 0.08;      // relative
+const HEART_RATE_TOLERANCE = 8;       // bpm, mean absolute difference
+const MIN_PROFILE_MINUTES = 3;        // shared minutes needed to compare profiles
+
+const MINUTE_MS = 60_000;
+
+export type DedupeSignal = 'time' | 'duration' | 'distance' | 'heart-rate';
+
+export interface WorkoutMatch {
+  workout: WorkoutRecord;
+  matchedOn: DedupeSignal[];
+}
+
+export interface SavedWorkout {
+  workout: WorkoutRecord;             // as stored: the new record, or the merged one
+  duplicate: WorkoutMatch | null;     // the stored record it was merged into
+  changes: AuditInput[];
+}
+
+// =============================================================================
+// FINGERPRINT
+// =============================================================================
+
+/**
+ * Mean HR per wall-clock minute, from the minute holding startTime on.
+ * Minutes without a sample are null; trailing ones are dropped.
+ */
+export function heartRateProfile(streams: WorkoutStreams): (number | null)[] | undefined {
+  const { time, heartRate } = decodeStreams(streams, ['time', 'heartRate']);
+  if (!time || !heartRate) return undefined;
+
+  const firstMinute = Math.floor(streams.startTime / MINUTE_MS);
+  const sums: number[] = [];
+  const counts: number[] = [];
+  time.forEach((seconds, i) => {
+    const bpm = heartRate[i];
+    if (seconds === null || bpm === null) return;
+    const minute = Math.floor((streams.startTime + seconds * 1000) / MINUTE_MS) - firstMinute;
+    sums[minute] = (sums[minute] ?? 0) + bpm;
+    counts[minute] = (counts[minute] ?? 0) + 1;
+  });
+  if (sums.length === 0) return undefined;
+  return Array.from({ length: sums.length }, (_, m) => (counts[m] ? Math.round(sums[m] / counts[m]) : null));
+}
+
+function withinRatio(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) <= tolerance * Math.max(a, b);
+}
+
+// Mean |difference| over the minutes both profiles have, or null when too few
+function profileDifference(a: WorkoutRecord, b: WorkoutRecord): number | null {
+  if (!a.hrProfile || !b.hrProfile) return null;
+  const shift = Math.floor(b.startTime / MINUTE_MS) - Math.floor(a.startTime / MINUTE_MS);
+  let total = 0;
+  let shared = 0;
+  a.hrProfile.forEach((bpm, minute) => {
+    const other = b.hrProfile![minute - shift];
+    if (bpm === null || other === null || other === undefined) return;
+    total += Math.abs(bpm - other);
+    shared++;
+  });
+  return shared >= MIN_PROFILE_MINUTES ? total / shared : null;
+}
+
+function overlap(a: WorkoutRecord, b: WorkoutRecord): number {
+  return Math.min(a.endTime, b.endTime) - Math.max(a.startTime, b.startTime);
+}
+
+/** The signals on which `a` and `b` agree, or null if any signal they share disagrees. */
+export function compareWorkouts(a: WorkoutRecord, b: WorkoutRecord): DedupeSignal[] | null {
+  const longest = Math.max(a.endTime - a.startTime, b.endTime - b.startTime, 1);
+  if (overlap(a, b) < MIN_OVERLAP * longest) return null;
+  const matchedOn: DedupeSignal[] = ['time'];
+
+  if (a.duration > 0 && b.duration > 0) {
+    if (!withinRatio(a.duration, b.duration, DURATION_TOLERANCE)) return null;
+    matchedOn.push('duration');
+  }
+  if (a.distance && b.distance) {
+    if (!withinRatio(a.distance, b.distance, DISTANCE_TOLERANCE)) return null;
+    matchedOn.push('distance');
+  }
+
+  const profile = profileDifference(a, b);
+  if (profile !== null) {
+    if (profile > HEART_RATE_TOLERANCE) return null;
+    matchedOn.push('heart-rate');
+  } else if (a.avgHeartRate && b.avgHeartRate) {
+    if (Math.abs(a.avgHeartRate - b.avgHeartRate) > HEART_RATE_TOLERANCE) return null;
+    matchedOn.push('heart-rate');
+  }
+  return matchedOn;
+}
+
+/** The stored workout `incoming` duplicates - the most overlapping one - or null. */
+export function findDuplicate(history: WorkoutRecord[], incoming: WorkoutRecord): WorkoutMatch | null {
+  let best: WorkoutMatch | null = null;
+  for (const candidate of history) {
+    if (candidate.id === incoming.id) continue;
+    const matchedOn = compareWorkouts(candidate, incoming);
+    if (matchedOn && (!best || overlap(candidate, incoming) > overlap(best.workout, incoming))) {
+      best = { workout: candidate, matchedOn };
+    }
+  }
+  return best;
+}
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+function provenanceOf(workout: WorkoutRecord): WorkoutProvenance[] {
+  return workout.provenance ?? [{
+    source: workout.source,
+    receivedAt: workout.createdAt,
+    deviceManufacturer: workout.deviceManufacturer,
+    recordCount: workout.recordCount,
+  }];
+}
+
+/** Whether `incoming` should supply the merged summary (and streams) over `stored`. */
+export function outranks(incoming: WorkoutRecord, stored: WorkoutRecord): boolean {
+  return (incoming.recordCount ?? 0) > (stored.recordCount ?? 0);
+}
+
+/** `incoming` folded into `stored`: stored id and createdAt, richer record's fields first. */
+export function mergeWorkouts(stored: WorkoutRecord, incoming: WorkoutRecord): WorkoutRecord {
+  const [primary, secondary] = outranks(incoming, stored) ? [incoming, stored] : [stored, incoming];
+  const defined = Object.fromEntries(Object.entries(primary).filter(([, value]) => value !== undefined));
+  return {
+    ...secondary,
+    ...defined,
+    id: stored.id,
+    userId: stored.userId,
+    createdAt: stored.createdAt,
+    provenance: [...provenanceOf(stored), ...provenanceOf(incoming)],
+  } as WorkoutRecord;
+}
+
+// =============================================================================
+// SAVE
+// =============================================================================
+
+/**
+ * Store a parsed workout (userId set) and its streams, merging it into the
+ * stored record it duplicates if there is one. Returns the changes for the
+ * caller to audit.
+ */
+export async function saveWorkout(
+  store: SessionStore,
+  workout: WorkoutRecord,
+  streams: WorkoutStreams | undefined,
+): Promise<SavedWorkout> {
+  const { userId } = workout;
+  const incoming: WorkoutRecord = {
+    ...workout,
+    hrProfile: workout.hrProfile ?? (streams ? heartRateProfile(streams) : undefined),
+    provenance: provenanceOf(workout),
+  };
+
+  const { saved, duplicate } = await atomicUpdate<WorkoutRecord[], { saved: WorkoutRecord; duplicate: WorkoutMatch | null }>(
+    store,
+    keys.workouts(userId),
+    current => {
+      const history = Array.isArray(current) ? current : [];
+      const duplicate = findDuplicate(history, incoming);
+      if (!duplicate) {
+        const list = [...history, incoming].slice(-WORKOUT_HISTORY_LIMIT);
+        return { write: { value: list, ttlSeconds: TTL.WORKOUT_HISTORY }, result: { saved: incoming, duplicate } };
+      }
+      const merged = mergeWorkouts(duplicate.workout, incoming);
+      const list = history.map(w => (w.id === merged.id ? merged : w));
+      return { write: { value: list, ttlSeconds: TTL.WORKOUT_HISTORY }, result: { saved: merged, duplicate } };
+    },
+  );
+
+  // Streams follow the list entry here, so a brand-new workout's streams may 404 for a moment
+  const changes: AuditInput[] = [];
+
+  // A merged record keeps the richer workout's streams (its streamChannels came along)
+  const keepStreams = streams && (!duplicate || !duplicate.workout.streamChannels || outranks(incoming, duplicate.workout));
+  if (keepStreams) {
+    const streamsKey = keys.workoutStreams(userId, saved.id);
+    const before = duplicate ? await store.get<WorkoutStreams>(streamsKey) : null;
+    await store.set(streamsKey, streams, TTL.WORKOUT_STREAMS);
+    changes.push({ target: `workout-streams:${saved.id}`, before, after: streams });
+  }
+
+  const previous = await store.get<WorkoutRecord>(keys.workout(userId, saved.id));
+  await store.set(keys.workout(userId, saved.id), saved, TTL.WORKOUT);
+  changes.unshift({ target: `workout:${saved.id}`, before: previous, after: saved });
+
+  return { workout: saved, duplicate, changes };
+}
@@ -0,0 +1,488 @@
+/**
+ * GAVL Workout Files
+ *
+ * Turns an uploaded workout file into a WorkoutRecord plus its per-second
+ * streams (shared/streams.ts). The format is detected from the content:
+ *
+ *   FIT   ".FIT" signature in the header (Garmin, Coros, Wahoo)
+ *   GPX   <gpx> root (Strava, Suunto, Wahoo, most exporters)
+ *   TCX   <TrainingCenterDatabase> root (Garmin Connect, Polar)
+ *
+ * FIT carries its own session summary. GPX and TCX are summarized from their
+ * trackpoints (HR, cadence, distance, elevation), with TCX lap totals
+ * (timer time, distance, calories) taking precedence where present; GPX has
+ * no laps.
+ */
+
+import { Decoder, Stream } from '@garmin/fitsdk';
+import { encodeStreams, type StreamChannel, type WorkoutStreams } from '../../shared/streams.js';
+import { haversineDistance } from './geo.js';
+import { childElement, childElements, childText, descendants, parseXml, type XmlElement } from './xml.js';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WorkoutRecord {
+  id: string;
+  userId: string;
+  source: 'garmin-fit' | 'gpx' | 'tcx' | 'apple-health' | 'manual' | 'coros' | 'whoop' | 'oura';
+  activityType: string;
+  subActivity?: string;
+  startTime: number;
+  endTime: number;
+  duration: number;             // seconds
+  distance?: number;            // meters
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  minHeartRate?: number;
+  avgSpeed?: number;            // m/s
+  maxSpeed?: number;
+  avgCadence?: number;
+  totalAscent?: number;         // meters
+  totalDescent?: number;
+  hrZones?: number[];           // time in each zone (seconds)
+  trainingEffect?: number;
+  deviceManufacturer?: string;
+  deviceProduct?: number;
+  recordCount?: number;         // number of per-second data points
+  streamChannels?: StreamChannel[]; // channels stored under workout-streams:
+  laps?: LapSummary[];
+  hrProfile?: (number | null)[]; // mean HR per wall-clock minute from startTime, for dedupe
+  provenance?: WorkoutProvenance[]; // every source that reported it (_lib/workout-dedupe.ts)
+  createdAt: number;            // when ingested
+}
+
+export interface WorkoutProvenance {
+  source: WorkoutRecord['source'];
+  receivedAt: number;
+  deviceManufacturer?: string;
+  recordCount?: number;
+}
+
+export interface LapSummary {
+  lapNumber: number;
+  startTime: number;
+  duration: number;             // seconds
+  distance?: number;            // meters
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  avgSpeed?: number;
+  calories?: number;
+}
+
+export type ParsedWorkout = { workout: WorkoutRecord; streams?: WorkoutStreams } | { error: string };
+
+export type WorkoutFileFormat = 'fit' | 'gpx' | 'tcx';
+
+// One sample of a track, whatever file it came from
+export interface Trackpoint {
+  time: number;
+  lat: number | null;
+  lon: number | null;
+  altitude: number | null;
+  heartRate: number | null;
+  cadence: number | null;
+  power: number | null;
+  distance: number | null;      // cumulative meters, when the file records it
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function generateWorkoutId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `WR-${timestamp}-${random}`.toUpperCase();
+}
+
+function sample(value: unknown, factor = 1): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value * factor : null;
+}
+
+function num(text: string | undefined): number | undefined {
+  const value = text === undefined ? NaN : Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function present(points: Trackpoint[], field: keyof Trackpoint): number[] {
+  return points.map(p => p[field]).filter((v): v is number => v !== null);
+}
+
+export function average(values: number[]): number | undefined {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : undefined;
+}
+
+export function largest(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((a, b) => Math.max(a, b)) : undefined;
+}
+
+export function smallest(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((a, b) => Math.min(a, b)) : undefined;
+}
+
+// One column per channel, time in seconds from the start
+export function trackpointStreams(points: Trackpoint[], startTime: number): WorkoutStreams | undefined {
+  if (points.length === 0) return undefined;
+  return encodeStreams(startTime, {
+    time: points.map(p => (p.time - startTime) / 1000),
+    heartRate: points.map(p => p.heartRate),
+    cadence: points.map(p => p.cadence),
+    power: points.map(p => p.power),
+    altitude: points.map(p => p.altitude),
+    lat: points.map(p => p.lat),
+    lon: points.map(p => p.lon),
+  });
+}
+
+export function streamChannels(streams: WorkoutStreams | undefined): StreamChannel[] | undefined {
+  return streams ? Object.keys(streams.channels) as StreamChannel[] : undefined;
+}
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+export function detectWorkoutFormat(bytes: Buffer): WorkoutFileFormat | null {
+  if (bytes.length >= 12 && bytes.toString('latin1', 8, 12) === '.FIT') return 'fit';
+  const root = /<(?![?!])(?:[\w.-]+:)?([\w.-]+)/.exec(xmlText(bytes))?.[1];
+  if (root === 'gpx') return 'gpx';
+  if (root === 'TrainingCenterDatabase') return 'tcx';
+  return null;
+}
+
+function xmlText(bytes: Buffer): string {
+  return bytes.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+/** Parse an upload: base64 of any supported file, or GPX/TCX as plain text. */
+export function parseWorkoutFile(data: string): ParsedWorkout {
+  const bytes = data.trimStart().startsWith('<') ? Buffer.from(data, 'utf8') : Buffer.from(data, 'base64');
+  switch (detectWorkoutFormat(bytes)) {
+    case 'fit': return parseFitFile(bytes);
+    case 'gpx': return parseGpx(xmlText(bytes));
+    case 'tcx': return parseTcx(xmlText(bytes));
+    case null: return { error: 'Unrecognized workout file: expected FIT, GPX or TCX' };
+  }
+}
+
+// =============================================================================
+// FIT FILE PARSER
+// =============================================================================
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+function fitTrackpoints(records: Record<string, unknown>[]): Trackpoint[] {
+  return records
+    .filter(r => r.timestamp instanceof Date)
+    .map(r => ({
+      time: (r.timestamp as Date).getTime(),
+      lat: sample(r.positionLat, SEMICIRCLES_TO_DEGREES),
+      lon: sample(r.positionLong, SEMICIRCLES_TO_DEGREES),
+      altitude: sample(r.enhancedAltitude) ?? sample(r.altitude),
+      heartRate: sample(r.heartRate),
+      cadence: sample(r.cadence),
+      power: sample(r.power),
+      distance: sample(r.distance),
+    }));
+}
+
+function parseFitFile(buffer: Buffer): ParsedWorkout {
+  try {
+    const bytes = Array.from(new Uint8Array(buffer));
+
+    const stream = Stream.fromByteArray(bytes);
+    const decoder = new Decoder(stream);
+
+    if (!decoder.isFIT()) {
+      return { error: 'Invalid FIT file: not a valid FIT format' };
+    }
+
+    const { messages, errors } = decoder.read({
+      applyScaleAndOffset: true,
+      expandSubFields: true,
+      expandComponents: true,
+      convertTypesToStrings: true,
+      convertDateTimesToDates: true,
+      mergeHeartRates: true,
+      includeUnknownData: false,
+    });
+
+    if (errors.length > 0) {
+      console.warn('[WORKOUT] FIT decode warnings:', errors);
+    }
+
+    // Extract session summary (primary data source)
+    const session = messages.sessionMesgs?.[0];
+    if (!session) {
+      return { error: 'FIT file contains no session data' };
+    }
+
+    // Extract device info
+    const deviceInfo = messages.deviceInfoMesgs?.[0];
+
+    // Extract lap summaries
+    const laps: LapSummary[] = (messages.lapMesgs || []).map((lap: Record<string, unknown>, i: number) => ({
+      lapNumber: i + 1,
+      startTime: lap.startTime instanceof Date ? lap.startTime.getTime() : Number(lap.startTime) || 0,
+      duration: Math.round(Number(lap.totalTimerTime) || Number(lap.totalElapsedTime) || 0),
+      distance: Number(lap.totalDistance) || undefined,
+      avgHeartRate: Number(lap.avgHeartRate) || undefined,
+      maxHeartRate: Number(lap.maxHeartRate) || undefined,
+      avgSpeed: Number(lap.avgSpeed) || undefined,
+      calories: Number(lap.totalCalories) || undefined,
+    }));
+
+    const startTime = session.startTime instanceof Date
+      ? session.startTime.getTime()
+      : Number(session.startTime) || Date.now();
+
+    const endTime = session.timestamp instanceof Date
+      ? session.timestamp.getTime()
+      : Number(session.timestamp) || Date.now();
+
+    const streams = trackpointStreams(fitTrackpoints(messages.recordMesgs || []), startTime);
+
+    const workout: WorkoutRecord = {
+      id: generateWorkoutId(),
+      userId: '', // filled by caller
+      source: 'garmin-fit',
+      activityType: String(session.sport || 'unknown'),
+      subActivity: session.subSport ? String(session.subSport) : undefined,
+      startTime,
+      endTime,
+      duration: Math.round(Number(session.totalTimerTime) || Number(session.totalElapsedTime) || 0),
+      distance: Number(session.totalDistance) || undefined,
+      calories: Number(session.totalCalories) || undefined,
+      avgHeartRate: Number(session.avgHeartRate) || undefined,
+      maxHeartRate: Number(session.maxHeartRate) || undefined,
+      minHeartRate: Number(session.minHeartRate) || undefined,
+      avgSpeed: Number(session.avgSpeed) || Number(session.enhancedAvgSpeed) || undefined,
+      maxSpeed: Number(session.maxSpeed) || Number(session.enhancedMaxSpeed) || undefined,
+      avgCadence: Number(session.avgCadence) || undefined,
+      totalAscent: Number(session.totalAscent) || undefined,
+      totalDescent: Number(session.totalDescent) || undefined,
+      hrZones: Array.isArray(session.timeInHrZone)
+        ? session.timeInHrZone.map((t: unknown) => Math.round(Number(t) || 0))
+        : undefined,
+      trainingEffect: Number(session.totalTrainingEffect) || undefined,
+      deviceManufacturer: deviceInfo?.manufacturer ? String(deviceInfo.manufacturer) : undefined,
+      deviceProduct: Number(deviceInfo?.product) || undefined,
+      recordCount: messages.recordMesgs?.length || 0,
+      streamChannels: streamChannels(streams),
+      laps: laps.length > 0 ? laps : undefined,
+      createdAt: Date.now(),
+    };
+
+    return { workout, streams };
+  } catch (err) {
+    console.error('[WORKOUT] FIT parse error:', err);
+    return { error: `FIT parse failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// =============================================================================
+// TRACK SUMMARY (GPX, TCX)
+// =============================================================================
+
+const ACTIVITY_ALIASES: Record<string, string> = {
+  biking: 'cycling',
+  ride: 'cycling',
+  run: 'running',
+  walk: 'walking',
+  hike: 'hiking',
+  swim: 'swimming',
+  other: 'generic',
+};
+
+// Lower-case the exporter's activity name and map the common aliases to FIT sport names
+function activityName(raw: string | undefined): string {
+  const name = raw?.trim().toLowerCase().replace(/\s+/g, '_');
+  if (!name) return 'unknown';
+  return ACTIVITY_ALIASES[name] ?? name;
+}
+
+// Recorded cumulative distance when the file has it, otherwise the GPS path length
+function trackDistance(points: Trackpoint[]): number | undefined {
+  const recorded = largest(present(points, 'distance'));
+  if (recorded !== undefined) return recorded > 0 ? Math.round(recorded) : undefined;
+
+  let total = 0;
+  let previous: [number, number] | null = null;
+  for (const p of points) {
+    if (p.lat === null || p.lon === null) continue;
+    const here: [number, number] = [p.lat, p.lon];
+    if (previous) total += haversineDistance(previous, here);
+    previous = here;
+  }
+  return total > 0 ? Math.round(total) : undefined;
+}
+
+export function elevationChange(points: Trackpoint[]): { ascent?: number; descent?: number } {
+  const altitudes = present(points, 'altitude');
+  let ascent = 0;
+  let descent = 0;
+  for (let i = 1; i < altitudes.length; i++) {
+    const step = altitudes[i] - altitudes[i - 1];
+    if (step > 0) ascent += step;
+    else descent -= step;
+  }
+  return { ascent: Math.round(ascent) || undefined, descent: Math.round(descent) || undefined };
+}
+
+interface TrackTotals {
+  activityType: string;
+  duration?: number;            // timer time, when the file records it
+  distance?: number;
+  calories?: number;
+  maxSpeed?: number;
+  deviceManufacturer?: string;
+  deviceProduct?: number;
+  laps?: LapSummary[];
+}
+
+function trackWorkout(source: 'gpx' | 'tcx', points: Trackpoint[], totals: TrackTotals): ParsedWorkout {
+  const timed = points.filter(p => Number.isFinite(p.time)).sort((a, b) => a.time - b.time);
+  if (timed.length === 0) return { error: `${source.toUpperCase()} file contains no timed trackpoints` };
+
+  const startTime = timed[0].time;
+  const endTime = timed[timed.length - 1].time;
+  const duration = totals.duration || Math.round((endTime - startTime) / 1000);
+  const distance = totals.distance || trackDistance(timed);
+  const heartRates = present(timed, 'heartRate').filter(v => v > 0);
+  const { ascent, descent } = elevationChange(timed);
+  const streams = trackpointStreams(timed, startTime);
+
+  const workout: WorkoutRecord = {
+    id: generateWorkoutId(),
+    userId: '', // filled by caller
+    source,
+    activityType: totals.activityType,
+    startTime,
+    endTime,
+    duration,
+    distance,
+    calories: totals.calories,
+    avgHeartRate: average(heartRates),
+    maxHeartRate: largest(heartRates),
+    minHeartRate: smallest(heartRates),
+    avgSpeed: distance && duration ? Math.round((distance / duration) * 1000) / 1000 : undefined,
+    maxSpeed: totals.maxSpeed,
+    avgCadence: average(present(timed, 'cadence').filter(v => v > 0)),
+    totalAscent: ascent,
+    totalDescent: descent,
+    deviceManufacturer: totals.deviceManufacturer,
+    deviceProduct: totals.deviceProduct,
+    recordCount: timed.length,
+    streamChannels: streamChannels(streams),
+    laps: totals.laps?.length ? totals.laps : undefined,
+    createdAt: Date.now(),
+  };
+
+  return { workout, streams };
+}
+
+function firstText(element: XmlElement | undefined, name: string): string | undefined {
+  return descendants(element, name)[0]?.text || undefined;
+}
+
+// =============================================================================
+// GPX PARSER
+// =============================================================================
+
+// <trkpt lat lon><ele/><time/><extensions> hr/cad (TrackPointExtension), power </extensions></trkpt>
+function gpxTrackpoint(point: XmlElement): Trackpoint {
+  const extensions = childElement(point, 'extensions');
+  return {
+    time: Date.parse(childText(point, 'time') ?? ''),
+    lat: num(point.attributes.lat) ?? null,
+    lon: num(point.attributes.lon) ?? null,
+    altitude: num(childText(point, 'ele')) ?? null,
+    heartRate: num(firstText(extensions, 'hr')) ?? null,
+    cadence: num(firstText(extensions, 'cad')) ?? null,
+    power: num(firstText(extensions, 'power') ?? firstText(extensions, 'PowerInWatts')) ?? null,
+    distance: null,
+  };
+}
+
+/** Every track point of a GPX document (route files carry no HR). */
+export function gpxTrackpoints(gpx: XmlElement): Trackpoint[] {
+  return descendants(gpx, 'trkpt').map(gpxTrackpoint);
+}
+
+function parseGpx(xml: string): ParsedWorkout {
+  try {
+    const gpx = parseXml(xml);
+    const track = childElement(gpx, 'trk');
+    return trackWorkout('gpx', gpxTrackpoints(gpx), {
+      activityType: activityName(childText(track, 'type')),
+      deviceManufacturer: gpx.attributes.creator || undefined,
+    });
+  } catch (err) {
+    console.error('[WORKOUT] GPX parse error:', err);
+    return { error: `GPX parse failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// =============================================================================
+// TCX PARSER
+// =============================================================================
+
+// <Trackpoint><Time/><Position/><AltitudeMeters/><DistanceMeters/><HeartRateBpm/><Cadence/><Extensions> TPX </Extensions></Trackpoint>
+function tcxTrackpoint(point: XmlElement): Trackpoint {
+  const extensions = childElement(point, 'Extensions');
+  return {
+    time: Date.parse(childText(point, 'Time') ?? ''),
+    lat: num(childText(point, 'Position', 'LatitudeDegrees')) ?? null,
+    lon: num(childText(point, 'Position', 'LongitudeDegrees')) ?? null,
+    altitude: num(childText(point, 'AltitudeMeters')) ?? null,
+    heartRate: num(childText(point, 'HeartRateBpm', 'Value')) ?? null,
+    cadence: num(childText(point, 'Cadence') ?? firstText(extensions, 'RunCadence')) ?? null,
+    power: num(firstText(extensions, 'Watts')) ?? null,
+    distance: num(childText(point, 'DistanceMeters')) ?? null,
+  };
+}
+
+function tcxLap(lap: XmlElement, i: number): LapSummary {
+  const duration = Math.round(num(childText(lap, 'TotalTimeSeconds')) ?? 0);
+  const distance = num(childText(lap, 'DistanceMeters')) || undefined;
+  const avgSpeed = num(firstText(childElement(lap, 'Extensions'), 'AvgSpeed'))
+    ?? (distance && duration ? Math.round((distance / duration) * 1000) / 1000 : undefined);
+  return {
+    lapNumber: i + 1,
+    startTime: Date.parse(lap.attributes.StartTime ?? '') || 0,
+    duration,
+    distance,
+    avgHeartRate: num(childText(lap, 'AverageHeartRateBpm', 'Value')),
+    maxHeartRate: num(childText(lap, 'MaximumHeartRateBpm', 'Value')),
+    avgSpeed,
+    calories: num(childText(lap, 'Calories')) || undefined,
+  };
+}
+
+function parseTcx(xml: string): ParsedWorkout {
+  try {
+    const activity = descendants(parseXml(xml), 'Activity')[0];
+    if (!activity) return { error: 'TCX file contains no activity' };
+
+    const lapElements = childElements(activity, 'Lap');
+    const laps = lapElements.map(tcxLap);
+    const sum = (values: (number | undefined)[]) => values.reduce<number>((a, b) => a + (b ?? 0), 0) || undefined;
+
+    return trackWorkout('tcx', descendants(activity, 'Trackpoint').map(tcxTrackpoint), {
+      activityType: activityName(activity.attributes.Sport),
+      duration: sum(laps.map(l => l.duration)),
+      distance: sum(laps.map(l => l.distance)),
+      calories: sum(laps.map(l => l.calories)),
+      maxSpeed: largest(lapElements.map(l => num(childText(l, 'MaximumSpeed'))).filter((v): v is number => v !== undefined)) || undefined,
+      deviceManufacturer: childText(activity, 'Creator', 'Name'),
+      deviceProduct: num(childText(activity, 'Creator', 'ProductID')),
+      laps,
+    });
+  } catch (err) {
+    console.error('[WORKOUT] TCX parse error:', err);
+    return { error: `TCX parse failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
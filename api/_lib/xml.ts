@@ -0,0 +1,209 @@
+/**
+ * GAVL XML Reader
+ *
+ * Just enough XML for workout exports (GPX, TCX, Apple Health): elements,
+ * attributes, character data, CDATA and the predefined/numeric entities.
+ * Comments, processing instructions and the DOCTYPE (internal subset
+ * included) are skipped; namespaces are not resolved - prefixes are dropped,
+ * so <gpxtpx:hr> reads as "hr".
+ *
+ *   createXmlTokenizer   incremental: feed chunks, get open/close/text calls,
+ *                        for documents too large to hold (Health export.xml)
+ *   parseXml             whole document into an element tree
+ *
+ * Malformed markup (stray '<', a mismatched or missing close tag) throws.
+ */
+
+export interface XmlElement {
+  name: string;               // local name
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;               // character data directly inside, trimmed
+}
+
+export interface XmlHandler {
+  open?(name: string, attributes: Record<string, string>, selfClosing: boolean): void;
+  close?(name: string): void;
+  text?(text: string): void;  // may arrive in several pieces
+}
+
+export interface XmlTokenizer {
+  write(chunk: string): void;
+  end(): void;
+}
+
+const OPEN_TAG = /^<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>$/;
+const CLOSE_TAG = /^<\/([^\s>]+)\s*>$/;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+// Longest fixed prefix ("<![CDATA[") - a shorter tail may be an unfinished one
+const LONGEST_PREFIX = 9;
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+// Index just past the markup starting at `start`, or -1 when it isn't complete yet
+function markupEnd(buffer: string, start: number, final: boolean): number {
+  if (!final && buffer.length - start < LONGEST_PREFIX && buffer.indexOf('>', start) === -1) return -1;
+
+  const until = (terminator: string, from: number) => {
+    const at = buffer.indexOf(terminator, from);
+    return at === -1 ? -1 : at + terminator.length;
+  };
+  if (buffer.startsWith('<!--', start)) return until('-->', start + 4);
+  if (buffer.startsWith('<![CDATA[', start)) return until(']]>', start + 9);
+  if (buffer.startsWith('<?', start)) return until('?>', start + 2);
+
+  // Tags and declarations: the first '>' outside quotes (and, for the DOCTYPE, brackets)
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = start + 1; i < buffer.length; i++) {
+    const c = buffer[i];
+    if (quote) {
+      if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '[') {
+      depth++;
+    } else if (c === ']') {
+      depth--;
+    } else if (c === '>' && depth <= 0) {
+      return i + 1;
+    }
+  }
+  return -1;
+}
+
+export function createXmlTokenizer(handler: XmlHandler): XmlTokenizer {
+  let buffer = '';
+  let offset = 0;               // document offset of buffer[0], for errors
+  const open: string[] = [];
+  let sawRoot = false;
+
+  function text(raw: string, at: number): void {
+    if (open.length > 0) handler.text?.(raw);
+    else if (raw.trim()) throw new Error(`Text outside the root element at offset ${at}`);
+  }
+
+  function markup(token: string, at: number): void {
+    if (token.startsWith('<![CDATA[')) return text(token.slice(9, -3), at);
+    if (token.startsWith('<!') || token.startsWith('<?')) return;
+
+    const closing = CLOSE_TAG.exec(token);
+    if (closing) {
+      if (open.pop() !== closing[1]) throw new Error(`Unexpected </${closing[1]}> at offset ${at}`);
+      handler.close?.(localName(closing[1]));
+      return;
+    }
+
+    const opening = OPEN_TAG.exec(token);
+    if (!opening) throw new Error(`Malformed markup at offset ${at}`);
+    if (open.length === 0 && sawRoot) throw new Error(`More than one root element at offset ${at}`);
+    sawRoot = true;
+
+    const [, name, rawAttributes, selfClosing] = opening;
+    const attributes: Record<string, string> = {};
+    for (const [, attribute, double, single] of rawAttributes.matchAll(ATTRIBUTE)) {
+      attributes[localName(attribute)] = decodeEntities(double ?? single);
+    }
+    handler.open?.(localName(name), attributes, selfClosing === '/');
+    if (selfClosing) handler.close?.(localName(name));
+    else open.push(name);
+  }
+
+  function consume(final: boolean): void {
+    let i = 0;
+    while (i < buffer.length) {
+      if (buffer[i] !== '<') {
+        const next = buffer.indexOf('<', i);
+        if (next === -1 && !final) break;     // the text may go on in the next chunk
+        const end = next === -1 ? buffer.length : next;
+        text(decodeEntities(buffer.slice(i, end)), offset + i);
+        i = end;
+        continue;
+      }
+      const end = markupEnd(buffer, i, final);
+      if (end === -1) {
+        if (final) throw new Error(`Malformed markup at offset ${offset + i}`);
+        break;
+      }
+      markup(buffer.slice(i, end), offset + i);
+      i = end;
+    }
+    buffer = buffer.slice(i);
+    offset += i;
+  }
+
+  return {
+    write(chunk) {
+      buffer += chunk;
+      consume(false);
+    },
+    end() {
+      consume(true);
+      if (open.length > 0) throw new Error(`Unclosed <${open[open.length - 1]}>`);
+      if (!sawRoot) throw new Error('No root element');
+    },
+  };
+}
+
+/** Parse a document and return its root element. */
+export function parseXml(source: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+
+  const tokenizer = createXmlTokenizer({
+    open(name, attributes, selfClosing) {
+      const element: XmlElement = { name, attributes, children: [], text: '' };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.children.push(element);
+      else root = element;
+      if (!selfClosing) stack.push(element);
+    },
+    close() {
+      const element = stack.pop();
+      if (element) element.text = element.text.trim();
+    },
+    text(text) {
+      stack[stack.length - 1].text += text;
+    },
+  });
+  tokenizer.write(source);
+  tokenizer.end();
+  return root!;
+}
+
+// =============================================================================
+// NAVIGATION (by local name)
+// =============================================================================
+
+export function childElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find(c => c.name === name);
+}
+
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter(c => c.name === name) ?? [];
+}
+
+/** Every element named `name` under `element`, in document order. */
+export function descendants(element: XmlElement | undefined, name: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.flatMap(c => (c.name === name ? [c, ...descendants(c, name)] : descendants(c, name)));
+}
+
+/** Text at the end of a child path, e.g. childText(lap, 'AverageHeartRateBpm', 'Value'). */
+export function childText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  const target = path.reduce<XmlElement | undefined>((el, name) => childElement(el, name), element);
+  return target?.text || undefined;
+}
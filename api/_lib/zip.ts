@@ -0,0 +1,160 @@
+/**
+ * GAVL Zip Reader
+ *
+ * Reads entries out of a zip file on disk without loading it: the central
+ * directory is read from the end of the file, and each entry is streamed
+ * from its offset through zlib (stored and deflated entries). ZIP64 sizes
+ * and offsets are understood, since a Health export.zip can pass 4 GB.
+ */
+
+import { createReadStream } from 'node:fs';
+import { open, type FileHandle } from 'node:fs/promises';
+import { pipeline, Readable } from 'node:stream';
+import { createInflateRaw } from 'node:zlib';
+
+export interface ZipEntry {
+  name: string;
+  method: number;             // 0 stored, 8 deflated
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+const U16_MAX = 0xffff;
+const U32_MAX = 0xffffffff;
+
+async function readAt(file: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await file.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// Where the central directory is and how many entries it holds
+async function findCentralDirectory(file: FileHandle, fileSize: number): Promise<{ offset: number; size: number; count: number }> {
+  const tailStart = Math.max(0, fileSize - EOCD_SIZE - MAX_COMMENT);
+  const tail = await readAt(file, tailStart, fileSize - tailStart);
+
+  let at = -1;
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      at = i;
+      break;
+    }
+  }
+  if (at === -1) throw new Error('Not a zip file (no end of central directory)');
+
+  const count = tail.readUInt16LE(at + 10);
+  const size = tail.readUInt32LE(at + 12);
+  const offset = tail.readUInt32LE(at + 16);
+  if (count !== U16_MAX && size !== U32_MAX && offset !== U32_MAX) return { offset, size, count };
+
+  // ZIP64: the locator sits just before the classic record
+  const locator = at >= 20 ? tail.subarray(at - 20, at) : await readAt(file, tailStart + at - 20, 20);
+  if (locator.readUInt32LE(0) !== ZIP64_LOCATOR_SIGNATURE) throw new Error('Zip64 end of central directory locator missing');
+  const record = await readAt(file, Number(locator.readBigUInt64LE(8)), 56);
+  if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) throw new Error('Zip64 end of central directory missing');
+  return {
+    count: Number(record.readBigUInt64LE(32)),
+    size: Number(record.readBigUInt64LE(40)),
+    offset: Number(record.readBigUInt64LE(48)),
+  };
+}
+
+// Sizes and offset saturated at 0xFFFFFFFF live in the ZIP64 extra field, in this order
+function applyZip64Extra(entry: ZipEntry, extra: Buffer): void {
+  for (let i = 0; i + 4 <= extra.length;) {
+    const id = extra.readUInt16LE(i);
+    const length = extra.readUInt16LE(i + 2);
+    if (id === ZIP64_EXTRA_ID) {
+      let field = i + 4;
+      const next = () => {
+        const value = Number(extra.readBigUInt64LE(field));
+        field += 8;
+        return value;
+      };
+      if (entry.size === U32_MAX) entry.size = next();
+      if (entry.compressedSize === U32_MAX) entry.compressedSize = next();
+      if (entry.localHeaderOffset === U32_MAX) entry.localHeaderOffset = next();
+      return;
+    }
+    i += 4 + length;
+  }
+}
+
+/** Every entry in the zip's central directory. */
+export async function readZipEntries(path: string): Promise<ZipEntry[]> {
+  const file = await open(path, 'r');
+  try {
+    const { size: fileSize } = await file.stat();
+    const directory = await findCentralDirectory(file, fileSize);
+    const central = await readAt(file, directory.offset, directory.size);
+
+    const entries: ZipEntry[] = [];
+    let at = 0;
+    for (let n = 0; n < directory.count; n++) {
+      if (at + 46 > central.length || central.readUInt32LE(at) !== CENTRAL_SIGNATURE) {
+        throw new Error(`Corrupt central directory at entry ${n}`);
+      }
+      const flags = central.readUInt16LE(at + 8);
+      const nameLength = central.readUInt16LE(at + 28);
+      const extraLength = central.readUInt16LE(at + 30);
+      const commentLength = central.readUInt16LE(at + 32);
+      const name = central.toString(flags & 0x0800 ? 'utf8' : 'latin1', at + 46, at + 46 + nameLength);
+
+      const entry: ZipEntry = {
+        name,
+        method: central.readUInt16LE(at + 10),
+        compressedSize: central.readUInt32LE(at + 20),
+        size: central.readUInt32LE(at + 24),
+        localHeaderOffset: central.readUInt32LE(at + 42),
+        encrypted: (flags & 0x0001) !== 0,
+      };
+      applyZip64Extra(entry, central.subarray(at + 46 + nameLength, at + 46 + nameLength + extraLength));
+      entries.push(entry);
+      at += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    await file.close();
+  }
+}
+
+/** Stream an entry's uncompressed bytes. */
+export async function openZipEntry(path: string, entry: ZipEntry): Promise<Readable> {
+  if (entry.encrypted) throw new Error(`${entry.name} is encrypted`);
+  if (entry.method !== 0 && entry.method !== 8) throw new Error(`${entry.name} uses unsupported compression method ${entry.method}`);
+
+  const file = await open(path, 'r');
+  let header: Buffer;
+  try {
+    header = await readAt(file, entry.localHeaderOffset, 30);
+  } finally {
+    await file.close();
+  }
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_SIGNATURE) throw new Error(`Corrupt local header for ${entry.name}`);
+
+  const start = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  if (entry.compressedSize === 0) return Readable.from([]);
+
+  const raw = createReadStream(path, { start, end: start + entry.compressedSize - 1 });
+  if (entry.method === 0) return raw;
+  // pipeline forwards a read error to the inflater, so the consumer sees it
+  return pipeline(raw, createInflateRaw(), () => {});
+}
+
+/** An entry's bytes in one buffer; for the small ones (route GPX files). */
+export async function readZipEntry(path: string, entry: ZipEntry): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await openZipEntry(path, entry)) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
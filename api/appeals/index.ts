@@ -0,0 +1,89 @@
+/**
+ * GAVL Quarantine Appeals API Endpoint
+ *
+ * GET  /api/appeals                    → the user's appeals, newest first
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * POST /api/appeals                    → appeal a quarantined session
+ *   {
+ *     "sessionId": "SC-...",
+ *     "reason": "Phone GPS was off, I was there 6-7pm",
+ *     "attachments"?: [{ "name": "receipt.jpg", "contentType": "image/jpeg", "data": "<base64>" }]
+ *   }
+ * Headers: Authorization: Bearer <token> (sessions:write)
+ *
+ * One appeal per session; at most MAX_APPEALS_PER_PERIOD per
+ * APPEAL_PERIOD_DAYS (429 beyond that). Attachments are listed by name, size
+ * and SHA-256 - their bodies are only served to reviewers.
+ *
+ * userId comes from the token; an admin key acts for any user via userId.
+ */
+
+import { MAX_REASON_LENGTH, MIN_REASON_LENGTH } from '../../shared/appeal.js';
+import { fileAppeal, listAppeals, parseAttachments } from '../_lib/appeals.js';
+import { recordAudit } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { sendRateLimited } from '../_lib/rate-limit.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const appeals = await listAppeals(store, auth.userId);
+      return res.status(200).json({ success: true, userId: auth.userId, count: appeals.length, appeals });
+    }
+
+    if (req.method === 'POST') {
+      const auth = await authenticate(req, 'sessions:write', req.body?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const { sessionId, reason } = req.body || {};
+      if (typeof sessionId !== 'string' || !sessionId) {
+        return res.status(400).json({ success: false, error: 'Missing required field: sessionId' });
+      }
+      const trimmed = typeof reason === 'string' ? reason.trim() : '';
+      if (trimmed.length < MIN_REASON_LENGTH || trimmed.length > MAX_REASON_LENGTH) {
+        return res.status(400).json({
+          success: false,
+          error: `reason must be ${MIN_REASON_LENGTH}-${MAX_REASON_LENGTH} characters`,
+        });
+      }
+      const attachments = parseAttachments(req.body?.attachments);
+      if (typeof attachments === 'string') return res.status(400).json({ success: false, error: attachments });
+
+      const outcome = await fileAppeal(store, auth.userId, { sessionId, reason: trimmed, attachments }, Date.now());
+      switch (outcome.status) {
+        case 'missing':
+          return res.status(404).json({ success: false, error: `Unknown session: ${sessionId}` });
+        case 'not_appealable':
+          return res.status(409).json({
+            success: false,
+            error: `Only quarantined sessions can be appealed, once (${outcome.state ?? 'not gated'}).`,
+          });
+        case 'limited':
+          return sendRateLimited(res, outcome.retryAfterSeconds);
+        case 'filed':
+          await recordAudit(store, auth.principal, 'appeal.file', outcome.changes);
+          return res.status(201).json({ success: true, userId: auth.userId, appeal: outcome.appeal, gate: outcome.session.gate });
+      }
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[APPEAL] Appeal error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * GAVL Appeal Review API Endpoint
+ *
+ * GET  /api/appeals/review                  → open appeals, oldest first
+ * GET  /api/appeals/review?appealId=AP-...  → one appeal with attachment bodies
+ *
+ * POST /api/appeals/review                  → decide an open appeal
+ *   { "appealId": "AP-...", "decision": "approve" | "deny", "note"?: "..." }
+ *   approve releases the session's PE (confirm gate); deny forfeits it.
+ *
+ * Headers: Authorization: Bearer <admin key> (admin)
+ */
+
+import { isAppealDecision, MAX_DECISION_NOTE_LENGTH } from '../../shared/appeal.js';
+import { decideAppeal, getAppeal, readAppealQueue } from '../_lib/appeals.js';
+import { recordAudit } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'admin');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    if (req.method === 'GET') {
+      const appealId = req.query?.appealId;
+      if (typeof appealId === 'string' && appealId) {
+        const appeal = await getAppeal(store, appealId);
+        if (!appeal) return res.status(404).json({ success: false, error: `Unknown appeal: ${appealId}` });
+        return res.status(200).json({ success: true, appeal });
+      }
+
+      const queue = await readAppealQueue(store);
+      return res.status(200).json({ success: true, count: queue.length, queue });
+    }
+
+    if (req.method === 'POST') {
+      const { appealId, decision, note } = req.body || {};
+      if (typeof appealId !== 'string' || !appealId) {
+        return res.status(400).json({ success: false, error: 'Missing required field: appealId' });
+      }
+      if (!isAppealDecision(decision)) {
+        return res.status(400).json({ success: false, error: "decision must be 'approve' or 'deny'" });
+      }
+      if (note !== undefined && (typeof note !== 'string' || note.length > MAX_DECISION_NOTE_LENGTH)) {
+        return res.status(400).json({
+          success: false,
+          error: `note must be a string of at most ${MAX_DECISION_NOTE_LENGTH} characters`,
+        });
+      }
+
+      const outcome = await decideAppeal(store, appealId, decision, auth.principal.userId, note?.trim() || undefined, Date.now());
+      if (outcome.status === 'missing') {
+        return res.status(404).json({ success: false, error: `Unknown appeal: ${appealId}` });
+      }
+      if (outcome.status === 'already_decided') {
+        return res.status(409).json({ success: false, error: `Appeal already ${outcome.appeal.status}.`, appeal: outcome.appeal });
+      }
+
+      await recordAudit(store, auth.principal, `appeal.${decision}`, outcome.changes);
+      return res.status(200).json({ success: true, appeal: outcome.appeal, gate: outcome.session?.gate ?? null });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[APPEAL] Review error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
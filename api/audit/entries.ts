@@ -0,0 +1,56 @@
+/**
+ * GAVL Audit Entries API Endpoint
+ *
+ * GET /api/audit/entries?day=YYYY-MM-DD → the day's entries and, once the
+ *   day is over, its signed root
+ *
+ * Headers: Authorization: Bearer <admin key> (admin)
+ *
+ * Save the response next to /api/audit/roots and check both offline with
+ * `npm run audit:verify` (scripts/audit-verify.ts).
+ */
+
+import { isAuditDay } from '../../shared/audit.js';
+import { readAuditDay, sealPendingDays } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'admin');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    const day = req.query?.day;
+    if (!isAuditDay(day)) {
+      return res.status(400).json({ success: false, error: 'day must be a UTC date: YYYY-MM-DD' });
+    }
+
+    await sealPendingDays(store);
+    const log = await readAuditDay(store, day);
+    if (!log) return res.status(404).json({ success: false, error: `No audit entries for ${day}` });
+
+    return res.status(200).json({
+      success: true,
+      day,
+      count: log.entries.length,
+      entries: log.entries,
+      root: log.sealed ?? null,
+    });
+  } catch (error) {
+    console.error('[AUDIT] Entries error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * GAVL Audit Roots API Endpoint
+ *
+ * GET /api/audit/roots → every sealed day, oldest first, plus the key
+ *   currently signing them. Finished days are sealed on the way in.
+ *
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * A root is { day, count, root, prevRoot, sealedAt, keyId, publicKey,
+ * signature }; each links to the day before through prevRoot. Publish or
+ * pin `publicKey` out of band so a verifier can check who signed.
+ */
+
+import { auditPublicKey, listAuditRoots, sealPendingDays } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'sessions:read');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    await sealPendingDays(store);
+    const roots = await listAuditRoots(store);
+    return res.status(200).json({ success: true, signingKey: auditPublicKey(), count: roots.length, roots });
+  } catch (error) {
+    console.error('[AUDIT] Roots error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
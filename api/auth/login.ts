@@ -0,0 +1,68 @@
+/**
+ * GAVL Sign-in Endpoint
+ *
+ * Verifies email + password and starts a session: a `session` API token set
+ * as the HttpOnly gavl_session cookie (see _lib/accounts.ts). The SPA never
+ * sees the token itself.
+ *
+ * POST /api/auth/login
+ * Body: { email, password }
+ *
+ * Rate limited per client IP and per email; unknown email and wrong password
+ * get the same 401 in the same time.
+ */
+
+import { findAccountByEmail, normalizeEmail, publicAccount, startSession, verifyAgainstDummy, verifyPassword } from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { applyCors } from '../_lib/cors.js';
+import { clientIp, rateLimit, sendRateLimited } from '../_lib/rate-limit.js';
+import { getStore } from '../_lib/store.js';
+
+const WINDOW_SECONDS = 15 * 60;
+const MAX_ATTEMPTS_PER_IP = 20;
+const MAX_ATTEMPTS_PER_EMAIL = 5;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const store = getStore();
+    const { email, password } = req.body || {};
+    const normalized = normalizeEmail(email);
+    if (!normalized || typeof password !== 'string' || !password) {
+      return res.status(400).json({ success: false, error: 'Required: email, password' });
+    }
+
+    const byIp = await rateLimit(store, `login:ip:${clientIp(req)}`, MAX_ATTEMPTS_PER_IP, WINDOW_SECONDS);
+    if (!byIp.allowed) return sendRateLimited(res, byIp.retryAfterSeconds);
+    const byEmail = await rateLimit(store, `login:email:${normalized}`, MAX_ATTEMPTS_PER_EMAIL, WINDOW_SECONDS);
+    if (!byEmail.allowed) return sendRateLimited(res, byEmail.retryAfterSeconds);
+
+    const account = await findAccountByEmail(store, normalized);
+    const valid = account
+      ? await verifyPassword(password, account.passwordHash)
+      : (await verifyAgainstDummy(password), false);
+
+    if (!account || !valid) {
+      console.warn(`[AUTH] Sign-in failed | ${normalized}`);
+      return res.status(401).json({ success: false, error: 'Invalid email or password' });
+    }
+
+    const { cookie, record } = await startSession(store, account, 'Web sign-in');
+    await recordAudit(store, account.userId, 'account.sign_in', [{ target: `token:${record.id}`, before: null, after: record }]);
+    res.setHeader('Set-Cookie', cookie);
+    console.log(`[AUTH] Signed in ${account.userId}`);
+    return res.status(200).json({ success: true, account: publicAccount(account) });
+  } catch (error) {
+    console.error('[AUTH] Sign-in error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
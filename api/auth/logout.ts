@@ -0,0 +1,40 @@
+/**
+ * GAVL Sign-out Endpoint
+ *
+ * Revokes the session token presented (cookie or bearer) and clears the
+ * gavl_session cookie. Always succeeds, so a stale tab can sign out cleanly.
+ *
+ * POST /api/auth/logout
+ */
+
+import { recordAudit } from '../_lib/audit.js';
+import { requestToken, revokeRequestToken, sessionCookie } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const token = requestToken(req);
+    const store = getStore();
+    const revoked = token ? await revokeRequestToken(store, token) : null;
+    if (revoked) {
+      await recordAudit(store, revoked.userId, 'account.sign_out', [{ target: `token:${revoked.id}`, before: revoked, after: null }]);
+    }
+
+    res.setHeader('Set-Cookie', sessionCookie('', 0));
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('[AUTH] Sign-out error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * GAVL Current Account Endpoint
+ *
+ * Lets the SPA restore a signed-in session on load and persist onboarding.
+ *
+ * GET   /api/auth/me                          → { account }
+ * PATCH /api/auth/me  { onboardingCompleted: true }
+ * Headers: gavl_session cookie or Authorization: Bearer <token> (account:manage)
+ */
+
+import { getAccount, publicAccount, updateAccount } from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, PATCH, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'account:manage');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    if (req.method === 'GET') {
+      const account = await getAccount(store, auth.userId);
+      if (!account) return res.status(404).json({ success: false, error: 'No account for this token' });
+      return res.status(200).json({ success: true, account: publicAccount(account) });
+    }
+
+    if (req.method === 'PATCH') {
+      const { onboardingCompleted } = req.body || {};
+      if (onboardingCompleted !== true) {
+        return res.status(400).json({ success: false, error: 'Supported update: { onboardingCompleted: true }' });
+      }
+      const updated = await updateAccount(store, auth.userId, existing => ({
+        onboardingCompletedAt: existing.onboardingCompletedAt ?? Date.now(),
+      }));
+      if (!updated) return res.status(404).json({ success: false, error: 'No account for this token' });
+      const { account } = updated;
+      await recordAudit(store, auth.principal, 'account.onboard', [
+        { target: `account:${account.userId}`, before: updated.previous, after: account },
+      ]);
+
+      console.log(`[AUTH] Onboarding completed ${account.userId}`);
+      return res.status(200).json({ success: true, account: publicAccount(account) });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[AUTH] Account error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
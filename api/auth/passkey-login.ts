@@ -0,0 +1,67 @@
+/**
+ * GAVL Passkey Sign-in Endpoint
+ *
+ * Signs in with a discoverable passkey instead of a password. On success the
+ * session starts exactly as with /api/auth/login (gavl_session cookie).
+ *
+ * POST /api/auth/passkey-login                → request options (challenge)
+ * POST /api/auth/passkey-login { credential } → verify assertion + sign in
+ *   credential = { id, response: { clientDataJSON, authenticatorData, signature, userHandle? } }
+ *   (binary fields base64url)
+ *
+ * Rate limited per client IP.
+ */
+
+import { getAccount, publicAccount, startSession } from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { applyCors } from '../_lib/cors.js';
+import { clientIp, rateLimit, sendRateLimited } from '../_lib/rate-limit.js';
+import { getStore } from '../_lib/store.js';
+import { authenticationOptions, createChallenge, relyingParty, verifyAuthentication } from '../_lib/webauthn.js';
+
+const WINDOW_SECONDS = 15 * 60;
+const MAX_ATTEMPTS_PER_IP = 30;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const store = getStore();
+    const limit = await rateLimit(store, `passkey:ip:${clientIp(req)}`, MAX_ATTEMPTS_PER_IP, WINDOW_SECONDS);
+    if (!limit.allowed) return sendRateLimited(res, limit.retryAfterSeconds);
+
+    const rp = relyingParty(req);
+    const { credential } = req.body || {};
+
+    if (!credential) {
+      const challenge = await createChallenge(store, 'login');
+      return res.status(200).json({ success: true, options: authenticationOptions(rp, challenge) });
+    }
+
+    const result = await verifyAuthentication(store, rp, { id: credential.id, ...credential.response });
+    if (!result.ok) {
+      console.warn(`[WEBAUTHN] Sign-in REJECTED | ${result.error}`);
+      return res.status(401).json({ success: false, error: result.error });
+    }
+
+    const account = await getAccount(store, result.value.userId);
+    if (!account) return res.status(401).json({ success: false, error: 'Unknown passkey' });
+
+    const { cookie, record } = await startSession(store, account, `Passkey: ${result.value.name}`);
+    await recordAudit(store, account.userId, 'account.passkey_sign_in', [{ target: `token:${record.id}`, before: null, after: record }]);
+    res.setHeader('Set-Cookie', cookie);
+    console.log(`[WEBAUTHN] Signed in ${account.userId} | passkey ${result.value.credentialId}`);
+    return res.status(200).json({ success: true, account: publicAccount(account) });
+  } catch (error) {
+    console.error('[WEBAUTHN] Sign-in error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
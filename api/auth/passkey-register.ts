@@ -0,0 +1,85 @@
+/**
+ * GAVL Passkey Registration Endpoint
+ *
+ * Binds a passkey (WebAuthn credential) to the signed-in account. Each
+ * passkey is also a trusted device: it appears in the Trust Profile with the
+ * time of its last successful challenge. At most MAX_PASSKEYS per account.
+ *
+ * POST /api/auth/passkey-register                      → creation options
+ * POST /api/auth/passkey-register { credential, name? } → verify + store
+ *   credential = { id, response: { clientDataJSON, attestationObject, transports? } }
+ *   (binary fields base64url)
+ * Headers: gavl_session cookie or Authorization: Bearer <token> (account:manage)
+ */
+
+import { getAccount } from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+import {
+  createChallenge,
+  listPasskeys,
+  MAX_PASSKEYS,
+  publicPasskey,
+  registrationOptions,
+  relyingParty,
+  verifyRegistration,
+} from '../_lib/webauthn.js';
+
+const MAX_NAME_LENGTH = 64;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'account:manage');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    const account = await getAccount(store, auth.userId);
+    if (!account) return res.status(404).json({ success: false, error: 'No account for this token' });
+
+    const rp = relyingParty(req);
+    const { credential, name } = req.body || {};
+
+    if (!credential) {
+      const existing = await listPasskeys(store, account.userId);
+      if (existing.length >= MAX_PASSKEYS) {
+        return res.status(409).json({ success: false, error: `At most ${MAX_PASSKEYS} passkeys per account - remove one first` });
+      }
+      const challenge = await createChallenge(store, 'register', account.userId);
+      return res.status(200).json({
+        success: true,
+        options: registrationOptions(rp, challenge, { userId: account.userId, email: account.email, name: account.name ?? null }, existing),
+      });
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+      return res.status(400).json({ success: false, error: `name must be a string of at most ${MAX_NAME_LENGTH} characters` });
+    }
+
+    const result = await verifyRegistration(store, rp, account.userId, name?.trim() || 'Passkey', credential.response || {});
+    if (!result.ok) {
+      console.warn(`[WEBAUTHN] Registration REJECTED | ${account.userId} | ${result.error}`);
+      return res.status(400).json({ success: false, error: result.error });
+    }
+
+    await recordAudit(store, auth.principal, 'passkey.register', [
+      { target: `passkey:${result.value.credentialId}`, before: null, after: result.value },
+    ]);
+    console.log(`[WEBAUTHN] Registered passkey ${result.value.credentialId} | ${account.userId} | ${result.value.attestationFormat}`);
+    return res.status(201).json({ success: true, passkey: publicPasskey(result.value) });
+  } catch (error) {
+    console.error('[WEBAUTHN] Registration error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
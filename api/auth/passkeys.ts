@@ -0,0 +1,55 @@
+/**
+ * GAVL Passkey Management Endpoint
+ *
+ * Lists and removes the signed-in user's passkeys - the attested devices
+ * shown in the Trust Profile.
+ *
+ * GET    /api/auth/passkeys          → passkeys (public keys omitted)
+ * DELETE /api/auth/passkeys?id=X     → remove
+ * Headers: gavl_session cookie or Authorization: Bearer <token> (account:manage)
+ */
+
+import { recordAudit } from '../_lib/audit.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getStore } from '../_lib/store.js';
+import { deletePasskey, getPasskey, listPasskeys, publicPasskey } from '../_lib/webauthn.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, DELETE, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'account:manage');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    if (req.method === 'GET') {
+      const passkeys = (await listPasskeys(store, auth.userId)).map(publicPasskey);
+      return res.status(200).json({ success: true, count: passkeys.length, passkeys });
+    }
+
+    if (req.method === 'DELETE') {
+      const id = req.query?.id;
+      if (typeof id !== 'string') return res.status(400).json({ success: false, error: 'Missing query parameter: id' });
+
+      const passkey = await getPasskey(store, id);
+      if (!passkey || passkey.userId !== auth.userId) {
+        return res.status(404).json({ success: false, error: `Unknown passkey: ${id}` });
+      }
+      await deletePasskey(store, passkey);
+      await recordAudit(store, auth.principal, 'passkey.remove', [{ target: `passkey:${id}`, before: passkey, after: null }]);
+      console.log(`[WEBAUTHN] Removed passkey ${id} | ${auth.userId}`);
+      return res.status(200).json({ success: true, removed: id });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[WEBAUTHN] Passkey management error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
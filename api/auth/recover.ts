@@ -0,0 +1,156 @@
+/**
+ * GAVL Account Recovery Endpoint
+ *
+ * Two steps, one URL:
+ *
+ *   POST { email, type: 'password' }  → mails a single-use reset link (1h)
+ *   POST { email, type: 'username' }  → mails a reminder of the sign-in email
+ *   POST { code, password }           → sets the new password, signs out every
+ *                                       other web session, signs this one in
+ *
+ * Requests always answer 200 whether or not the email has an account, so the
+ * endpoint can't be used to discover who is registered. Rate limited per
+ * client IP and per email. Mail goes through _lib/mailer.ts.
+ *
+ * Reset links point at APP_URL. Request headers never pick the host (an
+ * attacker could aim the link at their own); without APP_URL only a local
+ * dev server gets links, and production sends none.
+ *
+ * POST /api/auth/recover
+ */
+
+import {
+  consumeRecoveryCode,
+  createRecoveryCode,
+  findAccountByEmail,
+  hashPassword,
+  normalizeEmail,
+  passwordProblem,
+  publicAccount,
+  startSession,
+  updateAccount,
+} from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { listTokens, revokeToken, type TokenRecord } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { sendMail } from '../_lib/mailer.js';
+import { clientIp, rateLimit, sendRateLimited } from '../_lib/rate-limit.js';
+import { getStore, type SessionStore } from '../_lib/store.js';
+
+const WINDOW_SECONDS = 60 * 60;
+const MAX_REQUESTS_PER_IP = 10;
+const MAX_REQUESTS_PER_EMAIL = 3;
+
+const GENERIC_REPLY = 'If that email has an account, a message is on its way.';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const LOCAL_HOST = /^(localhost|127\.0\.0\.1)(:\d+)?$/;
+
+// Where reset links point; null when that can't be trusted
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function appUrl(req: any): string | null {
+  const configured = process.env.APP_URL?.replace(/\/$/, '');
+  if (configured) return configured;
+  if (process.env.NODE_ENV === 'production') return null;
+  const host = req.headers?.host;
+  return typeof host === 'string' && LOCAL_HOST.test(host) ? `http://${host}` : null;
+}
+
+/** After a reset, every signed-in browser must sign in again. Shortcut tokens keep working. */
+async function revokeWebSessions(store: SessionStore, userId: string): Promise<TokenRecord[]> {
+  const sessions = (await listTokens(store, userId)).filter(t => t.kind === 'session');
+  const revoked = await Promise.all(sessions.map(t => revokeToken(store, userId, t.id)));
+  return revoked.filter((t): t is TokenRecord => t !== null);
+}
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const store = getStore();
+    const { email, type, code, password } = req.body || {};
+
+    const byIp = await rateLimit(store, `recover:ip:${clientIp(req)}`, MAX_REQUESTS_PER_IP, WINDOW_SECONDS);
+    if (!byIp.allowed) return sendRateLimited(res, byIp.retryAfterSeconds);
+
+    // -------------------------------------------------------------------------
+    // STEP 2: redeem a reset code
+    // -------------------------------------------------------------------------
+
+    if (code !== undefined) {
+      if (typeof code !== 'string') return res.status(400).json({ success: false, error: 'code must be a string' });
+      const problem = passwordProblem(password);
+      if (problem) return res.status(400).json({ success: false, error: problem });
+
+      const account = await consumeRecoveryCode(store, code);
+      if (!account) {
+        return res.status(400).json({ success: false, error: 'This reset link is invalid or has expired' });
+      }
+
+      const passwordHash = await hashPassword(password);
+      const reset = await updateAccount(store, account.userId, () => ({ passwordHash }));
+      if (!reset) return res.status(400).json({ success: false, error: 'This reset link is invalid or has expired' });
+      const updated = reset.account;
+
+      const revoked = await revokeWebSessions(store, updated.userId);
+      const { cookie, record } = await startSession(store, updated, 'Web sign-in');
+      await recordAudit(store, updated.userId, 'account.password_reset', [
+        { target: `account:${updated.userId}`, before: reset.previous, after: updated },
+        ...revoked.map(t => ({ target: `token:${t.id}`, before: t, after: null })),
+        { target: `token:${record.id}`, before: null, after: record },
+      ]);
+      res.setHeader('Set-Cookie', cookie);
+      console.log(`[AUTH] Password reset ${updated.userId}`);
+      return res.status(200).json({ success: true, account: publicAccount(updated) });
+    }
+
+    // -------------------------------------------------------------------------
+    // STEP 1: request a reset link / username reminder
+    // -------------------------------------------------------------------------
+
+    const normalized = normalizeEmail(email);
+    if (!normalized) return res.status(400).json({ success: false, error: 'A valid email is required' });
+    if (type !== 'password' && type !== 'username') {
+      return res.status(400).json({ success: false, error: 'type must be "password" or "username"' });
+    }
+
+    const byEmail = await rateLimit(store, `recover:email:${normalized}`, MAX_REQUESTS_PER_EMAIL, WINDOW_SECONDS);
+    if (!byEmail.allowed) return res.status(200).json({ success: true, message: GENERIC_REPLY });
+
+    const account = await findAccountByEmail(store, normalized);
+    const resetBase = appUrl(req);
+    if (account && type === 'password' && !resetBase) {
+      console.error('[AUTH] APP_URL not configured - password reset link not sent');
+    } else if (account && type === 'password') {
+      const resetCode = await createRecoveryCode(store, account);
+      await sendMail({
+        to: account.email,
+        subject: 'Reset your Performance Equity password',
+        text: `Use this link within the hour to choose a new password:\n\n${resetBase}/?recover=${resetCode}\n\nIf you didn't ask for this, ignore this email.`,
+      });
+    } else if (account) {
+      await sendMail({
+        to: account.email,
+        subject: 'Your Performance Equity sign-in',
+        text: `You sign in to Performance Equity with this email address: ${account.email}`,
+      });
+    }
+
+    console.log(`[AUTH] Recovery requested | ${type} | ${account ? account.userId : 'no account'}`);
+    return res.status(200).json({ success: true, message: GENERIC_REPLY });
+  } catch (error) {
+    console.error('[AUTH] Recovery error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * GAVL Account Registration Endpoint
+ *
+ * Creates an email + password account and signs it in (gavl_session cookie).
+ * Onboarding starts incomplete; see PATCH /api/auth/me.
+ *
+ * POST /api/auth/register
+ * Body: { email, password, name? }
+ *
+ * Rate limited per client IP.
+ */
+
+import { createAccount, normalizeEmail, passwordProblem, publicAccount, startSession } from '../_lib/accounts.js';
+import { recordAudit } from '../_lib/audit.js';
+import { applyCors } from '../_lib/cors.js';
+import { clientIp, rateLimit, sendRateLimited } from '../_lib/rate-limit.js';
+import { getStore } from '../_lib/store.js';
+
+const WINDOW_SECONDS = 60 * 60;
+const MAX_REGISTRATIONS_PER_IP = 5;
+const MAX_NAME_LENGTH = 80;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
+  }
+
+  try {
+    const store = getStore();
+    const { email, password, name } = req.body || {};
+
+    const normalized = normalizeEmail(email);
+    if (!normalized) return res.status(400).json({ success: false, error: 'A valid email is required' });
+    const problem = passwordProblem(password);
+    if (problem) return res.status(400).json({ success: false, error: problem });
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length > MAX_NAME_LENGTH)) {
+      return res.status(400).json({ success: false, error: `name must be a string of at most ${MAX_NAME_LENGTH} characters` });
+    }
+
+    const limit = await rateLimit(store, `register:ip:${clientIp(req)}`, MAX_REGISTRATIONS_PER_IP, WINDOW_SECONDS);
+    if (!limit.allowed) return sendRateLimited(res, limit.retryAfterSeconds);
+
+    const result = await createAccount(store, { email: normalized, password, name: name?.trim() || undefined });
+    if (!result.ok) {
+      return res.status(409).json({ success: false, error: 'An account with this email already exists' });
+    }
+
+    const { cookie, record } = await startSession(store, result.account, 'Web sign-in');
+    await recordAudit(store, result.account.userId, 'account.register', [
+      { target: `account:${result.account.userId}`, before: null, after: result.account },
+      { target: `token:${record.id}`, before: null, after: record },
+    ]);
+    res.setHeader('Set-Cookie', cookie);
+    console.log(`[AUTH] Registered ${result.account.userId}`);
+    return res.status(201).json({ success: true, account: publicAccount(result.account) });
+  } catch (error) {
+    console.error('[AUTH] Registration error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
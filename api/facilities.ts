@@ -0,0 +1,113 @@
+/**
+ * GAVL Facility Registry API Endpoint
+ *
+ * Manages the gyms that anchor endpoints resolve gymId against. A new gym is
+ * live for check-in as soon as it is POSTed here - no redeploy.
+ *
+ * GET    /api/facilities            → all facilities
+ * GET    /api/facilities?id=X       → one facility
+ * POST   /api/facilities            → create { id, name, coords, ... }
+ * PATCH  /api/facilities?id=X       → update any field except id
+ * DELETE /api/facilities?id=X       → remove (existing sessions keep gymName)
+ *
+ * Reads need sessions:read; writes need the admin key (see _lib/auth.ts).
+ * Only admin reads include the Wi-Fi BSSIDs, NFC tag IDs and BLE beacons;
+ * everyone else gets the public fields (publicFacility in _lib/facilities.ts).
+ */
+
+import { recordAudit } from './_lib/audit.js';
+import { authenticate, hasScope } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import {
+  createFacility,
+  deleteFacility,
+  getFacility,
+  listFacilities,
+  publicFacility,
+  updateFacility,
+  validateFacilityInput,
+  type Facility,
+} from './_lib/facilities.js';
+import { getStore } from './_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, PATCH, DELETE, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const id = typeof req.query?.id === 'string' ? req.query.id : undefined;
+
+    const auth = await authenticate(req, req.method === 'GET' ? 'sessions:read' : 'admin');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    // -------------------------------------------------------------------------
+    // READ
+    // -------------------------------------------------------------------------
+
+    if (req.method === 'GET') {
+      const view = hasScope(auth.principal, 'admin') ? (f: Facility) => f : publicFacility;
+      if (id) {
+        const facility = await getFacility(store, id);
+        if (!facility) return res.status(404).json({ success: false, error: `Unknown facility: ${id}` });
+        return res.status(200).json({ success: true, facility: view(facility) });
+      }
+      const facilities = (await listFacilities(store)).map(view);
+      return res.status(200).json({ success: true, count: facilities.length, facilities, storage: store.backend });
+    }
+
+    // -------------------------------------------------------------------------
+    // CREATE
+    // -------------------------------------------------------------------------
+
+    if (req.method === 'POST') {
+      const input = validateFacilityInput(req.body, false);
+      if (!input.ok) return res.status(400).json({ success: false, error: input.errors.join('; ') });
+
+      const result = await createFacility(store, input.value);
+      if (!result.ok) {
+        return res.status(409).json({ success: false, error: `Facility already exists: ${input.value.id}` });
+      }
+      await recordAudit(store, auth.principal, 'facility.create', [{ target: `facility:${result.facility.id}`, before: null, after: result.facility }]);
+      console.log(`[FACILITY] Created ${result.facility.id} | ${result.facility.name}`);
+      return res.status(201).json({ success: true, facility: result.facility });
+    }
+
+    // -------------------------------------------------------------------------
+    // UPDATE / DELETE
+    // -------------------------------------------------------------------------
+
+    if (req.method === 'PATCH' || req.method === 'DELETE') {
+      if (!id) return res.status(400).json({ success: false, error: 'Missing query parameter: id' });
+
+      if (req.method === 'DELETE') {
+        const result = await deleteFacility(store, id);
+        if (!result.ok) return res.status(404).json({ success: false, error: `Unknown facility: ${id}` });
+        await recordAudit(store, auth.principal, 'facility.delete', [{ target: `facility:${id}`, before: result.previous, after: null }]);
+        console.log(`[FACILITY] Deleted ${id}`);
+        return res.status(200).json({ success: true, deleted: id });
+      }
+
+      const input = validateFacilityInput(req.body, true);
+      if (!input.ok) return res.status(400).json({ success: false, error: input.errors.join('; ') });
+      if (input.value.id !== undefined && input.value.id !== id) {
+        return res.status(400).json({ success: false, error: 'Facility id cannot be changed' });
+      }
+
+      const result = await updateFacility(store, id, input.value);
+      if (!result.ok) return res.status(404).json({ success: false, error: `Unknown facility: ${id}` });
+      await recordAudit(store, auth.principal, 'facility.update', [{ target: `facility:${id}`, before: result.previous, after: result.facility }]);
+      console.log(`[FACILITY] Updated ${id} | fields: ${Object.keys(input.value).join(', ')}`);
+      return res.status(200).json({ success: true, facility: result.facility });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[FACILITY] Error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * GAVL Gate Confirmation API Endpoint
+ *
+ * Sessions gated 'confirm' (0.50 ≤ SCS < 0.80) wait for the user to say
+ * whether they were really there. Unanswered ones expire to quarantine after
+ * CONFIRMATION_WINDOW_MS (shared/gate.ts).
+ *
+ * GET  /api/gate                       → pending confirmations, oldest first
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * POST /api/gate                       → answer one
+ *   { "sessionId": "SC-...", "decision": "accept" | "reject" }
+ * Headers: Authorization: Bearer <token> (sessions:write)
+ *
+ * userId comes from the token; an admin key acts for any user via userId.
+ */
+
+import { toSessionResponse } from '../shared/schema.js';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { resolveConfirmation, settleGates } from './_lib/gate.js';
+import { getStore } from './_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const history = await settleGates(store, auth.userId, Date.now());
+      const pending = history
+        .filter(s => s.gate?.state === 'pending_confirmation')
+        .sort((a, b) => (a.gate?.confirmBy ?? 0) - (b.gate?.confirmBy ?? 0))
+        .map(toSessionResponse);
+
+      return res.status(200).json({ success: true, userId: auth.userId, count: pending.length, pending });
+    }
+
+    if (req.method === 'POST') {
+      const auth = await authenticate(req, 'sessions:write', req.body?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const { sessionId, decision } = req.body || {};
+      if (typeof sessionId !== 'string' || !sessionId) {
+        return res.status(400).json({ success: false, error: 'Missing required field: sessionId' });
+      }
+      if (decision !== 'accept' && decision !== 'reject') {
+        return res.status(400).json({ success: false, error: "decision must be 'accept' or 'reject'" });
+      }
+
+      const outcome = await resolveConfirmation(store, auth.userId, sessionId, decision, Date.now());
+      if (outcome.status === 'missing') {
+        return res.status(404).json({ success: false, error: `Unknown session: ${sessionId}` });
+      }
+      if (outcome.status === 'not_pending') {
+        return res.status(409).json({
+          success: false,
+          error: `Session is not awaiting confirmation (${outcome.session.gate?.state ?? 'not gated'}).`,
+          session: toSessionResponse(outcome.session),
+        });
+      }
+
+      await recordAudit(store, auth.principal, `gate.${decision}`, outcome.changes);
+      return res.status(200).json({ success: true, userId: auth.userId, session: toSessionResponse(outcome.session) });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[GATE] Gate error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -6,173 +6,101 @@
  *
  * UPGRADE LOGIC:
  * - If an open session exists for this user+gym (within 4hr window), add anchor to it
- * - Anchors STACK: geofence (+0.15) + NFC (+0.25) + WiFi BSSID (+0.10) = +0.50 total
+ * - Anchors STACK: geofence (+0.15) + NFC (+0.25) + WiFi BSSID (+0.10) + BLE (+0.20)
  * - Cap at 0.65 max SCS boost per session (full chain with exit anchors)
+ * - Concurrent anchors are applied with compare-and-set + retry (409 if contention persists)
+ *
+ * GEOFENCE VALIDATION:
+ * - Optional lat/lon/accuracy are measured against the facility's fence (_lib/geo.ts)
+ * - Inside → full boost, coarse/straddling fix or no position → half boost,
+ *   clearly outside → 422
+ * - Distance and accuracy are recorded as anchor evidence; a later, stronger
+ *   anchor of the same type replaces a weaker one
+ * - NFC anchors carry the signed tag message, verified as in gym-tap (_lib/nfc.ts);
+ *   an unsigned tap (facility without tags) earns half the NFC boost
+ * - Wi-Fi anchors carry observed BSSIDs + RSSI; boost scales with match
+ *   confidence, no registered match → 422 (_lib/wifi.ts)
+ * - BSSIDs sent alongside an NFC-verified session are learned for the gym
+ * - BLE anchors carry ranged iBeacon/Eddystone readings; same confidence
+ *   weighting against the facility's beacons, no match → 422 (_lib/ble.ts)
  *
  * POST /api/gym-checkin
- * Body: { userId, gymId, anchorType, timestamp }
+ * Headers: Authorization: Bearer <token> (anchors:write - a Shortcut token)
+ *          Idempotency-Key (optional, replays the first response for 24h)
+ * Body: { gymId, anchorType, timestamp?, lat?, lon?, accuracy?, bssids?, beacons?, <nfc tag message> }
+ *
+ * gymId is resolved through the facility registry (GET /api/facilities).
+ * timestamp defaults to the server clock; one more than 5 minutes off it → 400.
  */
 
+import {
+  ANCHOR_BOOSTS,
+  calculateStackedBoost,
+  hasAnchorType,
+  isEntryAnchorKind,
+  SCHEMA_VERSION,
+  type Anchor,
+  type AnchorEvidence,
+  type SessionCandidate,
+} from '../shared/schema.js';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate } from './_lib/auth.js';
+import { matchBeacons, parseBeaconReadings } from './_lib/ble.js';
+import { applyCors } from './_lib/cors.js';
+import { getFacility, listFacilities } from './_lib/facilities.js';
+import { checkGeofence, DEGRADED_BOOST_FACTOR, parseDevicePosition } from './_lib/geo.js';
+import { withIdempotency } from './_lib/idempotency.js';
+import { nfcBoost, verifyNfcTap } from './_lib/nfc.js';
+import { generateSessionId, getSession, resolveEventTime, updateSession } from './_lib/sessions.js';
+import { ConcurrencyError, getStore, TTL } from './_lib/store.js';
+import { recordTrustSignal } from './_lib/trust.js';
+import { learnFromSession, matchBssids, parseBssidObservations } from './_lib/wifi.js';
+
 // =============================================================================
 // CONFIGURATION
 // =============================================================================
 
-const GYMS: Record<string, { name: string; address: string; coords: [number, number] }> = {
-  'golds-venice': {
-    name: "Gold's Gym Venice",
-    address: '360 Hampton Dr, Venice, CA 90291',
-    coords: [33.9925, -118.4695],
-  },
-  'jfm-boxing': {
-    name: 'JFM Boxing Club',
-    address: '3127 Washington Blvd Unit 1, Venice, CA 90292',
-    coords: [33.9983, -118.4518],
-  },
-  'gracie-originals': {
-    name: 'Gracie Originals',
-    address: '1934 14th St, Santa Monica, CA 90404',
-    coords: [34.0195, -118.4695],
-  },
-};
-
-// SCS boost values per anchor type (from GAVL Signal Ladder)
-const SCS_BOOSTS: Record<string, number> = {
-  geofence: 0.15,    // Open anchor - medium trust
-  nfc: 0.25,         // Closed anchor - high trust
-  wifi_bssid: 0.10,  // Open anchor - environmental signal, auto-connect
-};
-
-const MAX_SCS_BOOST = 0.65; // Cap for stacked anchors (full chain max)
-const SESSION_TTL_HOURS = 4;
-const SESSION_TTL_MS = SESSION_TTL_HOURS * 60 * 60 * 1000;
+const SESSION_TTL_MS = TTL.SESSION_OPEN * 1000;
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface Anchor {
-  type: 'geofence' | 'nfc' | 'wifi_bssid';
-  boost: number;
-  timestamp: number;
-}
-
-interface SessionCandidate {
-  id: string;
-  userId: string;
-  gymId: string;
-  gymName: string;
-  anchors: Anchor[];
-  scsBoost: number;        // Aggregated, capped at MAX_SCS_BOOST
-  status: 'pending' | 'active' | 'finalized';
-  createdAt: number;
-  updatedAt: number;
-  expiresAt: number;
+interface CheckinOutcome {
+  action: 'created' | 'upgraded' | 'duplicate';
+  session: SessionCandidate;
+  previous: SessionCandidate | null;  // the session before this anchor, for the audit log
 }
 
 interface CheckinRequest {
-  userId?: string;
+  userId?: string;            // optional; must match the token unless admin
   gymId?: string;
   anchorType?: string;
   timestamp?: string;
-}
-
-// =============================================================================
-// STORAGE LAYER (Upstash Redis with in-memory fallback)
-// =============================================================================
-
-const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
-const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-// In-memory fallback (for local dev or if Upstash not configured)
-const memoryStore: Map<string, SessionCandidate> = new Map();
-
-function isUpstashConfigured(): boolean {
-  return !!(UPSTASH_URL && UPSTASH_TOKEN);
-}
-
-async function redisGet(key: string): Promise<SessionCandidate | null> {
-  if (!isUpstashConfigured()) {
-    return memoryStore.get(key) || null;
-  }
-
-  try {
-    const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(key)}`, {
-      headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-    });
-    const data = await res.json();
-    return data.result ? JSON.parse(data.result) : null;
-  } catch (err) {
-    console.error('[Storage] Redis GET error:', err);
-    return memoryStore.get(key) || null;
-  }
-}
-
-async function redisSet(key: string, value: SessionCandidate, ttlSeconds: number): Promise<void> {
-  // Always update memory store as backup
-  memoryStore.set(key, value);
-
-  if (!isUpstashConfigured()) {
-    console.log('[Storage] Using in-memory store (Upstash not configured)');
-    return;
-  }
-
-  try {
-    await fetch(`${UPSTASH_URL}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${UPSTASH_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(['SET', key, JSON.stringify(value), 'EX', ttlSeconds.toString()]),
-    });
-  } catch (err) {
-    console.error('[Storage] Redis SET error:', err);
-  }
+  lat?: number | string;
+  lon?: number | string;
+  accuracy?: number | string;
+  bssids?: unknown[];
+  beacons?: unknown[];
 }
 
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
-function generateSessionId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 8);
-  return `SC-${timestamp}-${random}`.toUpperCase();
-}
-
-// Session key: unique per user + gym (only one open session per location)
-function getSessionKey(userId: string, gymId: string): string {
-  return `session:${userId}:${gymId}`;
-}
-
-function calculateStackedBoost(anchors: Anchor[]): number {
-  const total = anchors.reduce((sum, a) => sum + a.boost, 0);
-  return Math.min(total, MAX_SCS_BOOST);
-}
-
 function isSessionExpired(session: SessionCandidate): boolean {
   return Date.now() > session.expiresAt;
 }
 
-function hasAnchorType(session: SessionCandidate, type: 'geofence' | 'nfc' | 'wifi_bssid'): boolean {
-  return session.anchors.some(a => a.type === type);
-}
-
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
 
+export default withIdempotency('gym-checkin', handler);
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export default async function handler(req: any, res: any) {
-  // CORS headers for Apple Shortcuts
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS, GET');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
 
   if (req.method !== 'POST') {
     return res.status(405).json({
@@ -182,20 +110,18 @@ export default async function handler(req: any, res: any) {
   }
 
   try {
+    const store = getStore();
     const body: CheckinRequest = req.body || {};
-    const { userId, gymId, anchorType, timestamp } = body;
+    const { gymId, anchorType, timestamp } = body;
+
+    const auth = await authenticate(req, 'anchors:write', body.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
 
     // -------------------------------------------------------------------------
     // VALIDATION
     // -------------------------------------------------------------------------
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: userId',
-      });
-    }
-
     if (!gymId) {
       return res.status(400).json({
         success: false,
@@ -203,21 +129,125 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    if (!anchorType || !['geofence', 'nfc', 'wifi_bssid'].includes(anchorType)) {
+    if (!isEntryAnchorKind(anchorType)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid anchorType. Must be "geofence", "nfc", or "wifi_bssid".',
+        error: 'Invalid anchorType. Must be "geofence", "nfc", "wifi_bssid", or "ble".',
       });
     }
 
-    const gym = GYMS[gymId];
+    const now = resolveEventTime(timestamp);
+    if (typeof now === 'string') {
+      return res.status(400).json({ success: false, error: now });
+    }
+
+    const gym = await getFacility(store, gymId);
     if (!gym) {
+      const valid = (await listFacilities(store)).map(f => f.id);
       return res.status(400).json({
         success: false,
-        error: `Unknown gymId: ${gymId}. Valid gyms: ${Object.keys(GYMS).join(', ')}`,
+        error: `Unknown gymId: ${gymId}. Valid gyms: ${valid.join(', ')}`,
       });
     }
 
+    // -------------------------------------------------------------------------
+    // ANCHOR EVIDENCE
+    // -------------------------------------------------------------------------
+
+    let anchorBoost = ANCHOR_BOOSTS[anchorType];
+    let evidence: AnchorEvidence | undefined;
+
+    const observations = parseBssidObservations(body as Record<string, unknown>);
+    if (typeof observations === 'string') {
+      return res.status(400).json({ success: false, error: observations });
+    }
+
+    if (anchorType === 'geofence') {
+      const position = parseDevicePosition(body as Record<string, unknown>);
+      if (typeof position === 'string') {
+        return res.status(400).json({ success: false, error: position });
+      }
+
+      if (!position) {
+        // No better off than a coarse fix: leaving the position out mustn't pay more
+        anchorBoost = Math.round(anchorBoost * DEGRADED_BOOST_FACTOR * 100) / 100;
+        evidence = { verdict: 'unverified' };
+      } else {
+        const { verdict, distanceM, accuracyM, radiusM } = checkGeofence(gym, position);
+        if (verdict === 'outside') {
+          console.warn(`[GAVL] Geofence claim REJECTED | ${gym.name} | ${distanceM}m away (±${accuracyM ?? '?'}m, fence ${radiusM}m)`);
+          await recordTrustSignal(store, userId, {
+            kind: 'attack',
+            at: Date.now(),
+            attack: 'gps_spoofing',
+            status: 'suspicious',
+            detail: `${distanceM}m from ${gym.name}`,
+          }, auth.principal);
+          return res.status(422).json({
+            success: false,
+            error: `Device is ${distanceM}m from ${gym.name}, outside its ${radiusM}m geofence.`,
+            distanceM,
+            accuracyM,
+          });
+        }
+        if (verdict === 'degraded') {
+          anchorBoost = Math.round(anchorBoost * DEGRADED_BOOST_FACTOR * 100) / 100;
+        }
+        evidence = { verdict, distanceM, accuracyM, radiusM };
+      }
+    }
+
+    if (anchorType === 'nfc') {
+      const tag = await verifyNfcTap(store, gym, body as Record<string, unknown>);
+      if (!tag.ok) {
+        console.warn(`[GAVL] NFC claim REJECTED | ${gym.name} | ${tag.error}`);
+        if (tag.attack) {
+          await recordTrustSignal(store, userId, { kind: 'attack', at: Date.now(), attack: tag.attack.type, status: tag.attack.status, detail: gym.name }, auth.principal);
+        }
+        return res.status(tag.status).json({ success: false, error: tag.error });
+      }
+      anchorBoost = nfcBoost('nfc', tag.evidence);
+      evidence = tag.evidence;
+    }
+
+    if (anchorType === 'wifi_bssid') {
+      if (!observations) {
+        return res.status(400).json({ success: false, error: 'wifi_bssid anchors require bssids: [{ bssid, rssi }]' });
+      }
+      const match = matchBssids(gym, observations);
+      if (!match) {
+        // Still worth learning from if this visit is already NFC-verified
+        await learnFromSession(store, gym, await getSession(store, userId, gymId), observations, auth.principal);
+        console.warn(`[GAVL] Wi-Fi claim REJECTED | ${gym.name} | no registered BSSID among ${observations.length}`);
+        return res.status(422).json({
+          success: false,
+          error: `None of the ${observations.length} observed network(s) are registered for ${gym.name}.`,
+        });
+      }
+      anchorBoost = Math.round(anchorBoost * match.confidence * 100) / 100;
+      evidence = match.evidence;
+    }
+
+    if (anchorType === 'ble') {
+      const readings = parseBeaconReadings(body as Record<string, unknown>);
+      if (typeof readings === 'string') {
+        return res.status(400).json({ success: false, error: readings });
+      }
+      if (!readings) {
+        return res.status(400).json({ success: false, error: 'ble anchors require beacons: [{ uuid, major, minor, rssi }]' });
+      }
+      const match = matchBeacons(gym, readings);
+      if (!match) {
+        console.warn(`[GAVL] BLE claim REJECTED | ${gym.name} | no registered beacon among ${readings.length}`);
+        return res.status(422).json({
+          success: false,
+          error: `None of the ${readings.length} ranged beacon(s) are registered for ${gym.name}.`,
+        });
+      }
+      anchorBoost = Math.round(anchorBoost * match.confidence * 100) / 100;
+      evidence = match.evidence;
+    }
+
     // -------------------------------------------------------------------------
     // CHECK FOR EXISTING SESSION
     // -------------------------------------------------------------------------
@@ -226,52 +256,51 @@ export default async function handler(req: any, res: any) {
     // SessionCandidate but must never create additional sessions for the
     // same visit window. This is the Guardian contract.
 
-    const now = timestamp ? new Date(timestamp).getTime() : Date.now();
-    const sessionKey = getSessionKey(userId, gymId);
-    const existingSession = await redisGet(sessionKey);
+    // The decision runs inside a compare-and-set loop: if a concurrent anchor
+    // lands between our read and write, we re-read and decide again.
 
-    const anchorBoost = SCS_BOOSTS[anchorType];
     const newAnchor: Anchor = {
-      type: anchorType as 'geofence' | 'nfc' | 'wifi_bssid',
+      type: anchorType,
       boost: anchorBoost,
       timestamp: now,
+      ...(evidence && { evidence }),
     };
 
-    let session: SessionCandidate;
-    let action: 'created' | 'upgraded' | 'duplicate';
+    const { session, action, previous } = await updateSession<CheckinOutcome>(store, userId, gymId, existingSession => {
+      if (existingSession && !isSessionExpired(existingSession) && existingSession.status === 'pending') {
+        // ---------------------------------------------------------------------
+        // UPGRADE EXISTING SESSION
+        // ---------------------------------------------------------------------
+
+        // Duplicate anchor - don't add again, but return success. Stronger
+        // evidence (e.g. verified after degraded) replaces the weaker anchor.
+        const before = structuredClone(existingSession);
+        if (hasAnchorType(existingSession, anchorType)) {
+          const previous = existingSession.anchors.find(a => a.type === anchorType);
+          if (previous && previous.boost >= newAnchor.boost) {
+            return { result: { action: 'duplicate', session: existingSession, previous: before } };
+          }
+          existingSession.anchors = existingSession.anchors.filter(a => a.type !== anchorType);
+        }
 
-    if (existingSession && !isSessionExpired(existingSession) && existingSession.status === 'pending') {
-      // -----------------------------------------------------------------------
-      // UPGRADE EXISTING SESSION
-      // -----------------------------------------------------------------------
-
-      // Check if this anchor type already exists
-      if (hasAnchorType(existingSession, anchorType as 'geofence' | 'nfc' | 'wifi_bssid')) {
-        // Duplicate anchor - don't add again, but return success
-        action = 'duplicate';
-        session = existingSession;
-        console.log(`[GAVL] Duplicate ${anchorType} anchor ignored | Session: ${session.id}`);
-      } else {
         // Add new anchor type, recalculate boost
         existingSession.anchors.push(newAnchor);
         existingSession.scsBoost = calculateStackedBoost(existingSession.anchors);
         existingSession.updatedAt = now;
 
-        session = existingSession;
-        action = 'upgraded';
-
-        // Save updated session
-        const ttlSeconds = Math.ceil((session.expiresAt - now) / 1000);
-        await redisSet(sessionKey, session, ttlSeconds);
-
-        console.log(`[GAVL] Session UPGRADED | ${gym.name} | +${anchorType} | Total SCS: +${session.scsBoost} | Session: ${session.id}`);
+        return {
+          session: existingSession,
+          ttlSeconds: Math.max(1, Math.ceil((existingSession.expiresAt - Date.now()) / 1000)),
+          result: { action: 'upgraded', session: existingSession, previous: before },
+        };
       }
-    } else {
+
       // -----------------------------------------------------------------------
       // CREATE NEW SESSION
       // -----------------------------------------------------------------------
 
-      session = {
+      const created: SessionCandidate = {
+        schemaVersion: SCHEMA_VERSION,
         id: generateSessionId(),
         userId,
         gymId,
@@ -284,13 +313,22 @@ export default async function handler(req: any, res: any) {
         expiresAt: now + SESSION_TTL_MS,
       };
 
-      action = 'created';
+      return { session: created, ttlSeconds: TTL.SESSION_OPEN, result: { action: 'created', session: created, previous: null } };
+    });
 
-      // Save new session
-      const ttlSeconds = SESSION_TTL_HOURS * 60 * 60;
-      await redisSet(sessionKey, session, ttlSeconds);
+    await learnFromSession(store, gym, session, observations, auth.principal);
+    if (action !== 'duplicate') {
+      await recordAudit(store, auth.principal, `session.${action === 'created' ? 'checkin' : 'anchor'}`, [
+        { target: `session:${session.id}`, before: previous, after: session },
+      ]);
+    }
 
+    if (action === 'created') {
       console.log(`[GAVL] Session CREATED | ${gym.name} | ${anchorType} | SCS: +${session.scsBoost} | Session: ${session.id}`);
+    } else if (action === 'upgraded') {
+      console.log(`[GAVL] Session UPGRADED | ${gym.name} | +${anchorType} | Total SCS: +${session.scsBoost} | Session: ${session.id}`);
+    } else {
+      console.log(`[GAVL] Duplicate ${anchorType} anchor ignored | Session: ${session.id}`);
     }
 
     // -------------------------------------------------------------------------
@@ -303,7 +341,7 @@ export default async function handler(req: any, res: any) {
       success: true,
       action,
       sessionId: session.id,
-      anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost })),
+      anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost, ...(a.evidence && { evidence: a.evidence }) })),
       scsBoost: session.scsBoost,
       gym: {
         id: gymId,
@@ -315,9 +353,16 @@ export default async function handler(req: any, res: any) {
         ? `Session upgraded at ${gym.name}. Now +${session.scsBoost} SCS boost (${anchorSummary}).`
         : `Already checked in with ${anchorType} at ${gym.name}. Session unchanged.`,
       expiresAt: new Date(session.expiresAt).toISOString(),
-      storage: isUpstashConfigured() ? 'redis' : 'memory',
+      storage: store.backend,
     });
   } catch (error) {
+    if (error instanceof ConcurrencyError) {
+      console.warn('[GAVL] Check-in contention:', error.message);
+      return res.status(409).json({
+        success: false,
+        error: 'Session is being updated by another anchor. Retry.',
+      });
+    }
     console.error('[GAVL] Check-in error:', error);
     return res.status(500).json({
       success: false,
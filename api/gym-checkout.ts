@@ -5,173 +5,45 @@
  * Finalizes the existing open SessionCandidate and records endTime.
  *
  * POST /api/gym-checkout
- * Body: { userId, gymId, timestamp? }
+ * Headers: Authorization: Bearer <token> (anchors:write)
+ *          Idempotency-Key (optional, replays the first response for 24h)
+ * Body: { gymId, timestamp? }
  */
 
-// =============================================================================
-// CONFIGURATION (must match gym-checkin.ts)
-// =============================================================================
-
-const GYMS: Record<string, { name: string }> = {
-  'golds-venice': { name: "Gold's Gym Venice" },
-  'jfm-boxing': { name: 'JFM Boxing Club' },
-  'gracie-originals': { name: 'Gracie Originals' },
-};
+import { ANCHOR_BOOSTS, calculateStackedBoost, type SessionCandidate } from '../shared/schema.js';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { getFacility } from './_lib/facilities.js';
+import { finalizeToHistory } from './_lib/gate.js';
+import { withIdempotency } from './_lib/idempotency.js';
+import { resolveEventTime, updateSession } from './_lib/sessions.js';
+import { ConcurrencyError, getStore, TTL } from './_lib/store.js';
 
 // =============================================================================
 // TYPES
 // =============================================================================
 
-interface Anchor {
-  type: 'geofence' | 'nfc' | 'nfc_exit' | 'geofence_exit';
-  boost: number;
-  timestamp: number;
-}
-
-interface SessionCandidate {
-  id: string;
-  userId: string;
-  gymId: string;
-  gymName: string;
-  anchors: Anchor[];
-  scsBoost: number;
-  status: 'pending' | 'active' | 'finalized';
-  createdAt: number;
-  updatedAt: number;
-  expiresAt: number;
-  endedAt?: number;
-  duration?: number;
-}
+type CheckoutOutcome =
+  | { action: 'missing' }
+  | { action: 'already_finalized'; session: SessionCandidate }
+  | { action: 'ghost' | 'finalized'; session: SessionCandidate; previous: SessionCandidate };
 
 interface CheckoutRequest {
-  userId?: string;
+  userId?: string;            // optional; must match the token unless admin
   gymId?: string;
   timestamp?: string;
 }
 
-// =============================================================================
-// STORAGE LAYER (must match gym-checkin.ts)
-// =============================================================================
-
-const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
-const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-const memoryStore: Map<string, SessionCandidate> = new Map();
-
-function isUpstashConfigured(): boolean {
-  return !!(UPSTASH_URL && UPSTASH_TOKEN);
-}
-
-async function redisGet(key: string): Promise<SessionCandidate | null> {
-  if (!isUpstashConfigured()) {
-    return memoryStore.get(key) || null;
-  }
-
-  try {
-    const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(key)}`, {
-      headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-    });
-    const data = await res.json();
-    return data.result ? JSON.parse(data.result) : null;
-  } catch (err) {
-    console.error('[Storage] Redis GET error:', err);
-    return memoryStore.get(key) || null;
-  }
-}
-
-async function redisSet(key: string, value: SessionCandidate, ttlSeconds: number): Promise<void> {
-  memoryStore.set(key, value);
-
-  if (!isUpstashConfigured()) {
-    return;
-  }
-
-  try {
-    await fetch(`${UPSTASH_URL}`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${UPSTASH_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(['SET', key, JSON.stringify(value), 'EX', ttlSeconds.toString()]),
-    });
-  } catch (err) {
-    console.error('[Storage] Redis SET error:', err);
-  }
-}
-
-// Also store finalized sessions in a history list
-async function appendToHistory(userId: string, session: SessionCandidate): Promise<void> {
-  const historyKey = `history:${userId}`;
-
-  // Get existing history
-  let history: SessionCandidate[] = [];
-  if (isUpstashConfigured()) {
-    try {
-      const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(historyKey)}`, {
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-      });
-      const data = await res.json();
-      if (data.result) {
-        history = JSON.parse(data.result);
-      }
-    } catch (err) {
-      console.error('[Storage] Redis history GET error:', err);
-    }
-  } else {
-    const existing = memoryStore.get(historyKey);
-    if (existing) {
-      history = existing as unknown as SessionCandidate[];
-    }
-  }
-
-  // Append new session (keep last 50)
-  history.push(session);
-  if (history.length > 50) {
-    history = history.slice(-50);
-  }
-
-  // Save history
-  if (isUpstashConfigured()) {
-    try {
-      await fetch(`${UPSTASH_URL}`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${UPSTASH_TOKEN}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(['SET', historyKey, JSON.stringify(history), 'EX', '2592000']), // 30 days
-      });
-    } catch (err) {
-      console.error('[Storage] Redis history SET error:', err);
-    }
-  } else {
-    memoryStore.set(historyKey, history as unknown as SessionCandidate);
-  }
-}
-
-// =============================================================================
-// HELPER FUNCTIONS
-// =============================================================================
-
-function getSessionKey(userId: string, gymId: string): string {
-  return `session:${userId}:${gymId}`;
-}
-
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export default async function handler(req: any, res: any) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+export default withIdempotency('gym-checkout', handler);
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
 
   if (req.method !== 'POST') {
     return res.status(405).json({
@@ -181,17 +53,15 @@ export default async function handler(req: any, res: any) {
   }
 
   try {
+    const store = getStore();
     const body: CheckoutRequest = req.body || {};
-    const { userId, gymId, timestamp } = body;
+    const { gymId, timestamp } = body;
 
-    // Validation
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required field: userId',
-      });
-    }
+    const auth = await authenticate(req, 'anchors:write', body.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
 
+    // Validation
     if (!gymId) {
       return res.status(400).json({
         success: false,
@@ -199,7 +69,7 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    const gym = GYMS[gymId];
+    const gym = await getFacility(store, gymId);
     if (!gym) {
       return res.status(400).json({
         success: false,
@@ -207,18 +77,53 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    // Find existing session
-    const sessionKey = getSessionKey(userId, gymId);
-    const session = await redisGet(sessionKey);
+    const now = resolveEventTime(timestamp);
+    if (typeof now === 'string') {
+      return res.status(400).json({ success: false, error: now });
+    }
+
+    // Finalize inside a compare-and-set loop so a late anchor racing the exit
+    // is either included or retried, never dropped
+    const outcome = await updateSession<CheckoutOutcome>(store, userId, gymId, session => {
+      if (!session) return { result: { action: 'missing' } };
+      if (session.status === 'finalized') return { result: { action: 'already_finalized', session } };
+      const previous = structuredClone(session);
+
+      // Record geofence exit as an anchor in the chain of custody
+      session.anchors.push({
+        type: 'geofence_exit',
+        boost: ANCHOR_BOOSTS.geofence_exit,
+        timestamp: now,
+      });
+      session.scsBoost = calculateStackedBoost(session.anchors);
+
+      session.endedAt = now;
+      session.updatedAt = now;
+      session.duration = Math.round((now - session.createdAt) / 1000 / 60); // minutes
+
+      // Ghost session detection: <10 min AND no NFC anchor = geofence blip, not a real session
+      const hasNfc = session.anchors.some(a => a.type === 'nfc' || a.type === 'nfc_exit');
+      if (session.duration < 10 && !hasNfc) {
+        session.status = 'pending'; // Ghost — not finalized, kept as pending for review
+        return { session, ttlSeconds: TTL.SESSION_GHOST, result: { action: 'ghost', session, previous } }; // Keep ghost for 1h then expire
+      }
+
+      session.status = 'finalized';
+
+      // Save finalized session (keep for 24h for history access)
+      return { session, ttlSeconds: TTL.SESSION_FINALIZED, result: { action: 'finalized', session, previous } };
+    });
 
-    if (!session) {
+    if (outcome.action === 'missing') {
       return res.status(404).json({
         success: false,
         error: `No open session found for ${gym.name}. Did you check in first?`,
       });
     }
 
-    if (session.status === 'finalized') {
+    const { session } = outcome;
+
+    if (outcome.action === 'already_finalized') {
       return res.status(400).json({
         success: false,
         error: 'Session already finalized.',
@@ -226,30 +131,14 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    // Finalize the session
-    const now = timestamp ? new Date(timestamp).getTime() : Date.now();
+    const endedAt = session.endedAt ?? now;
+    const duration = session.duration ?? 0;
 
-    // Record geofence exit as an anchor in the chain of custody
-    session.anchors.push({
-      type: 'geofence_exit',
-      boost: 0.10,
-      timestamp: now,
-    });
-    session.scsBoost = Math.min(session.scsBoost + 0.10, 0.65);
-
-    session.endedAt = now;
-    session.updatedAt = now;
-    session.duration = Math.round((now - session.createdAt) / 1000 / 60); // minutes
-
-    // Ghost session detection: <10 min AND no NFC anchor = geofence blip, not a real session
-    const hasNfc = session.anchors.some(a => a.type === 'nfc' || a.type === 'nfc_exit');
-    const isGhost = session.duration < 10 && !hasNfc;
-
-    if (isGhost) {
-      session.status = 'pending'; // Ghost — not finalized, kept as pending for review
-      await redisSet(sessionKey, session, 60 * 60); // Keep ghost for 1h then expire
-
-      console.log(`[GAVL] GHOST SESSION detected | ${gym.name} | Duration: ${session.duration}min | No NFC | Session: ${session.id}`);
+    if (outcome.action === 'ghost') {
+      await recordAudit(store, auth.principal, 'session.ghost', [
+        { target: `session:${session.id}`, before: outcome.previous, after: session },
+      ], now);
+      console.log(`[GAVL] GHOST SESSION detected | ${gym.name} | Duration: ${duration}min | No NFC | Session: ${session.id}`);
 
       return res.status(200).json({
         success: true,
@@ -259,19 +148,17 @@ export default async function handler(req: any, res: any) {
         scsBoost: session.scsBoost,
         status: 'ghost',
         startedAt: new Date(session.createdAt).toISOString(),
-        endedAt: new Date(session.endedAt).toISOString(),
-        duration: session.duration,
-        message: `Ghost session detected at ${gym.name}. Duration: ${session.duration} min, no NFC. Not finalized.`,
+        endedAt: new Date(endedAt).toISOString(),
+        duration,
+        message: `Ghost session detected at ${gym.name}. Duration: ${duration} min, no NFC. Not finalized.`,
       });
     }
 
-    session.status = 'finalized';
-
-    // Save finalized session (keep for 24h for history access)
-    await redisSet(sessionKey, session, 24 * 60 * 60);
-
-    // Append to user's history (only finalized sessions go to history)
-    await appendToHistory(userId, session);
+    // Gate on SCS and append to user's history (only finalized sessions go to history)
+    const gated = await finalizeToHistory(store, session, now);
+    await recordAudit(store, auth.principal, 'session.checkout', [
+      { target: `session:${session.id}`, before: outcome.previous, after: gated },
+    ], now);
 
     console.log(`[GAVL] Session FINALIZED | ${gym.name} | Duration: ${session.duration}min | SCS: +${session.scsBoost} | Session: ${session.id}`);
 
@@ -285,12 +172,20 @@ export default async function handler(req: any, res: any) {
       anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost })),
       scsBoost: session.scsBoost,
       status: 'finalized',
+      gate: gated.gate,
       startedAt: new Date(session.createdAt).toISOString(),
-      endedAt: new Date(session.endedAt).toISOString(),
-      duration: session.duration,
-      message: `Session finalized at ${gym.name}. Duration: ${session.duration} minutes.`,
+      endedAt: new Date(endedAt).toISOString(),
+      duration,
+      message: `Session finalized at ${gym.name}. Duration: ${duration} minutes.`,
     });
   } catch (error) {
+    if (error instanceof ConcurrencyError) {
+      console.warn('[GAVL] Checkout contention:', error.message);
+      return res.status(409).json({
+        success: false,
+        error: 'Session is being updated by another anchor. Retry.',
+      });
+    }
     console.error('[GAVL] Checkout error:', error);
     return res.status(500).json({
       success: false,
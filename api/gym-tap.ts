@@ -4,285 +4,248 @@
  * Single endpoint for NFC tag taps. The server decides check-in vs checkout
  * based on session state:
  *
- *   - No active session → CHECK IN (create session with NFC anchor, +0.25)
- *   - Active session without NFC → UPGRADE (add NFC anchor, +0.25)
- *   - Active session with NFC already → CHECK OUT (finalize with NFC exit, +0.15)
+ *   - No active session → CHECK IN (create session with NFC anchor, +0.25 signed)
+ *   - Active session without NFC → UPGRADE (add NFC anchor, +0.25 signed)
+ *   - Active session with NFC already → CHECK OUT (finalize with NFC exit, +0.15 signed)
+ *   - NFC tapped within the last 2 minutes → DUPLICATE (no change)
  *
  * One tag. One shortcut. One URL. Tap in, tap out.
  *
+ * SIGNED TAGS: at facilities with provisioned tags the body must carry the
+ * tag's message (SUN uid/ctr/cmac or HMAC tagId/counter/sig, see _lib/nfc.ts).
+ * Bad signatures and reused counters are rejected; the tag ID and counter are
+ * recorded as evidence on the NFC anchor. Unsigned taps (facilities with no
+ * tags yet) earn half the NFC boost. BSSIDs sent with a verified tap
+ * (`bssids`) are learned as the gym's Wi-Fi fingerprint (_lib/wifi.ts).
+ *
+ * RETRIES: Shortcuts re-send taps on flaky cellular. Send an Idempotency-Key
+ * to get the original response replayed; without one, a second tap within
+ * TAP_DEBOUNCE_MS of the last NFC anchor is treated as a duplicate instead of
+ * a checkout, so a retry can't finalize a 0-minute session.
+ *
  * POST /api/gym-tap
- * Body: { userId, gymId }
+ * Headers: Authorization: Bearer <token> (anchors:write), Idempotency-Key (optional)
+ * Body: { gymId, uid?, ctr?, cmac?, tagId?, counter?, sig?, bssids?, idempotencyKey? }
  */
 
-// =============================================================================
-// CONFIGURATION
-// =============================================================================
-
-const GYMS: Record<string, { name: string; address: string; coords: [number, number] }> = {
-  'golds-venice': {
-    name: "Gold's Gym Venice",
-    address: '360 Hampton Dr, Venice, CA 90291',
-    coords: [33.9925, -118.4695],
-  },
-  'jfm-boxing': {
-    name: 'JFM Boxing Club',
-    address: '3127 Washington Blvd Unit 1, Venice, CA 90292',
-    coords: [33.9983, -118.4518],
-  },
-  'gracie-originals': {
-    name: 'Gracie Originals',
-    address: '1934 14th St, Santa Monica, CA 90404',
-    coords: [34.0195, -118.4695],
-  },
-};
-
-const SESSION_TTL_HOURS = 4;
-const SESSION_TTL_MS = SESSION_TTL_HOURS * 60 * 60 * 1000;
-
-// =============================================================================
-// TYPES
-// =============================================================================
-
-interface Anchor {
-  type: 'geofence' | 'nfc' | 'nfc_exit' | 'geofence_exit';
-  boost: number;
-  timestamp: number;
-}
+import {
+  calculateStackedBoost,
+  hasAnchorType,
+  SCHEMA_VERSION,
+  type SessionCandidate,
+} from '../shared/schema.js';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { getFacility, listFacilities } from './_lib/facilities.js';
+import { finalizeToHistory } from './_lib/gate.js';
+import { withIdempotency } from './_lib/idempotency.js';
+import { nfcBoost, verifyNfcTap } from './_lib/nfc.js';
+import { generateSessionId, updateSession } from './_lib/sessions.js';
+import { ConcurrencyError, getStore, TTL } from './_lib/store.js';
+import { recordTrustSignal } from './_lib/trust.js';
+import { learnFromSession, parseBssidObservations } from './_lib/wifi.js';
 
-interface SessionCandidate {
-  id: string;
-  userId: string;
-  gymId: string;
-  gymName: string;
-  anchors: Anchor[];
-  scsBoost: number;
-  status: 'pending' | 'active' | 'finalized';
-  createdAt: number;
-  updatedAt: number;
-  expiresAt: number;
-  endedAt?: number;
-  duration?: number;
-}
-
-// =============================================================================
-// STORAGE LAYER (Upstash Redis with in-memory fallback)
 // =============================================================================
-
-const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
-const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-const memoryStore: Map<string, unknown> = new Map();
-
-function isUpstashConfigured(): boolean {
-  return !!(UPSTASH_URL && UPSTASH_TOKEN);
-}
-
-async function redisGet(key: string): Promise<SessionCandidate | null> {
-  if (!isUpstashConfigured()) {
-    return (memoryStore.get(key) as SessionCandidate) || null;
-  }
-  try {
-    const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(key)}`, {
-      headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-    });
-    const data = await res.json();
-    return data.result ? JSON.parse(data.result) : null;
-  } catch (err) {
-    console.error('[Storage] Redis GET error:', err);
-    return (memoryStore.get(key) as SessionCandidate) || null;
-  }
-}
-
-async function redisSet(key: string, value: SessionCandidate, ttlSeconds: number): Promise<void> {
-  memoryStore.set(key, value);
-  if (!isUpstashConfigured()) return;
-  try {
-    await fetch(`${UPSTASH_URL}`, {
-      method: 'POST',
-      headers: { Authorization: `Bearer ${UPSTASH_TOKEN}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify(['SET', key, JSON.stringify(value), 'EX', ttlSeconds.toString()]),
-    });
-  } catch (err) {
-    console.error('[Storage] Redis SET error:', err);
-  }
-}
-
-async function appendToHistory(userId: string, session: SessionCandidate): Promise<void> {
-  const historyKey = `history:${userId}`;
-  let history: SessionCandidate[] = [];
-
-  if (isUpstashConfigured()) {
-    try {
-      const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(historyKey)}`, {
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-      });
-      const data = await res.json();
-      if (data.result) history = JSON.parse(data.result);
-    } catch (err) {
-      console.error('[Storage] Redis history GET error:', err);
-    }
-  }
-
-  history.push(session);
-  if (history.length > 50) history = history.slice(-50);
-
-  if (isUpstashConfigured()) {
-    try {
-      await fetch(`${UPSTASH_URL}`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify(['SET', historyKey, JSON.stringify(history), 'EX', '2592000']),
-      });
-    } catch (err) {
-      console.error('[Storage] Redis history SET error:', err);
-    }
-  }
-}
-
-// =============================================================================
-// HELPERS
+// CONFIGURATION
 // =============================================================================
 
-function generateSessionId(): string {
-  const timestamp = Date.now().toString(36);
-  const random = Math.random().toString(36).substring(2, 8);
-  return `SC-${timestamp}-${random}`.toUpperCase();
-}
-
-function getSessionKey(userId: string, gymId: string): string {
-  return `session:${userId}:${gymId}`;
-}
-
-function hasAnchorType(session: SessionCandidate, type: string): boolean {
-  return session.anchors.some(a => a.type === type);
-}
+const SESSION_TTL_MS = TTL.SESSION_OPEN * 1000;
+const TAP_DEBOUNCE_MS = 2 * 60 * 1000;
 
-function calculateBoost(anchors: Anchor[]): number {
-  return anchors.reduce((sum, a) => sum + a.boost, 0);
+interface TapOutcome {
+  action: 'nfc_checkin' | 'nfc_upgrade' | 'nfc_checkout' | 'nfc_duplicate' | 'unexpected';
+  session: SessionCandidate;
+  previous?: SessionCandidate;  // the open session this tap changed, for the audit log
 }
 
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export default async function handler(req: any, res: any) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+export default withIdempotency('gym-tap', handler);
 
-  if (req.method === 'OPTIONS') return res.status(200).end();
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
   }
 
   try {
-    const { userId, gymId } = req.body || {};
+    const store = getStore();
+    const { gymId } = req.body || {};
+
+    const auth = await authenticate(req, 'anchors:write', req.body?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
 
-    if (!userId) return res.status(400).json({ success: false, error: 'Missing: userId' });
     if (!gymId) return res.status(400).json({ success: false, error: 'Missing: gymId' });
 
-    const gym = GYMS[gymId];
+    const gym = await getFacility(store, gymId);
     if (!gym) {
+      const valid = (await listFacilities(store)).map(f => f.id);
       return res.status(400).json({
         success: false,
-        error: `Unknown gymId: ${gymId}. Valid: ${Object.keys(GYMS).join(', ')}`,
+        error: `Unknown gymId: ${gymId}. Valid: ${valid.join(', ')}`,
       });
     }
 
+    const observations = parseBssidObservations(req.body);
+    if (typeof observations === 'string') {
+      return res.status(400).json({ success: false, error: observations });
+    }
+
+    const tag = await verifyNfcTap(store, gym, req.body);
+    if (!tag.ok) {
+      console.warn(`[GAVL-TAP] Tap REJECTED | ${gym.name} | ${tag.error}`);
+      if (tag.attack) {
+        await recordTrustSignal(store, userId, { kind: 'attack', at: Date.now(), attack: tag.attack.type, status: tag.attack.status, detail: gym.name }, auth.principal);
+      }
+      return res.status(tag.status).json({ success: false, error: tag.error });
+    }
+    const { evidence } = tag;
+
     const now = Date.now();
-    const sessionKey = getSessionKey(userId, gymId);
-    const session = await redisGet(sessionKey);
 
     // =========================================================================
     // DECISION: What does this tap mean?
     // =========================================================================
 
-    // CASE 1: No active session → NFC CHECK-IN (create new session)
-    if (!session || session.status === 'finalized' || now > session.expiresAt) {
-      const newSession: SessionCandidate = {
-        id: generateSessionId(),
-        userId,
-        gymId,
-        gymName: gym.name,
-        anchors: [{ type: 'nfc', boost: 0.25, timestamp: now }],
-        scsBoost: 0.25,
-        status: 'pending',
-        createdAt: now,
-        updatedAt: now,
-        expiresAt: now + SESSION_TTL_MS,
-      };
-
-      await redisSet(sessionKey, newSession, SESSION_TTL_HOURS * 60 * 60);
-      console.log(`[GAVL-TAP] NFC CHECK-IN | ${gym.name} | Session: ${newSession.id}`);
+    // Decided inside a compare-and-set loop so a geofence check-in racing this
+    // tap can't be overwritten (or split into a second session).
+    const outcome = await updateSession<TapOutcome>(store, userId, gymId, session => {
+      // CASE 1: No active session → NFC CHECK-IN (create new session)
+      if (!session || session.status === 'finalized' || now > session.expiresAt) {
+        const newSession: SessionCandidate = {
+          schemaVersion: SCHEMA_VERSION,
+          id: generateSessionId(),
+          userId,
+          gymId,
+          gymName: gym.name,
+          anchors: [{ type: 'nfc', boost: nfcBoost('nfc', evidence), timestamp: now, evidence }],
+          scsBoost: nfcBoost('nfc', evidence),
+          status: 'pending',
+          createdAt: now,
+          updatedAt: now,
+          expiresAt: now + SESSION_TTL_MS,
+        };
+        return { session: newSession, ttlSeconds: TTL.SESSION_OPEN, result: { action: 'nfc_checkin', session: newSession } };
+      }
+
+      const previous = structuredClone(session);
+
+      // CASE 2: Active session WITHOUT NFC → NFC UPGRADE (add NFC anchor)
+      if (session.status === 'pending' && !hasAnchorType(session, 'nfc')) {
+        session.anchors.push({ type: 'nfc', boost: nfcBoost('nfc', evidence), timestamp: now, evidence });
+        session.scsBoost = calculateStackedBoost(session.anchors);
+        session.updatedAt = now;
+
+        const ttlSeconds = Math.ceil((session.expiresAt - now) / 1000);
+        return { session, ttlSeconds, result: { action: 'nfc_upgrade', session, previous } };
+      }
+
+      // CASE 3: NFC tapped moments ago → retry of the same tap, not a checkout
+      const lastNfc = Math.max(0, ...session.anchors.filter(a => a.type === 'nfc').map(a => a.timestamp));
+      if (session.status === 'pending' && now - lastNfc < TAP_DEBOUNCE_MS) {
+        return { result: { action: 'nfc_duplicate', session } };
+      }
+
+      // CASE 4: Active session WITH NFC already → NFC CHECKOUT (finalize)
+      if (session.status === 'pending' && hasAnchorType(session, 'nfc')) {
+        session.anchors.push({ type: 'nfc_exit', boost: nfcBoost('nfc_exit', evidence), timestamp: now, evidence });
+        session.scsBoost = calculateStackedBoost(session.anchors);
+        session.status = 'finalized';
+        session.endedAt = now;
+        session.updatedAt = now;
+        session.duration = Math.round((now - session.createdAt) / 1000 / 60);
+
+        return { session, ttlSeconds: TTL.SESSION_FINALIZED, result: { action: 'nfc_checkout', session, previous } };
+      }
+
+      // Fallback (shouldn't reach here)
+      return { result: { action: 'unexpected', session } };
+    });
+
+    const { action, session } = outcome;
+    await learnFromSession(store, gym, session, observations, auth.principal);
+
+    if (action === 'nfc_checkin') {
+      await recordAudit(store, auth.principal, 'session.checkin', [{ target: `session:${session.id}`, before: null, after: session }], now);
+      console.log(`[GAVL-TAP] NFC CHECK-IN | ${gym.name} | Session: ${session.id}`);
 
       return res.status(200).json({
         success: true,
-        action: 'nfc_checkin',
-        sessionId: newSession.id,
-        anchors: newSession.anchors.map(a => ({ type: a.type, boost: a.boost })),
-        scsBoost: newSession.scsBoost,
+        action,
+        sessionId: session.id,
+        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost, ...(a.evidence && { evidence: a.evidence }) })),
+        scsBoost: session.scsBoost,
         gym: { id: gymId, name: gym.name },
-        message: `NFC check-in at ${gym.name}. Session created with +0.25 SCS boost.`,
-        storage: isUpstashConfigured() ? 'redis' : 'memory',
+        message: `NFC check-in at ${gym.name}. Session created with +${session.scsBoost} SCS boost.`,
+        storage: store.backend,
       });
     }
 
-    // CASE 2: Active session WITHOUT NFC → NFC UPGRADE (add NFC anchor)
-    if (session.status === 'pending' && !hasAnchorType(session, 'nfc')) {
-      session.anchors.push({ type: 'nfc', boost: 0.25, timestamp: now });
-      session.scsBoost = Math.min(calculateBoost(session.anchors), 0.65);
-      session.updatedAt = now;
-
-      const ttlSeconds = Math.ceil((session.expiresAt - now) / 1000);
-      await redisSet(sessionKey, session, ttlSeconds);
+    if (action === 'nfc_upgrade') {
+      await recordAudit(store, auth.principal, 'session.anchor', [{ target: `session:${session.id}`, before: outcome.previous, after: session }], now);
       console.log(`[GAVL-TAP] NFC UPGRADE | ${gym.name} | SCS: +${session.scsBoost} | Session: ${session.id}`);
 
       return res.status(200).json({
         success: true,
-        action: 'nfc_upgrade',
+        action,
         sessionId: session.id,
-        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost })),
+        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost, ...(a.evidence && { evidence: a.evidence }) })),
         scsBoost: session.scsBoost,
         gym: { id: gymId, name: gym.name },
         message: `NFC upgrade at ${gym.name}. Session now +${session.scsBoost} SCS boost.`,
-        storage: isUpstashConfigured() ? 'redis' : 'memory',
+        storage: store.backend,
       });
     }
 
-    // CASE 3: Active session WITH NFC already → NFC CHECKOUT (finalize)
-    if (session.status === 'pending' && hasAnchorType(session, 'nfc')) {
-      session.anchors.push({ type: 'nfc_exit', boost: 0.15, timestamp: now });
-      session.scsBoost = Math.min(calculateBoost(session.anchors), 0.65);
-      session.status = 'finalized';
-      session.endedAt = now;
-      session.updatedAt = now;
-      session.duration = Math.round((now - session.createdAt) / 1000 / 60);
-
-      await redisSet(sessionKey, session, 24 * 60 * 60);
-      await appendToHistory(userId, session);
+    if (action === 'nfc_duplicate') {
+      console.log(`[GAVL-TAP] NFC DUPLICATE ignored | ${gym.name} | Session: ${session.id}`);
+
+      return res.status(200).json({
+        success: true,
+        action,
+        sessionId: session.id,
+        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost, ...(a.evidence && { evidence: a.evidence }) })),
+        scsBoost: session.scsBoost,
+        gym: { id: gymId, name: gym.name },
+        message: `Tap already recorded at ${gym.name}. Tap again after ${TAP_DEBOUNCE_MS / 60000} minutes to check out.`,
+        storage: store.backend,
+      });
+    }
+
+    if (action === 'nfc_checkout') {
+      const gated = await finalizeToHistory(store, session, now);
+      await recordAudit(store, auth.principal, 'session.checkout', [{ target: `session:${session.id}`, before: outcome.previous, after: gated }], now);
       console.log(`[GAVL-TAP] NFC CHECKOUT | ${gym.name} | Duration: ${session.duration}min | SCS: +${session.scsBoost} | Session: ${session.id}`);
 
       return res.status(200).json({
         success: true,
-        action: 'nfc_checkout',
+        action,
         sessionId: session.id,
-        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost })),
+        anchors: session.anchors.map(a => ({ type: a.type, boost: a.boost, ...(a.evidence && { evidence: a.evidence }) })),
         scsBoost: session.scsBoost,
         gym: { id: gymId, name: gym.name },
         status: 'finalized',
+        gate: gated.gate,
         startedAt: new Date(session.createdAt).toISOString(),
-        endedAt: new Date(session.endedAt).toISOString(),
+        endedAt: new Date(session.endedAt ?? now).toISOString(),
         duration: session.duration,
         message: `NFC checkout at ${gym.name}. Session finalized. Duration: ${session.duration} minutes.`,
-        storage: isUpstashConfigured() ? 'redis' : 'memory',
+        storage: store.backend,
       });
     }
 
-    // Fallback (shouldn't reach here)
     return res.status(400).json({ success: false, error: 'Unexpected session state.' });
 
   } catch (error) {
+    if (error instanceof ConcurrencyError) {
+      console.warn('[GAVL-TAP] Contention:', error.message);
+      return res.status(409).json({ success: false, error: 'Session is being updated by another anchor. Retry.' });
+    }
     console.error('[GAVL-TAP] Error:', error);
     return res.status(500).json({ success: false, error: 'Internal server error' });
   }
@@ -0,0 +1,111 @@
+/**
+ * GAVL NFC Tag Provisioning API Endpoint
+ *
+ * Registers physical tags for a facility. The tag key is generated here and
+ * returned ONCE in the POST response, to be written to the tag (NTAG 424 DNA
+ * SDMFileReadKey) or the signing reader. Once a facility has any tag, its
+ * NFC anchors must carry a valid signed message (see _lib/nfc.ts).
+ *
+ * GET    /api/nfc-tags?gymId=X      → tags at a facility (keys omitted)
+ * GET    /api/nfc-tags?tagId=X      → one tag (key omitted)
+ * POST   /api/nfc-tags              → { gymId, scheme: 'sun' | 'hmac', tagId? }
+ *                                      sun requires the 7-byte tag UID as tagId
+ * DELETE /api/nfc-tags?tagId=X      → revoke
+ *
+ * All methods need the admin key (see _lib/auth.ts).
+ */
+
+import { randomBytes } from 'node:crypto';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { getFacility } from './_lib/facilities.js';
+import { getTag, NFC_SCHEMES, provisionTag, publicTag, revokeTag, type NfcScheme, type NfcTag } from './_lib/nfc.js';
+import { getStore } from './_lib/store.js';
+
+const UID_PATTERN = /^[0-9a-f]{14}$/i;
+const TAG_ID_PATTERN = /^[A-Za-z0-9-]{4,64}$/;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, DELETE, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const query = req.query || {};
+
+    const auth = await authenticate(req, 'admin');
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    if (req.method === 'GET') {
+      if (typeof query.tagId === 'string') {
+        const tag = await getTag(store, query.tagId);
+        if (!tag) return res.status(404).json({ success: false, error: `Unknown tag: ${query.tagId}` });
+        return res.status(200).json({ success: true, tag: publicTag(tag) });
+      }
+
+      if (typeof query.gymId !== 'string') {
+        return res.status(400).json({ success: false, error: 'Required query parameter: gymId or tagId' });
+      }
+      const facility = await getFacility(store, query.gymId);
+      if (!facility) return res.status(404).json({ success: false, error: `Unknown facility: ${query.gymId}` });
+
+      const tags = (await Promise.all(facility.nfcTagIds.map(id => getTag(store, id))))
+        .filter((t): t is NfcTag => t !== null)
+        .map(publicTag);
+      return res.status(200).json({ success: true, gymId: facility.id, count: tags.length, tags });
+    }
+
+    if (req.method === 'POST') {
+      const { gymId, scheme, tagId } = req.body || {};
+
+      if (!(NFC_SCHEMES as readonly string[]).includes(scheme)) {
+        return res.status(400).json({ success: false, error: `scheme must be one of: ${NFC_SCHEMES.join(', ')}` });
+      }
+      if (scheme === 'sun' && (typeof tagId !== 'string' || !UID_PATTERN.test(tagId))) {
+        return res.status(400).json({ success: false, error: 'sun tags require tagId = 7-byte tag UID (14 hex characters)' });
+      }
+      if (tagId !== undefined && (typeof tagId !== 'string' || !TAG_ID_PATTERN.test(tagId))) {
+        return res.status(400).json({ success: false, error: 'tagId must be 4-64 letters, digits or dashes' });
+      }
+
+      const facility = typeof gymId === 'string' ? await getFacility(store, gymId) : null;
+      if (!facility) return res.status(400).json({ success: false, error: `Unknown gymId: ${gymId}` });
+
+      const id = tagId ?? `T-${randomBytes(6).toString('hex')}`;
+      const result = await provisionTag(store, facility, scheme as NfcScheme, id);
+      if (!result.ok) return res.status(409).json({ success: false, error: `Tag already provisioned: ${id}` });
+
+      await recordAudit(store, auth.principal, 'nfc-tag.provision', [{ target: `nfc-tag:${result.tag.tagId}`, before: null, after: result.tag }]);
+      console.log(`[NFC] Provisioned ${result.tag.scheme} tag ${result.tag.tagId} | ${facility.name}`);
+      return res.status(201).json({
+        success: true,
+        tag: publicTag(result.tag),
+        key: result.tag.key,
+        message: 'Write this key to the tag now. It will not be shown again.',
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      if (typeof query.tagId !== 'string') {
+        return res.status(400).json({ success: false, error: 'Missing query parameter: tagId' });
+      }
+      const tag = await getTag(store, query.tagId);
+      if (!tag) return res.status(404).json({ success: false, error: `Unknown tag: ${query.tagId}` });
+
+      await revokeTag(store, tag);
+      await recordAudit(store, auth.principal, 'nfc-tag.revoke', [{ target: `nfc-tag:${tag.tagId}`, before: tag, after: null }]);
+      console.log(`[NFC] Revoked tag ${tag.tagId} | ${tag.gymId}`);
+      return res.status(200).json({ success: true, revoked: tag.tagId });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[NFC] Tag provisioning error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
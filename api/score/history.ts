@@ -0,0 +1,63 @@
+/**
+ * GAVL Score History API Endpoint
+ *
+ * Daily PES snapshots (see _lib/score-history.ts) for the history chart.
+ *
+ * GET  /api/score/history?range=90d   → rows, oldest first
+ *   range: 7d | 30d | 90d (default) | 1y | all
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * POST /api/score/history             → record today's snapshot
+ *   For a daily scheduler; GET /api/score also snapshots on every read.
+ * Headers: Authorization: Bearer <token> (sessions:write)
+ *
+ * userId comes from the token; an admin key acts for any user via userId.
+ */
+
+import { isTimeRangePreset, TIME_RANGE_PRESETS } from '../../shared/score.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { readScoreHistory, snapshotScore } from '../_lib/score-history.js';
+import { getStore } from '../_lib/store.js';
+
+const DEFAULT_RANGE = '90d';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const range = req.query?.range ?? DEFAULT_RANGE;
+      if (!isTimeRangePreset(range)) {
+        return res.status(400).json({ success: false, error: `range must be one of: ${TIME_RANGE_PRESETS.join(', ')}` });
+      }
+
+      const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const history = await readScoreHistory(store, auth.userId, range, Date.now());
+      return res.status(200).json({ success: true, userId: auth.userId, range, count: history.length, history });
+    }
+
+    if (req.method === 'POST') {
+      const auth = await authenticate(req, 'sessions:write', req.body?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const { entry } = await snapshotScore(store, auth.userId, Date.now());
+      console.log(`[GAVL] Score snapshot | ${auth.userId} | ${entry.pes}${entry.event ? ` | ${entry.event}` : ''}`);
+      return res.status(200).json({ success: true, userId: auth.userId, entry });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[GAVL] Score history error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * GAVL PES Score API Endpoint
+ *
+ * Computes the Performance Equity Score from the user's stored sessions and
+ * workouts (see shared/score.ts). Nothing is cached: the score is a pure
+ * function of history, so the same history always yields the same score.
+ * Each read also records today's row in the score history.
+ *
+ * GET /api/score
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * userId comes from the token; an admin key reads any user via ?userId=.
+ */
+
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { snapshotScore } from '../_lib/score-history.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    const store = getStore();
+    const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
+
+    const { report } = await snapshotScore(store, userId, Date.now());
+    const { score, factors, basis } = report;
+
+    return res.status(200).json({
+      success: true,
+      userId,
+      score,
+      factors,
+      basis,
+      storage: store.backend,
+    });
+  } catch (error) {
+    console.error('[GAVL] Score error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
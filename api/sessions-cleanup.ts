@@ -5,80 +5,29 @@
  * Used for clearing test data.
  *
  * POST /api/sessions-cleanup
- * { "userId": "marc", "keepSessionIds": ["SC-XXX", "SC-YYY"] }
+ * Headers: Authorization: Bearer <token> (sessions:write)
+ * { "keepSessionIds": ["SC-XXX", "SC-YYY"] }
+ *
+ * Sessions held at the confirm or quarantine gate carry trust consequences,
+ * so only admin may delete them; a user request that would → 403.
  */
 
-// =============================================================================
-// TYPES
-// =============================================================================
-
-interface Anchor {
-  type: 'geofence' | 'nfc';
-  boost: number;
-  timestamp: number;
+import type { SessionCandidate } from '../shared/schema.js';
+import { recordAudit } from './_lib/audit.js';
+import { authenticate, hasScope } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { updateHistory } from './_lib/sessions.js';
+import { ConcurrencyError, getStore } from './_lib/store.js';
+
+interface CleanupOutcome {
+  history: SessionCandidate[];
+  removed: SessionCandidate[];
+  gated: string[];            // gated sessions a non-admin tried to delete
 }
 
-interface SessionCandidate {
-  id: string;
-  userId: string;
-  gymId: string;
-  gymName: string;
-  anchors: Anchor[];
-  scsBoost: number;
-  status: 'pending' | 'active' | 'finalized';
-  createdAt: number;
-  updatedAt: number;
-  expiresAt: number;
-  endedAt?: number;
-  duration?: number;
-}
-
-// =============================================================================
-// STORAGE LAYER
-// =============================================================================
-
-const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
-const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-function isUpstashConfigured(): boolean {
-  return !!(UPSTASH_URL && UPSTASH_TOKEN);
-}
-
-async function getHistory(userId: string): Promise<SessionCandidate[]> {
-  const historyKey = `history:${userId}`;
-  if (isUpstashConfigured()) {
-    try {
-      const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(historyKey)}`, {
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-      });
-      const data = await res.json();
-      if (data.result) {
-        return JSON.parse(data.result);
-      }
-    } catch (err) {
-      console.error('[Storage] Redis history GET error:', err);
-    }
-  }
-  return [];
-}
-
-async function setHistory(userId: string, sessions: SessionCandidate[]): Promise<boolean> {
-  const historyKey = `history:${userId}`;
-  if (isUpstashConfigured()) {
-    try {
-      const res = await fetch(`${UPSTASH_URL}/set/${encodeURIComponent(historyKey)}`, {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-        body: JSON.stringify(sessions),
-      });
-      const data = await res.json();
-      return data.result === 'OK';
-    } catch (err) {
-      console.error('[Storage] Redis history SET error:', err);
-      return false;
-    }
-  }
-  return false;
+// Anything past the auto gate moves trust (or may still, once it resolves)
+function isGated(session: SessionCandidate): boolean {
+  return session.gate !== undefined && session.gate.gate !== 'auto';
 }
 
 // =============================================================================
@@ -87,44 +36,60 @@ async function setHistory(userId: string, sessions: SessionCandidate[]): Promise
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export default async function handler(req: any, res: any) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
+  if (applyCors(req, res, 'POST, OPTIONS')) return;
 
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed. Use POST.' });
   }
 
   try {
-    const { userId, keepSessionIds } = req.body || {};
+    const store = getStore();
+    const { keepSessionIds } = req.body || {};
 
-    if (!userId || !Array.isArray(keepSessionIds)) {
+    const auth = await authenticate(req, 'sessions:write', req.body?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
+
+    if (!Array.isArray(keepSessionIds)) {
       return res.status(400).json({
         success: false,
-        error: 'Required: userId (string), keepSessionIds (array of session IDs to keep)',
+        error: 'Required: keepSessionIds (array of session IDs to keep)',
       });
     }
 
-    const history = await getHistory(userId);
-    const before = history.length;
+    const admin = hasScope(auth.principal, 'admin');
+    const { history, removed, gated } = await updateHistory<CleanupOutcome>(store, userId, history => {
+      const removed = history.filter(s => !keepSessionIds.includes(s.id));
+      const gated = admin ? [] : removed.filter(isGated).map(s => s.id);
+      if (gated.length > 0) return { result: { history, removed: [], gated } };
+      return { removed: removed.map(s => s.id), result: { history, removed, gated } };
+    });
 
-    const filtered = history.filter(s => keepSessionIds.includes(s.id));
-    const removed = before - filtered.length;
+    if (gated.length > 0) {
+      return res.status(403).json({
+        success: false,
+        error: `Only admin can delete gated sessions: ${gated.join(', ')}`,
+      });
+    }
 
-    const saved = await setHistory(userId, filtered);
+    if (removed.length > 0) {
+      await recordAudit(store, auth.principal, 'session.cleanup', removed
+        .map(s => ({ target: `session:${s.id}`, before: s, after: null })));
+    }
 
+    const kept = history.filter(s => keepSessionIds.includes(s.id));
     return res.status(200).json({
-      success: saved,
-      before,
-      after: filtered.length,
-      removed,
-      kept: filtered.map(s => ({ id: s.id, gym: s.gymName, duration: s.duration })),
+      success: true,
+      before: history.length,
+      after: kept.length,
+      removed: removed.length,
+      kept: kept.map(s => ({ id: s.id, gym: s.gymName, duration: s.duration })),
     });
   } catch (error) {
+    if (error instanceof ConcurrencyError) {
+      console.warn('[GAVL] Cleanup contention:', error.message);
+      return res.status(409).json({ success: false, error: 'History is being updated. Retry.' });
+    }
     console.error('[GAVL] Cleanup error:', error);
     return res.status(500).json({ success: false, error: 'Internal server error' });
   }
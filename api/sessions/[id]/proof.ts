@@ -0,0 +1,62 @@
+/**
+ * GAVL Session Custody Proof API Endpoint
+ *
+ * GET /api/sessions/:id/proof           → chain + inclusion proof for every event
+ * GET /api/sessions/:id/proof?event=3   → chain + the proof for event 3 only
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * The chain and root are the ones stored on the session (linked as events
+ * were appended, root sealed at finalize, see shared/custody.ts). The chain
+ * re-hashes from its own content, so a client can check every link and fold
+ * each proof up to `root` without trusting this response beyond the root it
+ * already has. Sessions stored before custody linking have no proof (404).
+ *
+ * userId comes from the token; an admin key reads any user via ?userId=.
+ */
+
+import { buildCustodyProof } from '../../../shared/custody.js';
+import { authenticate } from '../../_lib/auth.js';
+import { applyCors } from '../../_lib/cors.js';
+import { settleGates } from '../../_lib/gate.js';
+import { getStore } from '../../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    const store = getStore();
+    const sessionId = req.query?.id;
+
+    const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    const session = (await settleGates(store, auth.userId, Date.now())).find(s => s.id === sessionId);
+    if (!session) return res.status(404).json({ success: false, error: `Unknown session: ${sessionId}` });
+
+    const proof = await buildCustodyProof(session);
+    if (!proof) return res.status(404).json({ success: false, error: `No sealed custody chain for session: ${sessionId}` });
+
+    if (req.query?.event !== undefined) {
+      const index = Number(req.query.event);
+      const inclusion = proof.proofs[index];
+      if (!Number.isInteger(index) || !inclusion) {
+        return res.status(400).json({ success: false, error: `event must be an index from 0 to ${proof.chain.length - 1}` });
+      }
+      return res.status(200).json({ success: true, sessionId: session.id, ...proof, proofs: [inclusion] });
+    }
+
+    return res.status(200).json({ success: true, sessionId: session.id, ...proof });
+  } catch (error) {
+    console.error('[GAVL] Session proof error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * GAVL Sessions History API Endpoint
+ *
+ * Read-only endpoint to retrieve session history for a user.
+ * Used for demo screenshots and audit trail.
+ *
+ * GET /api/sessions
+ * GET /api/sessions?limit=10
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * Each session carries:
+ *   scs         Session Confidence Score breakdown (shared/scs.ts)
+ *   gate        gate decision, once finalized (shared/gate.ts)
+ *   appeal      the latest appeal filed on it (shared/appeal.ts)
+ *   wearable    overlapping workouts fused into HR zone, activity type and
+ *               calories (shared/wearable.ts)
+ *   chain       custody events as they were hash-linked on append, and the
+ *               merkleRoot sealed at finalize (shared/custody.ts); per-event
+ *               inclusion proofs are served by GET /api/sessions/:id/proof
+ *
+ * userId comes from the token; an admin key reads any user via ?userId=.
+ */
+
+import { toSessionResponse } from '../../shared/schema.js';
+import { computeScs } from '../../shared/scs.js';
+import { appealsBySession } from '../_lib/appeals.js';
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { settleGates } from '../_lib/gate.js';
+import { loadScsContext } from '../_lib/scs.js';
+import { getStore } from '../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      error: 'Method not allowed. Use GET.',
+    });
+  }
+
+  try {
+    const store = getStore();
+    const limit = parseInt(req.query?.limit as string) || 20;
+
+    const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
+
+    // Get history, with overdue confirmations expired to quarantine
+    const history = await settleGates(store, userId, Date.now());
+
+    // Sort by most recent first, apply limit
+    const sorted = history
+      .sort((a, b) => (b.endedAt || b.createdAt) - (a.endedAt || a.createdAt))
+      .slice(0, limit);
+
+    // Format for display, with the SCS breakdown and any appeal for each session
+    const [context, appeals] = await Promise.all([loadScsContext(store, userId), appealsBySession(store, userId)]);
+    const sessions = sorted.map(session => {
+      const appeal = appeals.get(session.id);
+      return {
+        ...toSessionResponse(session),
+        ...(appeal && { appeal }),
+        scs: computeScs(session, context),
+      };
+    });
+
+    return res.status(200).json({
+      success: true,
+      userId,
+      count: sessions.length,
+      sessions,
+      storage: store.backend,
+    });
+  } catch (error) {
+    console.error('[GAVL] Sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error',
+    });
+  }
+}
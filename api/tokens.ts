@@ -0,0 +1,89 @@
+/**
+ * GAVL API Token Management Endpoint
+ *
+ * Issues and revokes the bearer tokens every other endpoint authenticates
+ * with (see _lib/auth.ts). The plaintext token is returned ONCE, in the POST
+ * response - paste a `shortcut` token into the Apple Shortcut's
+ * Authorization header; `session` tokens are held by the web app and come
+ * from sign-in, so only the admin key may mint one here - otherwise any
+ * session, cookie included, could mint itself long-lived bearer copies.
+ *
+ * GET    /api/tokens                → caller's live tokens (metadata only)
+ * POST   /api/tokens                → { kind: 'shortcut' | 'session' (admin), label? }
+ * DELETE /api/tokens?id=tok_X       → revoke
+ * Headers: Authorization: Bearer <token> (tokens:manage)
+ *
+ * The admin key may pass userId (query or body) to act for any user - that is
+ * how a user's first token is minted.
+ */
+
+import { recordAudit } from './_lib/audit.js';
+import { authenticate, hasScope, issueToken, listTokens, revokeToken, TOKEN_KINDS, type TokenKind } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { getStore } from './_lib/store.js';
+
+const MAX_LABEL_LENGTH = 64;
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, DELETE, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+    const query = req.query || {};
+    const body = req.body || {};
+
+    const auth = await authenticate(req, 'tokens:manage', query.userId ?? body.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const { userId } = auth;
+
+    if (req.method === 'GET') {
+      const tokens = await listTokens(store, userId);
+      return res.status(200).json({ success: true, userId, count: tokens.length, tokens });
+    }
+
+    if (req.method === 'POST') {
+      const { kind, label } = body;
+      if (!Object.hasOwn(TOKEN_KINDS, kind)) {
+        return res.status(400).json({ success: false, error: `kind must be one of: ${Object.keys(TOKEN_KINDS).join(', ')}` });
+      }
+      if (kind !== 'shortcut' && !hasScope(auth.principal, 'admin')) {
+        return res.status(403).json({ success: false, error: 'Only shortcut tokens can be issued here; sign in for a session.' });
+      }
+      if (label !== undefined && (typeof label !== 'string' || label.length > MAX_LABEL_LENGTH)) {
+        return res.status(400).json({ success: false, error: `label must be a string of at most ${MAX_LABEL_LENGTH} characters` });
+      }
+
+      const { token, record } = await issueToken(store, userId, kind as TokenKind, label);
+      await recordAudit(store, auth.principal, 'token.issue', [{ target: `token:${record.id}`, before: null, after: record }]);
+      console.log(`[AUTH] Issued ${record.kind} token ${record.id} | user: ${userId}`);
+      return res.status(201).json({
+        success: true,
+        token,
+        record,
+        message: 'Store this token now. It will not be shown again.',
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      if (typeof query.id !== 'string') {
+        return res.status(400).json({ success: false, error: 'Missing query parameter: id' });
+      }
+      const revoked = await revokeToken(store, userId, query.id);
+      if (!revoked) return res.status(404).json({ success: false, error: `Unknown token: ${query.id}` });
+
+      await recordAudit(store, auth.principal, 'token.revoke', [{ target: `token:${revoked.id}`, before: revoked, after: null }]);
+      console.log(`[AUTH] Revoked token ${query.id} | user: ${userId}`);
+      return res.status(200).json({ success: true, revoked: query.id });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[AUTH] Token management error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * GAVL Trust Index (TRUDEX) API Endpoint
+ *
+ * GET  /api/trust                      → TrustProfile under the current rules
+ * GET  /api/trust?rulesVersion=1       → recomputed under an earlier rule set
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * POST /api/trust                      → record a signal from the device
+ *   { "kind": "attack", "attack": "shaker", "status": "detected" | "suspicious", "detail"?: "..." }
+ *   { "kind": "liveness", "detail"?: "..." }           (a failed liveness check)
+ * Headers: Authorization: Bearer <token> (anchors:write)
+ *
+ * Reported signals can only lower trust, so device tokens may send them.
+ * userId comes from the token; an admin key acts for any user via userId.
+ */
+
+import { ATTACK_TYPES, CURRENT_TRUST_RULES_VERSION, isAttackType, TRUST_RULES } from '../shared/trust.js';
+import { authenticate } from './_lib/auth.js';
+import { applyCors } from './_lib/cors.js';
+import { getStore } from './_lib/store.js';
+import { computeUserTrust, recordTrustSignal, type RecordedTrustSignal } from './_lib/trust.js';
+
+const MAX_DETAIL_LENGTH = 200;
+
+// =============================================================================
+// VALIDATION
+// =============================================================================
+
+function parseSignal(body: Record<string, unknown>, at: number): RecordedTrustSignal | string {
+  const { kind, attack, status, detail } = body;
+  if (detail !== undefined && (typeof detail !== 'string' || detail.length > MAX_DETAIL_LENGTH)) {
+    return `detail must be a string of at most ${MAX_DETAIL_LENGTH} characters`;
+  }
+
+  if (kind === 'attack') {
+    if (!isAttackType(attack)) return `attack must be one of: ${ATTACK_TYPES.join(', ')}`;
+    if (status !== 'detected' && status !== 'suspicious') return "status must be 'detected' or 'suspicious'";
+    return { kind, at, attack, status, ...(detail && { detail }) };
+  }
+  if (kind === 'liveness') {
+    return { kind, at, ...(detail && { detail }) };
+  }
+  return "kind must be 'attack' or 'liveness'";
+}
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, POST, OPTIONS')) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const version = req.query?.rulesVersion === undefined ? CURRENT_TRUST_RULES_VERSION : Number(req.query.rulesVersion);
+      if (!TRUST_RULES[version]) {
+        return res.status(400).json({ success: false, error: `Unknown rulesVersion. Known: ${Object.keys(TRUST_RULES).join(', ')}` });
+      }
+
+      const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const trust = await computeUserTrust(store, auth.userId, Date.now(), version);
+      return res.status(200).json({ success: true, userId: auth.userId, rulesVersion: version, trust });
+    }
+
+    if (req.method === 'POST') {
+      const auth = await authenticate(req, 'anchors:write', req.body?.userId);
+      if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+      const signal = parseSignal(req.body || {}, Date.now());
+      if (typeof signal === 'string') return res.status(400).json({ success: false, error: signal });
+
+      await recordTrustSignal(store, auth.userId, signal, auth.principal);
+      const trust = await computeUserTrust(store, auth.userId, Date.now());
+      return res.status(201).json({ success: true, userId: auth.userId, rulesVersion: CURRENT_TRUST_RULES_VERSION, trust });
+    }
+
+    return res.status(405).json({ success: false, error: 'Method not allowed.' });
+  } catch (error) {
+    console.error('[TRUST] Trust error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
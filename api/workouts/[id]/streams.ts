@@ -0,0 +1,70 @@
+/**
+ * GAVL Workout Streams API Endpoint
+ *
+ * GET /api/workouts/:id/streams                        → every stored channel, encoded
+ * GET /api/workouts/:id/streams?channels=heartRate,power → just those channels
+ * GET /api/workouts/:id/streams?format=decoded         → plain arrays (null = no sample)
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * Encoded channels are delta-encoded typed arrays (shared/streams.ts);
+ * decodeStreams turns them back into per-second values on the client.
+ *
+ * userId comes from the token; an admin key reads any user via ?userId=.
+ */
+
+import { decodeStreams, isStreamChannel, STREAM_CHANNELS, type StreamChannel, type WorkoutStreams } from '../../../shared/streams.js';
+import { authenticate } from '../../_lib/auth.js';
+import { applyCors } from '../../_lib/cors.js';
+import { getStore, keys } from '../../_lib/store.js';
+
+// =============================================================================
+// MAIN HANDLER
+// =============================================================================
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export default async function handler(req: any, res: any) {
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
+  }
+
+  try {
+    const store = getStore();
+    const workoutId = req.query?.id;
+
+    const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+
+    const format = req.query?.format ?? 'encoded';
+    if (format !== 'encoded' && format !== 'decoded') {
+      return res.status(400).json({ success: false, error: "format must be 'encoded' or 'decoded'" });
+    }
+
+    let only: StreamChannel[] | undefined;
+    if (typeof req.query?.channels === 'string') {
+      const requested: string[] = req.query.channels.split(',').map((c: string) => c.trim()).filter(Boolean);
+      const unknown = requested.filter(c => !isStreamChannel(c));
+      if (unknown.length > 0) {
+        return res.status(400).json({ success: false, error: `Unknown channel(s): ${unknown.join(', ')}. Use ${STREAM_CHANNELS.join(', ')}.` });
+      }
+      only = requested.filter(isStreamChannel);
+    }
+
+    const streams = await store.get<WorkoutStreams>(keys.workoutStreams(auth.userId, workoutId));
+    if (!streams) return res.status(404).json({ success: false, error: `No streams for workout: ${workoutId}` });
+
+    const { version, startTime, count } = streams;
+    if (format === 'decoded') {
+      return res.status(200).json({ success: true, workoutId, version, startTime, count, samples: decodeStreams(streams, only) });
+    }
+
+    const channels = only
+      ? Object.fromEntries(Object.entries(streams.channels).filter(([name]) => only.includes(name as StreamChannel)))
+      : streams.channels;
+    return res.status(200).json({ success: true, workoutId, version, startTime, count, channels });
+  } catch (error) {
+    console.error('[WORKOUT] Streams error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
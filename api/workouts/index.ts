@@ -4,11 +4,20 @@
  * Read-only endpoint to retrieve ingested workout history for a user.
  * Companion to /api/workout-ingest.
  *
- * GET /api/workouts?userId=marc
- * GET /api/workouts?userId=marc&limit=20
- * GET /api/workouts?userId=marc&activityType=running
+ * GET /api/workouts
+ * GET /api/workouts?limit=20
+ * GET /api/workouts?activityType=running
+ * Headers: Authorization: Bearer <token> (sessions:read)
+ *
+ * streamChannels lists the per-second channels a FIT upload kept; fetch them
+ * from GET /api/workouts/:id/streams. sources lists every upload or import
+ * merged into a workout (_lib/workout-dedupe.ts), in the order they arrived.
  */
 
+import { authenticate } from '../_lib/auth.js';
+import { applyCors } from '../_lib/cors.js';
+import { getList, getStore, keys } from '../_lib/store.js';
+
 // =============================================================================
 // TYPES
 // =============================================================================
@@ -36,76 +45,33 @@ interface WorkoutRecord {
   trainingEffect?: number;
   deviceManufacturer?: string;
   recordCount?: number;
+  streamChannels?: string[];
+  provenance?: { source: string; receivedAt: number }[];
   laps?: { lapNumber: number; startTime: number; duration: number; distance?: number; avgHeartRate?: number; maxHeartRate?: number; avgSpeed?: number; calories?: number }[];
   createdAt: number;
 }
 
-// =============================================================================
-// STORAGE LAYER (read-only, must match workout-ingest)
-// =============================================================================
-
-const UPSTASH_URL = process.env.UPSTASH_REDIS_REST_URL;
-const UPSTASH_TOKEN = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-const memoryStore: Map<string, unknown> = new Map();
-
-function isUpstashConfigured(): boolean {
-  return !!(UPSTASH_URL && UPSTASH_TOKEN);
-}
-
-async function getWorkoutHistory(userId: string): Promise<WorkoutRecord[]> {
-  const historyKey = `workouts:${userId}`;
-
-  if (isUpstashConfigured()) {
-    try {
-      const res = await fetch(`${UPSTASH_URL}/get/${encodeURIComponent(historyKey)}`, {
-        headers: { Authorization: `Bearer ${UPSTASH_TOKEN}` },
-      });
-      const data = await res.json();
-      if (data.result) {
-        return JSON.parse(data.result);
-      }
-    } catch (err) {
-      console.error('[Storage] Redis workout history GET error:', err);
-    }
-  } else {
-    const existing = memoryStore.get(historyKey);
-    if (existing) {
-      return existing as WorkoutRecord[];
-    }
-  }
-
-  return [];
-}
-
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export default async function handler(req: any, res: any) {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-  if (req.method === 'OPTIONS') return res.status(200).end();
+  if (applyCors(req, res, 'GET, OPTIONS')) return;
   if (req.method !== 'GET') {
     return res.status(405).json({ success: false, error: 'Method not allowed. Use GET.' });
   }
 
   try {
-    const userId = req.query?.userId as string;
+    const store = getStore();
     const limit = parseInt(req.query?.limit as string) || 20;
     const activityType = req.query?.activityType as string;
 
-    if (!userId) {
-      return res.status(400).json({
-        success: false,
-        error: 'Missing required query parameter: userId',
-      });
-    }
+    const auth = await authenticate(req, 'sessions:read', req.query?.userId);
+    if (!auth.ok) return res.status(auth.status).json({ success: false, error: auth.error });
+    const userId = auth.userId;
 
-    let history = await getWorkoutHistory(userId);
+    let history = await getList<WorkoutRecord>(store, keys.workouts(userId));
 
     // Filter by activity type if specified
     if (activityType) {
@@ -138,6 +104,7 @@ export default async function handler(req: any, res: any) {
     const workouts = sorted.map(w => ({
       workoutId: w.id,
       source: w.source,
+      sources: w.provenance?.map(p => p.source) ?? [w.source],
       activityType: w.activityType,
       subActivity: w.subActivity || null,
       startTime: new Date(w.startTime).toISOString(),
@@ -151,6 +118,7 @@ export default async function handler(req: any, res: any) {
       trainingEffect: w.trainingEffect || null,
       deviceManufacturer: w.deviceManufacturer || null,
       lapCount: w.laps?.length || 0,
+      streamChannels: w.streamChannels || null,
     }));
 
     return res.status(200).json({
@@ -166,7 +134,7 @@ export default async function handler(req: any, res: any) {
         activityBreakdown,
       },
       workouts,
-      storage: isUpstashConfigured() ? 'redis' : 'memory',
+      storage: store.backend,
     });
 
   } catch (error) {
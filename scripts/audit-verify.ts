@@ -0,0 +1,145 @@
+/**
+ * GAVL Audit Verifier
+ *
+ * Checks an exported audit log offline, with nothing but the files:
+ *
+ *   - every sealed root is signed (by --key when given) and linked to the
+ *     root of the day before it
+ *   - every day's entries are hash-linked and fold to that day's root
+ *   - every logged change to a record starts from the hash the previous
+ *     change to it left behind
+ *   - with --sessions, every stored session still hashes to the last
+ *     change logged for it, i.e. no session was altered after the fact
+ *
+ *   npm run audit:verify -- roots.json entries-*.json [--key <base64 SPKI>] [--sessions sessions.json]
+ *
+ * roots.json is the body of GET /api/audit/roots, each entries file the body
+ * of GET /api/audit/entries?day=, and sessions.json the raw session records
+ * (the stored history lists, as one JSON array). Pass every day's entries to
+ * check sessions: a session whose changes fall on a missing day can't be.
+ */
+
+import { readFileSync } from 'node:fs';
+import type { AuditDay, AuditEntry, AuditRoot } from '../shared/audit.js';
+import { GENESIS_HASH } from '../shared/custody.js';
+import type { SessionCandidate } from '../shared/schema.js';
+import { recordHash, verifyAuditChain, verifyAuditDay, verifyAuditRoot } from '../api/_lib/audit.js';
+
+let failures = 0;
+
+function check(name: string, problems: string[]): void {
+  if (problems.length > 0) failures++;
+  process.stdout.write(`${problems.length === 0 ? 'PASS' : 'FAIL'} ${name}${problems.length === 0 ? '' : ` (${problems.join('; ')})`}\n`);
+}
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function parseArgs(argv: string[]): { rootsPath: string; dayPaths: string[]; key?: string; sessionsPath?: string } {
+  const positional: string[] = [];
+  let key: string | undefined;
+  let sessionsPath: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--key') key = argv[++i];
+    else if (argv[i] === '--sessions') sessionsPath = argv[++i];
+    else positional.push(argv[i]);
+  }
+  if (positional.length === 0) {
+    process.stderr.write('Usage: npm run audit:verify -- roots.json entries-*.json [--key <base64 SPKI>] [--sessions sessions.json]\n');
+    process.exit(2);
+  }
+  return { rootsPath: positional[0], dayPaths: positional.slice(1), key, sessionsPath };
+}
+
+// =============================================================================
+// ROOTS
+// =============================================================================
+
+function checkRoots(roots: AuditRoot[], key: string | undefined): void {
+  if (!key) process.stdout.write('NOTE no --key given; roots are checked against the key embedded in each\n');
+
+  let prevRoot = GENESIS_HASH;
+  let prevDay = '';
+  for (const root of roots) {
+    const problems: string[] = [];
+    if (!verifyAuditRoot(root, key)) problems.push(key ? 'not signed by the given key' : 'bad signature');
+    if (root.prevRoot !== prevRoot) problems.push('not linked to the previous root');
+    if (root.day <= prevDay) problems.push(`out of order after ${prevDay}`);
+    check(`root ${root.day} (${root.count} entries, key ${root.keyId})`, problems);
+    prevRoot = root.root;
+    prevDay = root.day;
+  }
+}
+
+// =============================================================================
+// DAYS
+// =============================================================================
+
+async function checkDay(day: AuditDay, root: AuditRoot | undefined): Promise<void> {
+  if (!root) {
+    check(`day ${day.day} (${day.entries.length} entries, unsealed)`, verifyAuditChain(day.entries));
+    return;
+  }
+  const problems = await verifyAuditDay(day.entries, root);
+  if (day.sealed && day.sealed.signature !== root.signature) problems.push('served with a different root than the roots list');
+  check(`day ${day.day} (${day.entries.length} entries)`, problems);
+}
+
+// Last after-hash logged per record, checking each change picks up where the last one left off
+function checkContinuity(entries: AuditEntry[]): Map<string, string | null> {
+  const latest = new Map<string, string | null>();
+  const problems: string[] = [];
+  for (const entry of entries) {
+    for (const change of entry.changes) {
+      const last = latest.get(change.target);
+      if (last !== undefined && change.before !== last) {
+        problems.push(`${change.target} changed outside the log before ${entry.action} (${new Date(entry.at).toISOString()})`);
+      }
+      latest.set(change.target, change.after);
+    }
+  }
+  check(`record continuity (${latest.size} records)`, problems);
+  return latest;
+}
+
+function checkSessions(sessions: SessionCandidate[], latest: Map<string, string | null>): void {
+  const problems: string[] = [];
+  for (const session of sessions) {
+    const logged = latest.get(`session:${session.id}`);
+    if (logged === undefined) problems.push(`${session.id} is not in the log`);
+    else if (logged === null) problems.push(`${session.id} was removed in the log but is still stored`);
+    else if (recordHash(session) !== logged) problems.push(`${session.id} differs from its last logged state`);
+  }
+  check(`stored sessions (${sessions.length})`, problems);
+}
+
+// =============================================================================
+// MAIN
+// =============================================================================
+
+async function main(): Promise<void> {
+  const { rootsPath, dayPaths, key, sessionsPath } = parseArgs(process.argv.slice(2));
+
+  const rootsFile = readJson(rootsPath) as { roots?: AuditRoot[] } | AuditRoot[];
+  const roots = Array.isArray(rootsFile) ? rootsFile : rootsFile.roots ?? [];
+  checkRoots(roots, key);
+
+  const rootsByDay = new Map(roots.map(r => [r.day, r]));
+  const days = dayPaths.map(path => {
+    const body = readJson(path) as AuditDay & { root?: AuditRoot | null };
+    return { day: body.day, entries: body.entries ?? [], sealed: body.sealed ?? body.root ?? undefined };
+  }).sort((a, b) => (a.day < b.day ? -1 : a.day > b.day ? 1 : 0));
+
+  for (const day of days) await checkDay(day, rootsByDay.get(day.day));
+  const unchecked = roots.filter(r => !days.some(d => d.day === r.day)).length;
+  if (unchecked > 0) process.stdout.write(`NOTE ${unchecked} sealed day(s) without an entries file were not checked\n`);
+
+  const latest = checkContinuity(days.flatMap(d => d.entries));
+  if (sessionsPath) checkSessions(readJson(sessionsPath) as SessionCandidate[], latest);
+
+  process.stdout.write(failures === 0 ? 'Audit log verified.\n' : `${failures} check(s) failed.\n`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
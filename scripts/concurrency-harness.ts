@@ -0,0 +1,203 @@
+/**
+ * GAVL Concurrency Harness
+ *
+ * Fires interleaved anchor events at the real api/ handlers and checks the
+ * Guardian contract: anchors racing on the same visit window stack onto ONE
+ * SessionCandidate, no anchor is lost, and a session is finalized (and added
+ * to history) exactly once.
+ *
+ * The store is wrapped with random latency on every call so reads and writes
+ * from concurrent requests genuinely interleave.
+ *
+ *   npm run harness:concurrency
+ *   ROUNDS=200 npm run harness:concurrency
+ */
+
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import checkin from '../api/gym-checkin.js';
+import checkout from '../api/gym-checkout.js';
+import tap from '../api/gym-tap.js';
+import { updateFacility } from '../api/_lib/facilities.js';
+import { getSession, readHistory, updateSession } from '../api/_lib/sessions.js';
+import {
+  createFileStore,
+  createMemoryStore,
+  getStore,
+  setStore,
+  TTL,
+  type SessionStore,
+} from '../api/_lib/store.js';
+
+const ROUNDS = Number(process.env.ROUNDS) || 50;
+const GYM = 'golds-venice';
+const GYM_BSSID = { bssid: '02:00:5e:00:00:01', rssi: -55 };
+
+// Calls go through the admin key so scenarios can name their own userId
+process.env.GAVL_ADMIN_KEY ??= 'harness-admin-key';
+const AUTH_HEADERS = { authorization: `Bearer ${process.env.GAVL_ADMIN_KEY}` };
+
+// =============================================================================
+// HARNESS PLUMBING
+// =============================================================================
+
+interface Reply {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+type Handler = (req: unknown, res: unknown) => Promise<unknown>;
+
+async function call(handler: Handler, body: Record<string, unknown>): Promise<Reply> {
+  const reply: Reply = { status: 0, body: {} };
+  const res = {
+    setHeader() {},
+    status(code: number) { reply.status = code; return res; },
+    json(payload: Record<string, unknown>) { reply.body = payload; return res; },
+    end() { return res; },
+  };
+  await handler({ method: 'POST', headers: AUTH_HEADERS, body }, res);
+  return reply;
+}
+
+function jitter(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, Math.random() * 4));
+}
+
+// Random latency before every store call forces read/write interleaving
+function withLatency(inner: SessionStore): SessionStore {
+  return {
+    backend: inner.backend,
+    get: async key => { await jitter(); return inner.get(key); },
+    set: async (key, value, ttl) => { await jitter(); return inner.set(key, value, ttl); },
+    del: async key => { await jitter(); return inner.del(key); },
+    getVersioned: async key => { await jitter(); return inner.getVersioned(key); },
+    compareAndSet: async (key, etag, value, ttl) => { await jitter(); return inner.compareAndSet(key, etag, value, ttl); },
+  };
+}
+
+function anchorTypes(body: Record<string, unknown>): string[] {
+  return ((body.anchors as { type: string }[]) || []).map(a => a.type).sort();
+}
+
+function sessionIds(replies: Reply[]): Set<unknown> {
+  return new Set(replies.filter(r => r.status === 200).map(r => r.body.sessionId));
+}
+
+// =============================================================================
+// SCENARIOS (each returns a failure message, or null when the invariant holds)
+// =============================================================================
+
+interface Scenario {
+  name: string;
+  run(userId: string): Promise<string | null>;
+}
+
+const scenarios: Scenario[] = [
+  {
+    name: 'geofence + NFC check-in in the same instant',
+    async run(userId) {
+      const replies = await Promise.all([
+        call(checkin, { userId, gymId: GYM, anchorType: 'geofence' }),
+        call(checkin, { userId, gymId: GYM, anchorType: 'nfc' }),
+      ]);
+      const session = await getSession(getStore(), userId, GYM);
+      if (sessionIds(replies).size !== 1) return `expected 1 session id, got ${[...sessionIds(replies)].join(', ')}`;
+      const types = session?.anchors.map(a => a.type).sort().join('+');
+      return types === 'geofence+nfc' ? null : `stored anchors: ${types}`;
+    },
+  },
+  {
+    name: 'geofence Shortcut racing an NFC tag tap',
+    async run(userId) {
+      const replies = await Promise.all([
+        call(checkin, { userId, gymId: GYM, anchorType: 'geofence' }),
+        call(tap, { userId, gymId: GYM }),
+      ]);
+      const session = await getSession(getStore(), userId, GYM);
+      if (sessionIds(replies).size !== 1) return `expected 1 session id, got ${sessionIds(replies).size}`;
+      const types = session?.anchors.map(a => a.type).sort().join('+');
+      return types === 'geofence+nfc' ? null : `stored anchors: ${types}`;
+    },
+  },
+  {
+    name: 'burst of every entry anchor plus duplicates',
+    async run(userId) {
+      const replies = await Promise.all(
+        ['geofence', 'nfc', 'wifi_bssid', 'geofence', 'nfc'].map(anchorType =>
+          call(checkin, { userId, gymId: GYM, anchorType, bssids: [GYM_BSSID] }),
+        ),
+      );
+      const session = await getSession(getStore(), userId, GYM);
+      if (sessionIds(replies).size !== 1) return `expected 1 session id, got ${sessionIds(replies).size}`;
+      const types = session?.anchors.map(a => a.type).sort().join('+');
+      if (types !== 'geofence+nfc+wifi_bssid') return `stored anchors: ${types}`;
+      const last = replies.reduce((max, r) => Math.max(max, anchorTypes(r.body).length), 0);
+      return last === 3 ? null : `no response saw all 3 anchors (max ${last})`;
+    },
+  },
+  {
+    name: 'two geofence exits for one session',
+    async run(userId) {
+      await call(checkin, { userId, gymId: GYM, anchorType: 'nfc' });
+      // Check-ins can't be backdated past the clock skew window; age the session instead
+      await updateSession(getStore(), userId, GYM, session => {
+        if (session) session.createdAt -= 45 * 60 * 1000;
+        return { session: session ?? undefined, ttlSeconds: TTL.SESSION_OPEN, result: undefined };
+      });
+      const replies = await Promise.all([
+        call(checkout, { userId, gymId: GYM }),
+        call(checkout, { userId, gymId: GYM }),
+      ]);
+      const finalized = replies.filter(r => r.status === 200 && r.body.status === 'finalized');
+      if (finalized.length !== 1) return `expected 1 finalize, got ${finalized.length}`;
+      const history = await readHistory(getStore(), userId);
+      const exits = history[0]?.anchors.filter(a => a.type === 'geofence_exit').length;
+      if (history.length !== 1) return `history has ${history.length} entries`;
+      return exits === 1 ? null : `finalized session has ${exits} exit anchors`;
+    },
+  },
+];
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+async function runAgainst(label: string, store: SessionStore): Promise<number> {
+  await updateFacility(store, GYM, { wifiBssids: [GYM_BSSID.bssid] });
+  setStore(withLatency(store));
+  let failures = 0;
+
+  for (const [index, scenario] of scenarios.entries()) {
+    const errors: string[] = [];
+    for (let round = 0; round < ROUNDS; round++) {
+      const error = await scenario.run(`harness-${label}-${index}-${round}`);
+      if (error) errors.push(`round ${round}: ${error}`);
+    }
+    failures += errors.length;
+    const mark = errors.length === 0 ? 'PASS' : 'FAIL';
+    process.stdout.write(`[${label}] ${mark} ${scenario.name} (${ROUNDS - errors.length}/${ROUNDS})\n`);
+    errors.slice(0, 3).forEach(e => process.stdout.write(`        ${e}\n`));
+  }
+
+  setStore(null);
+  return failures;
+}
+
+async function main(): Promise<void> {
+  // Handlers log every transition; keep harness output readable
+  console.log = () => {};
+  console.warn = () => {};
+
+  const filePath = join(tmpdir(), `gavl-harness-${process.pid}.json`);
+  const failures =
+    await runAgainst('memory', createMemoryStore()) +
+    await runAgainst('file', createFileStore(filePath));
+  await rm(filePath, { force: true });
+
+  process.stdout.write(failures === 0 ? 'All invariants held.\n' : `${failures} invariant violation(s).\n`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,65 @@
+/**
+ * GAVL Apple Health Importer
+ *
+ * Imports the workouts in an iPhone Health export into a user's workout
+ * history, with their heart-rate samples and routes (api/_lib/apple-health.ts):
+ *
+ *   npm run import:apple-health -- export.zip --user <userId> [--since 2026-09-01] [--dry-run]
+ *
+ * A command rather than an endpoint: export.zip is routinely hundreds of MB,
+ * far past a function's request body limit. It writes to the store getStore()
+ * picks from the environment (Upstash credentials, or SESSION_STORE=file), so
+ * run it with the same settings as the deployment. --since defaults to the
+ * 30 days workout history is kept for; --dry-run reports without storing.
+ */
+
+import { importAppleHealth } from '../api/_lib/apple-health.js';
+import { getStore, TTL } from '../api/_lib/store.js';
+
+function parseArgs(argv: string[]): { zipPath: string; userId: string; since?: number; dryRun: boolean } {
+  const positional: string[] = [];
+  let userId: string | undefined;
+  let since: number | undefined;
+  let dryRun = false;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--user') userId = argv[++i];
+    else if (argv[i] === '--since') since = Date.parse(argv[++i] ?? '');
+    else if (argv[i] === '--dry-run') dryRun = true;
+    else positional.push(argv[i]);
+  }
+  if (positional.length !== 1 || !userId || (since !== undefined && Number.isNaN(since))) {
+    process.stderr.write('Usage: npm run import:apple-health -- export.zip --user <userId> [--since YYYY-MM-DD] [--dry-run]\n');
+    process.exit(2);
+  }
+  return { zipPath: positional[0], userId, since, dryRun };
+}
+
+async function main(): Promise<void> {
+  const { zipPath, userId, since, dryRun } = parseArgs(process.argv.slice(2));
+  const store = getStore();
+  if (store.backend === 'memory' && !dryRun) {
+    process.stdout.write('NOTE no store configured; nothing will outlive this run (set SESSION_STORE=file or Upstash credentials)\n');
+  }
+
+  const now = Date.now();
+  const summary = await importAppleHealth(store, userId, zipPath, {
+    since: since ?? now - TTL.WORKOUT_HISTORY * 1000,
+    now,
+    dryRun,
+  });
+
+  for (const w of summary.workouts) {
+    const when = Number.isFinite(w.startTime) ? new Date(w.startTime).toISOString().slice(0, 16).replace('T', ' ') : '????-??-?? ??:??';
+    const detail = [w.status === 'duplicate' ? `of ${w.workoutId}` : w.workoutId, w.reason].filter(Boolean).join('; ');
+    process.stdout.write(`${w.status.toUpperCase().padEnd(9)} ${when} ${w.activityType}${detail ? ` (${detail})` : ''}\n`);
+  }
+  process.stdout.write(
+    `${dryRun ? 'Would import' : 'Imported'} ${summary.imported} workout(s) with ${summary.heartRateSamples} HR sample(s); `
+    + `${summary.duplicates} duplicate(s), ${summary.skipped} skipped.\n`,
+  );
+}
+
+main().catch(error => {
+  process.stderr.write(`Import failed: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
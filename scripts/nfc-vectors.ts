@@ -0,0 +1,89 @@
+/**
+ * GAVL NFC Test Vectors
+ *
+ * Checks the reference AES-CMAC / SUN / HMAC implementation in api/_lib/nfc.ts
+ * against NFC_TEST_VECTORS (RFC 4493 and NXP AN12196 examples), then runs a
+ * provisioned tag through verifyNfcTap: first read accepted, replayed counter
+ * and forged MAC rejected.
+ *
+ *   npm run vectors:nfc
+ */
+
+import { createMemoryStore } from '../api/_lib/store.js';
+import { createFacility, getFacility } from '../api/_lib/facilities.js';
+import {
+  aesCmac,
+  hmacSignature,
+  NFC_TEST_VECTORS,
+  provisionTag,
+  sunMac,
+  sunSessionMacKey,
+  verifyNfcTap,
+} from '../api/_lib/nfc.js';
+
+let failures = 0;
+
+function check(name: string, actual: unknown, expected: unknown): void {
+  const pass = actual === expected;
+  if (!pass) failures++;
+  process.stdout.write(`${pass ? 'PASS' : 'FAIL'} ${name}${pass ? '' : ` (got ${actual}, want ${expected})`}\n`);
+}
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex').toUpperCase();
+}
+
+function bytes(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'hex'));
+}
+
+// =============================================================================
+// VECTORS
+// =============================================================================
+
+NFC_TEST_VECTORS.cmac.forEach((v, i) => {
+  check(`RFC 4493 example ${i + 1} (${v.message.length / 2} bytes)`, hex(aesCmac(bytes(v.key), bytes(v.message))), v.mac);
+});
+
+for (const v of NFC_TEST_VECTORS.sun) {
+  check(`AN12196 session MAC key (uid ${v.uid}, ctr ${v.counter})`, sunSessionMacKey(v.key, v.uid, v.counter), v.sessionMacKey);
+  check(`AN12196 SDMMAC (uid ${v.uid}, ctr ${v.counter})`, sunMac(v.key, v.uid, v.counter), v.mac);
+}
+
+for (const v of NFC_TEST_VECTORS.hmac) {
+  check(`HMAC-SHA256 tag signature (${v.tagId}:${v.counter})`, hmacSignature(v.key, v.tagId, v.counter), v.sig);
+}
+
+// =============================================================================
+// END-TO-END VERIFICATION
+// =============================================================================
+
+async function endToEnd(): Promise<void> {
+  const store = createMemoryStore();
+  await createFacility(store, { id: 'vector-gym', name: 'Vector Gym', coords: [0, 0] });
+  const uid = '04DE5F1EACC040';
+
+  const provisioned = await provisionTag(store, (await getFacility(store, 'vector-gym'))!, 'sun', uid);
+  if (!provisioned.ok) throw new Error('provisioning failed');
+  const facility = (await getFacility(store, 'vector-gym'))!;
+  const { key } = provisioned.tag;
+
+  const read = (counter: number, cmac = sunMac(key, uid, counter)) =>
+    verifyNfcTap(store, facility, { uid, ctr: counter.toString(16).padStart(6, '0'), cmac });
+
+  check('unsigned tap rejected once tags exist', (await verifyNfcTap(store, facility, {})).ok, false);
+  check('fresh SUN read accepted', (await read(7)).ok, true);
+  check('replayed counter rejected', (await read(7)).ok, false);
+  check('older counter rejected', (await read(5)).ok, false);
+  check('forged cmac rejected', (await read(8, '0000000000000000')).ok, false);
+  check('next counter accepted', (await read(8)).ok, true);
+}
+
+async function main(): Promise<void> {
+  console.log = () => {};
+  await endToEnd();
+  process.stdout.write(failures === 0 ? 'All vectors passed.\n' : `${failures} vector(s) failed.\n`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
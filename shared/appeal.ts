@@ -0,0 +1,92 @@
+/**
+ * QUARANTINE APPEALS
+ *
+ * A user may appeal a quarantined session once, with a written reason and up
+ * to MAX_APPEAL_ATTACHMENTS pieces of evidence (photos, receipts, wearable
+ * exports). Reviewers work an oldest-first queue; approving releases the
+ * session's PE at the confirm gate, denying forfeits it (see shared/gate.ts).
+ *
+ * Attachments travel base64-encoded and are stored with their SHA-256, which
+ * is what the session's chain of custody and the reviewer queue refer to.
+ */
+
+import { canTransition, type GateState } from './gate.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AppealStatus = 'open' | 'approved' | 'denied';
+
+export type AppealDecision = 'approve' | 'deny';
+
+export interface AppealAttachment {
+  name: string;
+  contentType: string;
+  size: number;               // decoded bytes
+  sha256: string;             // hex digest of the decoded bytes
+  data?: string;              // base64; omitted from list views
+}
+
+export interface Appeal {
+  id: string;
+  userId: string;
+  sessionId: string;
+  gymName: string;
+  sessionStartedAt: number;
+  reason: string;
+  attachments: AppealAttachment[];
+  status: AppealStatus;
+  filedAt: number;
+  decidedAt?: number;
+  reviewer?: string;
+  decisionNote?: string;
+}
+
+// What a user sees of their appeal on the session
+export type AppealSummary = Pick<Appeal, 'id' | 'status' | 'filedAt' | 'decidedAt' | 'decisionNote'>;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const MAX_APPEALS_PER_PERIOD = 3;
+export const APPEAL_PERIOD_DAYS = 30;
+
+export const MAX_APPEAL_ATTACHMENTS = 3;
+export const MAX_ATTACHMENT_BYTES = 256 * 1024;
+export const APPEAL_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/heic', 'application/pdf'];
+
+export const MIN_REASON_LENGTH = 10;
+export const MAX_REASON_LENGTH = 1000;
+export const MAX_DECISION_NOTE_LENGTH = 500;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function isAppealable(state: GateState | undefined): boolean {
+  return state !== undefined && canTransition(state, 'appeal');
+}
+
+export function isAppealDecision(value: unknown): value is AppealDecision {
+  return value === 'approve' || value === 'deny';
+}
+
+export function toAppealSummary(appeal: Appeal): AppealSummary {
+  return {
+    id: appeal.id,
+    status: appeal.status,
+    filedAt: appeal.filedAt,
+    ...(appeal.decidedAt !== undefined && { decidedAt: appeal.decidedAt }),
+    ...(appeal.decisionNote && { decisionNote: appeal.decisionNote }),
+  };
+}
+
+/** The appeal without attachment bodies, for queues and lists. */
+export function withoutAttachmentData(appeal: Appeal): Appeal {
+  return {
+    ...appeal,
+    attachments: appeal.attachments.map(a => ({ name: a.name, contentType: a.contentType, size: a.size, sha256: a.sha256 })),
+  };
+}
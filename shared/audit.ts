@@ -0,0 +1,77 @@
+/**
+ * AUDIT LOG
+ *
+ * Every state-changing API call appends one entry to the log of its UTC day:
+ * who made it, what it did, and the SHA-256 of each record it touched before
+ * and after the call. Entries are hash-linked within the day the same way a
+ * session's chain of custody is (shared/custody.ts):
+ *
+ *   hash₀ = SHA-256(GENESIS_HASH ‖ canonical(entry₀))
+ *   hashᵢ = SHA-256(hashᵢ₋₁      ‖ canonical(entryᵢ))
+ *
+ * Once a day is over it is sealed: a Merkle root over the day's entry hashes,
+ * linked to the previous sealed root and signed with the server's Ed25519 key
+ * (api/_lib/audit.ts). A sealed day never takes another entry.
+ *
+ * Because every change names its record's before-hash, a record edited
+ * outside the API shows up as a before-hash that doesn't match the last
+ * after-hash logged for it (scripts/audit-verify.ts).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+// One record touched by a call; null = the record didn't exist (before) or was removed (after)
+export interface AuditChange {
+  target: string;             // e.g. "session:SC-…", "appeal:AP-…", "token:ab12…"
+  before: string | null;      // SHA-256 of the canonical record
+  after: string | null;
+}
+
+export interface AuditEntry {
+  seq: number;                // position in the day's log
+  at: number;
+  actor: string;              // userId, "admin" or "system"
+  tokenId?: string;           // token the call was made with, when there was one
+  action: string;             // e.g. "session.checkout", "appeal.decide"
+  changes: AuditChange[];
+  prevHash: string;
+  hash: string;
+}
+
+// A sealed day; the signature covers everything but publicKey and itself
+export interface AuditRoot {
+  day: string;                // UTC, YYYY-MM-DD
+  count: number;              // entries under the root
+  root: string;               // Merkle root over the entry hashes
+  prevRoot: string;           // previous sealed day's root (GENESIS_HASH for the first)
+  sealedAt: number;
+  keyId: string;              // first 16 hex of SHA-256(publicKey DER)
+  publicKey: string;          // base64 SPKI DER of the signing key
+  signature: string;          // base64 Ed25519
+}
+
+export interface AuditDay {
+  day: string;
+  entries: AuditEntry[];
+  sealed?: AuditRoot;
+}
+
+// ============================================
+// DAYS
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function auditDayOf(t: number): string {
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+export function nextAuditDay(day: string): string {
+  return auditDayOf(Date.parse(`${day}T00:00:00Z`) + DAY_MS);
+}
+
+export function isAuditDay(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && auditDayOf(Date.parse(`${value}T00:00:00Z`) || 0) === value;
+}
@@ -0,0 +1,287 @@
+/**
+ * CHAIN OF CUSTODY
+ *
+ * Every custody event of a session - each anchor, the workout match, the gate
+ * decision and every later transition (confirmation, appeal) - is hashed with
+ * SHA-256 and linked to the one before it:
+ *
+ *   hash₀ = SHA-256(GENESIS_HASH ‖ canonical(event₀))
+ *   hashᵢ = SHA-256(hashᵢ₋₁      ‖ canonical(eventᵢ))
+ *
+ * The session's Merkle root is built over those link hashes (node =
+ * SHA-256("node:" ‖ left ‖ right), an odd node is promoted unchanged), so
+ * any single event can be proven against the root without the others.
+ *
+ * Events are linked as they are appended (extendCustodyChain, run by every
+ * session write in api/_lib/sessions.ts): stored links are never re-hashed
+ * from the session's current content, and the root is sealed on the session
+ * once it is finalized. Web Crypto, so the same code verifies proofs in the
+ * browser.
+ */
+
+import type { Anchor, AnchorEvidence, AnchorKind, SessionCandidate } from './schema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface CustodyLink {
+  index: number;
+  at: number;
+  event: string;
+  type: string;
+  anchor?: Anchor;            // raw anchor (with evidence) for anchor events
+  prevHash: string;
+  hash: string;
+}
+
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right'; // where the sibling sits relative to the running hash
+}
+
+export interface MerkleProof {
+  index: number;
+  leaf: string;
+  siblings: MerkleStep[];
+}
+
+export interface CustodyProof {
+  algorithm: 'sha256';
+  root: string;
+  chain: CustodyLink[];
+  proofs: MerkleProof[];
+}
+
+export type ProofVerification =
+  | { ok: true; verified: number }
+  | { ok: false; error: string };
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// ============================================
+// EVENTS
+// ============================================
+
+export function anchorEventName(type: AnchorKind): string {
+  switch (type) {
+    case 'geofence': return 'Geofence anchor (arrive)';
+    case 'nfc': return 'NFC anchor (tap verified)';
+    case 'nfc_exit': return 'NFC anchor (exit tap verified)';
+    case 'geofence_exit': return 'Geofence anchor (exit)';
+    case 'wifi_bssid': return 'Wi-Fi BSSID anchor';
+    case 'ble': return 'BLE beacon anchor';
+  }
+}
+
+// Server-side evidence (e.g. geofence distance) shown alongside the anchor
+export function anchorEvidenceNote(anchor: { evidence?: AnchorEvidence }): string | undefined {
+  const evidence = anchor.evidence;
+  if (!evidence) return undefined;
+  if (evidence.tagId) return `tag ${evidence.tagId} #${evidence.counter}, ${evidence.verdict}`;
+  const source = evidence.bssid ?? evidence.beacon;
+  if (source) {
+    const rssi = evidence.rssi !== undefined ? ` ${evidence.rssi} dBm` : '';
+    return `${source}${rssi}, ${Math.round((evidence.confidence ?? 0) * 100)}% match`;
+  }
+  if (evidence.distanceM === undefined) return evidence.verdict;
+  const accuracy = evidence.accuracyM !== undefined ? ` ±${evidence.accuracyM}m` : '';
+  return `${evidence.distanceM}m${accuracy} from gym, ${evidence.verdict}`;
+}
+
+function anchorLinkType(type: AnchorKind): string {
+  switch (type) {
+    case 'nfc':
+    case 'nfc_exit': return 'nfc_anchor';
+    case 'ble': return 'ble_anchor';
+    case 'wifi_bssid': return 'wifi_anchor';
+    case 'geofence': return 'geo_anchor';
+    case 'geofence_exit': return 'geofence_exit';
+  }
+}
+
+type CustodyEvent = Omit<CustodyLink, 'index' | 'prevHash' | 'hash'>;
+
+/** Anchors and stored custody records, oldest first (anchors first on ties). */
+export function custodyEvents(session: SessionCandidate): CustodyEvent[] {
+  const anchors = session.anchors.map((anchor): CustodyEvent => {
+    const note = anchorEvidenceNote(anchor);
+    const name = anchorEventName(anchor.type);
+    return { at: anchor.timestamp, event: note ? `${name} · ${note}` : name, type: anchorLinkType(anchor.type), anchor };
+  });
+  const records = (session.custody ?? []).map(({ at, event, type }): CustodyEvent => ({ at, event, type }));
+  // Array.prototype.sort is stable, so same-time events keep their recorded order
+  return [...anchors, ...records].sort((a, b) => a.at - b.at);
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+// JSON with sorted keys and no undefined members, so every side hashes the same bytes
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function linkHash(prevHash: string, event: CustodyEvent): Promise<string> {
+  return sha256Hex(prevHash + canonicalJson({ at: event.at, event: event.event, type: event.type, anchor: event.anchor }));
+}
+
+/** Links for `events`, continuing after `previous` (the start of the chain when omitted). */
+export async function linkCustody(events: CustodyEvent[], previous?: CustodyLink): Promise<CustodyLink[]> {
+  const chain: CustodyLink[] = [];
+  let prevHash = previous?.hash ?? GENESIS_HASH;
+  const start = previous ? previous.index + 1 : 0;
+  for (const [offset, event] of events.entries()) {
+    const hash = await linkHash(prevHash, event);
+    chain.push({ index: start + offset, ...event, prevHash, hash });
+    prevHash = hash;
+  }
+  return chain;
+}
+
+// ============================================
+// MERKLE TREE
+// ============================================
+
+function nodeHash(left: string, right: string): Promise<string> {
+  return sha256Hex(`node:${left}${right}`);
+}
+
+// Every level of the tree, leaves first
+async function merkleLevels(leaves: string[]): Promise<string[][]> {
+  const levels = [leaves];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await nodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+  return levels;
+}
+
+/** Merkle root over the leaves; GENESIS_HASH for none. */
+export async function merkleRoot(leaves: string[]): Promise<string> {
+  if (leaves.length === 0) return GENESIS_HASH;
+  const levels = await merkleLevels(leaves);
+  return levels[levels.length - 1][0];
+}
+
+/** Root plus an inclusion proof for every leaf. */
+export async function merkleProofs(leaves: string[]): Promise<{ root: string; proofs: MerkleProof[] }> {
+  if (leaves.length === 0) return { root: GENESIS_HASH, proofs: [] };
+  const levels = await merkleLevels(leaves);
+  const proofs = leaves.map((leaf, index): MerkleProof => {
+    const siblings: MerkleStep[] = [];
+    let i = index;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = i % 2 === 0 ? i + 1 : i - 1;
+      if (sibling < level.length) siblings.push({ hash: level[sibling], position: i % 2 === 0 ? 'right' : 'left' });
+      i = Math.floor(i / 2);
+    }
+    return { index, leaf, siblings };
+  });
+  return { root: levels[levels.length - 1][0], proofs };
+}
+
+export async function verifyMerkleProof(proof: MerkleProof, root: string): Promise<boolean> {
+  let hash = proof.leaf;
+  for (const step of proof.siblings) {
+    hash = step.position === 'right' ? await nodeHash(hash, step.hash) : await nodeHash(step.hash, hash);
+  }
+  return hash === root;
+}
+
+// ============================================
+// SESSION PROOFS
+// ============================================
+
+// Anchors are matched by identity, not position: a stronger anchor replaces
+// a weaker one of its type in place of being appended (api/gym-checkin.ts)
+function anchorIdentity(anchor: Anchor): string {
+  return `${anchor.type}@${anchor.timestamp}:${anchor.boost}`;
+}
+
+/**
+ * Link the session's anchors and custody records that aren't in its chain yet
+ * onto the end of it. Links already stored are kept as they are (a replaced
+ * anchor stays linked next to its replacement); a finalized session gets its
+ * Merkle root (re)sealed over the whole chain. Returns the session itself
+ * when there is nothing to do.
+ */
+export async function extendCustodyChain(session: SessionCandidate): Promise<SessionCandidate> {
+  const chain = session.chain ?? [];
+  const linked = new Set(chain.flatMap(l => (l.anchor ? [anchorIdentity(l.anchor)] : [])));
+  const linkedRecords = chain.filter(l => !l.anchor).length;
+  const events = custodyEvents({
+    ...session,
+    anchors: session.anchors.filter(a => !linked.has(anchorIdentity(a))),
+    custody: (session.custody ?? []).slice(linkedRecords),
+  });
+
+  const finalized = session.status === 'finalized';
+  if (events.length === 0 && (!finalized || session.merkleRoot !== undefined)) return session;
+
+  const extended = [...chain, ...await linkCustody(events, chain[chain.length - 1])];
+  return {
+    ...session,
+    chain: extended,
+    ...(finalized && { merkleRoot: await merkleRoot(extended.map(l => l.hash)) }),
+  };
+}
+
+/**
+ * Inclusion proofs for the session's stored chain against its sealed root;
+ * null for a session without one (still open, or stored before linking).
+ */
+export async function buildCustodyProof(session: SessionCandidate): Promise<CustodyProof | null> {
+  if (!session.chain || session.merkleRoot === undefined) return null;
+  const { proofs } = await merkleProofs(session.chain.map(l => l.hash));
+  return { algorithm: 'sha256', root: session.merkleRoot, chain: session.chain, proofs };
+}
+
+/**
+ * Check a proof end to end: every link re-hashes from its content and the
+ * previous hash, every inclusion proof starts at its link and folds to the
+ * root, and (when given) the root is the one shown for the session.
+ * `verified` counts the events proven against the root.
+ */
+export async function verifyCustodyProof(proof: CustodyProof, expectedRoot?: string): Promise<ProofVerification> {
+  if (expectedRoot !== undefined && proof.root !== expectedRoot) {
+    return { ok: false, error: 'Root does not match the session' };
+  }
+
+  let prevHash = GENESIS_HASH;
+  for (const link of proof.chain) {
+    if (link.prevHash !== prevHash) return { ok: false, error: `Event ${link.index} is not linked to event ${link.index - 1}` };
+    if (await linkHash(prevHash, link) !== link.hash) return { ok: false, error: `Event ${link.index} hash mismatch` };
+    prevHash = link.hash;
+  }
+
+  if (proof.chain.length > 0 && proof.proofs.length === 0) return { ok: false, error: 'No inclusion proofs' };
+  for (const inclusion of proof.proofs) {
+    if (inclusion.leaf !== proof.chain[inclusion.index]?.hash) return { ok: false, error: `Proof ${inclusion.index} is not for event ${inclusion.index}` };
+    if (!await verifyMerkleProof(inclusion, proof.root)) return { ok: false, error: `Proof ${inclusion.index} does not reach the root` };
+  }
+
+  if (proof.chain.length === 0 && proof.root !== GENESIS_HASH) return { ok: false, error: 'Empty chain with a non-empty root' };
+  return { ok: true, verified: proof.proofs.length };
+}
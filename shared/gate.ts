@@ -0,0 +1,161 @@
+/**
+ * GATE DECISIONS
+ *
+ * What happens to a finalized session once its SCS is known:
+ *
+ *   auto        SCS ≥ 0.80  → verified
+ *   confirm     SCS ≥ 0.50  → pending_confirmation ──accept──→ confirmed
+ *                                                  ──reject──→ rejected
+ *                                                  ──expire──→ expired
+ *   quarantine  SCS < 0.50  → quarantined
+ *
+ *   quarantined | rejected | expired ──appeal──→ under_appeal ──approve──→ released
+ *                                                               ──deny──→ forfeited
+ *
+ * A pending confirmation asks the user "Were you at <gym> <time>?". Rejected
+ * and expired sessions fall to the quarantine gate. A quarantined session can
+ * be appealed once (shared/appeal.ts); approval releases its PE at the confirm
+ * gate, denial forfeits it for good. Every decision and transition is
+ * appended to the session's chain of custody.
+ */
+
+import type { SessionCandidate } from './schema.js';
+import { sessionGate, type GateType } from './score.js';
+import type { ScsBreakdown } from './scs.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const GATE_STATES = [
+  'verified', 'pending_confirmation', 'confirmed', 'rejected', 'expired', 'quarantined',
+  'under_appeal', 'released', 'forfeited',
+] as const;
+
+export type GateState = typeof GATE_STATES[number];
+
+export type GateAction = 'accept' | 'reject' | 'expire' | 'appeal' | 'approve' | 'deny';
+
+export interface GateDecision {
+  state: GateState;
+  gate: GateType;             // effective gate: what PE and trust are scored on
+  scs: number;                // SCS the decision was made on
+  decidedAt: number;
+  confirmBy?: number;         // pending_confirmation: expires to quarantine after this
+  resolvedAt?: number;        // last transition after the initial decision
+}
+
+// One line of a session's server-side chain of custody
+export interface CustodyRecord {
+  at: number;
+  event: string;
+  type: string;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const CONFIRMATION_WINDOW_MS = 72 * 60 * 60 * 1000;
+
+const TRANSITIONS: Partial<Record<GateState, Partial<Record<GateAction, GateState>>>> = {
+  pending_confirmation: { accept: 'confirmed', reject: 'rejected', expire: 'expired' },
+  quarantined: { appeal: 'under_appeal' },
+  rejected: { appeal: 'under_appeal' },
+  expired: { appeal: 'under_appeal' },
+  under_appeal: { approve: 'released', deny: 'forfeited' },
+};
+
+const STATE_GATES: Record<GateState, GateType> = {
+  verified: 'auto',
+  pending_confirmation: 'confirm',
+  confirmed: 'confirm',
+  rejected: 'quarantine',
+  expired: 'quarantine',
+  quarantined: 'quarantine',
+  under_appeal: 'quarantine',
+  released: 'confirm',
+  forfeited: 'quarantine',
+};
+
+const TRANSITION_EVENTS: Record<GateAction, string> = {
+  accept: 'Confirmed by user',
+  reject: 'Rejected by user',
+  expire: 'Confirmation expired',
+  appeal: 'Appeal filed',
+  approve: 'Appeal approved · PE released',
+  deny: 'Appeal denied · PE forfeited',
+};
+
+// ============================================
+// STATE MACHINE
+// ============================================
+
+export function isGateState(value: unknown): value is GateState {
+  return typeof value === 'string' && (GATE_STATES as readonly string[]).includes(value);
+}
+
+export function canTransition(state: GateState, action: GateAction): boolean {
+  return TRANSITIONS[state]?.[action] !== undefined;
+}
+
+/**
+ * Gate a finalized session on its SCS, recording the workout match (if any)
+ * and the decision in its custody chain.
+ */
+export function decideGate(session: SessionCandidate, breakdown: ScsBreakdown, at: number): SessionCandidate {
+  const scs = breakdown.value;
+  const gate = sessionGate(scs);
+  const decision: GateDecision = gate === 'auto'
+    ? { state: 'verified', gate, scs, decidedAt: at }
+    : gate === 'confirm'
+      ? { state: 'pending_confirmation', gate, scs, decidedAt: at, confirmBy: at + CONFIRMATION_WINDOW_MS }
+      : { state: 'quarantined', gate, scs, decidedAt: at };
+
+  const custody: CustodyRecord[] = [];
+  const workout = breakdown.components.find(c => c.id === 'workout');
+  if (workout && workout.value > 0) {
+    custody.push({ at, event: `Workout matched · ${workout.detail}`, type: 'workout_match' });
+  }
+  custody.push({ at, event: `Gate determined · SCS ${scs.toFixed(2)}`, type: gate.toUpperCase() });
+  if (decision.state === 'pending_confirmation') {
+    custody.push({ at, event: 'Confirmation requested', type: 'pending_confirmation' });
+  }
+
+  return { ...session, gate: decision, custody: [...(session.custody ?? []), ...custody] };
+}
+
+/**
+ * Apply `action` to a session's gate. Returns null when the session has no
+ * gate decision or the transition isn't allowed from its current state.
+ * `detail` is appended to the custody event (e.g. the appeal id).
+ */
+export function transitionGate(
+  session: SessionCandidate,
+  action: GateAction,
+  at: number,
+  detail?: string,
+): SessionCandidate | null {
+  const decision = session.gate;
+  const state = decision && TRANSITIONS[decision.state]?.[action];
+  if (!decision || !state) return null;
+
+  const gate = STATE_GATES[state];
+  return {
+    ...session,
+    gate: { state, gate, scs: decision.scs, decidedAt: decision.decidedAt, resolvedAt: at },
+    custody: [
+      ...(session.custody ?? []),
+      { at, event: detail ? `${TRANSITION_EVENTS[action]} · ${detail}` : TRANSITION_EVENTS[action], type: gate.toUpperCase() },
+    ],
+  };
+}
+
+/** Expire a pending confirmation whose window has closed; null when nothing changes. */
+export function expireGate(session: SessionCandidate, now: number): SessionCandidate | null {
+  const decision = session.gate;
+  if (decision?.state !== 'pending_confirmation' || decision.confirmBy === undefined || now < decision.confirmBy) {
+    return null;
+  }
+  return transitionGate(session, 'expire', decision.confirmBy);
+}
@@ -0,0 +1,358 @@
+/**
+ * GAVL SESSION SCHEMA
+ *
+ * Canonical SessionCandidate / Anchor types shared by every api/ handler and
+ * the frontend data service. Stored records carry `schemaVersion`; anything
+ * older is upgraded through migrateSessionCandidate() on read.
+ *
+ * Version history:
+ *   1 - anchors stored as string[] (no boost/timestamp), no schemaVersion field
+ *   2 - anchors stored as { type, boost, timestamp } objects
+ *       (+ optional `evidence`; absent means nothing was verified, so no bump)
+ *       (+ optional `gate` / `custody`, set once a finalized session is gated)
+ *       (+ optional `wearable`, once overlapping workouts are linked)
+ *       (+ optional `chain` / `merkleRoot`, custody events hash-linked as
+ *        they are appended, root sealed once finalized)
+ */
+
+import type { AppealSummary } from './appeal.js';
+import type { CustodyLink } from './custody.js';
+import { isGateState, type CustodyRecord, type GateDecision } from './gate.js';
+import type { ScsBreakdown } from './scs.js';
+import { isWearableLink, type WearableLink } from './wearable.js';
+
+export const SCHEMA_VERSION = 2;
+
+// ============================================
+// ANCHORS
+// ============================================
+
+export const ANCHOR_TYPES = ['geofence', 'nfc', 'wifi_bssid', 'ble', 'nfc_exit', 'geofence_exit'] as const;
+
+export type AnchorKind = typeof ANCHOR_TYPES[number];
+
+// Anchors that can open or upgrade a session (exit anchors only close one)
+export const ENTRY_ANCHOR_TYPES = ['geofence', 'nfc', 'wifi_bssid', 'ble'] as const;
+
+export type EntryAnchorKind = typeof ENTRY_ANCHOR_TYPES[number];
+
+// SCS boost per anchor type (GAVL Signal Ladder)
+export const ANCHOR_BOOSTS: Record<AnchorKind, number> = {
+  geofence: 0.15,       // Open anchor - medium trust
+  nfc: 0.25,            // Closed anchor - high trust
+  wifi_bssid: 0.10,     // Open anchor - environmental signal, auto-connect
+  ble: 0.20,            // Closed anchor - facility beacon in range
+  nfc_exit: 0.15,       // Closed exit anchor
+  geofence_exit: 0.10,  // Open exit anchor
+};
+
+export const MAX_SCS_BOOST = 0.65; // Cap for stacked anchors (full chain max)
+
+export type EvidenceVerdict = 'verified' | 'degraded' | 'unverified';
+
+// What the server checked before awarding the boost (chain of custody)
+export interface AnchorEvidence {
+  verdict: EvidenceVerdict;
+  distanceM?: number;         // device → facility coords (geofence)
+  accuracyM?: number;         // reported horizontal accuracy of the fix
+  radiusM?: number;           // facility geofence radius at check time
+  tagId?: string;             // signed NFC tag that was read
+  counter?: number;           // tag read counter accepted for this anchor
+  bssid?: string;             // strongest registered access point observed
+  rssi?: number;              // dBm of that access point / beacon
+  confidence?: number;        // 0-1 match confidence (Wi-Fi, BLE)
+  matchedCount?: number;      // registered access points / beacons observed
+  beacon?: string;            // strongest registered beacon, uuid[:major:minor | :instance]
+}
+
+export interface Anchor {
+  type: AnchorKind;
+  boost: number;
+  timestamp: number;          // epoch ms
+  evidence?: AnchorEvidence;
+}
+
+// ============================================
+// SESSION CANDIDATE
+// ============================================
+
+export type CandidateStatus = 'pending' | 'active' | 'finalized';
+
+export interface SessionCandidate {
+  schemaVersion: number;
+  id: string;
+  userId: string;
+  gymId: string;
+  gymName: string;
+  anchors: Anchor[];
+  scsBoost: number;           // Aggregated, capped at MAX_SCS_BOOST
+  status: CandidateStatus;
+  createdAt: number;
+  updatedAt: number;
+  expiresAt: number;
+  endedAt?: number;
+  duration?: number;          // minutes
+  gate?: GateDecision;        // see shared/gate.ts
+  custody?: CustodyRecord[];  // gate decisions and transitions, oldest first
+  wearable?: WearableLink;    // overlapping workouts, see shared/wearable.ts
+  chain?: CustodyLink[];      // anchors and custody records, linked as appended
+  merkleRoot?: string;        // over `chain`, sealed once finalized (shared/custody.ts)
+}
+
+// ============================================
+// API RESPONSE (GET /api/sessions)
+// ============================================
+
+export interface SessionResponseAnchor {
+  type: AnchorKind;
+  boost: number;
+  timestamp: string;          // ISO
+  evidence?: AnchorEvidence;
+}
+
+export interface SessionResponse {
+  schemaVersion: number;
+  sessionId: string;
+  gym: { id: string; name: string };
+  anchors: SessionResponseAnchor[];
+  scsBoost: number;
+  status: CandidateStatus;
+  startedAt: string;
+  endedAt: string | null;
+  duration: number | null;
+  gate?: GateDecision;
+  custody?: CustodyRecord[];
+  wearable?: WearableLink;
+  appeal?: AppealSummary;     // latest appeal on this session, if any
+  scs?: ScsBreakdown;         // computed per request, never stored
+  chain?: CustodyLink[];      // hash-linked custody events, as stored
+  merkleRoot?: string;        // over `chain`, sealed at finalize
+}
+
+export function toSessionResponse(session: SessionCandidate): SessionResponse {
+  return {
+    schemaVersion: session.schemaVersion,
+    sessionId: session.id,
+    gym: {
+      id: session.gymId,
+      name: session.gymName,
+    },
+    anchors: session.anchors.map(a => ({
+      type: a.type,
+      boost: a.boost,
+      timestamp: new Date(a.timestamp).toISOString(),
+      ...(a.evidence && { evidence: a.evidence }),
+    })),
+    scsBoost: session.scsBoost,
+    status: session.status,
+    startedAt: new Date(session.createdAt).toISOString(),
+    endedAt: session.endedAt ? new Date(session.endedAt).toISOString() : null,
+    duration: session.duration || null,
+    ...(session.gate && { gate: session.gate }),
+    ...(session.custody && { custody: session.custody }),
+    ...(session.wearable && { wearable: session.wearable }),
+    ...(session.chain && { chain: session.chain }),
+    ...(session.merkleRoot && { merkleRoot: session.merkleRoot }),
+  };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function calculateStackedBoost(anchors: Anchor[]): number {
+  const total = anchors.reduce((sum, a) => sum + a.boost, 0);
+  return Math.min(Math.round(total * 100) / 100, MAX_SCS_BOOST);
+}
+
+export function hasAnchorType(session: SessionCandidate, type: AnchorKind): boolean {
+  return session.anchors.some(a => a.type === type);
+}
+
+// ============================================
+// RUNTIME VALIDATORS
+// ============================================
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const CANDIDATE_STATUSES: readonly string[] = ['pending', 'active', 'finalized'];
+const EVIDENCE_VERDICTS: readonly string[] = ['verified', 'degraded', 'unverified'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isAnchorKind(value: unknown): value is AnchorKind {
+  return typeof value === 'string' && (ANCHOR_TYPES as readonly string[]).includes(value);
+}
+
+export function isEntryAnchorKind(value: unknown): value is EntryAnchorKind {
+  return typeof value === 'string' && (ENTRY_ANCHOR_TYPES as readonly string[]).includes(value);
+}
+
+export function isAnchorEvidence(value: unknown): value is AnchorEvidence {
+  return isRecord(value)
+    && EVIDENCE_VERDICTS.includes(value.verdict as string)
+    && ['distanceM', 'accuracyM', 'radiusM', 'counter', 'rssi', 'confidence', 'matchedCount']
+      .every(f => value[f] === undefined || isFiniteNumber(value[f]))
+    && ['tagId', 'bssid', 'beacon'].every(f => value[f] === undefined || typeof value[f] === 'string');
+}
+
+export function isAnchor(value: unknown): value is Anchor {
+  return isRecord(value)
+    && isAnchorKind(value.type)
+    && isFiniteNumber(value.boost)
+    && isFiniteNumber(value.timestamp)
+    && (value.evidence === undefined || isAnchorEvidence(value.evidence));
+}
+
+export function isGateDecision(value: unknown): value is GateDecision {
+  return isRecord(value)
+    && isGateState(value.state)
+    && ['auto', 'confirm', 'quarantine'].includes(value.gate as string)
+    && isFiniteNumber(value.scs)
+    && isFiniteNumber(value.decidedAt)
+    && ['confirmBy', 'resolvedAt'].every(f => value[f] === undefined || isFiniteNumber(value[f]));
+}
+
+export function isCustodyRecord(value: unknown): value is CustodyRecord {
+  return isRecord(value)
+    && isFiniteNumber(value.at)
+    && typeof value.event === 'string'
+    && typeof value.type === 'string';
+}
+
+export function isCustodyLink(value: unknown): value is CustodyLink {
+  return isRecord(value)
+    && isFiniteNumber(value.index)
+    && isCustodyRecord(value)
+    && (value.anchor === undefined || isAnchor(value.anchor))
+    && typeof value.prevHash === 'string'
+    && typeof value.hash === 'string';
+}
+
+export function validateSessionCandidate(value: unknown): ValidationResult<SessionCandidate> {
+  if (!isRecord(value)) return { ok: false, errors: ['not an object'] };
+
+  const errors: string[] = [];
+  for (const field of ['id', 'userId', 'gymId', 'gymName']) {
+    if (typeof value[field] !== 'string') errors.push(`${field} must be a string`);
+  }
+  for (const field of ['schemaVersion', 'scsBoost', 'createdAt', 'updatedAt', 'expiresAt']) {
+    if (!isFiniteNumber(value[field])) errors.push(`${field} must be a number`);
+  }
+  for (const field of ['endedAt', 'duration']) {
+    if (value[field] !== undefined && !isFiniteNumber(value[field])) errors.push(`${field} must be a number`);
+  }
+  if (!CANDIDATE_STATUSES.includes(value.status as string)) {
+    errors.push(`status must be one of ${CANDIDATE_STATUSES.join(', ')}`);
+  }
+  if (!Array.isArray(value.anchors)) {
+    errors.push('anchors must be an array');
+  } else {
+    value.anchors.forEach((a, i) => {
+      if (!isAnchor(a)) errors.push(`anchors[${i}] is not a valid anchor`);
+    });
+  }
+  if (value.gate !== undefined && !isGateDecision(value.gate)) errors.push('gate is not a valid gate decision');
+  if (value.custody !== undefined && !(Array.isArray(value.custody) && value.custody.every(isCustodyRecord))) {
+    errors.push('custody must be an array of custody records');
+  }
+  if (value.wearable !== undefined && !isWearableLink(value.wearable)) errors.push('wearable is not a valid wearable link');
+  if (value.chain !== undefined && !(Array.isArray(value.chain) && value.chain.every(isCustodyLink))) {
+    errors.push('chain must be an array of custody links');
+  }
+  if (value.merkleRoot !== undefined && typeof value.merkleRoot !== 'string') errors.push('merkleRoot must be a string');
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: value as unknown as SessionCandidate };
+}
+
+export function isSessionResponse(value: unknown): value is SessionResponse {
+  return isRecord(value)
+    && typeof value.sessionId === 'string'
+    && isRecord(value.gym)
+    && typeof value.gym.name === 'string'
+    && Array.isArray(value.anchors)
+    && value.anchors.every(a => isRecord(a) && isAnchorKind(a.type) && typeof a.timestamp === 'string')
+    && isFiniteNumber(value.scsBoost)
+    && typeof value.startedAt === 'string'
+    && (value.gate === undefined || isGateDecision(value.gate))
+    && (value.scs === undefined || (isRecord(value.scs) && isFiniteNumber(value.scs.value) && Array.isArray(value.scs.components)));
+}
+
+// ============================================
+// MIGRATIONS
+// ============================================
+
+// v1 → v2: string anchors become objects. Entry anchors are stamped with the
+// session start, exit anchors with the session end (best evidence we have).
+function upgradeLegacyAnchor(type: string, record: Record<string, unknown>): Anchor | null {
+  if (!isAnchorKind(type)) return null;
+  const createdAt = Number(record.createdAt) || 0;
+  const isExit = type === 'nfc_exit' || type === 'geofence_exit';
+  return {
+    type,
+    boost: ANCHOR_BOOSTS[type],
+    timestamp: isExit ? Number(record.endedAt) || createdAt : createdAt,
+  };
+}
+
+/**
+ * Upgrade a stored record of any known version to the current schema.
+ * Returns null when the record cannot be salvaged.
+ */
+export function migrateSessionCandidate(raw: unknown): SessionCandidate | null {
+  if (!isRecord(raw)) return null;
+
+  const record: Record<string, unknown> = { ...raw };
+  const version = isFiniteNumber(record.schemaVersion) ? record.schemaVersion : 1;
+
+  if (version < 2) {
+    const anchors = Array.isArray(record.anchors) ? record.anchors : [];
+    record.anchors = anchors
+      .map(a => (typeof a === 'string' ? upgradeLegacyAnchor(a, record) : a))
+      .filter(a => a !== null);
+    record.updatedAt = isFiniteNumber(record.updatedAt) ? record.updatedAt : record.createdAt;
+    record.expiresAt = isFiniteNumber(record.expiresAt) ? record.expiresAt : record.createdAt;
+  }
+  record.schemaVersion = SCHEMA_VERSION;
+
+  const result = validateSessionCandidate(record);
+  return result.ok ? result.value : null;
+}
+
+export interface HistoryMigration {
+  sessions: SessionCandidate[];
+  records: unknown[];         // stored list with upgrades applied in place, unsalvageable entries untouched
+  upgraded: number;           // records rewritten to the current schema
+  dropped: number;            // records that could not be salvaged
+}
+
+export function migrateHistory(raw: unknown[]): HistoryMigration {
+  const sessions: SessionCandidate[] = [];
+  const records: unknown[] = [];
+  let upgraded = 0;
+  let dropped = 0;
+
+  for (const entry of raw) {
+    const session = migrateSessionCandidate(entry);
+    if (!session) {
+      dropped++;
+      records.push(entry);
+      continue;
+    }
+    if (!isRecord(entry) || entry.schemaVersion !== SCHEMA_VERSION) upgraded++;
+    sessions.push(session);
+    records.push(session);
+  }
+
+  return { sessions, records, upgraded, dropped };
+}
@@ -0,0 +1,405 @@
+/**
+ * PES SCORE ENGINE
+ *
+ * Deterministic Performance Equity Score (0-999) computed from stored
+ * sessions and workouts. Shared by GET /api/score and the frontend, which
+ * re-exports the score types and configuration from here.
+ *
+ * Same inputs + same `asOf` → same score. Nothing reads the clock.
+ *
+ * Factors (0-100 each), combined with SCORE_FACTOR_WEIGHTS:
+ *   effort       - intensity-weighted training minutes in the last 30 days;
+ *                  manual workout entries add none (see isDeviceRecorded)
+ *   consistency  - active days per week over the last 4 weeks
+ *   verification - average SCS finalized sessions were gated on (a session
+ *                  held at the quarantine gate counts as 0)
+ *   trust        - verified-anchor ratio and tenure over all history
+ */
+
+import type { SessionCandidate } from './schema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScoreTier = 'exceptional' | 'excellent' | 'good' | 'building' | 'establishing';
+
+export interface PESScore {
+  value: number;              // 0-999
+  tier: ScoreTier;
+  percentile: number;         // 0-100
+  delta30d: number;           // Change over 30 days
+  personalBest: number;
+  lastUpdated: number;
+}
+
+export type GateType = 'auto' | 'confirm' | 'quarantine';
+
+export type ScoreFactorId = 'effort' | 'consistency' | 'verification' | 'trust';
+
+export interface ScoreFactor {
+  id: ScoreFactorId;
+  name: string;
+  weight: number;             // Percentage (e.g., 35)
+  value: number;              // 0-100
+  trend: 'up' | 'down' | 'stable';
+  delta: number;              // Recent change
+  recommendation: string;
+  description: string;
+}
+
+export interface ScoreHistoryEntry {
+  date: number;               // Unix timestamp
+  pes: number;
+  tier: ScoreTier;
+  delta: number;
+  event?: string;             // e.g., "Reached Gold tier"
+}
+
+export const TIME_RANGE_PRESETS = ['7d', '30d', '90d', '1y', 'all'] as const;
+
+export type TimeRangePreset = typeof TIME_RANGE_PRESETS[number];
+
+// The workout fields scoring reads (api/workout-ingest.ts stores more)
+export interface ScoredWorkout {
+  startTime: number;          // epoch ms
+  endTime: number;
+  duration: number;           // seconds
+  hrZones?: number[];         // time in each zone (seconds)
+  trainingEffect?: number;
+  source?: string;            // 'manual' when typed in rather than recorded
+  provenance?: { source: string }[];
+}
+
+export interface ScoreInputs {
+  sessions: SessionCandidate[];
+  workouts: ScoredWorkout[];
+}
+
+// What the current window was computed from
+export interface ScoreBasis {
+  windowDays: number;
+  sessions: number;           // finalized sessions in window
+  workouts: number;           // workouts in window
+  computedAt: number;
+}
+
+export interface ScoreReport {
+  score: PESScore;
+  factors: ScoreFactor[];
+  basis: ScoreBasis;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SCORE_TIERS: Record<ScoreTier, { min: number; max: number; label: string }> = {
+  exceptional: { min: 850, max: 999, label: 'EXCEPTIONAL' },
+  excellent: { min: 700, max: 849, label: 'EXCELLENT' },
+  good: { min: 500, max: 699, label: 'GOOD' },
+  building: { min: 300, max: 499, label: 'BUILDING' },
+  establishing: { min: 0, max: 299, label: 'ESTABLISHING' },
+};
+
+export const SCORE_FACTOR_WEIGHTS: Record<ScoreFactorId, number> = {
+  effort: 35,
+  consistency: 25,
+  verification: 25,
+  trust: 15,
+};
+
+export const SCORE_FACTOR_NAMES: Record<ScoreFactorId, string> = {
+  effort: 'EFFORT VOLUME',
+  consistency: 'CONSISTENCY INDEX',
+  verification: 'VERIFICATION INTEGRITY',
+  trust: 'TRUST INDEX',
+};
+
+const SCORE_FACTOR_DESCRIPTIONS: Record<ScoreFactorId, string> = {
+  effort: 'Total verified duration × intensity coefficient',
+  consistency: 'Session regularity over rolling 30-day window',
+  verification: 'Average Session Confidence Score across sessions',
+  trust: 'Longitudinal verification reputation',
+};
+
+const FACTOR_ORDER: ScoreFactorId[] = ['effort', 'consistency', 'verification', 'trust'];
+
+export const MAX_PES = 999;
+export const SCORE_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_MS = SCORE_WINDOW_DAYS * DAY_MS;
+
+// Lowest fused SCS (shared/scs.ts) for each gate
+export const GATE_THRESHOLDS = {
+  auto: 0.80,
+  confirm: 0.50,
+};
+
+const EFFORT_TARGET_MINUTES = 1200;    // ~4 × 70 min per week at Z3
+const ZONE_INTENSITY = [0.6, 0.8, 1.0, 1.2, 1.4];
+const DEFAULT_INTENSITY = 1.0;         // gym session with no wearable data
+
+const CONSISTENCY_WEEKS = 4;
+const CONSISTENCY_TARGET_DAYS = 4;     // active days per week
+
+const TRUST_MATURITY_SESSIONS = 20;    // finalized sessions for full tenure credit
+const TRUST_VERIFIED_WEIGHT = 0.7;
+
+const TREND_THRESHOLD = 2;             // factor points before a trend is shown
+const PERSONAL_BEST_MAX_DAYS = 365;
+
+// Reference curve for percentile until cohort statistics exist
+const PERCENTILE_MEDIAN = 500;
+const PERCENTILE_SPREAD = 110;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function sessionGate(scs: number): GateType {
+  if (scs >= GATE_THRESHOLDS.auto) return 'auto';
+  if (scs >= GATE_THRESHOLDS.confirm) return 'confirm';
+  return 'quarantine';
+}
+
+// The SCS a session was gated on; nothing until it is gated, nothing once quarantined
+function verifiedScs(session: SessionCandidate): number {
+  const decision = session.gate;
+  return decision && decision.gate !== 'quarantine' ? decision.scs : 0;
+}
+
+export function isTimeRangePreset(value: unknown): value is TimeRangePreset {
+  return typeof value === 'string' && (TIME_RANGE_PRESETS as readonly string[]).includes(value);
+}
+
+/** Earliest timestamp inside a range preset ending at `now` (0 for 'all'). */
+export function rangeStart(range: TimeRangePreset, now: number): number {
+  switch (range) {
+    case '7d': return now - 7 * DAY_MS;
+    case '30d': return now - 30 * DAY_MS;
+    case '90d': return now - 90 * DAY_MS;
+    case '1y': return now - 365 * DAY_MS;
+    case 'all': return 0;
+  }
+}
+
+export function tierForScore(value: number): ScoreTier {
+  const tiers = Object.entries(SCORE_TIERS) as [ScoreTier, { min: number }][];
+  return tiers.find(([, t]) => value >= t.min)?.[0] ?? 'establishing';
+}
+
+/** Recorded by a device rather than typed in: a source other than manual entry reported it. */
+export function isDeviceRecorded(workout: Pick<ScoredWorkout, 'source' | 'provenance'>): boolean {
+  return (workout.provenance ?? [workout]).some(p => p.source !== 'manual');
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function inWindow(t: number, from: number, to: number): boolean {
+  return t > from && t <= to;
+}
+
+function sessionEnd(session: SessionCandidate): number {
+  return session.endedAt ?? session.createdAt + (session.duration ?? 0) * 60_000;
+}
+
+function workoutIntensity(workout: ScoredWorkout): number {
+  const zones = workout.hrZones;
+  const zoneTotal = zones?.reduce((sum, t) => sum + t, 0) ?? 0;
+  if (zones && zoneTotal > 0) {
+    const weighted = zones.reduce((sum, t, i) => sum + t * ZONE_INTENSITY[Math.min(i, ZONE_INTENSITY.length - 1)], 0);
+    return weighted / zoneTotal;
+  }
+  if (workout.trainingEffect !== undefined) {
+    return clamp(0.6 + 0.16 * workout.trainingEffect, ZONE_INTENSITY[0], ZONE_INTENSITY[ZONE_INTENSITY.length - 1]);
+  }
+  return DEFAULT_INTENSITY;
+}
+
+function overlaps(session: SessionCandidate, workout: ScoredWorkout): boolean {
+  return workout.startTime < sessionEnd(session) && workout.endTime > session.createdAt;
+}
+
+// Anchors recorded before evidence existed keep their historical 'verified'
+function isVerifiedAnchor(anchor: SessionCandidate['anchors'][number]): boolean {
+  return !anchor.evidence || anchor.evidence.verdict === 'verified';
+}
+
+// ============================================
+// FACTORS
+// ============================================
+
+interface FactorSnapshot {
+  values: Record<ScoreFactorId, number>;
+  effortMinutes: number;
+  activeDays: number;
+  avgScs: number;
+  verifiedAnchors: number;
+  totalAnchors: number;
+  sessionCount: number;
+  workoutCount: number;
+}
+
+function snapshot(inputs: ScoreInputs, asOf: number): FactorSnapshot {
+  const from = asOf - WINDOW_MS;
+  const finalized = inputs.sessions.filter(s => s.status === 'finalized' && s.createdAt <= asOf);
+  const sessions = finalized.filter(s => inWindow(s.createdAt, from, asOf));
+  const workouts = inputs.workouts.filter(w => inWindow(w.startTime, from, asOf));
+
+  // Effort: a workout recorded during a gym session sets that session's
+  // intensity instead of being counted twice. Manual entries are the user's
+  // own say-so, so - as for SCS - they neither set intensity nor add minutes
+  const recorded = workouts.filter(isDeviceRecorded);
+  let effortMinutes = 0;
+  for (const session of sessions) {
+    const match = recorded.find(w => overlaps(session, w));
+    effortMinutes += (session.duration ?? 0) * (match ? workoutIntensity(match) : DEFAULT_INTENSITY);
+  }
+  for (const workout of recorded) {
+    if (sessions.some(s => overlaps(s, workout))) continue;
+    effortMinutes += (workout.duration / 60) * workoutIntensity(workout);
+  }
+
+  // Consistency: distinct active days in each trailing week
+  const activeTimes = [...sessions.map(s => s.createdAt), ...workouts.map(w => w.startTime)];
+  let weekCredit = 0;
+  let activeDays = 0;
+  for (let week = 0; week < CONSISTENCY_WEEKS; week++) {
+    const end = asOf - week * 7 * DAY_MS;
+    const days = new Set(activeTimes.filter(t => inWindow(t, end - 7 * DAY_MS, end)).map(t => Math.floor(t / DAY_MS)));
+    activeDays += days.size;
+    weekCredit += Math.min(1, days.size / CONSISTENCY_TARGET_DAYS);
+  }
+
+  // Verification: mean gated SCS of finalized sessions in window
+  const avgScs = sessions.length > 0
+    ? sessions.reduce((sum, s) => sum + verifiedScs(s), 0) / sessions.length
+    : 0;
+
+  // Trust: all history up to asOf
+  const anchors = finalized.flatMap(s => s.anchors.filter(a => a.timestamp <= asOf));
+  const verifiedAnchors = anchors.filter(isVerifiedAnchor).length;
+  const verifiedRatio = anchors.length > 0 ? verifiedAnchors / anchors.length : 0;
+  const tenure = Math.min(1, finalized.length / TRUST_MATURITY_SESSIONS);
+
+  return {
+    values: {
+      effort: Math.round(100 * Math.min(1, effortMinutes / EFFORT_TARGET_MINUTES)),
+      consistency: Math.round(100 * weekCredit / CONSISTENCY_WEEKS),
+      verification: Math.round(100 * avgScs),
+      trust: anchors.length > 0
+        ? Math.round(100 * (TRUST_VERIFIED_WEIGHT * verifiedRatio + (1 - TRUST_VERIFIED_WEIGHT) * tenure))
+        : 0,
+    },
+    effortMinutes,
+    activeDays,
+    avgScs,
+    verifiedAnchors,
+    totalAnchors: anchors.length,
+    sessionCount: sessions.length,
+    workoutCount: workouts.length,
+  };
+}
+
+function combine(values: Record<ScoreFactorId, number>): number {
+  const weighted = FACTOR_ORDER.reduce((sum, id) => sum + SCORE_FACTOR_WEIGHTS[id] * values[id], 0) / 100;
+  return clamp(Math.round(weighted * MAX_PES / 100), 0, MAX_PES);
+}
+
+function recommendation(id: ScoreFactorId, snap: FactorSnapshot): string {
+  switch (id) {
+    case 'effort': {
+      const remaining = Math.ceil(EFFORT_TARGET_MINUTES - snap.effortMinutes);
+      return remaining > 0
+        ? `${remaining} more intensity-weighted minutes to max this factor`
+        : 'Volume target met for this window';
+    }
+    case 'consistency':
+      return `Active ${snap.activeDays} of last ${CONSISTENCY_WEEKS * 7} days | Maintain ${CONSISTENCY_TARGET_DAYS}+ sessions per week`;
+    case 'verification':
+      if (snap.sessionCount === 0) return 'Check in at a gym to start verifying sessions';
+      return snap.avgScs >= GATE_THRESHOLDS.auto
+        ? 'Status: Exceeds threshold for auto-verification'
+        : 'Tap NFC or BLE anchors to raise session confidence';
+    case 'trust':
+      return snap.totalAnchors > 0
+        ? `${snap.verifiedAnchors}/${snap.totalAnchors} anchors verified`
+        : 'No verified anchors yet';
+  }
+}
+
+function percentileFor(value: number): number {
+  const p = 100 / (1 + Math.exp(-(value - PERCENTILE_MEDIAN) / PERCENTILE_SPREAD));
+  return clamp(Math.round(p), 0, 99);
+}
+
+// ============================================
+// SCORE
+// ============================================
+
+/** PES value (0-999) as of a moment, from data recorded up to then. */
+export function scoreAt(inputs: ScoreInputs, asOf: number): number {
+  return combine(snapshot(inputs, asOf).values);
+}
+
+export function firstActivity(inputs: ScoreInputs): number | null {
+  const times = [
+    ...inputs.sessions.filter(s => s.status === 'finalized').map(s => s.createdAt),
+    ...inputs.workouts.map(w => w.startTime),
+  ];
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+// Best end-of-day score since the first recorded activity (capped to a year)
+function personalBest(inputs: ScoreInputs, asOf: number, current: number): number {
+  const first = firstActivity(inputs);
+  if (first === null) return current;
+  let best = current;
+  const start = Math.max(first, asOf - PERSONAL_BEST_MAX_DAYS * DAY_MS);
+  for (let t = asOf - DAY_MS; t >= start; t -= DAY_MS) {
+    best = Math.max(best, scoreAt(inputs, t));
+  }
+  return best;
+}
+
+export function computeScore(inputs: ScoreInputs, asOf: number): ScoreReport {
+  const now = snapshot(inputs, asOf);
+  const before = snapshot(inputs, asOf - WINDOW_MS);
+  const value = combine(now.values);
+
+  const factors = FACTOR_ORDER.map((id): ScoreFactor => {
+    const delta = now.values[id] - before.values[id];
+    return {
+      id,
+      name: SCORE_FACTOR_NAMES[id],
+      weight: SCORE_FACTOR_WEIGHTS[id],
+      value: now.values[id],
+      trend: delta >= TREND_THRESHOLD ? 'up' : delta <= -TREND_THRESHOLD ? 'down' : 'stable',
+      delta,
+      recommendation: recommendation(id, now),
+      description: SCORE_FACTOR_DESCRIPTIONS[id],
+    };
+  });
+
+  return {
+    score: {
+      value,
+      tier: tierForScore(value),
+      percentile: percentileFor(value),
+      delta30d: value - combine(before.values),
+      personalBest: personalBest(inputs, asOf, value),
+      lastUpdated: asOf,
+    },
+    factors,
+    basis: {
+      windowDays: SCORE_WINDOW_DAYS,
+      sessions: now.sessionCount,
+      workouts: now.workoutCount,
+      computedAt: asOf,
+    },
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * SESSION CONFIDENCE SCORE (SCS)
+ *
+ * One explainable 0-1 confidence per session, fused from five components:
+ *
+ *   anchor      - every anchor's type confidence × evidence verdict, fused as
+ *                 independent evidence: 1 - Π(1 - cᵢ)
+ *   dwell       - does the anchor timing bracket a plausible visit
+ *   workout     - overlap with a wearable workout recorded during the visit
+ *   congruency  - whether that workout's signals agree with each other
+ *   device      - a passkey-attested device on the account at the time
+ *
+ * SCS = Σ weight × component. Every component comes back with its value,
+ * weighted contribution and a one-line reason, so the number can be shown
+ * rather than asserted. Computed by GET /api/sessions.
+ */
+
+import type { AnchorKind, EvidenceVerdict, SessionCandidate } from './schema.js';
+import { sessionGate, type GateType, type ScoredWorkout } from './score.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ScsComponentId = 'anchor' | 'dwell' | 'workout' | 'congruency' | 'device';
+
+export interface ScsComponent {
+  id: ScsComponentId;
+  label: string;
+  weight: number;             // 0-1, weights sum to 1
+  value: number;              // 0-1
+  contribution: number;       // weight × value
+  detail: string;
+}
+
+export interface ScsBreakdown {
+  value: number;              // 0-1
+  gate: GateType;
+  components: ScsComponent[];
+}
+
+// Wearable fields the workout and congruency components read
+export interface ScsWorkout extends ScoredWorkout {
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+}
+
+export interface ScsContext {
+  workouts: ScsWorkout[];
+  // Passkeys on the account: when registered and whether hardware-attested
+  devices: { createdAt: number; hardwareAttested: boolean }[];
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const SCS_WEIGHTS: Record<ScsComponentId, number> = {
+  anchor: 0.50,
+  dwell: 0.15,
+  workout: 0.15,
+  congruency: 0.10,
+  device: 0.10,
+};
+
+export const SCS_LABELS: Record<ScsComponentId, string> = {
+  anchor: 'Anchor',
+  dwell: 'Dwell',
+  workout: 'Workout',
+  congruency: 'Congruency',
+  device: 'Device',
+};
+
+// Signal ladder (ANCHOR_CONFIDENCE); exits count like their entry anchor
+const ANCHOR_CONFIDENCE: Record<AnchorKind, number> = {
+  nfc: 1.0,
+  nfc_exit: 1.0,
+  ble: 0.85,
+  wifi_bssid: 0.70,
+  geofence: 0.50,
+  geofence_exit: 0.50,
+};
+
+const VERDICT_FACTOR: Record<EvidenceVerdict, number> = {
+  verified: 1.0,
+  degraded: 0.6,
+  unverified: 0.25,
+};
+
+const EXIT_ANCHORS: AnchorKind[] = ['nfc_exit', 'geofence_exit'];
+
+const MIN_DWELL_MINUTES = 20;
+const MAX_DWELL_MINUTES = 240;
+
+const CONGRUENCY_TOLERANCE = 0.15;    // zone time / duration mismatch allowed
+const WORKOUT_SLACK_MS = 15 * 60 * 1000;
+const MIN_PLAUSIBLE_HR = 40;
+const MAX_PLAUSIBLE_HR = 220;
+
+// ============================================
+// COMPONENTS
+// ============================================
+
+type Scored = { value: number; detail: string };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sessionEnd(session: SessionCandidate): number {
+  return session.endedAt ?? session.createdAt + (session.duration ?? 0) * 60_000;
+}
+
+function anchorComponent(session: SessionCandidate): Scored {
+  if (session.anchors.length === 0) return { value: 0, detail: 'No anchors recorded' };
+
+  let doubt = 1;
+  for (const anchor of session.anchors) {
+    // Anchors recorded before evidence existed keep their historical 'verified'
+    const verdict = anchor.evidence?.verdict ?? 'verified';
+    doubt *= 1 - ANCHOR_CONFIDENCE[anchor.type] * VERDICT_FACTOR[verdict];
+  }
+  const types = [...new Set(session.anchors.map(a => a.type))].join(' + ');
+  return { value: 1 - doubt, detail: types };
+}
+
+function dwellComponent(session: SessionCandidate): Scored {
+  const minutes = session.duration;
+  if (minutes === undefined) return { value: 0.3, detail: 'Visit still open' };
+
+  const plausible = minutes >= MIN_DWELL_MINUTES && minutes <= MAX_DWELL_MINUTES;
+  const exited = session.anchors.some(a => EXIT_ANCHORS.includes(a.type));
+  if (exited) {
+    return plausible
+      ? { value: 1, detail: `${minutes} min between entry and exit anchors` }
+      : { value: 0.4, detail: `${minutes} min visit is outside ${MIN_DWELL_MINUTES}-${MAX_DWELL_MINUTES} min` };
+  }
+  return plausible
+    ? { value: 0.6, detail: `${minutes} min, no exit anchor` }
+    : { value: 0.3, detail: `${minutes} min, no exit anchor` };
+}
+
+function matchWorkout(session: SessionCandidate, workouts: ScsWorkout[]): { workout: ScsWorkout; overlap: number } | null {
+  const start = session.createdAt;
+  const end = sessionEnd(session);
+  let best: { workout: ScsWorkout; overlap: number } | null = null;
+  for (const workout of workouts) {
+    const overlap = Math.min(end, workout.endTime) - Math.max(start, workout.startTime);
+    if (overlap > 0 && (!best || overlap > best.overlap)) best = { workout, overlap };
+  }
+  return best;
+}
+
+function workoutComponent(session: SessionCandidate, match: ReturnType<typeof matchWorkout>): Scored {
+  if (!match) return { value: 0, detail: 'No wearable workout during visit' };
+
+  const visitMs = Math.max(sessionEnd(session) - session.createdAt, 1);
+  const coverage = Math.min(1, match.overlap / visitMs);
+  const hasHeartRate = match.workout.avgHeartRate !== undefined;
+  return {
+    value: coverage * (hasHeartRate ? 1 : 0.7),
+    detail: `${Math.round(coverage * 100)}% of visit covered${hasHeartRate ? ', with heart rate' : ', no heart rate'}`,
+  };
+}
+
+// Internal consistency of the matched workout's own signals
+function congruencyComponent(session: SessionCandidate, match: ReturnType<typeof matchWorkout>): Scored {
+  if (!match) return { value: 0, detail: 'No wearable data to cross-check' };
+
+  const w = match.workout;
+  const checks: [string, boolean][] = [];
+  if (w.avgHeartRate !== undefined) {
+    checks.push(['heart rate in human range', w.avgHeartRate >= MIN_PLAUSIBLE_HR && w.avgHeartRate <= MAX_PLAUSIBLE_HR]);
+  }
+  if (w.avgHeartRate !== undefined && w.maxHeartRate !== undefined) {
+    checks.push(['max HR ≥ average', w.maxHeartRate >= w.avgHeartRate]);
+  }
+  const zoneTotal = w.hrZones?.reduce((sum, t) => sum + t, 0) ?? 0;
+  if (zoneTotal > 0) {
+    checks.push(['zone time matches duration', Math.abs(zoneTotal - w.duration) <= w.duration * CONGRUENCY_TOLERANCE]);
+  }
+  checks.push([
+    'workout fits inside visit',
+    w.startTime >= session.createdAt - WORKOUT_SLACK_MS && w.endTime <= sessionEnd(session) + WORKOUT_SLACK_MS,
+  ]);
+
+  const failed = checks.filter(([, ok]) => !ok).map(([name]) => name);
+  return {
+    value: (checks.length - failed.length) / checks.length,
+    detail: failed.length === 0 ? `${checks.length}/${checks.length} checks passed` : `Failed: ${failed.join(', ')}`,
+  };
+}
+
+function deviceComponent(session: SessionCandidate, context: ScsContext): Scored {
+  const attested = context.devices.filter(d => d.createdAt <= sessionEnd(session));
+  if (attested.some(d => d.hardwareAttested)) return { value: 1, detail: 'Hardware-attested passkey (TEE)' };
+  if (attested.length > 0) return { value: 0.7, detail: 'Passkey-attested device' };
+  return { value: 0, detail: 'No attested device' };
+}
+
+// ============================================
+// SCS
+// ============================================
+
+export function computeScs(session: SessionCandidate, context: ScsContext): ScsBreakdown {
+  const match = matchWorkout(session, context.workouts);
+  const scored: Record<ScsComponentId, Scored> = {
+    anchor: anchorComponent(session),
+    dwell: dwellComponent(session),
+    workout: workoutComponent(session, match),
+    congruency: congruencyComponent(session, match),
+    device: deviceComponent(session, context),
+  };
+
+  const components = (Object.keys(SCS_WEIGHTS) as ScsComponentId[]).map((id): ScsComponent => ({
+    id,
+    label: SCS_LABELS[id],
+    weight: SCS_WEIGHTS[id],
+    value: round2(scored[id].value),
+    contribution: round2(SCS_WEIGHTS[id] * scored[id].value),
+    detail: scored[id].detail,
+  }));
+
+  const value = round2(components.reduce((sum, c) => sum + c.weight * scored[c.id].value, 0));
+  return { value, gate: sessionGate(value), components };
+}
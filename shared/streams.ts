@@ -0,0 +1,163 @@
+/**
+ * WORKOUT STREAMS
+ *
+ * Per-second samples from a workout file (FIT record messages), stored one
+ * column per channel. Each channel is quantized to integers (value × scale),
+ * delta-encoded against the previous present sample and packed into the
+ * narrowest typed array that holds every delta; the array's minimum value
+ * marks a missing sample. A steady heart-rate channel packs to a byte per
+ * second.
+ *
+ * Pure, with base64 via atob/btoa, so the browser decodes the same columns
+ * GET /api/workouts/:id/streams serves.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StreamChannel = 'time' | 'heartRate' | 'cadence' | 'power' | 'altitude' | 'lat' | 'lon';
+
+export type StreamEncoding = 'int8' | 'int16' | 'int32';
+
+export interface EncodedChannel {
+  encoding: StreamEncoding;
+  scale: number;              // stored integer = round(value × scale)
+  base: number;               // first present integer; deltas start from it
+  data: string;               // base64 little-endian deltas, one per sample
+}
+
+export interface WorkoutStreams {
+  version: 1;
+  startTime: number;          // ms; the time channel counts seconds from here
+  count: number;              // samples in every channel
+  channels: Partial<Record<StreamChannel, EncodedChannel>>;
+}
+
+export type StreamSamples = Partial<Record<StreamChannel, (number | null)[]>>;
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const STREAM_CHANNELS: StreamChannel[] = ['time', 'heartRate', 'cadence', 'power', 'altitude', 'lat', 'lon'];
+
+// time s · heartRate bpm · cadence rpm · power W · altitude m (0.1) · lat/lon degrees (1e-7, ~1 cm)
+export const STREAM_SCALE: Record<StreamChannel, number> = {
+  time: 1,
+  heartRate: 1,
+  cadence: 1,
+  power: 1,
+  altitude: 10,
+  lat: 1e7,
+  lon: 1e7,
+};
+
+const ENCODINGS: { encoding: StreamEncoding; bytes: 1 | 2 | 4; missing: number }[] = [
+  { encoding: 'int8', bytes: 1, missing: -(2 ** 7) },
+  { encoding: 'int16', bytes: 2, missing: -(2 ** 15) },
+  { encoding: 'int32', bytes: 4, missing: -(2 ** 31) },
+];
+
+export function isStreamChannel(value: unknown): value is StreamChannel {
+  return typeof value === 'string' && (STREAM_CHANNELS as string[]).includes(value);
+}
+
+// ============================================
+// BASE64
+// ============================================
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+// ============================================
+// CHANNELS
+// ============================================
+
+/** Encode one channel; null when it has no present sample. */
+export function encodeChannel(values: (number | null)[], scale: number): EncodedChannel | null {
+  const quantized = values.map(v => (v === null || !Number.isFinite(v) ? null : Math.round(v * scale)));
+  const base = quantized.find(q => q !== null);
+  if (base === undefined || base === null) return null;
+
+  let prev = base;
+  const deltas = quantized.map(q => {
+    if (q === null) return null;
+    const delta = q - prev;
+    prev = q;
+    return delta;
+  });
+
+  const widest = deltas.reduce<number>((max, d) => (d === null ? max : Math.max(max, Math.abs(d))), 0);
+  const format = ENCODINGS.find(e => widest < -e.missing) ?? ENCODINGS[ENCODINGS.length - 1];
+  if (widest >= -format.missing) throw new Error(`Stream delta ${widest} does not fit in int32`);
+
+  const view = new DataView(new ArrayBuffer(deltas.length * format.bytes));
+  deltas.forEach((d, i) => {
+    const value = d ?? format.missing;
+    if (format.bytes === 1) view.setInt8(i, value);
+    else if (format.bytes === 2) view.setInt16(i * 2, value, true);
+    else view.setInt32(i * 4, value, true);
+  });
+
+  return { encoding: format.encoding, scale, base, data: toBase64(new Uint8Array(view.buffer)) };
+}
+
+export function decodeChannel(channel: EncodedChannel): (number | null)[] {
+  const format = ENCODINGS.find(e => e.encoding === channel.encoding);
+  if (!format) throw new Error(`Unknown stream encoding: ${channel.encoding}`);
+
+  const bytes = fromBase64(channel.data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values: (number | null)[] = [];
+  let current = channel.base;
+  for (let offset = 0; offset < bytes.byteLength; offset += format.bytes) {
+    const delta = format.bytes === 1 ? view.getInt8(offset)
+      : format.bytes === 2 ? view.getInt16(offset, true)
+        : view.getInt32(offset, true);
+    if (delta === format.missing) {
+      values.push(null);
+      continue;
+    }
+    current += delta;
+    values.push(current / channel.scale);
+  }
+  return values;
+}
+
+// ============================================
+// STREAMS
+// ============================================
+
+/** Encode per-sample channels of equal length; channels with no samples are dropped. */
+export function encodeStreams(startTime: number, samples: StreamSamples): WorkoutStreams {
+  const count = Math.max(0, ...Object.values(samples).map(s => s?.length ?? 0));
+  const channels: WorkoutStreams['channels'] = {};
+  for (const name of STREAM_CHANNELS) {
+    const values = samples[name];
+    if (!values) continue;
+    if (values.length !== count) throw new Error(`Stream channel ${name} has ${values.length} samples, expected ${count}`);
+    const encoded = encodeChannel(values, STREAM_SCALE[name]);
+    if (encoded) channels[name] = encoded;
+  }
+  return { version: 1, startTime, count, channels };
+}
+
+/** Decode the stored channels, or just `only` of them. */
+export function decodeStreams(streams: WorkoutStreams, only?: StreamChannel[]): StreamSamples {
+  const samples: StreamSamples = {};
+  for (const name of STREAM_CHANNELS) {
+    const channel = streams.channels[name];
+    if (channel && (!only || only.includes(name))) samples[name] = decodeChannel(channel);
+  }
+  return samples;
+}
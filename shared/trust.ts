@@ -0,0 +1,243 @@
+/**
+ * TRUDEX - TRUST INDEX ENGINE
+ *
+ * A user's 0-100 trust score, replayed from their verification history:
+ * every finalized session (gate outcome + anchor quality), every attested
+ * device, and every recorded attack detection or failed liveness check moves
+ * the score by an amount set in a versioned rule set. The tier's multiplier
+ * then scales the PE a session earns.
+ *
+ * Rules are never edited in place. A change ships as a new entry in
+ * TRUST_RULES, so any past profile can be recomputed under the rules that
+ * produced it (computeTrust(signals, asOf, version)).
+ *
+ *   v1  every attested device earns its bonus
+ *   v2  device attestation counts once per user: the first device earns
+ *       its bonus, a later hardware-attested one only tops it up
+ */
+
+import type { AnchorKind, SessionCandidate } from './schema.js';
+import type { GateType } from './score.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TrustTier = 'platinum' | 'gold' | 'silver' | 'grey' | 'red';
+
+export interface TrustProfile {
+  score: number;              // 0-100
+  tier: TrustTier;
+  multiplier: number;         // 0.0 - 1.0
+  nextTierAt: number;         // Score needed for next tier
+  history: TrustHistoryEntry[];
+}
+
+export interface TrustHistoryEntry {
+  date: number;
+  score: number;
+  tier: TrustTier;
+  event?: string;
+}
+
+export const ATTACK_TYPES = ['shaker', 'gps_spoofing', 'replay', 'emulation', 'injection'] as const;
+
+export type AttackType = typeof ATTACK_TYPES[number];
+
+export type AttackStatus = 'detected' | 'suspicious';
+
+// Everything the engine scores, oldest first
+export type TrustSignal =
+  | { kind: 'session'; at: number; gymName: string; gate: GateType; closedAnchor: boolean; unverifiedAnchors: number }
+  | { kind: 'device'; at: number; name: string; hardwareAttested: boolean }
+  | { kind: 'attack'; at: number; attack: AttackType; status: AttackStatus; detail?: string }
+  | { kind: 'liveness'; at: number; detail?: string };
+
+export interface TrustRules {
+  version: number;
+  initialScore: number;
+  gate: Record<GateType, number>;
+  closedAnchor: number;       // session had a verified NFC or BLE anchor
+  unverifiedAnchor: number;   // per anchor recorded without verified evidence
+  device: number;             // passkey / device attestation
+  hardwareDevice: number;     // ... with hardware (TEE) attestation
+  deviceOnce: boolean;        // devices share one bonus instead of each earning one
+  attack: Record<AttackStatus, number>;
+  livenessFailed: number;
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const TRUST_TIERS: Record<TrustTier, { minScore: number; multiplier: number; label: string; color: string }> = {
+  platinum: { minScore: 95, multiplier: 1.0, label: 'PLATINUM', color: '#E5E4E2' },
+  gold: { minScore: 85, multiplier: 0.9, label: 'GOLD', color: '#FFD700' },
+  silver: { minScore: 70, multiplier: 0.75, label: 'SILVER', color: '#C0C0C0' },
+  grey: { minScore: 50, multiplier: 0.5, label: 'GREY', color: '#808080' },
+  red: { minScore: 0, multiplier: 0.0, label: 'RED', color: '#DC143C' },
+};
+
+export const TRUST_RULES: Record<number, TrustRules> = {
+  1: {
+    version: 1,
+    initialScore: 60,
+    gate: { auto: 1, confirm: 0.25, quarantine: -3 },
+    closedAnchor: 0.5,
+    unverifiedAnchor: -0.5,
+    device: 2,
+    hardwareDevice: 4,
+    deviceOnce: false,
+    attack: { detected: -15, suspicious: -5 },
+    livenessFailed: -8,
+  },
+  2: {
+    version: 2,
+    initialScore: 60,
+    gate: { auto: 1, confirm: 0.25, quarantine: -3 },
+    closedAnchor: 0.5,
+    unverifiedAnchor: -0.5,
+    device: 2,
+    hardwareDevice: 4,
+    deviceOnce: true,
+    attack: { detected: -15, suspicious: -5 },
+    livenessFailed: -8,
+  },
+};
+
+export const CURRENT_TRUST_RULES_VERSION = 2;
+
+// PE per verified minute before the trust multiplier
+const PE_PER_MINUTE = 0.08;
+
+const CLOSED_ANCHORS: AnchorKind[] = ['nfc', 'ble'];
+
+const ATTACK_NAMES: Record<AttackType, string> = {
+  shaker: 'Shaker',
+  gps_spoofing: 'GPS spoofing',
+  replay: 'Replay',
+  emulation: 'Emulation',
+  injection: 'Injection',
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function isAttackType(value: unknown): value is AttackType {
+  return typeof value === 'string' && (ATTACK_TYPES as readonly string[]).includes(value);
+}
+
+export function trustTierFor(score: number): TrustTier {
+  const tiers = Object.entries(TRUST_TIERS) as [TrustTier, { minScore: number }][];
+  return tiers.find(([, t]) => score >= t.minScore)?.[0] ?? 'red';
+}
+
+function nextTierAt(tier: TrustTier): number {
+  const tiers = Object.keys(TRUST_TIERS) as TrustTier[];
+  const above = tiers[tiers.indexOf(tier) - 1];
+  return above ? TRUST_TIERS[above].minScore : 100;
+}
+
+/** PE a session earns: quarantined sessions earn nothing; the rest scale by trust. */
+export function peEarned(durationMinutes: number, gate: GateType, multiplier: number): number {
+  if (gate === 'quarantine') return 0;
+  return Math.round(durationMinutes * PE_PER_MINUTE * multiplier * 10) / 10;
+}
+
+// Anchors recorded before evidence existed keep their historical 'verified'
+function isVerified(anchor: SessionCandidate['anchors'][number]): boolean {
+  return !anchor.evidence || anchor.evidence.verdict === 'verified';
+}
+
+/** The trust signal for a gated session (null for anything still open or not yet gated). */
+export function sessionSignal(session: SessionCandidate): TrustSignal | null {
+  if (session.status !== 'finalized' || !session.gate) return null;
+  return {
+    kind: 'session',
+    at: session.endedAt ?? session.createdAt,
+    gymName: session.gymName,
+    // The stored gate decision, so a rejected or expired confirmation counts as quarantine
+    gate: session.gate.gate,
+    closedAnchor: session.anchors.some(a => CLOSED_ANCHORS.includes(a.type) && isVerified(a)),
+    unverifiedAnchors: session.anchors.filter(a => a.evidence?.verdict === 'unverified').length,
+  };
+}
+
+function formatDelta(delta: number): string {
+  const rounded = Math.round(delta * 100) / 100;
+  return rounded >= 0 ? `+${rounded}` : `${rounded}`;
+}
+
+// Score change and the reason shown in the trust history. `deviceCredit` is
+// the device bonus already awarded (deviceOnce rules award only the rest).
+function applyRule(rules: TrustRules, signal: TrustSignal, deviceCredit: number): { delta: number; reason: string } {
+  switch (signal.kind) {
+    case 'session': {
+      const reasons = [`${signal.gate} gate`];
+      let delta = rules.gate[signal.gate];
+      if (signal.closedAnchor) {
+        delta += rules.closedAnchor;
+        reasons.push('closed anchor');
+      }
+      if (signal.unverifiedAnchors > 0) {
+        delta += rules.unverifiedAnchor * signal.unverifiedAnchors;
+        reasons.push(`${signal.unverifiedAnchors} unverified anchor${signal.unverifiedAnchors === 1 ? '' : 's'}`);
+      }
+      return { delta, reason: `Session at ${signal.gymName}: ${reasons.join(', ')}` };
+    }
+    case 'device': {
+      const bonus = signal.hardwareAttested ? rules.hardwareDevice : rules.device;
+      const reason = signal.hardwareAttested ? `Device attested (TEE): ${signal.name}` : `Device attested: ${signal.name}`;
+      return { delta: rules.deviceOnce ? Math.max(0, bonus - deviceCredit) : bonus, reason };
+    }
+    case 'attack':
+      return {
+        delta: rules.attack[signal.status],
+        reason: `${ATTACK_NAMES[signal.attack]} attack ${signal.status}${signal.detail ? `: ${signal.detail}` : ''}`,
+      };
+    case 'liveness':
+      return { delta: rules.livenessFailed, reason: `Liveness check failed${signal.detail ? `: ${signal.detail}` : ''}` };
+  }
+}
+
+// ============================================
+// ENGINE
+// ============================================
+
+/**
+ * Replay `signals` up to `asOf` under a rule set. Deterministic: the same
+ * signals and version always give the same profile.
+ */
+export function computeTrust(
+  signals: TrustSignal[],
+  asOf: number,
+  version: number = CURRENT_TRUST_RULES_VERSION,
+): TrustProfile {
+  const rules = TRUST_RULES[version];
+  if (!rules) throw new Error(`Unknown trust rules version: ${version}`);
+
+  const ordered = signals.filter(s => s.at <= asOf).sort((a, b) => a.at - b.at);
+  let score = rules.initialScore;
+  let deviceCredit = 0;
+  const history: TrustHistoryEntry[] = [];
+
+  for (const signal of ordered) {
+    const { delta, reason } = applyRule(rules, signal, deviceCredit);
+    if (signal.kind === 'device') deviceCredit += delta;
+    if (delta === 0) continue;
+    score = Math.min(100, Math.max(0, score + delta));
+    const rounded = Math.round(score);
+    history.push({ date: signal.at, score: rounded, tier: trustTierFor(rounded), event: `${reason} (${formatDelta(delta)})` });
+  }
+
+  const final = Math.round(score);
+  const tier = trustTierFor(final);
+  return {
+    score: final,
+    tier,
+    multiplier: TRUST_TIERS[tier].multiplier,
+    nextTierAt: nextTierAt(tier),
+    history,
+  };
+}
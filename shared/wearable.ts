@@ -0,0 +1,205 @@
+/**
+ * WEARABLE CORROBORATION
+ *
+ * What a finalized gym session learns from the wearable workouts that
+ * overlap it (api/_lib/wearable.ts finds them and links the result):
+ *
+ *   zone        dominant HR zone during the visit - from the workout's HR
+ *               samples inside the visit, else its device time-in-zone, else
+ *               its average HR
+ *   activity    activity type of the workout covering most of the visit
+ *   calories    each workout's calories, prorated to the part inside the visit
+ *
+ * Zones are % of max HR: Z1 < 60% ≤ Z2 < 70% ≤ Z3 < 80% ≤ Z4 < 90% ≤ Z5.
+ * Max HR is the highest any of the user's workouts recorded, never below
+ * DEFAULT_MAX_HR.
+ *
+ * The link is stored on the session as `wearable`, next to a
+ * wearable_corroboration custody record; the frontend shows it as the
+ * session's wearable proof.
+ */
+
+import type { SessionCandidate } from './schema.js';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HRZone = 'Z1' | 'Z2' | 'Z3' | 'Z4' | 'Z5';
+
+export type ZoneBasis = 'samples' | 'device-zones' | 'average';
+
+export interface WearableLink {
+  workoutIds: string[];       // most overlap first
+  sources: string[];          // every source behind those workouts
+  activityType: string;
+  zone?: HRZone;
+  zoneBasis?: ZoneBasis;
+  calories?: number;          // kcal inside the visit
+  avgHeartRate?: number;
+  coverage: number;           // share of the visit the workouts cover, 0-1
+  linkedAt: number;
+}
+
+// The workout fields fusing reads
+export interface WearableWorkout {
+  id: string;
+  source: string;
+  provenance?: { source: string }[];
+  activityType: string;
+  startTime: number;
+  endTime: number;
+  calories?: number;
+  avgHeartRate?: number;
+  maxHeartRate?: number;
+  hrZones?: number[];         // time in each zone (seconds)
+}
+
+export interface WearableMatch {
+  workout: WearableWorkout;
+  overlapMs: number;
+  heartRate?: number[];       // the workout's HR samples inside the visit
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const HR_ZONES: HRZone[] = ['Z1', 'Z2', 'Z3', 'Z4', 'Z5'];
+
+export const DEFAULT_MAX_HR = 185;
+const MAX_PLAUSIBLE_HR = 220;
+
+// Lower bound of Z2..Z5 as a fraction of max HR
+const ZONE_FLOORS = [0.6, 0.7, 0.8, 0.9];
+
+// ============================================
+// HELPERS
+// ============================================
+
+/** The visit a session covers, in ms. */
+export function visitWindow(session: SessionCandidate): { start: number; end: number } {
+  return { start: session.createdAt, end: session.endedAt ?? session.createdAt + (session.duration ?? 0) * 60_000 };
+}
+
+export function overlapMs(window: { start: number; end: number }, workout: { startTime: number; endTime: number }): number {
+  return Math.max(0, Math.min(window.end, workout.endTime) - Math.max(window.start, workout.startTime));
+}
+
+/** Highest plausible max HR the workouts recorded, or DEFAULT_MAX_HR. */
+export function estimateMaxHr(workouts: { maxHeartRate?: number }[]): number {
+  return workouts.reduce((max, w) => {
+    const hr = w.maxHeartRate ?? 0;
+    return hr <= MAX_PLAUSIBLE_HR && hr > max ? hr : max;
+  }, DEFAULT_MAX_HR);
+}
+
+export function zoneForHeartRate(bpm: number, maxHr: number): HRZone {
+  return HR_ZONES[ZONE_FLOORS.filter(floor => bpm >= floor * maxHr).length];
+}
+
+// traditional_strength_training → Traditional Strength Training
+export function activityLabel(activityType: string): string {
+  return activityType.split(/[_\s]+/).filter(Boolean).map(w => w[0].toUpperCase() + w.slice(1)).join(' ') || 'Workout';
+}
+
+// Ties go to the lower zone
+function busiestZone(time: number[]): HRZone | undefined {
+  let best = -1;
+  time.forEach((t, i) => {
+    if (t > 0 && (best === -1 || t > time[best])) best = i;
+  });
+  return best === -1 ? undefined : HR_ZONES[best];
+}
+
+function dominantZone(matches: WearableMatch[], maxHr: number): { zone: HRZone; basis: ZoneBasis } | undefined {
+  const samples = matches.flatMap(m => m.heartRate ?? []);
+  if (samples.length > 0) {
+    const time = HR_ZONES.map(() => 0);
+    for (const bpm of samples) time[HR_ZONES.indexOf(zoneForHeartRate(bpm, maxHr))]++;
+    const zone = busiestZone(time);
+    if (zone) return { zone, basis: 'samples' };
+  }
+
+  // Device zones cover the whole workout; weigh each by how much of it was the visit
+  const time = HR_ZONES.map(() => 0);
+  for (const { workout, overlapMs } of matches) {
+    const share = overlapMs / Math.max(workout.endTime - workout.startTime, 1);
+    workout.hrZones?.forEach((t, i) => {
+      time[Math.min(i, HR_ZONES.length - 1)] += t * share;
+    });
+  }
+  const zone = busiestZone(time);
+  if (zone) return { zone, basis: 'device-zones' };
+
+  const average = averageHeartRate(matches);
+  return average === undefined ? undefined : { zone: zoneForHeartRate(average, maxHr), basis: 'average' };
+}
+
+// Samples when there are any, else the workouts' averages weighted by overlap
+function averageHeartRate(matches: WearableMatch[]): number | undefined {
+  const samples = matches.flatMap(m => m.heartRate ?? []);
+  if (samples.length > 0) return Math.round(samples.reduce((sum, v) => sum + v, 0) / samples.length);
+
+  const rated = matches.filter(m => m.workout.avgHeartRate);
+  const weight = rated.reduce((sum, m) => sum + m.overlapMs, 0);
+  if (weight === 0) return undefined;
+  return Math.round(rated.reduce((sum, m) => sum + m.workout.avgHeartRate! * m.overlapMs, 0) / weight);
+}
+
+// ============================================
+// FUSION
+// ============================================
+
+/** Fuse the workouts overlapping a visit; null when none do. */
+export function fuseWearable(
+  window: { start: number; end: number },
+  matches: WearableMatch[],
+  maxHr: number,
+  at: number,
+): WearableLink | null {
+  const overlapping = matches.filter(m => m.overlapMs > 0).sort((a, b) => b.overlapMs - a.overlapMs);
+  if (overlapping.length === 0) return null;
+
+  const zone = dominantZone(overlapping, maxHr);
+  const calories = overlapping.reduce<number | undefined>((sum, { workout, overlapMs }) => {
+    if (!workout.calories) return sum;
+    const share = Math.min(1, overlapMs / Math.max(workout.endTime - workout.startTime, 1));
+    return (sum ?? 0) + workout.calories * share;
+  }, undefined);
+  const avgHeartRate = averageHeartRate(overlapping);
+  const covered = overlapping.reduce((sum, m) => sum + m.overlapMs, 0);
+
+  return {
+    workoutIds: overlapping.map(m => m.workout.id),
+    sources: [...new Set(overlapping.flatMap(m => m.workout.provenance?.map(p => p.source) ?? [m.workout.source]))],
+    activityType: overlapping[0].workout.activityType,
+    ...(zone && { zone: zone.zone, zoneBasis: zone.basis }),
+    ...(calories !== undefined && { calories: Math.round(calories) }),
+    ...(avgHeartRate !== undefined && { avgHeartRate }),
+    coverage: Math.round(Math.min(1, covered / Math.max(window.end - window.start, 1)) * 100) / 100,
+    linkedAt: at,
+  };
+}
+
+/** One-line summary for the custody event and the proof row. */
+export function wearableNote(link: WearableLink): string {
+  return [
+    activityLabel(link.activityType),
+    link.zone && `${link.zone}${link.avgHeartRate ? ` (avg ${link.avgHeartRate} bpm)` : ''}`,
+    link.calories !== undefined && `${link.calories} kcal`,
+    `${Math.round(link.coverage * 100)}% of visit`,
+    link.sources.join(' + '),
+  ].filter(Boolean).join(' · ');
+}
+
+export function isWearableLink(value: unknown): value is WearableLink {
+  if (typeof value !== 'object' || value === null) return false;
+  const link = value as Record<string, unknown>;
+  return Array.isArray(link.workoutIds)
+    && Array.isArray(link.sources)
+    && typeof link.activityType === 'string'
+    && (link.zone === undefined || (HR_ZONES as unknown[]).includes(link.zone))
+    && typeof link.coverage === 'number'
+    && typeof link.linkedAt === 'number';
+}
@@ -4,9 +4,12 @@
  */
 
 import { useState, useCallback, useEffect } from 'react';
-import type { ViewType, VerifiedTransaction } from './types';
+import type { Device, ProofVerification, ScoreHistoryEntry, TimeRangePreset, TrustProfile as TrustProfileData, ViewType, VerifiedTransaction } from './types';
 import { isLiveMode } from './config';
-import type { DataSource } from './services/dataService';
+import type { BeaconEvidence, DataSource, ScoreResult } from './services/dataService';
+import * as authService from './services/authService';
+import type { Account, AuthReply, AuthResult, RecoveryType } from './services/authService';
+import { fetchPasskeyDevices, isPasskeySupported, registerPasskey, signInWithPasskey } from './services/passkeyService';
 
 // Auth Screens
 import { Splash } from './screens/Splash';
@@ -33,7 +36,14 @@ import { BottomNav } from './components/navigation/BottomNav';
 
 // Data Service (demo mode = mock data, live mode = real API + mock fallback)
 import {
+  confirmGate,
+  fileAppeal,
+  verifySessionProof,
   fetchTransactions,
+  fetchScore,
+  fetchScoreHistory,
+  fetchTrustProfile,
+  fetchGAVLLayers,
   getUser,
   getGAVLLayers,
   getSystemHealth,
@@ -43,7 +53,6 @@ import {
   getTrainingStatus,
   getWeeklyMetrics,
   getZoneDistribution,
-  getScoreHistory,
   getActivityCalendar,
   getWeeklyTrends,
   getEquityStatements,
@@ -51,19 +60,25 @@ import {
   getRecentPETransactions,
 } from './services/dataService';
 
-import { COLORS, DEMO_CREDENTIALS } from './constants';
+import { COLORS } from './constants';
+
+function readRecoveryCode(): string | null {
+  return new URLSearchParams(window.location.search).get('recover');
+}
 
 function App() {
   // Auth state
   const [showSplash, setShowSplash] = useState(true);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [hasCompletedOnboarding, setHasCompletedOnboarding] = useState(false);
+  const [sessionChecked, setSessionChecked] = useState(false);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [recoveryCode, setRecoveryCode] = useState(readRecoveryCode);
+  const isAuthenticated = account !== null;
+  const hasCompletedOnboarding = account?.onboardingCompleted ?? false;
 
   const [currentView, setCurrentView] = useState<ViewType>('overview');
 
   // Data from service layer
   const user = getUser();
-  const gavlLayers = getGAVLLayers();
   const systemHealth = getSystemHealth();
   const gateDistribution = getGateDistribution();
   const congruencyResult = getCongruencyResult();
@@ -76,43 +91,115 @@ function App() {
   const recentPETransactions = getRecentPETransactions();
 
   // Generate data once
-  const [scoreHistory] = useState(() => getScoreHistory());
   const [activityCalendar] = useState(() => getActivityCalendar());
   const [weeklyTrends] = useState(() => getWeeklyTrends());
 
   // Transactions: stateful in live mode (fetched from API)
   const [transactions, setTransactions] = useState<VerifiedTransaction[]>([]);
   const [dataSource, setDataSource] = useState<DataSource>('mock');
-
+  const [latestBeacon, setLatestBeacon] = useState<BeaconEvidence | null>(null);
+  const [passkeyDevices, setPasskeyDevices] = useState<Device[]>([]);
+  const [scoreResult, setScoreResult] = useState<ScoreResult | null>(null);
+  const [scoreRange, setScoreRange] = useState<TimeRangePreset>('90d');
+  const [scoreHistory, setScoreHistory] = useState<ScoreHistoryEntry[]>([]);
+  const [trust, setTrust] = useState<TrustProfileData>(user.trust);
+  const [gavlLayers, setGavlLayers] = useState(getGAVLLayers);
+
+  // Resume a signed-in session (live mode cookie) behind the splash screen
   useEffect(() => {
-    fetchTransactions().then(result => {
-      setTransactions(result.transactions);
-      setDataSource(result.source);
+    authService.restoreSession().then(restored => {
+      setAccount(restored);
+      setSessionChecked(true);
     });
   }, []);
 
+  // Trust first: its tier multiplier sets the PE each session earned
+  const loadTransactions = useCallback(() => {
+    fetchTrustProfile()
+      .then(profile => {
+        setTrust(profile);
+        return fetchTransactions(profile.multiplier);
+      })
+      .then(result => {
+        setTransactions(result.transactions);
+        setDataSource(result.source);
+        setLatestBeacon(result.latestBeacon);
+      });
+  }, []);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [account?.userId, loadTransactions]);
+
+  useEffect(() => {
+    fetchScore().then(setScoreResult);
+  }, [account?.userId]);
+
+  useEffect(() => {
+    fetchGAVLLayers().then(setGavlLayers);
+  }, [account?.userId]);
+
+  useEffect(() => {
+    fetchScoreHistory(scoreRange).then(setScoreHistory);
+  }, [account?.userId, scoreRange]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchPasskeyDevices().then(setPasskeyDevices);
+  }, [isAuthenticated]);
+
   // Auth handlers
   const handleSplashComplete = useCallback(() => {
     setShowSplash(false);
   }, []);
 
-  const handleLogin = useCallback(async (email: string, password: string): Promise<boolean> => {
-    // Simulate authentication delay
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  const acceptAuth = useCallback((result: AuthResult): AuthReply => {
+    if (!result.ok) return result;
+    setAccount(result.account);
+    return { ok: true };
+  }, []);
+
+  const handleLogin = useCallback(async (email: string, password: string): Promise<AuthReply> => {
+    return acceptAuth(await authService.login(email, password));
+  }, [acceptAuth]);
 
-    if (email === DEMO_CREDENTIALS.email && password === DEMO_CREDENTIALS.password) {
-      setIsAuthenticated(true);
-      return true;
-    }
-    return false;
+  const handleRegister = useCallback(async (email: string, password: string, name: string): Promise<AuthReply> => {
+    return acceptAuth(await authService.register(email, password, name));
+  }, [acceptAuth]);
+
+  const handlePasskeyLogin = useCallback(async (): Promise<AuthReply> => {
+    return acceptAuth(await signInWithPasskey());
+  }, [acceptAuth]);
+
+  const handleAddPasskey = useCallback(async (): Promise<AuthReply> => {
+    const reply = await registerPasskey();
+    if (reply.ok) setPasskeyDevices(await fetchPasskeyDevices());
+    return reply;
   }, []);
 
-  const handleOnboardingComplete = useCallback(() => {
-    setHasCompletedOnboarding(true);
+  const handleRequestRecovery = useCallback((email: string, type: RecoveryType): Promise<AuthReply> => {
+    return authService.requestRecovery(email, type);
   }, []);
 
+  const handleResetPassword = useCallback(async (code: string, password: string): Promise<AuthReply> => {
+    const reply = acceptAuth(await authService.resetPassword(code, password));
+    if (reply.ok) {
+      // Single-use code: drop it from the address bar
+      window.history.replaceState(null, '', window.location.pathname);
+      setRecoveryCode(null);
+    }
+    return reply;
+  }, [acceptAuth]);
+
+  const handleOnboardingComplete = useCallback(async (): Promise<AuthReply> => {
+    if (!account) return { ok: false, error: 'Please sign in again.' };
+    return acceptAuth(await authService.completeOnboarding(account));
+  }, [account, acceptAuth]);
+
   const handleSignOut = useCallback(() => {
-    setIsAuthenticated(false);
+    authService.logout();
+    setAccount(null);
+    setPasskeyDevices([]);
     setCurrentView('overview');
   }, []);
 
@@ -123,6 +210,27 @@ function App() {
     window.scrollTo(0, 0);
   }, []);
 
+  // Confirm-gate answers move the session (and trust) - reload both
+  const handleConfirmGate = useCallback((transaction: VerifiedTransaction, accept: boolean) => {
+    if (!transaction.sessionId) return;
+    confirmGate(transaction.sessionId, accept ? 'accept' : 'reject').then(recorded => {
+      if (recorded) loadTransactions();
+    });
+  }, [loadTransactions]);
+
+  const handleFileAppeal = useCallback(async (transaction: VerifiedTransaction, reason: string, files: File[]) => {
+    if (!transaction.sessionId) return 'This session cannot be appealed.';
+    const error = await fileAppeal(transaction.sessionId, reason, files);
+    if (!error) loadTransactions();
+    return error;
+  }, [loadTransactions]);
+
+  const handleVerifyProof = useCallback((transaction: VerifiedTransaction): Promise<ProofVerification> => {
+    if (!transaction.sessionId) return Promise.resolve({ ok: false, error: 'Only live sessions carry proofs.' });
+    if (!transaction.merkleRoot) return Promise.resolve({ ok: false, error: 'This session has no sealed custody root.' });
+    return verifySessionProof(transaction.sessionId, transaction.merkleRoot);
+  }, []);
+
   // Session handlers
   const handleStartSession = useCallback(() => {
     setCurrentView('session-active');
@@ -132,6 +240,17 @@ function App() {
     setCurrentView('overview');
   }, []);
 
+  const loginScreen = (
+    <Login
+      onLogin={handleLogin}
+      onPasskeyLogin={isPasskeySupported() ? handlePasskeyLogin : undefined}
+      onRegister={handleRegister}
+      onRequestRecovery={handleRequestRecovery}
+      onResetPassword={handleResetPassword}
+      recoveryCode={recoveryCode}
+    />
+  );
+
   // Render current view
   const renderView = () => {
     switch (currentView) {
@@ -143,15 +262,21 @@ function App() {
             transactions={transactions}
             systemHealth={systemHealth}
             onNavigate={handleNavigate}
+            onConfirmGate={handleConfirmGate}
+            onFileAppeal={handleFileAppeal}
+            onVerifyProof={handleVerifyProof}
           />
         );
 
       case 'score':
         return (
           <ScoreAnalysis
-            score={user.pes}
-            factors={user.scoreFactors}
+            score={scoreResult?.score ?? user.pes}
+            factors={scoreResult?.factors ?? user.scoreFactors}
+            basis={scoreResult?.basis}
             history={scoreHistory}
+            range={scoreRange}
+            onRangeChange={setScoreRange}
             onNavigate={handleNavigate}
           />
         );
@@ -161,6 +286,7 @@ function App() {
           <VerificationProtocol
             layers={gavlLayers}
             gateDistribution={gateDistribution}
+            recentSession={transactions.find(t => t.scsBreakdown)}
             onNavigate={handleNavigate}
           />
         );
@@ -192,6 +318,9 @@ function App() {
           <TransactionLedger
             transactions={transactions}
             onNavigate={handleNavigate}
+            onConfirmGate={handleConfirmGate}
+            onFileAppeal={handleFileAppeal}
+            onVerifyProof={handleVerifyProof}
           />
         );
 
@@ -201,6 +330,7 @@ function App() {
           <SessionInitiation
             onNavigate={handleNavigate}
             onStartSession={handleStartSession}
+            beaconEvidence={latestBeacon}
           />
         );
 
@@ -216,7 +346,9 @@ function App() {
       case 'trust':
         return (
           <TrustProfile
-            trust={user.trust}
+            trust={trust}
+            passkeyDevices={passkeyDevices}
+            onAddPasskey={isPasskeySupported() ? handleAddPasskey : undefined}
             onNavigate={handleNavigate}
           />
         );
@@ -236,7 +368,7 @@ function App() {
             peBalance={peBalance}
             recentTransactions={recentPETransactions}
             pesScore={user.pes}
-            trustTier={user.trust.tier}
+            trustTier={trust.tier}
             onNavigate={handleNavigate}
           />
         );
@@ -245,7 +377,7 @@ function App() {
         return <Splash onComplete={handleSplashComplete} />;
 
       case 'login':
-        return <Login onLogin={handleLogin} />;
+        return loginScreen;
 
       case 'onboarding':
         return <Onboarding onComplete={handleOnboardingComplete} />;
@@ -258,18 +390,21 @@ function App() {
             transactions={transactions}
             systemHealth={systemHealth}
             onNavigate={handleNavigate}
+            onConfirmGate={handleConfirmGate}
+            onFileAppeal={handleFileAppeal}
+            onVerifyProof={handleVerifyProof}
           />
         );
     }
   };
 
   // Auth flow: Splash → Login → Onboarding → Main App
-  if (showSplash) {
+  if (showSplash || !sessionChecked) {
     return <Splash onComplete={handleSplashComplete} />;
   }
 
   if (!isAuthenticated) {
-    return <Login onLogin={handleLogin} />;
+    return loginScreen;
   }
 
   if (!hasCompletedOnboarding) {
@@ -4,16 +4,41 @@
  */
 
 import { useState } from 'react';
-import type { VerifiedTransaction, SessionProof, CustodyEvent } from '../../types';
-import { COLORS, HR_ZONE_LABELS, GATE_LABELS, ANCHOR_LABELS } from '../../constants';
+import type { VerifiedTransaction, SessionProof, CustodyEvent, ProofVerification } from '../../types';
+import {
+  COLORS,
+  HR_ZONE_LABELS,
+  GATE_LABELS,
+  ANCHOR_LABELS,
+  APPEAL_ATTACHMENT_TYPES,
+  MAX_APPEAL_ATTACHMENTS,
+  MAX_REASON_LENGTH,
+  MIN_REASON_LENGTH,
+} from '../../constants';
 
 interface TransactionRowProps {
   transaction: VerifiedTransaction;
   expanded?: boolean;
   onToggle?: () => void;
   showFullDetails?: boolean;
-  onAppealLiveness?: (transactionId: string) => void;
-  isAppealed?: boolean;
+  onFileAppeal?: (transaction: VerifiedTransaction, reason: string, files: File[]) => Promise<string | null>;
+  onConfirmGate?: (transaction: VerifiedTransaction, accept: boolean) => void;
+  onVerifyProof?: (transaction: VerifiedTransaction) => Promise<ProofVerification>;
+}
+
+// "6–7pm" / "11:30am–12:15pm"
+function formatVisitWindow(start: number, durationMinutes: number): string {
+  const format = (ts: number) => {
+    const date = new Date(ts);
+    const hours = date.getHours() % 12 || 12;
+    const minutes = date.getMinutes();
+    return { time: minutes ? `${hours}:${String(minutes).padStart(2, '0')}` : `${hours}`, suffix: date.getHours() < 12 ? 'am' : 'pm' };
+  };
+  const from = format(start);
+  const to = format(start + durationMinutes * 60 * 1000);
+  return from.suffix === to.suffix
+    ? `${from.time}–${to.time}${to.suffix}`
+    : `${from.time}${from.suffix}–${to.time}${to.suffix}`;
 }
 
 export function TransactionRow({
@@ -21,8 +46,9 @@ export function TransactionRow({
   expanded = false,
   onToggle,
   showFullDetails = false,
-  onAppealLiveness,
-  isAppealed = false,
+  onFileAppeal,
+  onConfirmGate,
+  onVerifyProof,
 }: TransactionRowProps) {
   const [internalExpanded, setInternalExpanded] = useState(false);
 
@@ -94,6 +120,7 @@ export function TransactionRow({
               <span style={{ color: COLORS.zones[transaction.zone] }}>
                 {transaction.zone} {zoneInfo.name}
               </span>
+              {transaction.calories !== undefined && <span>{transaction.calories} kcal</span>}
               <span>{transaction.location.name}</span>
             </div>
           </div>
@@ -149,14 +176,16 @@ export function TransactionRow({
         </div>
 
         {/* Merkle Root Preview */}
-        <div className="mt-2">
-          <span
-            className="text-xs font-mono"
-            style={{ color: COLORS.textMuted }}
-          >
-            Merkle: <span style={{ color: COLORS.accent }}>{transaction.merkleRoot.slice(0, 12)}...</span>
-          </span>
-        </div>
+        {transaction.merkleRoot && (
+          <div className="mt-2">
+            <span
+              className="text-xs font-mono"
+              style={{ color: COLORS.textMuted }}
+            >
+              Merkle: <span style={{ color: COLORS.accent }}>{transaction.merkleRoot.slice(0, 12)}...</span>
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Expanded Details */}
@@ -198,134 +227,59 @@ export function TransactionRow({
           </div>
 
           {/* Full Merkle Root */}
-          <div className="mb-4">
-            <h4
-              className="text-xs font-mono font-semibold uppercase tracking-wider mb-1"
-              style={{ color: COLORS.textSecondary }}
-            >
-              MERKLE ROOT
-            </h4>
-            <code
-              className="text-xs font-mono break-all"
-              style={{ color: COLORS.accent }}
-            >
-              {transaction.merkleRoot}
-            </code>
-          </div>
+          {transaction.merkleRoot && (
+            <MerkleRootSection transaction={transaction} onVerifyProof={onVerifyProof} />
+          )}
 
-          {/* Quarantine Appeal Section */}
-          {transaction.gate === 'quarantine' && !isAppealed && (
+          {/* Confirm-Gate Prompt */}
+          {transaction.confirmBy !== undefined && (
             <div
               className="p-4 rounded-lg border mt-4"
               style={{
                 backgroundColor: COLORS.background,
-                borderColor: COLORS.gates.quarantine + '40',
+                borderColor: COLORS.gates.confirm + '40',
               }}
             >
-              <div className="flex items-start gap-3">
-                <div
-                  className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0"
-                  style={{ backgroundColor: COLORS.gates.quarantine + '20' }}
-                >
-                  <svg
-                    width="20"
-                    height="20"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke={COLORS.gates.quarantine}
-                    strokeWidth="2"
-                  >
-                    <circle cx="12" cy="12" r="10" />
-                    <line x1="12" y1="8" x2="12" y2="12" />
-                    <line x1="12" y1="16" x2="12.01" y2="16" />
-                  </svg>
-                </div>
-                <div className="flex-1">
-                  <h4
-                    className="text-sm font-mono font-semibold mb-1"
-                    style={{ color: COLORS.gates.quarantine }}
-                  >
-                    Session Quarantined
-                  </h4>
-                  <p
-                    className="text-xs font-mono mb-3"
-                    style={{ color: COLORS.textMuted }}
-                  >
-                    This session was flagged due to insufficient verification signals.
-                    You can appeal by completing a liveness check to verify your identity.
-                  </p>
+              <h4
+                className="text-sm font-mono font-semibold mb-1"
+                style={{ color: COLORS.gates.confirm }}
+              >
+                Were you at {transaction.location.name} {formatVisitWindow(transaction.timestamp, transaction.duration)}?
+              </h4>
+              <p
+                className="text-xs font-mono mb-3"
+                style={{ color: COLORS.textMuted }}
+              >
+                Signals were not strong enough to verify this session automatically.
+                Unconfirmed sessions move to quarantine on {formatTimestamp(transaction.confirmBy)}.
+              </p>
+              <div className="flex gap-2">
+                {[true, false].map(accept => (
                   <button
+                    key={String(accept)}
                     type="button"
                     onClick={(e) => {
-                      e.preventDefault();
-                      e.stopPropagation();
-                      if (onAppealLiveness) {
-                        onAppealLiveness(transaction.id);
-                      }
-                    }}
-                    onTouchEnd={(e) => {
-                      e.preventDefault();
                       e.stopPropagation();
-                      if (onAppealLiveness) {
-                        onAppealLiveness(transaction.id);
-                      }
+                      onConfirmGate?.(transaction, accept);
                     }}
                     className="px-4 py-2 rounded font-mono text-sm font-semibold transition-all active:opacity-70"
                     style={{
-                      backgroundColor: COLORS.accent,
-                      color: COLORS.background,
+                      backgroundColor: accept ? COLORS.accent : 'transparent',
+                      color: accept ? COLORS.background : COLORS.textSecondary,
+                      border: accept ? 'none' : `1px solid ${COLORS.border}`,
                       cursor: 'pointer',
-                      WebkitTapHighlightColor: 'transparent',
                     }}
                   >
-                    Appeal with Liveness Check
+                    {accept ? 'Yes, I was there' : 'No'}
                   </button>
-                </div>
+                ))}
               </div>
             </div>
           )}
 
-          {/* Appealed Success Message */}
-          {transaction.gate === 'quarantine' && isAppealed && (
-            <div
-              className="p-4 rounded-lg border mt-4"
-              style={{
-                backgroundColor: COLORS.success + '10',
-                borderColor: COLORS.success + '40',
-              }}
-            >
-              <div className="flex items-center gap-3">
-                <div
-                  className="w-10 h-10 rounded-full flex items-center justify-center"
-                  style={{ backgroundColor: COLORS.success + '20' }}
-                >
-                  <svg
-                    width="20"
-                    height="20"
-                    viewBox="0 0 24 24"
-                    fill="none"
-                    stroke={COLORS.success}
-                    strokeWidth="2"
-                  >
-                    <path d="M20 6L9 17l-5-5" />
-                  </svg>
-                </div>
-                <div>
-                  <h4
-                    className="text-sm font-mono font-semibold"
-                    style={{ color: COLORS.success }}
-                  >
-                    Appeal Approved
-                  </h4>
-                  <p
-                    className="text-xs font-mono"
-                    style={{ color: COLORS.textSecondary }}
-                  >
-                    Liveness verified. Session upgraded to CONFIRMED. PES pending credit.
-                  </p>
-                </div>
-              </div>
-            </div>
+          {/* Quarantine Appeal */}
+          {(transaction.appeal || transaction.appealable) && (
+            <AppealSection transaction={transaction} onFileAppeal={onFileAppeal} />
           )}
         </div>
       )}
@@ -333,6 +287,178 @@ export function TransactionRow({
   );
 }
 
+/**
+ * AppealSection - File a quarantine appeal, or follow one already filed
+ */
+function AppealSection({
+  transaction,
+  onFileAppeal,
+}: {
+  transaction: VerifiedTransaction;
+  onFileAppeal?: (transaction: VerifiedTransaction, reason: string, files: File[]) => Promise<string | null>;
+}) {
+  const [reason, setReason] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { appeal } = transaction;
+  if (appeal) {
+    const status = {
+      open: { color: COLORS.warning, title: 'Appeal Under Review', detail: 'PE is held until a reviewer decides.' },
+      approved: { color: COLORS.success, title: 'Appeal Approved', detail: 'Session moved to CONFIRM. PE released.' },
+      denied: { color: COLORS.error, title: 'Appeal Denied', detail: 'Session stays quarantined. PE forfeited.' },
+    }[appeal.status];
+
+    return (
+      <div
+        className="p-4 rounded-lg border mt-4"
+        style={{
+          backgroundColor: status.color + '10',
+          borderColor: status.color + '40',
+        }}
+      >
+        <h4 className="text-sm font-mono font-semibold" style={{ color: status.color }}>
+          {status.title}
+        </h4>
+        <p className="text-xs font-mono" style={{ color: COLORS.textSecondary }}>
+          {appeal.id} · filed {new Date(appeal.filedAt).toLocaleDateString()}. {status.detail}
+        </p>
+        {appeal.decisionNote && (
+          <p className="text-xs font-mono mt-1" style={{ color: COLORS.textMuted }}>
+            Reviewer: {appeal.decisionNote}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const handleSubmit = async () => {
+    if (!onFileAppeal) return;
+    setSubmitting(true);
+    setError(await onFileAppeal(transaction, reason, files));
+    setSubmitting(false);
+  };
+
+  return (
+    <div
+      className="p-4 rounded-lg border mt-4"
+      style={{
+        backgroundColor: COLORS.background,
+        borderColor: COLORS.gates.quarantine + '40',
+      }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <h4
+        className="text-sm font-mono font-semibold mb-1"
+        style={{ color: COLORS.gates.quarantine }}
+      >
+        Session Quarantined
+      </h4>
+      <p
+        className="text-xs font-mono mb-3"
+        style={{ color: COLORS.textMuted }}
+      >
+        This session was flagged due to insufficient verification signals. You can appeal it once:
+        explain what happened and attach up to {MAX_APPEAL_ATTACHMENTS} files (photo, receipt, wearable export).
+      </p>
+      <textarea
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        maxLength={MAX_REASON_LENGTH}
+        rows={3}
+        placeholder="What happened during this session?"
+        className="w-full p-2 mb-2 rounded border text-xs font-mono"
+        style={{ backgroundColor: COLORS.surface, borderColor: COLORS.border, color: COLORS.textPrimary }}
+      />
+      <input
+        type="file"
+        multiple
+        accept={APPEAL_ATTACHMENT_TYPES.join(',')}
+        onChange={(e) => setFiles(Array.from(e.target.files ?? []).slice(0, MAX_APPEAL_ATTACHMENTS))}
+        className="block w-full mb-3 text-xs font-mono"
+        style={{ color: COLORS.textSecondary }}
+      />
+      {error && (
+        <p className="text-xs font-mono mb-2" style={{ color: COLORS.error }}>
+          {error}
+        </p>
+      )}
+      <button
+        type="button"
+        disabled={submitting || reason.trim().length < MIN_REASON_LENGTH}
+        onClick={handleSubmit}
+        className="px-4 py-2 rounded font-mono text-sm font-semibold transition-all active:opacity-70 disabled:opacity-40"
+        style={{
+          backgroundColor: COLORS.accent,
+          color: COLORS.background,
+          cursor: 'pointer',
+        }}
+      >
+        {submitting ? 'Submitting...' : 'Submit Appeal'}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * MerkleRootSection - Full root, with client-side verification of the session's inclusion proofs
+ */
+function MerkleRootSection({
+  transaction,
+  onVerifyProof,
+}: {
+  transaction: VerifiedTransaction;
+  onVerifyProof?: (transaction: VerifiedTransaction) => Promise<ProofVerification>;
+}) {
+  const [verifying, setVerifying] = useState(false);
+  const [result, setResult] = useState<ProofVerification | null>(null);
+
+  const handleVerify = async () => {
+    if (!onVerifyProof) return;
+    setVerifying(true);
+    setResult(await onVerifyProof(transaction));
+    setVerifying(false);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-1">
+        <h4
+          className="text-xs font-mono font-semibold uppercase tracking-wider"
+          style={{ color: COLORS.textSecondary }}
+        >
+          MERKLE ROOT
+        </h4>
+        {onVerifyProof && transaction.sessionId && (
+          <button
+            type="button"
+            disabled={verifying}
+            onClick={handleVerify}
+            className="px-2 py-0.5 rounded border font-mono text-xs transition-all active:opacity-70 disabled:opacity-40"
+            style={{ borderColor: COLORS.accent + '40', color: COLORS.accent, cursor: 'pointer' }}
+          >
+            {verifying ? 'Verifying...' : 'Verify'}
+          </button>
+        )}
+      </div>
+      <code
+        className="text-xs font-mono break-all"
+        style={{ color: COLORS.accent }}
+      >
+        {transaction.merkleRoot}
+      </code>
+      {result && (
+        <p className="text-xs font-mono mt-1" style={{ color: result.ok ? COLORS.success : COLORS.error }}>
+          {result.ok
+            ? `✓ ${result.verified} event${result.verified === 1 ? '' : 's'} verified against this root`
+            : `✗ ${result.error}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
 /**
  * ProofChip - Small inline proof status indicator
  */
@@ -390,6 +516,9 @@ function CustodyRow({ event }: { event: CustodyEvent }) {
       <span style={{ color: COLORS.textPrimary }}>{event.event}</span>
       <span style={{ color: COLORS.border }}>│</span>
       <span style={{ color: COLORS.textSecondary }}>{event.type}</span>
+      {event.hash && (
+        <span style={{ color: COLORS.textMuted }} title={event.hash}>{event.hash.slice(0, 8)}</span>
+      )}
     </div>
   );
 }
@@ -89,39 +89,24 @@ export const COLORS = {
 // SCORE CONFIGURATION
 // ============================================
 
-export const SCORE_TIERS: Record<ScoreTier, { min: number; max: number; label: string }> = {
-  exceptional: { min: 850, max: 999, label: 'EXCEPTIONAL' },
-  excellent: { min: 700, max: 849, label: 'EXCELLENT' },
-  good: { min: 500, max: 699, label: 'GOOD' },
-  building: { min: 300, max: 499, label: 'BUILDING' },
-  establishing: { min: 0, max: 299, label: 'ESTABLISHING' },
-};
-
-export const SCORE_FACTOR_WEIGHTS: Record<string, number> = {
-  effort: 35,
-  consistency: 25,
-  verification: 25,
-  trust: 15,
-};
-
-export const SCORE_FACTOR_NAMES: Record<string, string> = {
-  effort: 'EFFORT VOLUME',
-  consistency: 'CONSISTENCY INDEX',
-  verification: 'VERIFICATION INTEGRITY',
-  trust: 'TRUST INDEX',
-};
+// Owned by the scoring engine (shared/score.ts)
+export { SCORE_TIERS, SCORE_FACTOR_WEIGHTS, SCORE_FACTOR_NAMES } from '../../shared/score';
 
 // ============================================
 // TRUST CONFIGURATION
 // ============================================
 
-export const TRUST_TIERS: Record<TrustTier, { min: number; minScore: number; multiplier: number; label: string; color: string }> = {
-  platinum: { min: 95, minScore: 95, multiplier: 1.0, label: 'PLATINUM', color: '#E5E4E2' },
-  gold: { min: 85, minScore: 85, multiplier: 0.9, label: 'GOLD', color: '#FFD700' },
-  silver: { min: 70, minScore: 70, multiplier: 0.75, label: 'SILVER', color: '#C0C0C0' },
-  grey: { min: 50, minScore: 50, multiplier: 0.5, label: 'GREY', color: '#808080' },
-  red: { min: 0, minScore: 0, multiplier: 0.0, label: 'RED', color: '#DC143C' },
-};
+// Owned by the trust engine (shared/trust.ts)
+export { TRUST_TIERS } from '../../shared/trust';
+
+// Owned by the appeal workflow (shared/appeal.ts)
+export {
+  APPEAL_ATTACHMENT_TYPES,
+  MAX_APPEAL_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  MAX_REASON_LENGTH,
+  MIN_REASON_LENGTH,
+} from '../../shared/appeal';
 
 // ============================================
 // GAVL LAYER CONFIGURATION
@@ -142,6 +127,9 @@ export const ANCHOR_CONFIDENCE: Record<string, number> = {
   geo: 0.50,
 };
 
+// Owned by the SCS calculator (shared/scs.ts)
+export { SCS_WEIGHTS, SCS_LABELS } from '../../shared/scs';
+
 export const ANCHOR_LABELS: Record<string, string> = {
   nfc: 'NFC/RFID',
   ble: 'BLE Keys',
@@ -154,10 +142,7 @@ export const ANCHOR_LABELS: Record<string, string> = {
 // SESSION CONFIGURATION
 // ============================================
 
-export const GATE_THRESHOLDS = {
-  auto: 0.80,
-  confirm: 0.50,
-};
+export { GATE_THRESHOLDS } from '../../shared/score';
 
 export const GATE_LABELS: Record<GateType, string> = {
   auto: 'AUTO',
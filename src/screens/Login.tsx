@@ -1,87 +1,158 @@
 /**
  * Login - Secure authentication screen
- * Bank-grade login with password recovery options
+ * Bank-grade login with account creation and password recovery
  */
 
 import { useState } from 'react';
+import { isDemoMode } from '../config';
 import { COLORS, DEMO_CREDENTIALS } from '../constants';
+import type { AuthReply, RecoveryType } from '../services/authService';
 
 interface LoginProps {
-  onLogin: (email: string, password: string) => Promise<boolean>;
+  onLogin: (email: string, password: string) => Promise<AuthReply>;
+  /** Present when the browser supports passkeys */
+  onPasskeyLogin?: () => Promise<AuthReply>;
+  onRegister: (email: string, password: string, name: string) => Promise<AuthReply>;
+  onRequestRecovery: (email: string, type: RecoveryType) => Promise<AuthReply>;
+  onResetPassword: (code: string, password: string) => Promise<AuthReply>;
+  /** Code from an emailed reset link; opens the new-password form */
+  recoveryCode?: string | null;
 }
 
-type LoginMode = 'signin' | 'forgot-password' | 'forgot-username';
+type LoginMode = 'signin' | 'register' | 'forgot-password' | 'forgot-username' | 'reset-password';
 
-export function Login({ onLogin }: LoginProps) {
-  const [mode, setMode] = useState<LoginMode>('signin');
-  const [email, setEmail] = useState(DEMO_CREDENTIALS.email);
-  const [password, setPassword] = useState(DEMO_CREDENTIALS.password);
+const MIN_PASSWORD_LENGTH = 10;
+
+export function Login({ onLogin, onPasskeyLogin, onRegister, onRequestRecovery, onResetPassword, recoveryCode }: LoginProps) {
+  const [mode, setMode] = useState<LoginMode>(recoveryCode ? 'reset-password' : 'signin');
+  const [email, setEmail] = useState(isDemoMode ? DEMO_CREDENTIALS.email : '');
+  const [password, setPassword] = useState(isDemoMode ? DEMO_CREDENTIALS.password : '');
+  const [name, setName] = useState('');
+  const [recoveryEmail, setRecoveryEmail] = useState('');
   const [error, setError] = useState('');
   const [successMsg, setSuccessMsg] = useState('');
   const [isLoading, setIsLoading] = useState(false);
 
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError('');
+    setSuccessMsg('');
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    if ((mode === 'register' || mode === 'reset-password') && password.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    setIsLoading(true);
+    const reply =
+      mode === 'register' ? await onRegister(email, password, name.trim())
+      : mode === 'reset-password' && recoveryCode ? await onResetPassword(recoveryCode, password)
+      : await onLogin(email, password);
+    if (!reply.ok) {
+      setError(reply.error);
+    }
+    setIsLoading(false);
+  };
+
+  const handlePasskey = async () => {
+    if (!onPasskeyLogin) return;
+    setError('');
     setIsLoading(true);
-    const success = await onLogin(email, password);
-    if (!success) {
-      setError('Invalid credentials. Please try again.');
+    const reply = await onPasskeyLogin();
+    if (!reply.ok) {
+      setError(reply.error);
     }
     setIsLoading(false);
   };
 
-  const handleRecovery = (e: React.FormEvent) => {
+  const handleRecovery = async (e: React.FormEvent) => {
     e.preventDefault();
+    setError('');
     setIsLoading(true);
-    // Mock recovery logic
-    setTimeout(() => {
-      setSuccessMsg(
-        mode === 'forgot-password'
-          ? 'A reset link has been dispatched to your verified email.'
-          : 'Your registered username has been sent to your primary contact email.'
-      );
-      setIsLoading(false);
-      setTimeout(() => {
-        setMode('signin');
-        setSuccessMsg('');
-      }, 3000);
-    }, 1200);
+    const reply = await onRequestRecovery(recoveryEmail, mode === 'forgot-password' ? 'password' : 'username');
+    setIsLoading(false);
+    if (!reply.ok) {
+      setError(reply.error);
+      return;
+    }
+    setSuccessMsg(reply.message ?? '');
+    setTimeout(() => switchMode('signin'), 3000);
   };
 
+  const renderError = () =>
+    error && (
+      <p
+        className="p-3 rounded-lg mb-4 text-center text-sm"
+        style={{ backgroundColor: COLORS.error + '20', color: COLORS.error }}
+      >
+        {error}
+      </p>
+    );
+
   const renderSignIn = () => (
     <form onSubmit={handleSubmit}>
-      {error && (
-        <p
-          className="p-3 rounded-lg mb-4 text-center text-sm"
-          style={{ backgroundColor: COLORS.error + '20', color: COLORS.error }}
+      {mode !== 'signin' && (
+        <h2
+          className="text-xl font-mono font-bold mb-6"
+          style={{ color: COLORS.textPrimary }}
         >
-          {error}
-        </p>
+          {mode === 'register' ? 'Create Account' : 'Choose a New Password'}
+        </h2>
+      )}
+      {renderError()}
+      {mode === 'register' && (
+        <div className="mb-4">
+          <label
+            className="block mb-2 text-xs font-mono uppercase tracking-widest"
+            style={{ color: COLORS.textMuted }}
+            htmlFor="name"
+          >
+            Name
+          </label>
+          <input
+            type="text"
+            id="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="w-full rounded-lg p-3 font-mono text-sm outline-none transition-all"
+            style={{
+              backgroundColor: COLORS.background,
+              color: COLORS.textPrimary,
+              border: `1px solid ${COLORS.border}`,
+            }}
+            placeholder="Optional"
+            maxLength={80}
+          />
+        </div>
+      )}
+      {mode !== 'reset-password' && (
+        <div className="mb-4">
+          <label
+            className="block mb-2 text-xs font-mono uppercase tracking-widest"
+            style={{ color: COLORS.textMuted }}
+            htmlFor="email"
+          >
+            Email Address
+          </label>
+          <input
+            type="email"
+            id="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full rounded-lg p-3 font-mono text-sm outline-none transition-all"
+            style={{
+              backgroundColor: COLORS.background,
+              color: COLORS.textPrimary,
+              border: `1px solid ${COLORS.border}`,
+            }}
+            placeholder="name@example.com"
+            required
+          />
+        </div>
       )}
-      <div className="mb-4">
-        <label
-          className="block mb-2 text-xs font-mono uppercase tracking-widest"
-          style={{ color: COLORS.textMuted }}
-          htmlFor="email"
-        >
-          Email Address
-        </label>
-        <input
-          type="email"
-          id="email"
-          value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          className="w-full rounded-lg p-3 font-mono text-sm outline-none transition-all"
-          style={{
-            backgroundColor: COLORS.background,
-            color: COLORS.textPrimary,
-            border: `1px solid ${COLORS.border}`,
-          }}
-          placeholder="name@example.com"
-          required
-        />
-      </div>
       <div className="mb-2">
         <div className="flex justify-between items-center mb-2">
           <label
@@ -89,16 +160,18 @@ export function Login({ onLogin }: LoginProps) {
             style={{ color: COLORS.textMuted }}
             htmlFor="password"
           >
-            Security Password
+            {mode === 'signin' ? 'Security Password' : 'New Password'}
           </label>
-          <button
-            type="button"
-            onClick={() => setMode('forgot-password')}
-            className="text-[10px] font-mono uppercase tracking-wider transition-colors"
-            style={{ color: COLORS.textMuted }}
-          >
-            Forgot Password?
-          </button>
+          {mode === 'signin' && (
+            <button
+              type="button"
+              onClick={() => switchMode('forgot-password')}
+              className="text-[10px] font-mono uppercase tracking-wider transition-colors"
+              style={{ color: COLORS.textMuted }}
+            >
+              Forgot Password?
+            </button>
+          )}
         </div>
         <input
           type="password"
@@ -112,18 +185,21 @@ export function Login({ onLogin }: LoginProps) {
             border: `1px solid ${COLORS.border}`,
           }}
           placeholder="••••••••"
+          autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
           required
         />
       </div>
       <div className="flex justify-end mb-6">
-        <button
-          type="button"
-          onClick={() => setMode('forgot-username')}
-          className="text-[10px] font-mono uppercase tracking-wider transition-colors"
-          style={{ color: COLORS.textMuted }}
-        >
-          Forgot Username?
-        </button>
+        {mode === 'signin' && (
+          <button
+            type="button"
+            onClick={() => switchMode('forgot-username')}
+            className="text-[10px] font-mono uppercase tracking-wider transition-colors"
+            style={{ color: COLORS.textMuted }}
+          >
+            Forgot Username?
+          </button>
+        )}
       </div>
       <button
         type="submit"
@@ -135,8 +211,38 @@ export function Login({ onLogin }: LoginProps) {
           opacity: isLoading ? 0.7 : 1,
         }}
       >
-        {isLoading ? 'Authenticating...' : 'Secure Sign In'}
+        {isLoading
+          ? 'Authenticating...'
+          : mode === 'register' ? 'Create Secure Account'
+          : mode === 'reset-password' ? 'Set Password & Sign In'
+          : 'Secure Sign In'}
       </button>
+      {mode === 'signin' && onPasskeyLogin && (
+        <button
+          type="button"
+          onClick={handlePasskey}
+          disabled={isLoading}
+          className="w-full mt-3 py-3 rounded-lg font-mono text-sm font-semibold border transition-all"
+          style={{
+            borderColor: COLORS.accent,
+            color: COLORS.accent,
+            backgroundColor: COLORS.accent + '10',
+            opacity: isLoading ? 0.7 : 1,
+          }}
+        >
+          Sign In with Passkey
+        </button>
+      )}
+      {!isDemoMode && (
+        <button
+          type="button"
+          onClick={() => switchMode(mode === 'signin' ? 'register' : 'signin')}
+          className="w-full mt-4 text-center text-xs font-mono transition-colors"
+          style={{ color: COLORS.textMuted }}
+        >
+          {mode === 'signin' ? 'New here? Create an account' : 'Return to Sign In'}
+        </button>
+      )}
     </form>
   );
 
@@ -156,6 +262,7 @@ export function Login({ onLogin }: LoginProps) {
           ? 'Enter your registered email address to receive a secure password reset link.'
           : 'Enter your registered email address. We will send your username to that account.'}
       </p>
+      {renderError()}
 
       {successMsg ? (
         <div
@@ -181,6 +288,8 @@ export function Login({ onLogin }: LoginProps) {
             <input
               type="email"
               id="recovery-email"
+              value={recoveryEmail}
+              onChange={(e) => setRecoveryEmail(e.target.value)}
               className="w-full rounded-lg p-3 font-mono text-sm outline-none transition-all"
               style={{
                 backgroundColor: COLORS.background,
@@ -208,7 +317,7 @@ export function Login({ onLogin }: LoginProps) {
 
       <button
         type="button"
-        onClick={() => setMode('signin')}
+        onClick={() => switchMode('signin')}
         className="w-full text-center text-xs font-mono transition-colors"
         style={{ color: COLORS.textMuted }}
       >
@@ -251,7 +360,7 @@ export function Login({ onLogin }: LoginProps) {
           </p>
         </div>
 
-        {mode === 'signin' ? renderSignIn() : renderRecovery()}
+        {mode === 'forgot-password' || mode === 'forgot-username' ? renderRecovery() : renderSignIn()}
 
         <div
           className="mt-8 pt-6 text-center border-t"
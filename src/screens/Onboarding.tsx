@@ -5,14 +5,17 @@
 
 import { useState } from 'react';
 import { COLORS } from '../constants';
+import type { AuthReply } from '../services/authService';
 
 interface OnboardingProps {
-  onComplete: () => void;
+  /** Persists completion for the signed-in user */
+  onComplete: () => Promise<AuthReply>;
 }
 
 export function Onboarding({ onComplete }: OnboardingProps) {
   const [step, setStep] = useState(1);
   const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
 
   const handleRegisterDevice = async () => {
     setIsLoading(true);
@@ -30,8 +33,14 @@ export function Onboarding({ onComplete }: OnboardingProps) {
     setStep(3);
   };
 
-  const handleCompleteSetup = () => {
-    onComplete();
+  const handleCompleteSetup = async () => {
+    setError('');
+    setIsLoading(true);
+    const reply = await onComplete();
+    if (!reply.ok) {
+      setError(reply.error);
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -275,15 +284,26 @@ export function Onboarding({ onComplete }: OnboardingProps) {
               </div>
             </div>
 
+            {error && (
+              <p
+                className="p-3 rounded-lg mb-4 text-center text-sm"
+                style={{ backgroundColor: COLORS.error + '20', color: COLORS.error }}
+              >
+                {error}
+              </p>
+            )}
+
             <button
               onClick={handleCompleteSetup}
+              disabled={isLoading}
               className="w-full py-3 rounded-lg font-mono text-sm font-semibold transition-all"
               style={{
                 backgroundColor: COLORS.accent,
                 color: COLORS.background,
+                opacity: isLoading ? 0.7 : 1,
               }}
             >
-              Enter Performance Equity
+              {isLoading ? 'Saving...' : 'Enter Performance Equity'}
             </button>
           </div>
         )}
@@ -4,7 +4,7 @@
  */
 
 import { useState } from 'react';
-import type { User, GAVLLayer, VerifiedTransaction, SystemHealth, ViewType } from '../types';
+import type { User, GAVLLayer, VerifiedTransaction, SystemHealth, ViewType, ProofVerification } from '../types';
 import { COLORS } from '../constants';
 import { ScoreGauge } from '../components/core/ScoreGauge';
 import { LayerStatusBar } from '../components/core/LayerStack';
@@ -17,6 +17,9 @@ interface OverviewProps {
   transactions: VerifiedTransaction[];
   systemHealth: SystemHealth;
   onNavigate: (view: ViewType) => void;
+  onConfirmGate?: (transaction: VerifiedTransaction, accept: boolean) => void;
+  onFileAppeal?: (transaction: VerifiedTransaction, reason: string, files: File[]) => Promise<string | null>;
+  onVerifyProof?: (transaction: VerifiedTransaction) => Promise<ProofVerification>;
 }
 
 export function Overview({
@@ -25,29 +28,13 @@ export function Overview({
   transactions,
   systemHealth,
   onNavigate,
+  onConfirmGate,
+  onFileAppeal,
+  onVerifyProof,
 }: OverviewProps) {
   // Expanded transaction state
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
-  // Liveness check state
-  const [livenessModal, setLivenessModal] = useState<{
-    show: boolean;
-    transactionId: string | null;
-    phase: 'scanning' | 'success';
-  }>({ show: false, transactionId: null, phase: 'scanning' });
-  const [appealedTransactions, setAppealedTransactions] = useState<Set<string>>(new Set());
-
-  const handleAppealLiveness = (transactionId: string) => {
-    setLivenessModal({ show: true, transactionId, phase: 'scanning' });
-    setTimeout(() => {
-      setLivenessModal({ show: true, transactionId, phase: 'success' });
-      setTimeout(() => {
-        setAppealedTransactions(prev => new Set(prev).add(transactionId));
-        setLivenessModal({ show: false, transactionId: null, phase: 'scanning' });
-      }, 2000);
-    }, 3000);
-  };
-
   // Calculate verification rate
   const verificationRate = transactions.length > 0
     ? (transactions.filter(t => t.gate === 'auto' || t.gate === 'confirm').length / transactions.length) * 100
@@ -58,112 +45,6 @@ export function Overview({
 
   return (
     <div className="min-h-screen pb-20" style={{ backgroundColor: COLORS.background }}>
-      {/* Liveness Check Modal */}
-      {livenessModal.show && (
-        <div
-          className="fixed inset-0 z-50 flex items-center justify-center"
-          style={{ backgroundColor: 'rgba(0,0,0,0.95)' }}
-        >
-          <div className="w-full max-w-sm mx-4">
-            {livenessModal.phase === 'scanning' ? (
-              <>
-                <div className="relative mb-6">
-                  <div
-                    className="w-64 h-64 mx-auto rounded-full relative overflow-hidden"
-                    style={{
-                      background: `radial-gradient(circle, ${COLORS.surface} 0%, ${COLORS.background} 100%)`,
-                      boxShadow: `0 0 60px ${COLORS.accent}30`,
-                    }}
-                  >
-                    <svg
-                      className="absolute inset-0 w-full h-full animate-pulse"
-                      viewBox="0 0 100 100"
-                    >
-                      <ellipse
-                        cx="50"
-                        cy="45"
-                        rx="25"
-                        ry="32"
-                        fill="none"
-                        stroke={COLORS.accent}
-                        strokeWidth="1"
-                        strokeDasharray="4 2"
-                      />
-                      <circle cx="40" cy="40" r="3" fill={COLORS.accent} opacity="0.5" />
-                      <circle cx="60" cy="40" r="3" fill={COLORS.accent} opacity="0.5" />
-                      <path
-                        d="M 40 55 Q 50 62 60 55"
-                        fill="none"
-                        stroke={COLORS.accent}
-                        strokeWidth="1"
-                        opacity="0.5"
-                      />
-                    </svg>
-                    <div
-                      className="absolute left-0 right-0 h-1 animate-[scan_2s_ease-in-out_infinite]"
-                      style={{
-                        background: `linear-gradient(90deg, transparent, ${COLORS.accent}, transparent)`,
-                        top: '30%',
-                      }}
-                    />
-                  </div>
-                  <div className="absolute top-0 left-1/2 -translate-x-1/2 w-72 h-72 pointer-events-none">
-                    <div className="absolute top-0 left-0 w-8 h-8 border-l-2 border-t-2" style={{ borderColor: COLORS.accent }} />
-                    <div className="absolute top-0 right-0 w-8 h-8 border-r-2 border-t-2" style={{ borderColor: COLORS.accent }} />
-                    <div className="absolute bottom-0 left-0 w-8 h-8 border-l-2 border-b-2" style={{ borderColor: COLORS.accent }} />
-                    <div className="absolute bottom-0 right-0 w-8 h-8 border-r-2 border-b-2" style={{ borderColor: COLORS.accent }} />
-                  </div>
-                </div>
-                <div className="text-center">
-                  <h3 className="text-lg font-mono font-bold mb-2" style={{ color: COLORS.textPrimary }}>
-                    LIVENESS CHECK
-                  </h3>
-                  <p className="text-sm font-mono mb-4" style={{ color: COLORS.textSecondary }}>
-                    Position your face in the frame
-                  </p>
-                  <div className="flex items-center justify-center gap-2">
-                    <div className="w-2 h-2 rounded-full animate-pulse" style={{ backgroundColor: COLORS.accent }} />
-                    <span className="text-xs font-mono uppercase tracking-widest" style={{ color: COLORS.accent }}>
-                      Scanning...
-                    </span>
-                  </div>
-                </div>
-              </>
-            ) : (
-              <div className="text-center">
-                <div
-                  className="w-32 h-32 mx-auto rounded-full flex items-center justify-center mb-6"
-                  style={{
-                    backgroundColor: COLORS.success + '20',
-                    boxShadow: `0 0 60px ${COLORS.success}40`,
-                  }}
-                >
-                  <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke={COLORS.success} strokeWidth="2">
-                    <path d="M20 6L9 17l-5-5" />
-                  </svg>
-                </div>
-                <h3 className="text-xl font-mono font-bold mb-2" style={{ color: COLORS.success }}>
-                  LIVENESS VERIFIED
-                </h3>
-                <p className="text-sm font-mono mb-2" style={{ color: COLORS.textSecondary }}>
-                  Identity confirmed via facial recognition
-                </p>
-                <p className="text-xs font-mono" style={{ color: COLORS.textMuted }}>
-                  Session upgraded to CONFIRMED
-                </p>
-              </div>
-            )}
-          </div>
-        </div>
-      )}
-
-      <style>{`
-        @keyframes scan {
-          0%, 100% { top: 20%; opacity: 0.3; }
-          50% { top: 70%; opacity: 1; }
-        }
-      `}</style>
-
       {/* Header */}
       <header
         className="sticky top-0 z-40 px-4 py-3 border-b"
@@ -250,8 +131,9 @@ export function Overview({
                   transaction={tx}
                   expanded={expandedId === tx.id}
                   onToggle={() => setExpandedId(expandedId === tx.id ? null : tx.id)}
-                  onAppealLiveness={handleAppealLiveness}
-                  isAppealed={appealedTransactions.has(tx.id)}
+                  onConfirmGate={onConfirmGate}
+                  onFileAppeal={onFileAppeal}
+                  onVerifyProof={onVerifyProof}
                 />
               ))
             ) : (
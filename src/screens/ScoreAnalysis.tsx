@@ -13,22 +13,31 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
-import type { PESScore, ScoreFactor, ScoreHistoryEntry, ViewType } from '../types';
+import type { PESScore, ScoreBasis, ScoreFactor, ScoreHistoryEntry, TimeRangePreset, ViewType } from '../types';
 import { COLORS, SCORE_TIERS } from '../constants';
+import { isLiveMode } from '../config';
 import { ScoreGauge } from '../components/core/ScoreGauge';
 import { FactorList } from '../components/core/FactorBar';
 
 interface ScoreAnalysisProps {
   score: PESScore;
   factors: ScoreFactor[];
+  basis?: ScoreBasis | null;   // set when factors were computed from real sessions
   history: ScoreHistoryEntry[];
+  range: TimeRangePreset;
+  onRangeChange: (range: TimeRangePreset) => void;
   onNavigate: (view: ViewType) => void;
 }
 
+const HISTORY_RANGES: TimeRangePreset[] = ['7d', '30d', '90d', '1y', 'all'];
+
 export function ScoreAnalysis({
   score,
   factors,
+  basis,
   history,
+  range,
+  onRangeChange,
   onNavigate,
 }: ScoreAnalysisProps) {
   const [showProjection, setShowProjection] = useState(false);
@@ -130,6 +139,16 @@ export function ScoreAnalysis({
           >
             SCORE FACTOR DECOMPOSITION
           </h2>
+          {isLiveMode && (
+            <p
+              className="text-xs font-mono mb-3"
+              style={{ color: basis ? COLORS.success : COLORS.textMuted }}
+            >
+              {basis
+                ? `LIVE · ${basis.sessions} session${basis.sessions === 1 ? '' : 's'} + ${basis.workouts} workout${basis.workouts === 1 ? '' : 's'} · last ${basis.windowDays} days`
+                : 'SAMPLE DATA · live score unavailable'}
+            </p>
+          )}
           <FactorList factors={factors} showRecommendations={true} />
         </section>
 
@@ -141,12 +160,29 @@ export function ScoreAnalysis({
             borderColor: COLORS.border,
           }}
         >
-          <h3
-            className="text-xs font-mono font-semibold uppercase tracking-wider mb-4"
-            style={{ color: COLORS.textSecondary }}
-          >
-            HISTORICAL PERFORMANCE
-          </h3>
+          <div className="flex items-center justify-between mb-4">
+            <h3
+              className="text-xs font-mono font-semibold uppercase tracking-wider"
+              style={{ color: COLORS.textSecondary }}
+            >
+              HISTORICAL PERFORMANCE
+            </h3>
+            <div className="flex gap-1">
+              {HISTORY_RANGES.map((r) => (
+                <button
+                  key={r}
+                  onClick={() => onRangeChange(r)}
+                  className="px-2 py-0.5 rounded text-[10px] font-mono uppercase"
+                  style={{
+                    backgroundColor: r === range ? COLORS.accent : 'transparent',
+                    color: r === range ? COLORS.background : COLORS.textMuted,
+                  }}
+                >
+                  {r}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="h-64">
             <ResponsiveContainer width="100%" height="100%">
               <LineChart data={chartData}>
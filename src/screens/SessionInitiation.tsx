@@ -5,12 +5,14 @@
 
 import { useState, useEffect } from 'react';
 import type { ViewType, AnchorType } from '../types';
+import type { BeaconEvidence } from '../services/dataService';
 import { COLORS, ANCHOR_LABELS } from '../constants';
 import { StatusIndicator } from '../components/core/StatusIndicator';
 
 interface SessionInitiationProps {
   onNavigate: (view: ViewType) => void;
   onStartSession: () => void;
+  beaconEvidence?: BeaconEvidence | null;
 }
 
 interface DetectedAnchor {
@@ -19,6 +21,27 @@ interface DetectedAnchor {
   signal: 'strong' | 'medium' | 'weak';
   confidence: number;
   available: boolean;
+  detail?: string;
+}
+
+// RSSI bands for a ranged BLE beacon
+function beaconSignal(rssi: number | undefined): DetectedAnchor['signal'] {
+  if (rssi === undefined) return 'medium';
+  if (rssi >= -70) return 'strong';
+  if (rssi >= -85) return 'medium';
+  return 'weak';
+}
+
+function beaconAnchor(evidence: BeaconEvidence): DetectedAnchor {
+  const rssi = evidence.rssi !== undefined ? `${evidence.rssi} dBm · ` : '';
+  return {
+    type: 'ble',
+    name: evidence.gymName,
+    signal: beaconSignal(evidence.rssi),
+    confidence: evidence.confidence,
+    available: true,
+    detail: `${evidence.beacon} · ${rssi}${evidence.verdict} ${new Date(evidence.timestamp).toLocaleString()}`,
+  };
 }
 
 interface DeviceStatus {
@@ -31,6 +54,7 @@ interface DeviceStatus {
 export function SessionInitiation({
   onNavigate,
   onStartSession,
+  beaconEvidence,
 }: SessionInitiationProps) {
   const [scanning, setScanning] = useState(true);
   const [selectedAnchor, setSelectedAnchor] = useState<AnchorType | null>(null);
@@ -47,7 +71,8 @@ export function SessionInitiation({
       confidence: 1.0,
       available: true,
     },
-    {
+    // Live mode: last beacon the server verified, demo: mock beacon
+    beaconEvidence ? beaconAnchor(beaconEvidence) : {
       type: 'ble',
       name: 'GYM-BEACON-042',
       signal: 'medium',
@@ -516,6 +541,11 @@ function AnchorCard({
               </span>{' '}
               | Confidence: {anchor.confidence.toFixed(2)}
             </p>
+            {anchor.detail && (
+              <p className="text-xs font-mono mt-0.5 break-all" style={{ color: COLORS.textMuted }}>
+                {anchor.detail}
+              </p>
+            )}
           </div>
         </div>
         <div className="text-right">
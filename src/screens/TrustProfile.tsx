@@ -4,12 +4,17 @@
  */
 
 import { useMemo, useState } from 'react';
-import type { TrustProfile as TrustProfileType, ViewType } from '../types';
+import type { Device, TrustProfile as TrustProfileType, ViewType } from '../types';
 import { COLORS, TRUST_TIERS } from '../constants';
 import { StatusIndicator } from '../components/core/StatusIndicator';
+import type { AuthReply } from '../services/authService';
 
 interface TrustProfileProps {
   trust: TrustProfileType;
+  /** Registered passkeys (live mode); lastChallenge is the last verified sign-in */
+  passkeyDevices?: Device[];
+  /** Present when this browser can register a passkey */
+  onAddPasskey?: () => Promise<AuthReply>;
   onNavigate: (view: ViewType) => void;
 }
 
@@ -19,11 +24,14 @@ interface AttestedDevice {
   type: 'watch' | 'phone' | 'band';
   attested: boolean;
   lastSeen: number;
-  sessionsRecorded: number;
+  sessionsRecorded?: number;
+  passkey?: { teeVerified: boolean };
 }
 
 export function TrustProfile({
   trust,
+  passkeyDevices = [],
+  onAddPasskey,
   onNavigate,
 }: TrustProfileProps) {
   const [showAddDevice, setShowAddDevice] = useState(false);
@@ -33,7 +41,7 @@ export function TrustProfile({
     ? ((trust.score - tierConfig.minScore) / (nextTier.minScore - tierConfig.minScore)) * 100
     : 100;
 
-  // Mock devices
+  // Mock wearables, plus the account's real passkeys
   const devices: AttestedDevice[] = useMemo(() => [
     {
       id: 'device-1',
@@ -59,7 +67,15 @@ export function TrustProfile({
       lastSeen: Date.now() - 1000 * 60 * 60 * 24 * 3, // 3 days ago
       sessionsRecorded: 42,
     },
-  ], []);
+    ...passkeyDevices.map((device): AttestedDevice => ({
+      id: device.id,
+      name: device.name,
+      type: device.type === 'watch' ? 'watch' : 'phone',
+      attested: device.isAttested,
+      lastSeen: device.lastChallenge,
+      passkey: { teeVerified: device.teeVerified },
+    })),
+  ], [passkeyDevices]);
 
   // Mock verification stats
   const stats = useMemo(() => ({
@@ -271,6 +287,28 @@ export function TrustProfile({
               </p>
 
               <div className="space-y-3 mb-6">
+                {onAddPasskey && (
+                  <button
+                    className="w-full p-3 rounded border text-left flex items-center gap-3 transition-all hover:border-opacity-60"
+                    style={{
+                      backgroundColor: COLORS.background,
+                      borderColor: COLORS.accent,
+                    }}
+                    onClick={async () => {
+                      const reply = await onAddPasskey();
+                      alert(reply.ok ? reply.message : reply.error);
+                      setShowAddDevice(false);
+                    }}
+                  >
+                    <span className="text-2xl">🔑</span>
+                    <span
+                      className="text-sm font-mono"
+                      style={{ color: COLORS.textPrimary }}
+                    >
+                      This Device (Passkey)
+                    </span>
+                  </button>
+                )}
                 {[
                   { name: 'Apple Watch', icon: '⌚' },
                   { name: 'Garmin Device', icon: '📱' },
@@ -391,7 +429,7 @@ export function TrustProfile({
           </h3>
 
           <div className="space-y-2">
-            {trust.history.slice(0, 5).map((entry, idx) => (
+            {trust.history.slice(-5).reverse().map((entry, idx) => (
               <div
                 key={idx}
                 className="flex items-center justify-between text-xs font-mono p-2 rounded"
@@ -555,7 +593,9 @@ function DeviceCard({ device }: { device: AttestedDevice }) {
             {device.name}
           </p>
           <p className="text-xs font-mono" style={{ color: COLORS.textMuted }}>
-            Last seen: {formatLastSeen(device.lastSeen)} | {device.sessionsRecorded} sessions
+            {device.passkey
+              ? `Last challenge: ${formatLastSeen(device.lastSeen)} | Passkey${device.passkey.teeVerified ? ' | TEE' : ''}`
+              : `Last seen: ${formatLastSeen(device.lastSeen)} | ${device.sessionsRecorded} sessions`}
           </p>
         </div>
       </div>
@@ -4,22 +4,35 @@
  */
 
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import type { GAVLLayer, GateDistribution, ViewType } from '../types';
-import { COLORS, ANCHOR_LABELS, ANCHOR_CONFIDENCE } from '../constants';
+import type { GAVLLayer, GateDistribution, ScsComponentId, VerifiedTransaction, ViewType } from '../types';
+import { COLORS, ANCHOR_LABELS, ANCHOR_CONFIDENCE, GATE_LABELS, SCS_LABELS, SCS_WEIGHTS } from '../constants';
 import { LayerStack } from '../components/core/LayerStack';
 import { StatusIndicator } from '../components/core/StatusIndicator';
 
 interface VerificationProtocolProps {
   layers: GAVLLayer[];
   gateDistribution: GateDistribution;
+  recentSession?: VerifiedTransaction;   // latest session with an SCS breakdown
   onNavigate: (view: ViewType) => void;
 }
 
+const SCS_DESCRIPTIONS: Record<ScsComponentId, string> = {
+  anchor: 'Anchor type confidence × evidence verdict, fused across anchors',
+  dwell: 'Entry/exit anchor timing brackets a plausible visit',
+  workout: 'Wearable workout covering the visit',
+  congruency: 'Wearable signals agree with each other and the visit',
+  device: 'Passkey-attested device (hardware TEE = 1.0)',
+};
+
 export function VerificationProtocol({
   layers,
   gateDistribution,
+  recentSession,
   onNavigate,
 }: VerificationProtocolProps) {
+  const scsIds = Object.keys(SCS_WEIGHTS) as ScsComponentId[];
+  const breakdown = recentSession?.scsBreakdown;
+
   // Prepare gate distribution data for pie chart
   const gateData = [
     { name: 'AUTO', value: gateDistribution.auto, color: COLORS.gates.auto },
@@ -284,13 +297,44 @@ export function VerificationProtocol({
               color: COLORS.accent,
             }}
           >
-            SCS = (0.35 × Anchor) + (0.25 × Device) + (0.40 × Trust)
-          </div>
-          <div className="mt-4 space-y-2 text-xs font-mono" style={{ color: COLORS.textSecondary }}>
-            <p>• <span style={{ color: COLORS.textPrimary }}>Anchor (35%)</span>: Verification anchor confidence (NFC/BLE/WiFi/GEO)</p>
-            <p>• <span style={{ color: COLORS.textPrimary }}>Device (25%)</span>: Device attestation status (attested = 1.0)</p>
-            <p>• <span style={{ color: COLORS.textPrimary }}>Trust (40%)</span>: Your Trust Index score (0-100 normalized)</p>
+            SCS = {scsIds.map(id => `(${SCS_WEIGHTS[id].toFixed(2)} × ${SCS_LABELS[id]})`).join(' + ')}
           </div>
+          {breakdown && recentSession ? (
+            <div className="mt-4 space-y-2">
+              <p className="text-xs font-mono" style={{ color: COLORS.textMuted }}>
+                {recentSession.location.name} · {new Date(recentSession.timestamp).toLocaleDateString()}
+              </p>
+              {breakdown.components.map((c) => (
+                <div
+                  key={c.id}
+                  className="p-2 rounded text-xs font-mono"
+                  style={{ backgroundColor: COLORS.background }}
+                >
+                  <div className="flex items-center justify-between">
+                    <span style={{ color: COLORS.textPrimary }}>
+                      {c.label} <span style={{ color: COLORS.textMuted }}>{c.value.toFixed(2)} × {c.weight.toFixed(2)}</span>
+                    </span>
+                    <span style={{ color: COLORS.accent }}>+{c.contribution.toFixed(2)}</span>
+                  </div>
+                  <p className="mt-1" style={{ color: COLORS.textMuted }}>{c.detail}</p>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-sm font-mono pt-2">
+                <span style={{ color: COLORS.textSecondary }}>SCS</span>
+                <span style={{ color: COLORS.gates[breakdown.gate] }}>
+                  {breakdown.value.toFixed(2)} · {GATE_LABELS[breakdown.gate]}
+                </span>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-4 space-y-2 text-xs font-mono" style={{ color: COLORS.textSecondary }}>
+              {scsIds.map(id => (
+                <p key={id}>
+                  • <span style={{ color: COLORS.textPrimary }}>{SCS_LABELS[id]} ({Math.round(SCS_WEIGHTS[id] * 100)}%)</span>: {SCS_DESCRIPTIONS[id]}
+                </p>
+              ))}
+            </div>
+          )}
           <div className="mt-4 pt-4 border-t space-y-1" style={{ borderColor: COLORS.border }}>
             <p className="text-xs font-mono" style={{ color: COLORS.textSecondary }}>
               <span style={{ color: COLORS.gates.auto }}>AUTO</span>: SCS ≥ 0.80 (Automatic verification)
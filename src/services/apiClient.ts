@@ -0,0 +1,11 @@
+/**
+ * API CLIENT
+ *
+ * Every /api call is authenticated by the HttpOnly session cookie set at
+ * sign-in (see authService); nothing secret is kept in the browser. The
+ * server derives userId from the cookie - the SPA never names a user.
+ */
+
+export function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(path, { credentials: 'same-origin', ...init });
+}
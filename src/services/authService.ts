@@ -0,0 +1,146 @@
+/**
+ * AUTH SERVICE
+ *
+ * Live mode: accounts on /api/auth/* - the server sets an HttpOnly session
+ * cookie at sign-in, so nothing secret is kept in the browser.
+ * Demo mode: the single DEMO_CREDENTIALS account, checked locally; onboarding
+ * completion is remembered in localStorage.
+ */
+
+import { isDemoMode } from '../config';
+import { DEMO_CREDENTIALS } from '../constants';
+import { apiFetch } from './apiClient';
+
+export interface Account {
+  userId: string;
+  email: string;
+  name: string | null;
+  onboardingCompleted: boolean;
+}
+
+export type AuthResult = { ok: true; account: Account } | { ok: false; error: string };
+
+/** What the Login screen needs back from any of its actions. */
+export type AuthReply = { ok: true; message?: string } | { ok: false; error: string };
+
+export type RecoveryType = 'password' | 'username';
+
+const DEMO_USER_ID = 'demo';
+const DEMO_ONBOARDED_KEY = 'gavl.onboarded.demo';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function demoAccount(): Account {
+  let onboardingCompleted = false;
+  try {
+    onboardingCompleted = localStorage.getItem(DEMO_ONBOARDED_KEY) === 'true';
+  } catch {
+    // Storage unavailable - onboarding shows every visit
+  }
+  return { userId: DEMO_USER_ID, email: DEMO_CREDENTIALS.email, name: null, onboardingCompleted };
+}
+
+async function send(path: string, body: unknown, method = 'POST'): Promise<{ status: number; data: Record<string, unknown> }> {
+  const res = await apiFetch(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  return { status: res.status, data };
+}
+
+function errorFrom(status: number, data: Record<string, unknown>): string {
+  if (status === 429) return 'Too many attempts. Please wait a few minutes and try again.';
+  return typeof data.error === 'string' ? data.error : `Request failed (HTTP ${status})`;
+}
+
+async function accountRequest(path: string, body: unknown, method = 'POST'): Promise<AuthResult> {
+  try {
+    const { status, data } = await send(path, body, method);
+    if (data.success && data.account) return { ok: true, account: data.account as Account };
+    return { ok: false, error: errorFrom(status, data) };
+  } catch {
+    return { ok: false, error: 'Unable to reach the server. Check your connection.' };
+  }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export async function login(email: string, password: string): Promise<AuthResult> {
+  if (isDemoMode) {
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    return email === DEMO_CREDENTIALS.email && password === DEMO_CREDENTIALS.password
+      ? { ok: true, account: demoAccount() }
+      : { ok: false, error: 'Invalid credentials. Please try again.' };
+  }
+  return accountRequest('/api/auth/login', { email, password });
+}
+
+export async function register(email: string, password: string, name: string): Promise<AuthResult> {
+  if (isDemoMode) return { ok: false, error: 'Account creation is available in live mode.' };
+  return accountRequest('/api/auth/register', { email, password, name: name || undefined });
+}
+
+export async function requestRecovery(email: string, type: RecoveryType): Promise<AuthReply> {
+  if (isDemoMode) {
+    await new Promise((resolve) => setTimeout(resolve, 1200));
+    return {
+      ok: true,
+      message: type === 'password'
+        ? 'A reset link has been dispatched to your verified email.'
+        : 'Your registered username has been sent to your primary contact email.',
+    };
+  }
+  try {
+    const { status, data } = await send('/api/auth/recover', { email, type });
+    if (data.success) return { ok: true, message: String(data.message) };
+    return { ok: false, error: errorFrom(status, data) };
+  } catch {
+    return { ok: false, error: 'Unable to reach the server. Check your connection.' };
+  }
+}
+
+export async function resetPassword(code: string, password: string): Promise<AuthResult> {
+  if (isDemoMode) return { ok: false, error: 'Password reset is available in live mode.' };
+  return accountRequest('/api/auth/recover', { code, password });
+}
+
+/** The signed-in account, if the session cookie is still valid. */
+export async function restoreSession(): Promise<Account | null> {
+  if (isDemoMode) return null;
+  try {
+    const res = await apiFetch('/api/auth/me');
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.success ? (data.account as Account) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function completeOnboarding(account: Account): Promise<AuthResult> {
+  if (account.userId === DEMO_USER_ID) {
+    try {
+      localStorage.setItem(DEMO_ONBOARDED_KEY, 'true');
+    } catch {
+      // Storage unavailable - completion lasts for this page only
+    }
+    return { ok: true, account: { ...account, onboardingCompleted: true } };
+  }
+  return accountRequest('/api/auth/me', { onboardingCompleted: true }, 'PATCH');
+}
+
+export async function logout(): Promise<void> {
+  if (!isDemoMode) {
+    try {
+      await apiFetch('/api/auth/logout', { method: 'POST' });
+    } catch {
+      // Offline: the cookie still expires with its token
+    }
+  }
+}
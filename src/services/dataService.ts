@@ -6,7 +6,38 @@
  */
 
 import { isLiveMode } from '../config';
-import type { VerifiedTransaction, AnchorType, GateType, SessionStatus } from '../types';
+import { apiFetch } from './apiClient';
+import type {
+  VerifiedTransaction,
+  AnchorType,
+  GAVLLayer,
+  PESScore,
+  ProofStatus,
+  ScoreBasis,
+  ScoreFactor,
+  ScoreHistoryEntry,
+  SessionStatus,
+  TimeRangePreset,
+  TrustProfile,
+} from '../types';
+import {
+  isSessionResponse,
+  type AnchorKind,
+  type SessionResponse,
+  type SessionResponseAnchor,
+} from '../../shared/schema';
+import { isAppealable, MAX_ATTACHMENT_BYTES } from '../../shared/appeal';
+import type { AuditRoot } from '../../shared/audit';
+import {
+  anchorEventName,
+  anchorEvidenceNote,
+  verifyCustodyProof,
+  type CustodyProof,
+  type ProofVerification,
+} from '../../shared/custody';
+import { rangeStart, sessionGate } from '../../shared/score';
+import { peEarned } from '../../shared/trust';
+import { activityLabel, wearableNote } from '../../shared/wearable';
 import {
   mockUser,
   mockGAVLLayers,
@@ -26,88 +57,47 @@ import {
   mockRecentPETransactions,
 } from './mockData';
 
-// =============================================================================
-// API RESPONSE TYPES (matches GET /api/sessions response)
-// =============================================================================
-
-interface APIAnchor {
-  type: string;
-  boost: number;
-  timestamp: string;
-}
-
-interface APISession {
-  sessionId: string;
-  gym: { id: string; name: string };
-  anchors: APIAnchor[] | string[];  // Support both old (string[]) and new (object[]) format
-  scsBoost: number;
-  status: string;
-  startedAt: string;
-  endedAt: string | null;
-  duration: number | null;
-}
-
 // =============================================================================
 // TRANSFORMER: API SessionCandidate → Frontend VerifiedTransaction
 // =============================================================================
 
-// Normalize anchors from API (handles both old string[] and new object[] format)
-function parseAnchors(anchors: APIAnchor[] | string[], sessionStart: string): APIAnchor[] {
-  if (anchors.length === 0) return [];
-  if (typeof anchors[0] === 'string') {
-    // Old format: string array — convert to objects
-    return (anchors as string[]).map(a => ({
-      type: a,
-      boost: a === 'nfc' ? 0.25 : 0.15,
-      timestamp: sessionStart,
-    }));
-  }
-  return anchors as APIAnchor[];
-}
-
-function mapAnchorType(anchors: APIAnchor[]): AnchorType {
+function mapAnchorType(anchors: SessionResponseAnchor[]): AnchorType {
   // Return highest-confidence anchor for main display
   if (anchors.some(a => a.type === 'nfc')) return 'nfc';
+  if (anchors.some(a => a.type === 'ble')) return 'ble';
+  if (anchors.some(a => a.type === 'wifi_bssid')) return 'wifi';
   if (anchors.some(a => a.type === 'geofence')) return 'geo';
   return 'geo';
 }
 
-function determineGate(scs: number): GateType {
-  if (scs >= 0.80) return 'auto';
-  if (scs >= 0.50) return 'confirm';
-  return 'quarantine';
-}
-
-// Map API anchor types to display names for chain of custody
-function anchorEventName(type: string): string {
-  switch (type) {
-    case 'geofence': return 'Geofence anchor (arrive)';
-    case 'nfc': return 'NFC anchor (tap verified)';
-    case 'nfc_exit': return 'NFC anchor (exit tap verified)';
-    case 'geofence_exit': return 'Geofence anchor (exit)';
-    default: return `${type} anchor`;
-  }
-}
-
-function anchorProofType(type: string): string {
+function anchorProofType(type: AnchorKind): string {
   switch (type) {
     case 'nfc': return 'nfc';
     case 'nfc_exit': return 'nfc';
     case 'geofence': return 'gps';
     case 'geofence_exit': return 'gps';
-    default: return 'gps';
+    case 'wifi_bssid': return 'wifi';
+    case 'ble': return 'ble';
   }
 }
 
-function transformSession(session: APISession): VerifiedTransaction {
+// Anchors recorded before evidence existed keep their historical 'verified'
+function anchorProofStatus(anchor: SessionResponseAnchor): ProofStatus {
+  return !anchor.evidence || anchor.evidence.verdict === 'verified' ? 'verified' : 'pending';
+}
+
+function transformSession(session: SessionResponse, trustMultiplier: number): VerifiedTransaction {
   const timestamp = new Date(session.startedAt).getTime();
   const duration = session.duration || 0;
-  const anchors = parseAnchors(session.anchors, session.startedAt);
+  const anchors = session.anchors;
   const anchor = mapAnchorType(anchors);
+  const wearable = session.wearable;
 
-  // Base SCS (0.50) + anchor boosts, cap at 0.95
-  const scs = Math.min(0.50 + session.scsBoost, 0.95);
-  const gate = determineGate(scs);
+  // Server-fused SCS; responses without a breakdown fall back to the SCS the session was gated on
+  const scs = session.scs?.value ?? session.gate?.scs ?? 0;
+  // The stored gate decision wins: a rejected or expired confirmation is quarantined
+  const gate = session.gate?.gate ?? sessionGate(scs);
+  const pending = session.gate?.state === 'pending_confirmation';
 
   const status: SessionStatus =
     session.status === 'finalized' ? 'finalized' : 'candidate';
@@ -116,31 +106,55 @@ function transformSession(session: APISession): VerifiedTransaction {
     id: session.sessionId.replace('SC-', '').slice(0, 8).toLowerCase(),
     uid: 'marc',
     timestamp,
-    type: 'Gym Session',
+    type: wearable ? activityLabel(wearable.activityType) : 'Gym Session',
     duration,
-    zone: 'Z3', // Default until wearable data connected
+    // Without a linked workout's heart rate there is no zone to show; Z3 is the neutral middle
+    zone: wearable?.zone ?? 'Z3',
+    ...(wearable?.calories !== undefined && { calories: wearable.calories }),
     location: {
       name: session.gym.name,
       anchor,
     },
     scs,
     gate,
-    pesDelta: gate === 'quarantine' ? 0 : Math.round(duration * 0.08 * 10) / 10,
+    sessionId: session.sessionId,
+    gateState: session.gate?.state,
+    ...(pending && { confirmBy: session.gate?.confirmBy ?? 0 }),
+    appealable: isAppealable(session.gate?.state),
+    ...(session.appeal && { appeal: session.appeal }),
+    // Nothing is credited until the user confirms the visit
+    pesDelta: pending ? 0 : peEarned(duration, gate, trustMultiplier),
     status,
-    // Build proofs from EVERY anchor in the session
-    proofs: anchors.map(a => ({
-      type: anchorProofType(a.type),
-      status: 'verified' as const,
-      timestamp: new Date(a.timestamp).getTime(),
-      details: anchorEventName(a.type),
-    })),
-    // Build chain of custody from EVERY anchor with its real timestamp
-    chainOfCustody: anchors.map(a => ({
-      timestamp: new Date(a.timestamp).getTime(),
-      event: anchorEventName(a.type),
-      type: a.type === 'nfc' ? 'nfc_anchor' : a.type === 'geofence_exit' ? 'geofence_exit' : 'geo_anchor',
-    })),
-    merkleRoot: '0x' + session.sessionId.replace(/-/g, '').padEnd(64, '0'),
+    // Build proofs from EVERY anchor in the session, plus the wearable workouts that corroborate it
+    proofs: [
+      ...anchors.map(a => ({
+        type: anchorProofType(a.type),
+        status: anchorProofStatus(a),
+        timestamp: new Date(a.timestamp).getTime(),
+        details: anchorEventName(a.type),
+        value: anchorEvidenceNote(a),
+      })),
+      ...(wearable ? [{
+        type: 'wearable',
+        status: 'verified' as const,
+        timestamp: wearable.linkedAt,
+        details: 'Wearable corroboration',
+        value: wearableNote(wearable),
+      }] : []),
+    ],
+    // Hash-linked chain from the server; older responses fall back to anchors + gate transitions
+    chainOfCustody: session.chain
+      ? session.chain.map(l => ({ timestamp: l.at, event: l.event, type: l.type, hash: l.hash }))
+      : [
+        ...anchors.map(a => ({
+          timestamp: new Date(a.timestamp).getTime(),
+          event: anchorEvidenceNote(a) ? `${anchorEventName(a.type)} · ${anchorEvidenceNote(a)}` : anchorEventName(a.type),
+          type: a.type === 'nfc' ? 'nfc_anchor' : a.type === 'ble' ? 'ble_anchor' : a.type === 'geofence_exit' ? 'geofence_exit' : 'geo_anchor',
+        })),
+        ...(session.custody ?? []).map(c => ({ timestamp: c.at, event: c.event, type: c.type })),
+      ],
+    merkleRoot: session.merkleRoot,
+    scsBreakdown: session.scs,
   };
 }
 
@@ -150,32 +164,239 @@ function transformSession(session: APISession): VerifiedTransaction {
 
 export type DataSource = 'live' | 'mock';
 
+// Most recent server-verified BLE reading, shown on the session start screen
+export interface BeaconEvidence {
+  gymName: string;
+  beacon: string;
+  rssi?: number;
+  confidence: number;
+  verdict: string;
+  timestamp: number;
+}
+
 export interface TransactionResult {
   transactions: VerifiedTransaction[];
   source: DataSource;
+  latestBeacon: BeaconEvidence | null;
+}
+
+function findLatestBeacon(sessions: SessionResponse[]): BeaconEvidence | null {
+  let latest: BeaconEvidence | null = null;
+  for (const session of sessions) {
+    for (const a of session.anchors) {
+      const timestamp = new Date(a.timestamp).getTime();
+      if (a.type !== 'ble' || !a.evidence?.beacon || (latest && latest.timestamp >= timestamp)) continue;
+      latest = {
+        gymName: session.gym.name,
+        beacon: a.evidence.beacon,
+        rssi: a.evidence.rssi,
+        confidence: a.evidence.confidence ?? 0,
+        verdict: a.evidence.verdict,
+        timestamp,
+      };
+    }
+  }
+  return latest;
 }
 
-export async function fetchTransactions(): Promise<TransactionResult> {
-  if (!isLiveMode) return { transactions: mockTransactions, source: 'mock' };
+// PE per session is scaled by the user's trust tier multiplier
+export async function fetchTransactions(trustMultiplier: number): Promise<TransactionResult> {
+  if (!isLiveMode) return { transactions: mockTransactions, source: 'mock', latestBeacon: null };
 
   try {
-    const res = await fetch('/api/sessions?userId=marc');
+    const res = await apiFetch('/api/sessions');
     if (!res.ok) throw new Error(`HTTP ${res.status}`);
 
     const data = await res.json();
 
-    if (data.success && data.sessions && data.sessions.length > 0) {
+    const sessions: unknown[] = data.success && Array.isArray(data.sessions) ? data.sessions : [];
+    const valid = sessions.filter(isSessionResponse);
+
+    if (valid.length < sessions.length) {
+      console.warn(`[DataService] Skipped ${sessions.length - valid.length} malformed session(s)`);
+    }
+
+    if (valid.length > 0) {
       return {
-        transactions: data.sessions.map((s: APISession) => transformSession(s)),
+        transactions: valid.map(session => transformSession(session, trustMultiplier)),
         source: 'live',
+        latestBeacon: findLatestBeacon(valid),
       };
     }
 
     // No real sessions yet - fall back to mock
-    return { transactions: mockTransactions, source: 'mock' };
+    return { transactions: mockTransactions, source: 'mock', latestBeacon: null };
   } catch (err) {
     console.warn('[DataService] Failed to fetch live sessions, using mock:', err);
-    return { transactions: mockTransactions, source: 'mock' };
+    return { transactions: mockTransactions, source: 'mock', latestBeacon: null };
+  }
+}
+
+export interface ScoreResult {
+  score: PESScore;
+  factors: ScoreFactor[];
+  basis: ScoreBasis | null;   // null when showing mock data
+  source: DataSource;
+}
+
+const mockScore: ScoreResult = { score: mockUser.pes, factors: mockUser.scoreFactors, basis: null, source: 'mock' };
+
+export async function fetchScore(): Promise<ScoreResult> {
+  if (!isLiveMode) return mockScore;
+
+  try {
+    const res = await apiFetch('/api/score');
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const data = await res.json();
+    if (!data.success || !data.score || !Array.isArray(data.factors)) throw new Error('Malformed score response');
+
+    return { score: data.score, factors: data.factors, basis: data.basis ?? null, source: 'live' };
+  } catch (err) {
+    console.warn('[DataService] Failed to fetch live score, using mock:', err);
+    return mockScore;
+  }
+}
+
+// Generated once so switching ranges filters one consistent mock series
+let mockScoreHistory: ScoreHistoryEntry[] | null = null;
+
+function mockHistory(range: TimeRangePreset): ScoreHistoryEntry[] {
+  mockScoreHistory ??= generateScoreHistory();
+  const from = rangeStart(range, Date.now());
+  return mockScoreHistory.filter(e => e.date >= from);
+}
+
+export async function fetchScoreHistory(range: TimeRangePreset): Promise<ScoreHistoryEntry[]> {
+  if (!isLiveMode) return mockHistory(range);
+
+  try {
+    const res = await apiFetch(`/api/score/history?range=${range}`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const data = await res.json();
+    if (!data.success || !Array.isArray(data.history)) throw new Error('Malformed score history response');
+    return data.history;
+  } catch (err) {
+    console.warn('[DataService] Failed to fetch score history, using mock:', err);
+    return mockHistory(range);
+  }
+}
+
+export async function fetchTrustProfile(): Promise<TrustProfile> {
+  if (!isLiveMode) return mockUser.trust;
+
+  try {
+    const res = await apiFetch('/api/trust');
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const data = await res.json();
+    if (!data.success || !data.trust || !Array.isArray(data.trust.history)) throw new Error('Malformed trust response');
+    return data.trust;
+  } catch (err) {
+    console.warn('[DataService] Failed to fetch trust profile, using mock:', err);
+    return mockUser.trust;
+  }
+}
+
+// Answer a confirm-gate prompt; true once the server has recorded it
+export async function confirmGate(sessionId: string, decision: 'accept' | 'reject'): Promise<boolean> {
+  if (!isLiveMode) return false;
+
+  try {
+    const res = await apiFetch('/api/gate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, decision }),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return true;
+  } catch (err) {
+    console.warn('[DataService] Failed to record gate confirmation:', err);
+    return false;
+  }
+}
+
+// Fetch the session's inclusion proofs and check them here against the root we were shown
+export async function verifySessionProof(sessionId: string, merkleRoot: string): Promise<ProofVerification> {
+  if (!isLiveMode) return { ok: false, error: 'Proofs are available with a live account.' };
+
+  try {
+    const res = await apiFetch(`/api/sessions/${encodeURIComponent(sessionId)}/proof`);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const proof: CustodyProof = await res.json();
+    return await verifyCustodyProof(proof, merkleRoot);
+  } catch (err) {
+    console.warn('[DataService] Failed to fetch session proof:', err);
+    return { ok: false, error: 'Could not fetch the proof. Try again.' };
+  }
+}
+
+// Layer 5 shows the latest signed audit root; the other layers are still mock
+export async function fetchGAVLLayers(): Promise<GAVLLayer[]> {
+  if (!isLiveMode) return mockGAVLLayers;
+
+  try {
+    const res = await apiFetch('/api/audit/roots');
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+    const data = await res.json();
+    if (!data.success || !Array.isArray(data.roots)) throw new Error('Malformed audit roots response');
+    const roots: AuditRoot[] = data.roots;
+    const latest = roots.length > 0 ? roots[roots.length - 1] : null;
+
+    return mockGAVLLayers.map(layer => layer.layer !== 5 ? layer : {
+      ...layer,
+      status: latest ? 'active' : 'ready',
+      statusLabel: latest ? 'SEALED' : 'LOGGING',
+      details: {
+        lastSealed: latest?.day ?? 'none yet',
+        root: latest ? `${latest.root.slice(0, 12)}...` : '—',
+        signingKey: latest?.keyId ?? data.signingKey?.keyId ?? 'not configured',
+        sealedDays: roots.length,
+      },
+      lastCheck: Date.now(),
+    });
+  } catch (err) {
+    console.warn('[DataService] Failed to fetch audit roots, using mock:', err);
+    return mockGAVLLayers;
+  }
+}
+
+function readBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Appeal a quarantined session; resolves to an error message, or null once filed
+export async function fileAppeal(sessionId: string, reason: string, files: File[]): Promise<string | null> {
+  if (!isLiveMode) return 'Appeals are available with a live account.';
+
+  const tooLarge = files.find(f => f.size > MAX_ATTACHMENT_BYTES);
+  if (tooLarge) return `${tooLarge.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024} KB.`;
+
+  try {
+    const attachments = await Promise.all(files.map(async f => ({
+      name: f.name,
+      contentType: f.type,
+      data: await readBase64(f),
+    })));
+    const res = await apiFetch('/api/appeals', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId, reason, attachments }),
+    });
+    if (res.ok) return null;
+
+    const data = await res.json().catch(() => ({}));
+    return typeof data.error === 'string' ? data.error : `Appeal failed (HTTP ${res.status}).`;
+  } catch (err) {
+    console.warn('[DataService] Failed to file appeal:', err);
+    return 'Could not reach the server. Try again.';
   }
 }
 
@@ -192,7 +413,6 @@ export function getPhysiologicalBaseline() { return mockPhysiologicalBaseline; }
 export function getTrainingStatus() { return mockTrainingStatus; }
 export function getWeeklyMetrics() { return mockWeeklyMetrics; }
 export function getZoneDistribution() { return mockZoneDistribution; }
-export function getScoreHistory() { return generateScoreHistory(); }
 export function getActivityCalendar() { return generateActivityCalendar(); }
 export function getWeeklyTrends() { return generateWeeklyTrends(); }
 export function getEquityStatements() { return mockEquityStatements; }
@@ -125,7 +125,7 @@ export const mockScoreFactors: ScoreFactor[] = [
     value: 88,
     trend: 'stable',
     delta: 0,
-    recommendation: `Tier: GOLD | Next tier at ${TRUST_TIERS.platinum.min}`,
+    recommendation: `Tier: GOLD | Next tier at ${TRUST_TIERS.platinum.minScore}`,
     description: 'Longitudinal verification reputation',
   },
 ];
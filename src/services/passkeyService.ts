@@ -0,0 +1,168 @@
+/**
+ * PASSKEY SERVICE
+ *
+ * Browser side of WebAuthn: fetches ceremony options from /api/auth/passkey-*,
+ * runs navigator.credentials, and posts the result back for verification.
+ * Binary fields travel as base64url in both directions.
+ *
+ * Every registered passkey is a trusted device, surfaced as a `Device` for
+ * the Trust Profile. Live mode only.
+ */
+
+import { isDemoMode } from '../config';
+import type { Device } from '../types';
+import { apiFetch } from './apiClient';
+import type { Account, AuthReply, AuthResult } from './authService';
+
+interface PasskeySummary {
+  id: string;
+  name: string;
+  transports: string[];
+  hardwareAttested: boolean;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer | null): string {
+  if (!buffer) return '';
+  let binary = '';
+  for (const byte of new Uint8Array(buffer)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function postJson(path: string, body: unknown): Promise<{ status: number; data: Record<string, unknown> }> {
+  const res = await apiFetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return { status: res.status, data: await res.json().catch(() => ({})) };
+}
+
+function deviceLabel(): string {
+  const ua = navigator.userAgent;
+  if (/iPhone/.test(ua)) return 'iPhone';
+  if (/iPad/.test(ua)) return 'iPad';
+  if (/Android/.test(ua)) return 'Android device';
+  if (/Macintosh/.test(ua)) return 'Mac';
+  if (/Windows/.test(ua)) return 'Windows PC';
+  return 'This device';
+}
+
+function ceremonyError(err: unknown): string {
+  if (err instanceof DOMException && err.name === 'NotAllowedError') return 'Passkey request was cancelled or timed out.';
+  if (err instanceof DOMException && err.name === 'InvalidStateError') return 'This device already has a passkey for your account.';
+  return 'Passkey request failed. Please try again.';
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+export function isPasskeySupported(): boolean {
+  return !isDemoMode && typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function';
+}
+
+export async function signInWithPasskey(): Promise<AuthResult> {
+  try {
+    const start = await postJson('/api/auth/passkey-login', {});
+    if (!start.data.success) return { ok: false, error: String(start.data.error ?? `HTTP ${start.status}`) };
+    const options = start.data.options as { challenge: string; rpId: string; timeout: number; userVerification: UserVerificationRequirement };
+
+    const credential = (await navigator.credentials.get({
+      publicKey: { ...options, challenge: fromBase64Url(options.challenge) },
+    })) as PublicKeyCredential | null;
+    if (!credential) return { ok: false, error: 'No passkey was selected.' };
+
+    const response = credential.response as AuthenticatorAssertionResponse;
+    const finish = await postJson('/api/auth/passkey-login', {
+      credential: {
+        id: credential.id,
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          authenticatorData: toBase64Url(response.authenticatorData),
+          signature: toBase64Url(response.signature),
+          userHandle: toBase64Url(response.userHandle),
+        },
+      },
+    });
+    if (finish.data.success) return { ok: true, account: finish.data.account as Account };
+    return { ok: false, error: String(finish.data.error ?? `HTTP ${finish.status}`) };
+  } catch (err) {
+    return { ok: false, error: ceremonyError(err) };
+  }
+}
+
+/** Register this device's passkey for the signed-in account. */
+export async function registerPasskey(name: string = deviceLabel()): Promise<AuthReply> {
+  try {
+    const start = await postJson('/api/auth/passkey-register', {});
+    if (!start.data.success) return { ok: false, error: String(start.data.error ?? `HTTP ${start.status}`) };
+    const options = start.data.options as {
+      challenge: string;
+      user: { id: string; name: string; displayName: string };
+      excludeCredentials: { type: 'public-key'; id: string; transports?: AuthenticatorTransport[] }[];
+    } & Omit<PublicKeyCredentialCreationOptions, 'challenge' | 'user' | 'excludeCredentials'>;
+
+    const credential = (await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: fromBase64Url(options.challenge),
+        user: { ...options.user, id: fromBase64Url(options.user.id) },
+        excludeCredentials: options.excludeCredentials.map(c => ({ ...c, id: fromBase64Url(c.id) })),
+      },
+    })) as PublicKeyCredential | null;
+    if (!credential) return { ok: false, error: 'Passkey creation was cancelled.' };
+
+    const response = credential.response as AuthenticatorAttestationResponse;
+    const finish = await postJson('/api/auth/passkey-register', {
+      name,
+      credential: {
+        id: credential.id,
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          attestationObject: toBase64Url(response.attestationObject),
+          transports: response.getTransports?.() ?? [],
+        },
+      },
+    });
+    if (finish.data.success) return { ok: true, message: 'Passkey registered. This device is now attested.' };
+    return { ok: false, error: String(finish.data.error ?? `HTTP ${finish.status}`) };
+  } catch (err) {
+    return { ok: false, error: ceremonyError(err) };
+  }
+}
+
+/** The signed-in user's passkeys as attested devices. */
+export async function fetchPasskeyDevices(): Promise<Device[]> {
+  if (isDemoMode) return [];
+  try {
+    const res = await apiFetch('/api/auth/passkeys');
+    if (!res.ok) return [];
+    const data = await res.json();
+    const passkeys: PasskeySummary[] = data.success && Array.isArray(data.passkeys) ? data.passkeys : [];
+    return passkeys.map(p => ({
+      id: p.id,
+      name: p.name,
+      type: p.transports.includes('internal') || p.transports.includes('hybrid') ? 'phone' : 'other',
+      brand: 'generic',
+      isAttested: true,
+      lastChallenge: p.lastUsedAt,
+      teeVerified: p.hardwareAttested,
+    }));
+  } catch {
+    return [];
+  }
+}
@@ -3,62 +3,33 @@
  * Bank-Grade Verification Protocol for Human Performance
  */
 
+import type { AppealSummary } from '../../shared/appeal';
+import type { GateState } from '../../shared/gate';
+import type { GateType, PESScore, ScoreFactor } from '../../shared/score';
+import type { ScsBreakdown } from '../../shared/scs';
+import type { AttackType, TrustProfile } from '../../shared/trust';
+import type { HRZone } from '../../shared/wearable';
+
 // ============================================
 // CORE SCORE TYPES
 // ============================================
 
-export type ScoreTier = 'exceptional' | 'excellent' | 'good' | 'building' | 'establishing';
-
-export interface PESScore {
-  value: number;              // 0-999
-  tier: ScoreTier;
-  percentile: number;         // 0-100
-  delta30d: number;           // Change over 30 days
-  personalBest: number;
-  lastUpdated: number;
-}
-
-export type ScoreFactorId = 'effort' | 'consistency' | 'verification' | 'trust';
-
-export interface ScoreFactor {
-  id: ScoreFactorId;
-  name: string;
-  weight: number;             // Percentage (e.g., 35)
-  value: number;              // 0-100
-  trend: 'up' | 'down' | 'stable';
-  delta: number;              // Recent change
-  recommendation: string;
-  description: string;
-}
-
-export interface ScoreHistoryEntry {
-  date: number;               // Unix timestamp
-  pes: number;
-  tier: ScoreTier;
-  delta: number;
-  event?: string;             // e.g., "Reached Gold tier"
-}
+// Defined alongside the scoring engine so api/ and the frontend agree
+export type {
+  ScoreTier,
+  PESScore,
+  ScoreFactorId,
+  ScoreFactor,
+  ScoreBasis,
+  ScoreHistoryEntry,
+  TimeRangePreset,
+} from '../../shared/score';
 
 // ============================================
 // TRUST TYPES
 // ============================================
 
-export type TrustTier = 'platinum' | 'gold' | 'silver' | 'grey' | 'red';
-
-export interface TrustProfile {
-  score: number;              // 0-100
-  tier: TrustTier;
-  multiplier: number;         // 0.0 - 1.0
-  nextTierAt: number;         // Score needed for next tier
-  history: TrustHistoryEntry[];
-}
-
-export interface TrustHistoryEntry {
-  date: number;
-  score: number;
-  tier: TrustTier;
-  event?: string;
-}
+export type { TrustTier, TrustProfile, TrustHistoryEntry } from '../../shared/trust';
 
 // ============================================
 // VERIFICATION PROTOCOL TYPES
@@ -107,12 +78,7 @@ export interface CongruencyResult {
   timestamp: number;
 }
 
-export type AttackType =
-  | 'shaker'
-  | 'gps_spoofing'
-  | 'replay'
-  | 'emulation'
-  | 'injection';
+export type { AttackType } from '../../shared/trust';
 
 export interface AttackDetectionResult {
   type: AttackType;
@@ -135,16 +101,24 @@ export interface PhysiologicalBaseline {
 // SESSION / TRANSACTION TYPES
 // ============================================
 
-export type HRZone = 'Z1' | 'Z2' | 'Z3' | 'Z4' | 'Z5';
+export type { HRZone } from '../../shared/wearable';
 
-export type GateType = 'auto' | 'confirm' | 'quarantine';
+export type { GateType } from '../../shared/score';
+
+export type { GateDecision, GateState } from '../../shared/gate';
+
+export type { AppealStatus, AppealSummary } from '../../shared/appeal';
+
+export type { ScsBreakdown, ScsComponent, ScsComponentId } from '../../shared/scs';
+
+export type { ProofVerification } from '../../shared/custody';
 
 export type SessionStatus = 'active' | 'candidate' | 'finalized';
 
 export type ProofStatus = 'verified' | 'failed' | 'pending';
 
 export interface SessionProof {
-  type: string;               // 'gps', 'wifi', 'device', 'liveness', 'nfc', 'congruency'
+  type: string;               // 'gps', 'wifi', 'device', 'liveness', 'nfc', 'congruency', 'wearable'
   status: ProofStatus;
   timestamp: number;
   details: string;
@@ -165,6 +139,7 @@ export interface VerifiedTransaction {
   type: string;               // Activity type name
   duration: number;           // Minutes
   zone: HRZone;
+  calories?: number;          // from the linked wearable workouts (live sessions)
   location: {
     name: string;
     coordinates?: [number, number];
@@ -172,11 +147,17 @@ export interface VerifiedTransaction {
   };
   scs: number;                // Session Confidence Score 0-1
   gate: GateType;
+  sessionId?: string;         // server session id (live sessions)
+  gateState?: GateState;      // live sessions: where the gate state machine stands
+  confirmBy?: number;         // set while the user is asked to confirm the visit
+  appealable?: boolean;       // quarantined and not yet appealed
+  appeal?: AppealSummary;
   pesDelta: number;
   status: SessionStatus;
   proofs: SessionProof[];
   chainOfCustody: CustodyEvent[];
-  merkleRoot: string;
+  merkleRoot?: string;        // live sessions: sealed at finalize, absent for older sessions
+  scsBreakdown?: ScsBreakdown;  // per-component SCS (live sessions)
   // Live session data (when active)
   liveSignals?: {
     heartRate?: number;
@@ -390,8 +371,6 @@ export interface TimeRange {
   label: string;
 }
 
-export type TimeRangePreset = '7d' | '30d' | '90d' | '1y' | 'all';
-
 export interface FilterOptions {
   gates?: GateType[];
   activityTypes?: string[];